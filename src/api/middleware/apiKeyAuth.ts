@@ -0,0 +1,83 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { apiKeyService, ApiKeyRecord, ApiKeyScope } from '@/services/security/api-keys';
+import { logger } from '@/utils/logger';
+
+const API_KEY_HEADER = 'X-API-Key';
+
+/**
+ * Look up the request's `X-API-Key` once; the rate limiter and route guards share the result
+ */
+export function authenticateApiKey(req: Request, res: Response): Promise<ApiKeyRecord | null> {
+  if (!res.locals.apiKeyLookup) {
+    const presented = req.get(API_KEY_HEADER);
+    res.locals.apiKeyLookup = presented ? apiKeyService.authenticate(presented) : Promise.resolve(null);
+  }
+  return res.locals.apiKeyLookup;
+}
+
+/**
+ * Write an audit row once the response is sent, so the final status code is recorded
+ */
+function auditOnFinish(req: Request, res: Response, getRecord: () => ApiKeyRecord | null): void {
+  res.on('finish', () => {
+    const record = getRecord();
+    apiKeyService.recordAudit({
+      apiKeyId: record?.id ?? null,
+      keyId: record?.keyId ?? null,
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      statusCode: res.statusCode,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      params: { params: req.params, query: req.query, body: req.body },
+    }).catch(error => logger.error('Failed to write admin audit log:', error));
+  });
+}
+
+/**
+ * Require an API key (`X-API-Key` header) granting the given scope.
+ *
+ * Every request to an admin-scoped route is audit-logged, including rejected ones.
+ * The authenticated key is exposed as `res.locals.apiKey`.
+ */
+export function requireApiKey(scope: ApiKeyScope): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    let record: ApiKeyRecord | null = null;
+    if (scope === 'admin') {
+      auditOnFinish(req, res, () => record);
+    }
+
+    try {
+      record = await authenticateApiKey(req, res);
+
+      if (!record) {
+        res.status(401).json({
+          success: false,
+          error: 'Valid API key required',
+          timestamp: Date.now(),
+        });
+        return;
+      }
+
+      if (!apiKeyService.hasScope(record, scope)) {
+        logger.warn(`API key ${record.keyId} denied ${req.method} ${req.originalUrl}: requires ${scope} scope`);
+        res.status(403).json({
+          success: false,
+          error: `API key lacks the ${scope} scope`,
+          timestamp: Date.now(),
+        });
+        return;
+      }
+
+      res.locals.apiKey = record;
+      next();
+    } catch (error) {
+      logger.error('Failed to authenticate API key:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to authenticate request',
+        timestamp: Date.now(),
+      });
+    }
+  };
+}
@@ -0,0 +1,68 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { RateLimitBudgetName } from '@/config/exchanges';
+import { rateLimiter, RateLimitResult } from '@/services/security/rate-limiter';
+import { authenticateApiKey } from './apiKeyAuth';
+import { getWalletSession } from './walletAuth';
+import { logger } from '@/utils/logger';
+
+/**
+ * Identify the client a request is charged to: its API key, then its wallet
+ * session, then its IP. Unverifiable credentials fall back to the IP, so
+ * presenting random keys can't be used to dodge the limit. Lookups are shared
+ * with the auth guards, so a request verifies its credentials at most once.
+ */
+async function resolveClientKey(req: Request, res: Response): Promise<string> {
+  if (res.locals.apiKey) {
+    return `key:${res.locals.apiKey.keyId}`;
+  }
+  if (res.locals.walletAddress) {
+    return `wallet:${res.locals.walletAddress}`;
+  }
+
+  try {
+    const record = await authenticateApiKey(req, res);
+    if (record) {
+      return `key:${record.keyId}`;
+    }
+
+    const session = await getWalletSession(req, res);
+    if (session) {
+      return `wallet:${session.walletAddress}`;
+    }
+  } catch (error) {
+    logger.debug('Failed to resolve rate limit identity, using IP:', error);
+  }
+
+  return `ip:${req.ip}`;
+}
+
+function setRateLimitHeaders(res: Response, result: RateLimitResult): void {
+  res.setHeader('RateLimit-Limit', result.limit);
+  res.setHeader('RateLimit-Remaining', result.remaining);
+  res.setHeader('RateLimit-Reset', Math.max(Math.ceil((result.resetAt - Date.now()) / 1000), 0));
+}
+
+/**
+ * Enforce a sliding-window budget from `rateLimitBudgets`, setting the standard
+ * `RateLimit-*` headers and `Retry-After` on 429 responses
+ */
+export function rateLimit(budget: RateLimitBudgetName): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const clientKey = await resolveClientKey(req, res);
+    const result = await rateLimiter.consume(budget, clientKey);
+    setRateLimitHeaders(res, result);
+
+    if (!result.allowed) {
+      logger.warn(`Rate limit (${budget}) exceeded for ${clientKey} on ${req.method} ${req.path}`);
+      res.setHeader('Retry-After', Math.max(Math.ceil((result.resetAt - Date.now()) / 1000), 1));
+      res.status(429).json({
+        success: false,
+        error: 'Too many requests, please try again later.',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    next();
+  };
+}
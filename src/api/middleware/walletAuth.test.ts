@@ -0,0 +1,70 @@
+jest.mock('@/config/database', () => ({ database: { query: jest.fn().mockResolvedValue({ rows: [] }) } }));
+jest.mock('@/services/auth/siwe', () => ({ siweAuth: { getSession: jest.fn().mockResolvedValue(null) } }));
+
+import { Request, Response } from 'express';
+import { apiKeyService, ApiKeyRecord, ApiKeyScope } from '@/services/security/api-keys';
+import { requireWalletOrApiKey, walletFromParams } from './walletAuth';
+
+const OWNER = '0xabcdefabcdefabcdefabcdefabcdefabcdef1111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+
+function apiKey(scopes: ApiKeyScope[], walletAddress: string | null): ApiKeyRecord {
+  return {
+    id: 1,
+    keyId: 'abcdefabcdef',
+    name: 'test',
+    scopes,
+    walletAddress,
+    createdAt: 0,
+    expiresAt: null,
+    lastUsedAt: null,
+    revokedAt: null,
+  };
+}
+
+async function readOrders(record: ApiKeyRecord, walletAddress: string): Promise<{ status: number; next: boolean }> {
+  jest.spyOn(apiKeyService, 'authenticate').mockResolvedValue(record);
+
+  const req = {
+    params: { walletAddress },
+    method: 'GET',
+    originalUrl: `/api/orders/${walletAddress}`,
+    get: (header: string) => (header === 'X-API-Key' ? 'hdx_key' : undefined),
+  } as unknown as Request;
+  const res = { statusCode: 200, locals: {} } as any;
+  res.status = jest.fn((code: number) => { res.statusCode = code; return res; });
+  res.json = jest.fn(() => res);
+  const next = jest.fn();
+
+  await requireWalletOrApiKey(walletFromParams, 'trade')(req, res as Response, next);
+  // The wallet check runs after the key lookup resolves
+  await new Promise(setImmediate);
+  return { status: res.statusCode, next: next.mock.calls.length > 0 };
+}
+
+describe('requireWalletOrApiKey', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('accepts a trade key for its own wallet, in any case', async () => {
+    await expect(readOrders(apiKey(['trade'], OWNER), `0x${OWNER.slice(2).toUpperCase()}`))
+      .resolves.toEqual({ status: 200, next: true });
+  });
+
+  it("refuses a trade key for another wallet's orders", async () => {
+    await expect(readOrders(apiKey(['trade'], OWNER), OTHER)).resolves.toEqual({ status: 403, next: false });
+  });
+
+  it('refuses a trade key bound to no wallet', async () => {
+    await expect(readOrders(apiKey(['trade'], null), OWNER)).resolves.toEqual({ status: 403, next: false });
+  });
+
+  it('lets an admin key read any wallet', async () => {
+    await expect(readOrders(apiKey(['admin'], null), OTHER)).resolves.toEqual({ status: 200, next: true });
+  });
+
+  it('still requires the route scope from a wallet-bound key', async () => {
+    await expect(readOrders(apiKey(['read'], OWNER), OWNER)).resolves.toEqual({ status: 403, next: false });
+  });
+});
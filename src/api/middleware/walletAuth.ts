@@ -0,0 +1,109 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { siweAuth, WalletSession } from '@/services/auth/siwe';
+import { apiKeyService } from '@/services/security/api-keys';
+import type { ApiKeyRecord, ApiKeyScope } from '@/services/security/api-keys';
+import { requireApiKey } from './apiKeyAuth';
+import { logger } from '@/utils/logger';
+
+type WalletResolver = (req: Request) => string | undefined;
+
+export const walletFromParams: WalletResolver = (req) => req.params.walletAddress;
+export const walletFromBody: WalletResolver = (req) => req.body?.walletAddress;
+export const walletFromBodyOrQuery: WalletResolver = (req) =>
+  req.body?.walletAddress || (req.query.walletAddress as string | undefined);
+
+export function getBearerToken(req: Request): string | null {
+  const header = req.get('Authorization');
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+  return header.slice('Bearer '.length).trim() || null;
+}
+
+/**
+ * Look up the request's bearer session once; the rate limiter and route guards share the result
+ */
+export function getWalletSession(req: Request, res: Response): Promise<WalletSession | null> {
+  if (!res.locals.sessionLookup) {
+    const token = getBearerToken(req);
+    res.locals.sessionLookup = token ? siweAuth.getSession(token) : Promise.resolve(null);
+  }
+  return res.locals.sessionLookup;
+}
+
+/**
+ * Require a SIWE session token. When a resolver is given, the wallet it reads
+ * from the request must be the session's wallet.
+ *
+ * The authenticated wallet is exposed as `res.locals.walletAddress`.
+ */
+export function requireWalletAuth(resolveWallet?: WalletResolver): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const session = await getWalletSession(req, res);
+
+      if (!session) {
+        res.status(401).json({
+          success: false,
+          error: 'Valid wallet session required',
+          timestamp: Date.now(),
+        });
+        return;
+      }
+
+      if (resolveWallet) {
+        const walletAddress = resolveWallet(req);
+        if (!walletAddress || walletAddress.toLowerCase() !== session.walletAddress) {
+          res.status(403).json({
+            success: false,
+            error: 'Session wallet does not match the requested wallet',
+            timestamp: Date.now(),
+          });
+          return;
+        }
+      }
+
+      res.locals.walletAddress = session.walletAddress;
+      next();
+    } catch (error) {
+      logger.error('Failed to authenticate wallet session:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to authenticate request',
+        timestamp: Date.now(),
+      });
+    }
+  };
+}
+
+/**
+ * Require either a SIWE session for the requested wallet or, for service clients,
+ * an API key (`X-API-Key`) granting the given scope that is bound to the requested
+ * wallet (or has the admin scope). A presented API key is checked on its own and
+ * never falls back to the session.
+ */
+export function requireWalletOrApiKey(resolveWallet: WalletResolver, scope: ApiKeyScope): RequestHandler {
+  const walletAuth = requireWalletAuth(resolveWallet);
+  const apiKeyAuth = requireApiKey(scope);
+
+  const checkKeyWallet = (req: Request, res: Response, next: NextFunction): void => {
+    const record: ApiKeyRecord = res.locals.apiKey;
+    const walletAddress = resolveWallet(req);
+    if (!walletAddress || !apiKeyService.canAccessWallet(record, walletAddress)) {
+      logger.warn(`API key ${record.keyId} denied ${req.method} ${req.originalUrl}: not bound to the requested wallet`);
+      res.status(403).json({
+        success: false,
+        error: 'API key is not authorized for the requested wallet',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    next();
+  };
+
+  return (req: Request, res: Response, next: NextFunction) =>
+    req.get('X-API-Key')
+      ? apiKeyAuth(req, res, () => checkKeyWallet(req, res, next))
+      : walletAuth(req, res, next);
+}
@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
 import { redisClient } from '@/config/redis';
 import { logger } from '@/utils/logger';
+import { aggregationProcessor } from '@/services/processors/aggregation';
+import { AggregatedCandle } from '@/services/processors/aggregated-charts';
+import { parseInterval } from '@/utils/timeframes';
+import { CANDLE_FILL_MODES, fillCandleGaps } from '@/utils/candleGaps';
+import { CandleFillMode } from '@/types';
 
 /**
  * GET /api/aggregated/book
@@ -39,7 +44,9 @@ export async function getAggregatedBook(req: Request, res: Response): Promise<vo
 
 /**
  * GET /api/aggregated/candles
- * Get cached aggregated candles from Redis
+ * Get cached aggregated candles from Redis.
+ * `fill=previous` adds flat zero-volume bars (`synthetic: true`) for intervals without trades;
+ * the completeness counts are returned in X-Candles-* headers since the body is a bare bar array.
  */
 export async function getAggregatedCandles(req: Request, res: Response): Promise<void> {
   try {
@@ -48,6 +55,26 @@ export async function getAggregatedCandles(req: Request, res: Response): Promise
     const from = req.query.from ? parseInt(req.query.from as string) : undefined;
     const to = req.query.to ? parseInt(req.query.to as string) : undefined;
     const limit = req.query.limit ? parseInt(req.query.limit as string) : 1500;
+    const fill = (req.query.fill as string || 'none') as CandleFillMode;
+
+    if (!CANDLE_FILL_MODES.includes(fill)) {
+      res.status(400).json({
+        success: false,
+        error: `fill must be one of: ${CANDLE_FILL_MODES.join(', ')}`,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const spec = parseInterval(interval);
+    if (fill !== 'none' && !spec) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid interval: ${interval}`,
+        timestamp: Date.now(),
+      });
+      return;
+    }
 
     const cacheKey = `agg:candles:${symbol}:${interval}:history`;
     const cached = await redisClient.get(cacheKey);
@@ -61,7 +88,8 @@ export async function getAggregatedCandles(req: Request, res: Response): Promise
       return;
     }
 
-    let candles = JSON.parse(cached);
+    const history: AggregatedCandle[] = JSON.parse(cached);
+    let candles = history;
 
     // Filter by time range
     if (from !== undefined || to !== undefined) {
@@ -72,6 +100,44 @@ export async function getAggregatedCandles(req: Request, res: Response): Promise
       });
     }
 
+    if (fill !== 'none' && spec && history.length > 0) {
+      // Only the newest `limit` slots are returned, so fill no further back than that
+      const end = Math.min(to !== undefined ? to * 1000 : Date.now(), Date.now());
+      const start = Math.max(
+        from !== undefined ? from * 1000 : history[0].timestamp,
+        end - (limit || candles.length) * spec.ms
+      );
+      const previous = history.filter((candle) => candle.timestamp < start).pop();
+
+      const filled = fillCandleGaps<AggregatedCandle>(candles, {
+        fill,
+        spec,
+        from: start,
+        to: end,
+        maxCandles: Number.MAX_SAFE_INTEGER,
+        previous,
+        createFill: (previous, timestamp) => ({
+          ...previous,
+          timestamp,
+          open: previous.close,
+          high: previous.close,
+          low: previous.close,
+          close: previous.close,
+          volume: 0,
+          quoteVolume: 0,
+          tradeCount: 0,
+          vwap: previous.close,
+          synthetic: true,
+        }),
+      });
+
+      candles = filled.candles;
+      res.setHeader('X-Candles-Expected', filled.completeness.expected);
+      res.setHeader('X-Candles-Actual', filled.completeness.actual);
+      res.setHeader('X-Candles-Filled', filled.completeness.filled);
+      res.setHeader('X-Candles-Missing', filled.completeness.missing);
+    }
+
     // Apply limit
     if (limit) {
       candles = candles.slice(-limit);
@@ -85,6 +151,7 @@ export async function getAggregatedCandles(req: Request, res: Response): Promise
       low: candle.low,
       close: candle.close,
       volume: candle.volume,
+      ...(fill !== 'none' && { synthetic: candle.synthetic === true }),
     }));
 
     // Return array directly for TradingView compatibility
@@ -101,11 +168,51 @@ export async function getAggregatedCandles(req: Request, res: Response): Promise
 
 /**
  * GET /api/aggregated/routing
- * Get smart routing recommendations from Redis cache
+ * Get smart routing recommendations from Redis cache.
+ * When `side` and `size` are given, returns a size-aware split across venues.
+ * `holdingHours` includes expected funding over the holding period in the decision.
  */
 export async function getAggregatedRouting(req: Request, res: Response): Promise<void> {
   try {
     const symbol = (req.query.symbol as string || 'BTC').toUpperCase();
+    const holdingHours = req.query.holdingHours !== undefined
+      ? parseFloat(req.query.holdingHours as string)
+      : 0;
+
+    if (isNaN(holdingHours) || holdingHours < 0) {
+      res.status(400).json({
+        success: false,
+        error: 'holdingHours must be a non-negative number',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    if (req.query.size !== undefined) {
+      await getSizedRouting(req, res, symbol, holdingHours);
+      return;
+    }
+
+    // Cached routing assumes an immediate round trip; recompute when funding matters
+    if (holdingHours > 0) {
+      const book = await aggregationProcessor.getCachedBook(symbol);
+      if (!book) {
+        res.status(404).json({
+          success: false,
+          error: `No aggregated orderbook found for ${symbol}`,
+          timestamp: Date.now(),
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: aggregationProcessor.calculateRouting(book, holdingHours),
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
     const cacheKey = `agg:routing:${symbol}`;
 
     const cached = await redisClient.get(cacheKey);
@@ -134,9 +241,59 @@ export async function getAggregatedRouting(req: Request, res: Response): Promise
   }
 }
 
+/**
+ * Walk the cached aggregated book for a specific order size
+ */
+async function getSizedRouting(
+  req: Request,
+  res: Response,
+  symbol: string,
+  holdingHours: number
+): Promise<void> {
+  const side = req.query.side as string;
+  const size = parseFloat(req.query.size as string);
+
+  if (side !== 'buy' && side !== 'sell') {
+    res.status(400).json({
+      success: false,
+      error: 'Side must be either "buy" or "sell"',
+      timestamp: Date.now(),
+    });
+    return;
+  }
+
+  if (isNaN(size) || size <= 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Size must be a positive number',
+      timestamp: Date.now(),
+    });
+    return;
+  }
+
+  const book = await aggregationProcessor.getCachedBook(symbol);
+  if (!book) {
+    res.status(404).json({
+      success: false,
+      error: `No aggregated orderbook found for ${symbol}`,
+      timestamp: Date.now(),
+    });
+    return;
+  }
+
+  const data = aggregationProcessor.calculateSizedRouting(book, side, size, holdingHours);
+
+  res.json({
+    success: true,
+    data,
+    timestamp: Date.now(),
+  });
+}
+
 /**
  * GET /api/aggregated/stream
- * SSE endpoint for real-time aggregated orderbook updates
+ * SSE endpoint for real-time aggregated orderbook updates (`book` events) and venue
+ * staleness transitions (`sourceStale` / `sourceRecovered` events)
  */
 export async function streamAggregatedBook(req: Request, res: Response): Promise<void> {
   const symbol = (req.query.symbol as string || 'BTC').toUpperCase();
@@ -169,8 +326,10 @@ export async function streamAggregatedBook(req: Request, res: Response): Promise
     if (chan === channel) {
       try {
         const msg = JSON.parse(message);
-        logger.debug(`[Aggregated SSE] Sending update for ${symbol}`);
-        res.write(`event: book\ndata: ${JSON.stringify(msg.data)}\n\n`);
+        // Books and sourceStale / sourceRecovered transitions share the channel
+        const event = msg.event || 'book';
+        logger.debug(`[Aggregated SSE] Sending ${event} for ${symbol}`);
+        res.write(`event: ${event}\ndata: ${JSON.stringify(msg.data)}\n\n`);
       } catch (err) {
         logger.error('[Aggregated SSE] Failed to parse message:', err);
       }
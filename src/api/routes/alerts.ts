@@ -0,0 +1,371 @@
+import type { Request, Response } from 'express';
+import { randomBytes } from 'crypto';
+import {
+  AlertService,
+  AlertRuleType,
+  AlertRuleUpdate,
+  AlertDeliveryStatus,
+  AlertPlatform,
+  ALERT_RULE_TYPES,
+} from '@/services/database/alertService';
+import { alertEvaluator } from '@/services/alerts/alertEvaluator';
+import { checkWebhookTarget } from '@/services/security/webhook-target';
+import { alertConfig } from '@/config/exchanges';
+import { config } from '@/config';
+import { logger } from '@/utils/logger';
+
+const ALERT_PLATFORMS: AlertPlatform[] = ['hyperliquid', 'aster', 'lighter', 'avantis'];
+const DELIVERY_STATUSES: AlertDeliveryStatus[] = ['pending', 'delivered', 'failed'];
+
+/**
+ * Validate rule fields present in a request body. Returns an error message, or null when valid.
+ */
+async function validateRuleFields(body: Record<string, unknown>, ruleType: AlertRuleType): Promise<string | null> {
+  if (body.threshold !== undefined) {
+    const threshold = Number(body.threshold);
+    if (body.threshold === '' || !isFinite(threshold)) {
+      return 'threshold must be a number';
+    }
+    if (ruleType === 'liquidation_distance' && (threshold <= 0 || threshold > 100)) {
+      return 'threshold for liquidation_distance must be a percent between 0 and 100';
+    }
+    if (ruleType === 'unrealized_loss' && threshold <= 0) {
+      return 'threshold for unrealized_loss must be a positive amount';
+    }
+  }
+
+  if (body.platform !== undefined && body.platform !== null && !ALERT_PLATFORMS.includes(body.platform as AlertPlatform)) {
+    return `platform must be one of: ${ALERT_PLATFORMS.join(', ')}`;
+  }
+  if (body.symbol !== undefined && body.symbol !== null && (typeof body.symbol !== 'string' || !body.symbol)) {
+    return 'symbol must be a non-empty string';
+  }
+
+  if (body.webhookUrl !== undefined) {
+    let url: URL;
+    try {
+      url = new URL(body.webhookUrl as string);
+    } catch {
+      return 'webhookUrl must be a valid URL';
+    }
+    // Plain http is only allowed outside production, for local receivers
+    const allowed = config.server.nodeEnv === 'production' ? ['https:'] : ['https:', 'http:'];
+    if (!allowed.includes(url.protocol)) {
+      return `webhookUrl must use ${allowed.join(' or ').replace(/:/g, '')}`;
+    }
+
+    try {
+      const refused = await checkWebhookTarget(url.toString());
+      if (refused) {
+        return refused;
+      }
+    } catch {
+      return 'webhookUrl host could not be resolved';
+    }
+  }
+
+  if (body.cooldownMs !== undefined && (!Number.isInteger(body.cooldownMs) || (body.cooldownMs as number) < 0)) {
+    return 'cooldownMs must be a non-negative integer';
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+
+  return null;
+}
+
+/**
+ * Pick up rule changes without waiting for the evaluator's refresh interval
+ */
+function reloadRules(): void {
+  alertEvaluator.reloadRules().catch((error) => {
+    logger.error('Failed to reload alert rules:', error);
+  });
+}
+
+/**
+ * GET /api/positions/:walletAddress/alerts
+ * List a wallet's alert rules
+ */
+export async function getAlertRules(req: Request, res: Response): Promise<void> {
+  try {
+    const { walletAddress } = req.params;
+
+    const rules = await AlertService.getWalletRules(walletAddress);
+
+    res.json({
+      success: true,
+      data: {
+        walletAddress,
+        rules,
+        count: rules.length,
+      },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Failed to fetch alert rules:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch alert rules',
+      timestamp: Date.now(),
+    });
+  }
+}
+
+/**
+ * POST /api/positions/:walletAddress/alerts
+ * Create an alert rule. The webhook signing secret is only returned in this response.
+ */
+export async function createAlertRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { walletAddress } = req.params;
+    const body = (req.body || {}) as Record<string, unknown>;
+    const ruleType = body.ruleType as AlertRuleType;
+
+    if (!ALERT_RULE_TYPES.includes(ruleType)) {
+      res.status(400).json({
+        success: false,
+        error: `ruleType must be one of: ${ALERT_RULE_TYPES.join(', ')}`,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    if (body.threshold === undefined || body.webhookUrl === undefined) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing required fields: threshold, webhookUrl',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const validationError = await validateRuleFields(body, ruleType);
+    if (validationError) {
+      res.status(400).json({
+        success: false,
+        error: validationError,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const ruleCount = await AlertService.countWalletRules(walletAddress);
+    if (ruleCount >= alertConfig.maxRulesPerWallet) {
+      res.status(409).json({
+        success: false,
+        error: `A wallet can have at most ${alertConfig.maxRulesPerWallet} alert rules`,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const webhookSecret = randomBytes(32).toString('hex');
+    const rule = await AlertService.createRule({
+      walletAddress,
+      ruleType,
+      threshold: Number(body.threshold).toString(),
+      platform: (body.platform as AlertPlatform | null) || undefined,
+      symbol: body.symbol ? (body.symbol as string).toUpperCase() : undefined,
+      webhookUrl: body.webhookUrl as string,
+      webhookSecret,
+      cooldownMs: (body.cooldownMs as number | undefined) ?? alertConfig.defaultCooldownMs,
+      enabled: (body.enabled as boolean | undefined) ?? true,
+    });
+    reloadRules();
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...rule,
+        webhookSecret,
+      },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Failed to create alert rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create alert rule',
+      timestamp: Date.now(),
+    });
+  }
+}
+
+/**
+ * PUT /api/positions/:walletAddress/alerts/:ruleId
+ * Update an alert rule's threshold, scope, webhook, cooldown or enabled flag
+ */
+export async function updateAlertRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { walletAddress } = req.params;
+    const ruleId = parseInt(req.params.ruleId);
+    const body = (req.body || {}) as Record<string, unknown>;
+
+    if (isNaN(ruleId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid rule ID',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    // Threshold bounds depend on the rule type, which can't be changed
+    const existing = (await AlertService.getWalletRules(walletAddress)).find((rule) => rule.id === ruleId);
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'Alert rule not found',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const validationError = await validateRuleFields(body, existing.ruleType);
+    if (validationError) {
+      res.status(400).json({
+        success: false,
+        error: validationError,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const updates: AlertRuleUpdate = {
+      threshold: body.threshold !== undefined ? Number(body.threshold).toString() : undefined,
+      platform: body.platform as AlertPlatform | null | undefined,
+      symbol: typeof body.symbol === 'string' ? body.symbol.toUpperCase() : (body.symbol as null | undefined),
+      webhookUrl: body.webhookUrl as string | undefined,
+      cooldownMs: body.cooldownMs as number | undefined,
+      enabled: body.enabled as boolean | undefined,
+    };
+
+    const rule = await AlertService.updateRule(ruleId, walletAddress, updates);
+    if (!rule) {
+      res.status(404).json({
+        success: false,
+        error: 'Alert rule not found',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+    reloadRules();
+
+    res.json({
+      success: true,
+      data: rule,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Failed to update alert rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update alert rule',
+      timestamp: Date.now(),
+    });
+  }
+}
+
+/**
+ * DELETE /api/positions/:walletAddress/alerts/:ruleId
+ * Delete an alert rule and its delivery log
+ */
+export async function deleteAlertRule(req: Request, res: Response): Promise<void> {
+  try {
+    const { walletAddress } = req.params;
+    const ruleId = parseInt(req.params.ruleId);
+
+    if (isNaN(ruleId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid rule ID',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const deleted = await AlertService.deleteRule(ruleId, walletAddress);
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: 'Alert rule not found',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+    reloadRules();
+
+    res.json({
+      success: true,
+      data: { id: ruleId, deleted: true },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Failed to delete alert rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete alert rule',
+      timestamp: Date.now(),
+    });
+  }
+}
+
+/**
+ * GET /api/positions/:walletAddress/alerts/deliveries
+ * Page through a wallet's webhook delivery log, newest first
+ *
+ * Query: limit (max 200), before (delivery id cursor), ruleId, status
+ */
+export async function getAlertDeliveries(req: Request, res: Response): Promise<void> {
+  try {
+    const { walletAddress } = req.params;
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const before = req.query.before !== undefined ? parseInt(req.query.before as string) : undefined;
+    const ruleId = req.query.ruleId !== undefined ? parseInt(req.query.ruleId as string) : undefined;
+    if ((before !== undefined && isNaN(before)) || (ruleId !== undefined && isNaN(ruleId))) {
+      res.status(400).json({
+        success: false,
+        error: 'before and ruleId must be numeric ids',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const status = req.query.status as AlertDeliveryStatus | undefined;
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: `status must be one of: ${DELIVERY_STATUSES.join(', ')}`,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const { deliveries, nextCursor } = await AlertService.getWalletDeliveries(walletAddress, {
+      limit,
+      before,
+      ruleId,
+      status,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        walletAddress,
+        deliveries,
+        count: deliveries.length,
+        nextCursor,
+      },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Failed to fetch alert deliveries:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch alert deliveries',
+      timestamp: Date.now(),
+    });
+  }
+}
@@ -0,0 +1,130 @@
+import { Request, Response } from 'express';
+import Redis from 'ioredis';
+import { redisClient } from '@/config/redis';
+import { logger } from '@/utils/logger';
+import { arbitrageDetector } from '@/services/processors/arbitrage';
+
+/**
+ * GET /api/arbitrage/opportunities
+ * Get currently open cross-venue opportunities from Redis cache
+ */
+export async function getArbitrageOpportunities(req: Request, res: Response): Promise<void> {
+  try {
+    const symbol = (req.query.symbol as string || 'BTC').toUpperCase();
+
+    const cached = await redisClient.get(`arb:open:${symbol}`);
+    const data = cached ? JSON.parse(cached) : [];
+
+    res.json({
+      success: true,
+      data,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Error fetching arbitrage opportunities:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch arbitrage opportunities',
+      timestamp: Date.now(),
+    });
+  }
+}
+
+/**
+ * GET /api/arbitrage/history
+ * Get recorded opportunities from the database, open ones included
+ */
+export async function getArbitrageHistory(req: Request, res: Response): Promise<void> {
+  try {
+    const symbol = (req.query.symbol as string || 'BTC').toUpperCase();
+    const from = req.query.from !== undefined ? parseInt(req.query.from as string) : undefined;
+    const to = req.query.to !== undefined ? parseInt(req.query.to as string) : undefined;
+    if ((from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to))) {
+      res.status(400).json({
+        success: false,
+        error: 'from and to must be millisecond timestamps',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+
+    const data = await arbitrageDetector.getHistory(symbol, from, to, limit);
+
+    res.json({
+      success: true,
+      data,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Error fetching arbitrage history:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch arbitrage history',
+      timestamp: Date.now(),
+    });
+  }
+}
+
+/**
+ * GET /api/arbitrage/stream
+ * SSE endpoint for real-time arbitrage opportunity updates
+ */
+export async function streamArbitrage(req: Request, res: Response): Promise<void> {
+  const symbol = (req.query.symbol as string || 'BTC').toUpperCase();
+  const channel = `arbitrage:${symbol}`;
+
+  logger.info(`[Arbitrage SSE] Client connecting to ${channel}`);
+
+  // Set SSE headers
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  // Send connected event
+  res.write(`event: connected\ndata: ${JSON.stringify({ channel, symbol, timestamp: Date.now() })}\n\n`);
+
+  // Create a dedicated Redis subscriber for this SSE connection
+  const subscriber = new Redis({
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379'),
+    password: process.env.REDIS_PASSWORD,
+    lazyConnect: true,
+  });
+
+  await subscriber.connect();
+
+  const messageHandler = (chan: string, message: string) => {
+    if (chan === channel) {
+      try {
+        const msg = JSON.parse(message);
+        res.write(`event: opportunity\ndata: ${JSON.stringify(msg.data)}\n\n`);
+      } catch (err) {
+        logger.error('[Arbitrage SSE] Failed to parse message:', err);
+      }
+    }
+  };
+
+  subscriber.on('message', messageHandler);
+
+  try {
+    await subscriber.subscribe(channel);
+    logger.info(`[Arbitrage SSE] Subscribed to ${channel}`);
+  } catch (err) {
+    logger.error(`[Arbitrage SSE] Failed to subscribe to ${channel}:`, err);
+    res.write(`event: error\ndata: ${JSON.stringify({ message: 'Failed to subscribe' })}\n\n`);
+    subscriber.disconnect();
+    res.end();
+    return;
+  }
+
+  // Cleanup on client disconnect
+  req.on('close', () => {
+    logger.info(`[Arbitrage SSE] Client disconnected from ${channel}`);
+    subscriber.unsubscribe(channel);
+    subscriber.disconnect();
+  });
+}
@@ -0,0 +1,111 @@
+import type { Request, Response } from 'express';
+import { siweAuth, AuthError } from '@/services/auth/siwe';
+import { getBearerToken } from '@/api/middleware/walletAuth';
+import { logger } from '@/utils/logger';
+
+/**
+ * GET /api/auth/nonce
+ * Issue a single-use nonce to embed in a Sign-In-With-Ethereum message
+ */
+export async function getNonce(req: Request, res: Response): Promise<void> {
+  try {
+    const walletAddress = req.query.walletAddress as string | undefined;
+
+    if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid wallet address format',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const data = await siweAuth.createNonce(walletAddress);
+
+    res.json({
+      success: true,
+      data,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Failed to issue SIWE nonce:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to issue nonce',
+      timestamp: Date.now(),
+    });
+  }
+}
+
+/**
+ * POST /api/auth/verify
+ * Verify a signed SIWE message and return a session token
+ */
+export async function verifySignature(req: Request, res: Response): Promise<void> {
+  try {
+    const { message, signature } = req.body;
+
+    if (typeof message !== 'string' || typeof signature !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'message and signature are required',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const { token, session } = await siweAuth.verify(message, signature);
+
+    res.json({
+      success: true,
+      data: {
+        token,
+        walletAddress: session.walletAddress,
+        expiresAt: session.expiresAt,
+      },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    logger.error('Failed to verify SIWE signature:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify signature',
+      timestamp: Date.now(),
+    });
+  }
+}
+
+/**
+ * DELETE /api/auth/session
+ * Revoke the bearer session token
+ */
+export async function revokeSession(req: Request, res: Response): Promise<void> {
+  try {
+    const token = getBearerToken(req);
+    if (token) {
+      await siweAuth.revokeSession(token);
+    }
+
+    res.json({
+      success: true,
+      data: { message: 'Session revoked' },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Failed to revoke session:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke session',
+      timestamp: Date.now(),
+    });
+  }
+}
@@ -1,8 +1,25 @@
 import { Request, Response } from 'express';
 import { chartProcessor } from '@/services/processors/charts';
 import { chartCache } from '@/services/cache/charts';
+import { indicatorProcessor } from '@/services/processors/indicators';
+import { candleBackfill } from '@/services/backfill/candleBackfill';
+import { BACKFILL_TIMEFRAMES } from '@/services/backfill/klineSources';
+import { supportedSymbols, backfillConfig } from '@/config/exchanges';
 import { logger } from '@/utils/logger';
-import { ApiResponse, Timeframe } from '@/types';
+import { parseInterval } from '@/utils/timeframes';
+import { CANDLE_FILL_MODES, fillCandleGaps } from '@/utils/candleGaps';
+import {
+  ApiResponse,
+  Candle,
+  CandleFillMode,
+  ChartIndicator,
+  ChartMetrics,
+  ResampledCandle,
+  Timeframe,
+} from '@/types';
+
+const CHART_INDICATORS: ChartIndicator[] = ['sma', 'ema', 'rsi', 'macd', 'bb'];
+const BACKFILL_EXCHANGES = ['hyperliquid', 'aster', 'lighter', 'avantis'] as const;
 
 export async function getCandles(req: Request, res: Response): Promise<void> {
   try {
@@ -12,7 +29,8 @@ export async function getCandles(req: Request, res: Response): Promise<void> {
       timeframe = '1h',
       from,
       to,
-      limit = 1000
+      limit = 1000,
+      fill = 'none'
     } = req.query;
 
     if (!symbol) {
@@ -33,10 +51,12 @@ export async function getCandles(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    if (!['1s', '1m', '5m', '15m', '1h', '4h', '1d'].includes(timeframe as string)) {
+    // Stored timeframes, or any interval resampled from them (3m, 30m, 2h, 1w, ...)
+    const interval = parseInterval(timeframe as string);
+    if (!interval) {
       res.status(400).json({
         success: false,
-        error: 'Timeframe must be one of: 1s, 1m, 5m, 15m, 1h, 4h, 1d',
+        error: 'Timeframe must be an interval such as 1m, 3m, 15m, 2h, 1d or 1w',
         timestamp: Date.now(),
       } as ApiResponse);
       return;
@@ -52,6 +72,15 @@ export async function getCandles(req: Request, res: Response): Promise<void> {
       return;
     }
 
+    if (!CANDLE_FILL_MODES.includes(fill as CandleFillMode)) {
+      res.status(400).json({
+        success: false,
+        error: `fill must be one of: ${CANDLE_FILL_MODES.join(', ')}`,
+        timestamp: Date.now(),
+      } as ApiResponse);
+      return;
+    }
+
     // Calculate time range
     const now = Date.now();
     const toTime = to ? parseInt(to as string, 10) : now;
@@ -70,24 +99,52 @@ export async function getCandles(req: Request, res: Response): Promise<void> {
     const candles = await chartProcessor.getCandles(
       symbol,
       exchange as 'hyperliquid' | 'aster' | 'lighter',
-      timeframe as Timeframe,
+      interval.interval,
       fromTime,
       toTime,
       limitNum
     );
 
+    // Carry the last close before the range into its leading empty slots
+    const previous = fill === 'previous'
+      ? await chartProcessor.getCandleBefore(
+        symbol,
+        exchange as 'hyperliquid' | 'aster' | 'lighter',
+        interval.interval,
+        fromTime
+      )
+      : null;
+
+    // A full page ends at its last candle; otherwise slots run up to the forming interval
+    const fullPage = candles.length === limitNum;
+    const filled = fillCandleGaps(candles, {
+      fill: fill as CandleFillMode,
+      spec: interval,
+      from: fromTime,
+      to: fullPage ? candles[candles.length - 1].timestamp : Math.min(toTime, now),
+      maxCandles: limitNum,
+      previous,
+      createFill: createSyntheticCandle,
+    });
+
+    // Synthetic bars can use up the limit before the last real candle; the page then
+    // ends at its last returned bar and the next one starts after it
+    const hasMore = fullPage || filled.truncated;
+    const pageTo = filled.truncated ? filled.candles[filled.candles.length - 1].timestamp : toTime;
+
     const response = {
       success: true,
       data: {
         symbol,
         exchange,
-        timeframe: timeframe as Timeframe,
-        candles,
+        timeframe: interval.interval,
+        candles: filled.candles,
         from: fromTime,
-        to: toTime,
+        to: pageTo,
         limit: limitNum,
-        count: candles.length,
-        hasMore: candles.length === limitNum,
+        count: filled.candles.length,
+        hasMore,
+        completeness: filled.completeness,
       },
       timestamp: Date.now(),
     } as ApiResponse;
@@ -103,6 +160,27 @@ export async function getCandles(req: Request, res: Response): Promise<void> {
   }
 }
 
+/**
+ * Flat zero-volume candle at the previous close
+ */
+function createSyntheticCandle<T extends Candle | ResampledCandle>(previous: T, timestamp: number): T {
+  return {
+    ...previous,
+    timestamp,
+    open: previous.close,
+    high: previous.close,
+    low: previous.close,
+    close: previous.close,
+    volume: '0',
+    quoteVolume: '0',
+    tradeCount: 0,
+    vwap: previous.close,
+    priceChange: '0',
+    priceChangePercent: '0',
+    synthetic: true,
+  };
+}
+
 export async function getLatestCandle(req: Request, res: Response): Promise<void> {
   try {
     const { symbol } = req.params;
@@ -178,6 +256,110 @@ export async function getLatestCandle(req: Request, res: Response): Promise<void
   }
 }
 
+/**
+ * GET /api/charts/:symbol/metrics
+ * Technical indicators for a series, including the forming candle
+ *
+ * Query: exchange, timeframe, indicators (comma-separated subset of sma, ema, rsi, macd, bb; default all)
+ */
+export async function getChartMetrics(req: Request, res: Response): Promise<void> {
+  try {
+    const { symbol } = req.params;
+    const { exchange = 'hyperliquid', timeframe = '1h', indicators } = req.query;
+
+    if (!symbol) {
+      res.status(400).json({
+        success: false,
+        error: 'Symbol is required',
+        timestamp: Date.now(),
+      } as ApiResponse);
+      return;
+    }
+
+    // Every series gets indicator state, so only markets we track can create one
+    const upperSymbol = symbol.toUpperCase();
+    if (!supportedSymbols.includes(upperSymbol)) {
+      res.status(400).json({
+        success: false,
+        error: `Symbol must be one of: ${supportedSymbols.join(', ')}`,
+        timestamp: Date.now(),
+      } as ApiResponse);
+      return;
+    }
+
+    if (exchange !== 'hyperliquid' && exchange !== 'aster' && exchange !== 'lighter') {
+      res.status(400).json({
+        success: false,
+        error: 'Exchange must be either "hyperliquid", "aster", or "lighter"',
+        timestamp: Date.now(),
+      } as ApiResponse);
+      return;
+    }
+
+    if (!['1s', '1m', '5m', '15m', '1h', '4h', '1d'].includes(timeframe as string)) {
+      res.status(400).json({
+        success: false,
+        error: 'Timeframe must be one of: 1s, 1m, 5m, 15m, 1h, 4h, 1d',
+        timestamp: Date.now(),
+      } as ApiResponse);
+      return;
+    }
+
+    const requested = indicators
+      ? (indicators as string).split(',').map((name) => name.trim().toLowerCase()) as ChartIndicator[]
+      : CHART_INDICATORS;
+    if (!requested.every((name) => CHART_INDICATORS.includes(name))) {
+      res.status(400).json({
+        success: false,
+        error: `Indicators must be a comma-separated list of: ${CHART_INDICATORS.join(', ')}`,
+        timestamp: Date.now(),
+      } as ApiResponse);
+      return;
+    }
+
+    const metrics = await indicatorProcessor.getMetrics(
+      upperSymbol,
+      exchange as 'hyperliquid' | 'aster' | 'lighter',
+      timeframe as Timeframe
+    );
+
+    if (!metrics) {
+      res.status(404).json({
+        success: false,
+        error: 'No candle data found',
+        timestamp: Date.now(),
+      } as ApiResponse);
+      return;
+    }
+
+    const response = {
+      success: true,
+      data: {
+        ...metrics,
+        movingAverages: {
+          sma: requested.includes('sma') ? metrics.movingAverages.sma : {},
+          ema: requested.includes('ema') ? metrics.movingAverages.ema : {},
+        },
+        indicators: {
+          ...(requested.includes('rsi') && metrics.indicators.rsi ? { rsi: metrics.indicators.rsi } : {}),
+          ...(requested.includes('macd') && metrics.indicators.macd ? { macd: metrics.indicators.macd } : {}),
+          ...(requested.includes('bb') && metrics.indicators.bollinger ? { bollinger: metrics.indicators.bollinger } : {}),
+        },
+      } as ChartMetrics,
+      timestamp: Date.now(),
+    } as ApiResponse;
+
+    res.json(response);
+  } catch (error) {
+    logger.error('Error in getChartMetrics:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: Date.now(),
+    } as ApiResponse);
+  }
+}
+
 export async function getCurrentCandles(req: Request, res: Response): Promise<void> {
   try {
     const { exchange } = req.query;
@@ -311,4 +493,135 @@ export async function getChartStats(req: Request, res: Response): Promise<void>
       timestamp: Date.now(),
     } as ApiResponse);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * POST /api/charts/backfill
+ * Queue a historical candle backfill (admin)
+ *
+ * Body: symbols, exchanges, timeframes (arrays, default all streamed), lookbackCandles
+ */
+export async function startCandleBackfill(req: Request, res: Response): Promise<void> {
+  try {
+    const {
+      symbols = supportedSymbols,
+      exchanges = ['hyperliquid', 'aster', 'lighter'],
+      timeframes = BACKFILL_TIMEFRAMES,
+      lookbackCandles = backfillConfig.lookbackCandles,
+    } = req.body || {};
+
+    if (!Array.isArray(symbols) || symbols.length === 0 || !symbols.every((symbol) => typeof symbol === 'string' && symbol)) {
+      res.status(400).json({
+        success: false,
+        error: 'symbols must be a non-empty array of symbols',
+        timestamp: Date.now(),
+      } as ApiResponse);
+      return;
+    }
+
+    if (!Array.isArray(exchanges) || exchanges.length === 0 || !exchanges.every((exchange) => BACKFILL_EXCHANGES.includes(exchange))) {
+      res.status(400).json({
+        success: false,
+        error: `exchanges must be a non-empty array of: ${BACKFILL_EXCHANGES.join(', ')}`,
+        timestamp: Date.now(),
+      } as ApiResponse);
+      return;
+    }
+
+    if (!Array.isArray(timeframes) || timeframes.length === 0 || !timeframes.every((timeframe) => BACKFILL_TIMEFRAMES.includes(timeframe))) {
+      res.status(400).json({
+        success: false,
+        error: `timeframes must be a non-empty array of: ${BACKFILL_TIMEFRAMES.join(', ')}`,
+        timestamp: Date.now(),
+      } as ApiResponse);
+      return;
+    }
+
+    if (!Number.isInteger(lookbackCandles) || lookbackCandles < 1 || lookbackCandles > 10000) {
+      res.status(400).json({
+        success: false,
+        error: 'lookbackCandles must be between 1 and 10000',
+        timestamp: Date.now(),
+      } as ApiResponse);
+      return;
+    }
+
+    const job = candleBackfill.enqueue({
+      symbols: (symbols as string[]).map((symbol) => symbol.toUpperCase()),
+      exchanges,
+      timeframes,
+      lookbackCandles,
+    });
+
+    res.status(202).json({
+      success: true,
+      data: job,
+      timestamp: Date.now(),
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Error in startCandleBackfill:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: Date.now(),
+    } as ApiResponse);
+  }
+}
+
+/**
+ * GET /api/charts/backfill
+ * Recent backfill jobs with their progress (admin)
+ */
+export async function getCandleBackfillJobs(req: Request, res: Response): Promise<void> {
+  try {
+    const jobs = candleBackfill.getJobs();
+
+    res.json({
+      success: true,
+      data: {
+        jobs,
+        count: jobs.length,
+      },
+      timestamp: Date.now(),
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Error in getCandleBackfillJobs:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: Date.now(),
+    } as ApiResponse);
+  }
+}
+
+/**
+ * GET /api/charts/backfill/:jobId
+ * Progress of one backfill job (admin)
+ */
+export async function getCandleBackfillJob(req: Request, res: Response): Promise<void> {
+  try {
+    const job = candleBackfill.getJob(req.params.jobId);
+
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        error: 'Backfill job not found',
+        timestamp: Date.now(),
+      } as ApiResponse);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: job,
+      timestamp: Date.now(),
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Error in getCandleBackfillJob:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: Date.now(),
+    } as ApiResponse);
+  }
+}
@@ -0,0 +1,178 @@
+import type { Request, Response } from 'express';
+import { storeAsterCredentials, deleteAsterCredentials } from '@/services/adapters/aster';
+import { storeLighterCredentials, deleteLighterCredentials } from '@/services/adapters/lighter/lighter-credentials';
+import { derivePublicKey, SCALAR_LENGTH } from '@/services/adapters/lighter/lighter-schnorr';
+import { logger } from '@/utils/logger';
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function stripHexPrefix(value: string): string {
+  return value.trim().replace(/^0x/i, '').toLowerCase();
+}
+
+/**
+ * PUT /api/credentials/:walletAddress/aster
+ * Store the wallet's Aster API key and secret. The secret is encrypted at rest
+ * and never returned.
+ *
+ * Body: { apiKey, apiSecret }
+ */
+export async function putAsterCredentials(req: Request, res: Response): Promise<void> {
+  try {
+    const { walletAddress } = req.params;
+    const { apiKey, apiSecret } = (req.body || {}) as Record<string, unknown>;
+
+    if (!isNonEmptyString(apiKey) || !isNonEmptyString(apiSecret)) {
+      res.status(400).json({
+        success: false,
+        error: 'apiKey and apiSecret are required',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    await storeAsterCredentials(walletAddress, { apiKey: apiKey.trim(), apiSecret: apiSecret.trim() });
+
+    res.json({
+      success: true,
+      data: { walletAddress: walletAddress.toLowerCase(), exchange: 'aster', apiKey: apiKey.trim() },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Error storing Aster credentials:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to store Aster credentials',
+      timestamp: Date.now(),
+    });
+  }
+}
+
+/**
+ * DELETE /api/credentials/:walletAddress/aster
+ */
+export async function removeAsterCredentials(req: Request, res: Response): Promise<void> {
+  try {
+    await deleteAsterCredentials(req.params.walletAddress);
+
+    res.json({
+      success: true,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Error deleting Aster credentials:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete Aster credentials',
+      timestamp: Date.now(),
+    });
+  }
+}
+
+/**
+ * PUT /api/credentials/:walletAddress/lighter
+ * Store the wallet's Lighter API key. The private key is encrypted at rest and
+ * never returned.
+ *
+ * Body: { accountIndex, apiKeyIndex, apiKeyPrivate, apiKeyPublic }
+ */
+export async function putLighterCredentials(req: Request, res: Response): Promise<void> {
+  try {
+    const { walletAddress } = req.params;
+    const { accountIndex, apiKeyIndex, apiKeyPrivate, apiKeyPublic } = (req.body || {}) as Record<string, unknown>;
+
+    if (!Number.isInteger(accountIndex) || (accountIndex as number) < 0) {
+      res.status(400).json({
+        success: false,
+        error: 'accountIndex must be a non-negative integer',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+    // 0 and 1 are reserved for Lighter's desktop and mobile apps
+    if (!Number.isInteger(apiKeyIndex) || (apiKeyIndex as number) < 2 || (apiKeyIndex as number) > 254) {
+      res.status(400).json({
+        success: false,
+        error: 'apiKeyIndex must be an integer between 2 and 254',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+    if (!isNonEmptyString(apiKeyPrivate) || !isNonEmptyString(apiKeyPublic)) {
+      res.status(400).json({
+        success: false,
+        error: 'apiKeyPrivate and apiKeyPublic are required',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+    const privateKeyHex = stripHexPrefix(apiKeyPrivate);
+    if (!new RegExp(`^[0-9a-f]{${SCALAR_LENGTH * 2}}$`).test(privateKeyHex)) {
+      res.status(400).json({
+        success: false,
+        error: `apiKeyPrivate must be ${SCALAR_LENGTH} bytes of hex`,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+    // Lighter rejects signatures from a key that does not match the registered public key
+    if (Buffer.from(derivePublicKey(Buffer.from(privateKeyHex, 'hex'))).toString('hex') !== stripHexPrefix(apiKeyPublic)) {
+      res.status(400).json({
+        success: false,
+        error: 'apiKeyPublic does not match apiKeyPrivate',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    await storeLighterCredentials({
+      walletAddress,
+      accountIndex: accountIndex as number,
+      apiKeyIndex: apiKeyIndex as number,
+      apiKeyPrivate: apiKeyPrivate.trim(),
+      apiKeyPublic: apiKeyPublic.trim(),
+    });
+
+    res.json({
+      success: true,
+      data: {
+        walletAddress: walletAddress.toLowerCase(),
+        exchange: 'lighter',
+        accountIndex,
+        apiKeyIndex,
+        apiKeyPublic: apiKeyPublic.trim(),
+      },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Error storing Lighter credentials:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to store Lighter credentials',
+      timestamp: Date.now(),
+    });
+  }
+}
+
+/**
+ * DELETE /api/credentials/:walletAddress/lighter
+ */
+export async function removeLighterCredentials(req: Request, res: Response): Promise<void> {
+  try {
+    await deleteLighterCredentials(req.params.walletAddress);
+
+    res.json({
+      success: true,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Error deleting Lighter credentials:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete Lighter credentials',
+      timestamp: Date.now(),
+    });
+  }
+}
@@ -254,4 +254,42 @@ export async function getCachedOrderbooks(req: Request, res: Response): Promise<
       timestamp: Date.now(),
     } as ApiResponse);
   }
-}
\ No newline at end of file
+}
+/**
+ * GET /api/orderbook/sequence
+ * Sequence gap counters and book validity per exchange:symbol
+ */
+export async function getOrderbookSequenceStats(req: Request, res: Response): Promise<void> {
+  try {
+    const symbol = req.query.symbol ? (req.query.symbol as string).toUpperCase() : undefined;
+    const exchange = req.query.exchange as 'hyperliquid' | 'aster' | 'lighter' | 'avantis' | undefined;
+
+    if (exchange && !['hyperliquid', 'aster', 'lighter', 'avantis'].includes(exchange)) {
+      res.status(400).json({
+        success: false,
+        error: 'Exchange must be one of "hyperliquid", "aster", "lighter" or "avantis"',
+        timestamp: Date.now(),
+      } as ApiResponse);
+      return;
+    }
+
+    const stats = orderbookProcessor.getSequenceReport(symbol, exchange);
+
+    res.json({
+      success: true,
+      data: {
+        stats,
+        totalGaps: stats.reduce((sum, s) => sum + s.gaps, 0),
+        invalid: stats.filter(s => !s.valid).map(s => `${s.exchange}:${s.symbol}`),
+      },
+      timestamp: Date.now(),
+    } as ApiResponse);
+  } catch (error) {
+    logger.error('Error in getOrderbookSequenceStats:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      timestamp: Date.now(),
+    } as ApiResponse);
+  }
+}
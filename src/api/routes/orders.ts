@@ -0,0 +1,315 @@
+import type { Request, Response } from 'express';
+import {
+  getTradingAdapter,
+  isTradingPlatform,
+  routedOrderExecutor,
+  TRADING_PLATFORMS,
+  TradingError,
+  PlaceOrderRequest,
+  NormalizedOrder,
+  TradingPlatform,
+} from '@/services/trading';
+import { logger } from '@/utils/logger';
+
+const WALLET_ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+const DECIMAL_REGEX = /^\d+(\.\d+)?$/;
+const ORDER_TYPES = ['market', 'limit'];
+const TIME_IN_FORCE = ['GTC', 'IOC', 'POST_ONLY'];
+
+function sendInvalidRequest(res: Response, error: string): void {
+  res.status(400).json({
+    success: false,
+    error,
+    code: 'INVALID_REQUEST',
+    timestamp: Date.now(),
+  });
+}
+
+function sendError(res: Response, error: unknown, fallbackMessage: string): void {
+  if (error instanceof TradingError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+      timestamp: Date.now(),
+    });
+    return;
+  }
+
+  logger.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallbackMessage,
+    code: 'INTERNAL_ERROR',
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Validate an order body, returning an error message or null
+ */
+function validatePlaceOrder(body: any): string | null {
+  if (!body.walletAddress || !WALLET_ADDRESS_REGEX.test(body.walletAddress)) {
+    return 'Invalid wallet address format';
+  }
+  if (!isTradingPlatform(body.platform)) {
+    return `platform must be one of: ${TRADING_PLATFORMS.join(', ')}`;
+  }
+  if (!body.symbol || typeof body.symbol !== 'string') {
+    return 'symbol is required';
+  }
+  if (body.side !== 'buy' && body.side !== 'sell') {
+    return 'side must be "buy" or "sell"';
+  }
+  if (!ORDER_TYPES.includes(body.type)) {
+    return `type must be one of: ${ORDER_TYPES.join(', ')}`;
+  }
+  if (typeof body.size !== 'string' || !DECIMAL_REGEX.test(body.size) || parseFloat(body.size) <= 0) {
+    return 'size must be a positive decimal string';
+  }
+  if (body.price !== undefined && (typeof body.price !== 'string' || !DECIMAL_REGEX.test(body.price) || parseFloat(body.price) <= 0)) {
+    return 'price must be a positive decimal string';
+  }
+  if (body.type === 'limit' && body.price === undefined) {
+    return 'price is required for limit orders';
+  }
+  if (body.timeInForce !== undefined && !TIME_IN_FORCE.includes(body.timeInForce)) {
+    return `timeInForce must be one of: ${TIME_IN_FORCE.join(', ')}`;
+  }
+  if (body.type === 'market' && body.timeInForce !== undefined && body.timeInForce !== 'IOC') {
+    return 'market orders only support IOC time-in-force';
+  }
+  if (body.reduceOnly !== undefined && typeof body.reduceOnly !== 'boolean') {
+    return 'reduceOnly must be a boolean';
+  }
+  return null;
+}
+
+/**
+ * POST /api/orders
+ * Place an order on any supported venue
+ */
+export async function placeOrder(req: Request, res: Response): Promise<void> {
+  try {
+    const validationError = validatePlaceOrder(req.body);
+    if (validationError) {
+      sendInvalidRequest(res, validationError);
+      return;
+    }
+
+    const request: PlaceOrderRequest = {
+      walletAddress: req.body.walletAddress,
+      platform: req.body.platform,
+      symbol: req.body.symbol.toUpperCase(),
+      side: req.body.side,
+      type: req.body.type,
+      size: req.body.size,
+      price: req.body.price,
+      timeInForce: req.body.timeInForce,
+      reduceOnly: req.body.reduceOnly,
+      clientOrderId: req.body.clientOrderId !== undefined ? String(req.body.clientOrderId) : undefined,
+      signedAction: req.body.signedAction,
+    };
+
+    const result = await getTradingAdapter(request.platform).placeOrder(request);
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to place order');
+  }
+}
+
+/**
+ * POST /api/orders/routed
+ * Split a parent order across venues using the live aggregated book and
+ * return a consolidated execution report.
+ *
+ * `signedActions.hyperliquid` is an optional wallet-signed IOC order for part of
+ * the parent; it is placed as signed and the rest is split across server-signed venues.
+ * An order that fills nothing is an error (422 if no venue accepted a child, else 502)
+ * with the execution report still in `data`.
+ */
+export async function placeRoutedOrder(req: Request, res: Response): Promise<void> {
+  try {
+    const { walletAddress, symbol, side, size, holdingHours, maxSlippageBps, platforms, signedActions } = req.body;
+
+    if (!walletAddress || !WALLET_ADDRESS_REGEX.test(walletAddress)) {
+      sendInvalidRequest(res, 'Invalid wallet address format');
+      return;
+    }
+    if (!symbol || typeof symbol !== 'string') {
+      sendInvalidRequest(res, 'symbol is required');
+      return;
+    }
+    if (side !== 'buy' && side !== 'sell') {
+      sendInvalidRequest(res, 'side must be "buy" or "sell"');
+      return;
+    }
+    const parsedSize = parseFloat(size);
+    if (!Number.isFinite(parsedSize) || parsedSize <= 0) {
+      sendInvalidRequest(res, 'size must be a positive number');
+      return;
+    }
+    if (holdingHours !== undefined && (typeof holdingHours !== 'number' || holdingHours < 0)) {
+      sendInvalidRequest(res, 'holdingHours must be a non-negative number');
+      return;
+    }
+    if (maxSlippageBps !== undefined && (typeof maxSlippageBps !== 'number' || maxSlippageBps < 0 || maxSlippageBps > 1000)) {
+      sendInvalidRequest(res, 'maxSlippageBps must be between 0 and 1000');
+      return;
+    }
+    if (platforms !== undefined && (!Array.isArray(platforms) || !platforms.every(isTradingPlatform))) {
+      sendInvalidRequest(res, `platforms must be a list of: ${TRADING_PLATFORMS.join(', ')}`);
+      return;
+    }
+
+    const report = await routedOrderExecutor.execute({
+      walletAddress,
+      symbol,
+      side,
+      size: parsedSize,
+      holdingHours,
+      maxSlippageBps,
+      platforms,
+      signedActions,
+    });
+
+    if (report.status === 'failed') {
+      // Nothing filled: a rejection if no venue accepted a child order, otherwise the venues failed it
+      const accepted = report.children.some(child => child.orderId !== null);
+      const error = accepted
+        ? new TradingError('VENUE_UNAVAILABLE', 'Routed order was not filled')
+        : new TradingError('ORDER_REJECTED', 'No child order was accepted');
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        data: report,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: report,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to execute routed order');
+  }
+}
+
+/**
+ * DELETE /api/orders/:id
+ * Cancel an order. walletAddress, platform and symbol come from the body or query string.
+ */
+export async function cancelOrder(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const walletAddress = (req.body?.walletAddress || req.query.walletAddress) as string | undefined;
+    const platform = req.body?.platform || req.query.platform;
+    const symbol = (req.body?.symbol || req.query.symbol) as string | undefined;
+
+    if (!walletAddress || !WALLET_ADDRESS_REGEX.test(walletAddress)) {
+      sendInvalidRequest(res, 'Invalid wallet address format');
+      return;
+    }
+    if (!isTradingPlatform(platform)) {
+      sendInvalidRequest(res, `platform must be one of: ${TRADING_PLATFORMS.join(', ')}`);
+      return;
+    }
+    if (!symbol) {
+      sendInvalidRequest(res, 'symbol is required');
+      return;
+    }
+
+    const result = await getTradingAdapter(platform).cancelOrder({
+      walletAddress,
+      platform,
+      symbol: symbol.toUpperCase(),
+      orderId: id,
+      signedAction: req.body?.signedAction,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to cancel order');
+  }
+}
+
+/**
+ * GET /api/orders/:walletAddress
+ * Get normalized open orders across venues. Requires the wallet's session or a
+ * trade-scoped API key. Venues without credentials or API order support are
+ * reported in `skipped` rather than failing the request.
+ */
+export async function getOrders(req: Request, res: Response): Promise<void> {
+  try {
+    const { walletAddress } = req.params;
+    const platformFilter = req.query.platform as string | undefined;
+
+    if (!walletAddress || !WALLET_ADDRESS_REGEX.test(walletAddress)) {
+      sendInvalidRequest(res, 'Invalid wallet address format');
+      return;
+    }
+    if (platformFilter !== undefined && !isTradingPlatform(platformFilter)) {
+      sendInvalidRequest(res, `platform must be one of: ${TRADING_PLATFORMS.join(', ')}`);
+      return;
+    }
+
+    const platforms: TradingPlatform[] = platformFilter ? [platformFilter as TradingPlatform] : TRADING_PLATFORMS;
+    const orders: NormalizedOrder[] = [];
+    const skipped: Array<{ platform: TradingPlatform; code: string; error: string }> = [];
+
+    const results = await Promise.allSettled(
+      platforms.map((platform) => getTradingAdapter(platform).getOpenOrders(walletAddress))
+    );
+
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        orders.push(...result.value);
+        return;
+      }
+
+      const error = result.reason;
+      if (error instanceof TradingError) {
+        skipped.push({ platform: platforms[i], code: error.code, error: error.message });
+      } else {
+        logger.error(`Failed to fetch ${platforms[i]} open orders:`, error);
+        skipped.push({ platform: platforms[i], code: 'VENUE_UNAVAILABLE', error: 'Failed to fetch open orders' });
+      }
+    });
+
+    // A single-venue request surfaces the venue error directly
+    if (platformFilter && skipped.length > 0) {
+      const error = results[0].status === 'rejected' ? results[0].reason : null;
+      sendError(res, error, 'Failed to fetch orders');
+      return;
+    }
+
+    orders.sort((a, b) => b.timestamp - a.timestamp);
+
+    res.json({
+      success: true,
+      data: {
+        walletAddress,
+        platform: platformFilter || 'all',
+        orders,
+        count: orders.length,
+        skipped,
+      },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch orders');
+  }
+}
@@ -0,0 +1,105 @@
+import type { Request, Response } from 'express';
+import { EquitySnapshotService } from '@/services/database/equitySnapshotService';
+import { portfolioConfig } from '@/config/exchanges';
+import { logger } from '@/utils/logger';
+
+const RESOLUTIONS: Record<string, number> = {
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000,
+};
+
+const DEFAULT_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+const TARGET_POINTS = 500;
+
+/**
+ * Pick the finest resolution that keeps the curve around TARGET_POINTS points
+ */
+function autoResolution(rangeMs: number): string {
+  const entries = Object.entries(RESOLUTIONS);
+  const match = entries.find(([, ms]) =>
+    ms >= portfolioConfig.equitySnapshotIntervalMs && rangeMs / ms <= TARGET_POINTS
+  );
+  return match ? match[0] : entries[entries.length - 1][0];
+}
+
+/**
+ * GET /api/portfolio/:walletAddress/equity
+ * Get a wallet's equity curve and drawdown stats
+ *
+ * Query: from, to (ms timestamps, default last 30 days), resolution (5m, 15m, 1h, 4h, 1d, 1w)
+ */
+export async function getEquityCurve(req: Request, res: Response): Promise<void> {
+  try {
+    const { walletAddress } = req.params;
+
+    if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid wallet address format',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const to = req.query.to !== undefined ? parseInt(req.query.to as string) : Date.now();
+    const from = req.query.from !== undefined ? parseInt(req.query.from as string) : to - DEFAULT_RANGE_MS;
+
+    if (isNaN(from) || isNaN(to) || from >= to) {
+      res.status(400).json({
+        success: false,
+        error: 'from and to must be millisecond timestamps with from < to',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const resolution = (req.query.resolution as string | undefined) || autoResolution(to - from);
+    if (!RESOLUTIONS[resolution]) {
+      res.status(400).json({
+        success: false,
+        error: `resolution must be one of: ${Object.keys(RESOLUTIONS).join(', ')}`,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const snapshots = await EquitySnapshotService.getSnapshots(
+      walletAddress,
+      from,
+      to,
+      RESOLUTIONS[resolution]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        walletAddress,
+        from,
+        to,
+        resolution,
+        points: snapshots.map((s) => ({
+          timestamp: s.timestamp,
+          equity: s.equity,
+          marginUsed: s.marginUsed,
+          unrealizedPnl: s.unrealizedPnl,
+          realizedPnl: s.realizedPnl,
+          openPositions: s.openPositions,
+          platforms: s.platforms,
+        })),
+        stats: EquitySnapshotService.calculateStats(snapshots),
+      },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Failed to fetch equity curve:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch equity curve',
+      timestamp: Date.now(),
+    });
+  }
+}
@@ -1,6 +1,14 @@
 import type { Request, Response } from 'express';
 import { PositionService } from '@/services/database/positionService';
+import {
+  PositionEventService,
+  PositionEventType,
+  POSITION_EVENT_TYPES,
+} from '@/services/database/positionEventService';
 import { positionSyncOrchestrator, Platform } from '@/services/sync/positionSyncOrchestrator';
+import { userStreamManager } from '@/services/userStreams/userStreamManager';
+import { valuationEngine } from '@/services/processors/valuation';
+import { LivePositionStream } from '@/services/streams/livePositions';
 import { logger } from '@/utils/logger';
 
 /**
@@ -89,6 +97,76 @@ export async function getPositionSummary(req: Request, res: Response): Promise<v
   }
 }
 
+/**
+ * GET /api/positions/:walletAddress/events
+ * Page through a wallet's position lifecycle events, newest first
+ *
+ * Query: limit (default 50, max 200), before (event id cursor), platform, symbol, type (comma-separated)
+ */
+export async function getPositionEvents(req: Request, res: Response): Promise<void> {
+  try {
+    const { walletAddress } = req.params;
+
+    if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid wallet address format',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const before = req.query.before !== undefined ? parseInt(req.query.before as string) : undefined;
+    if (before !== undefined && isNaN(before)) {
+      res.status(400).json({
+        success: false,
+        error: 'before must be an event id',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const eventTypes = req.query.type
+      ? (req.query.type as string).split(',') as PositionEventType[]
+      : undefined;
+    if (eventTypes && !eventTypes.every((type) => POSITION_EVENT_TYPES.includes(type))) {
+      res.status(400).json({
+        success: false,
+        error: `type must be a comma-separated list of: ${POSITION_EVENT_TYPES.join(', ')}`,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const { events, nextCursor } = await PositionEventService.getWalletEvents(walletAddress, {
+      limit,
+      before,
+      platform: req.query.platform as string | undefined,
+      symbol: req.query.symbol ? (req.query.symbol as string).toUpperCase() : undefined,
+      eventTypes,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        walletAddress,
+        events,
+        count: events.length,
+        nextCursor,
+      },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Failed to fetch position events:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch position events',
+      timestamp: Date.now(),
+    });
+  }
+}
+
 /**
  * GET /api/positions/:walletAddress/:symbol
  * Get positions for a specific symbol
@@ -131,6 +209,58 @@ export async function getPositionsBySymbol(req: Request, res: Response): Promise
   }
 }
 
+/**
+ * GET /api/positions/:walletAddress/stream
+ * SSE endpoint pushing the wallet's open positions, marked to the live orderbook mid
+ *
+ * Requires the wallet's own SIWE session (Authorization header), so use a fetch-based
+ * SSE client rather than EventSource.
+ */
+export async function streamPositions(req: Request, res: Response): Promise<void> {
+  const { walletAddress } = req.params;
+
+  logger.info(`[Positions SSE] Client connecting for ${walletAddress}`);
+
+  // Set SSE headers
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+
+  // Send connected event
+  res.write(`event: connected\ndata: ${JSON.stringify({ walletAddress, timestamp: Date.now() })}\n\n`);
+
+  const stream = new LivePositionStream(walletAddress);
+  stream.on('positions', (snapshot) => {
+    res.write(`event: positions\ndata: ${JSON.stringify(snapshot)}\n\n`);
+  });
+  stream.on('error', () => {
+    res.write(`event: error\ndata: ${JSON.stringify({ message: 'Failed to load positions' })}\n\n`);
+  });
+
+  // Comment lines keep proxies from closing the stream while no position is open
+  const keepalive = setInterval(() => {
+    res.write(': keepalive\n\n');
+  }, 25000);
+
+  // Cleanup on client disconnect
+  req.on('close', () => {
+    logger.info(`[Positions SSE] Client disconnected for ${walletAddress}`);
+    clearInterval(keepalive);
+    stream.stop();
+  });
+
+  try {
+    await stream.start();
+  } catch (err) {
+    logger.error(`[Positions SSE] Failed to start stream for ${walletAddress}:`, err);
+    res.write(`event: error\ndata: ${JSON.stringify({ message: 'Failed to subscribe' })}\n\n`);
+    clearInterval(keepalive);
+    stream.stop();
+    res.end();
+  }
+}
+
 /**
  * POST /api/positions/:walletAddress/sync
  * Trigger position sync for a wallet
@@ -149,10 +279,10 @@ export async function syncPositions(req: Request, res: Response): Promise<void>
       return;
     }
 
-    if (!['hyperliquid', 'aster', 'avantis', 'all'].includes(platform)) {
+    if (!['hyperliquid', 'aster', 'avantis', 'lighter', 'all'].includes(platform)) {
       res.status(400).json({
         success: false,
-        error: 'Invalid platform. Must be: hyperliquid, aster, avantis, or all',
+        error: 'Invalid platform. Must be: hyperliquid, aster, avantis, lighter, or all',
         timestamp: Date.now(),
       });
       return;
@@ -337,7 +467,11 @@ export async function getSyncStatus(req: Request, res: Response): Promise<void>
 
     res.json({
       success: true,
-      data: status,
+      data: {
+        ...status,
+        userStreams: userStreamManager.getStatus(),
+        valuation: valuationEngine.getStatus(),
+      },
       timestamp: Date.now(),
     });
   } catch (error) {
@@ -0,0 +1,143 @@
+jest.mock('@/services/processors/charts', () => ({
+  chartProcessor: {
+    getTimeframes: jest.fn(() => ['1m', '5m', '15m', '1h', '4h', '1d']),
+    getCandles: jest.fn(),
+    getCandleBefore: jest.fn(),
+  },
+}));
+jest.mock('@/services/processors/aggregated-charts', () => ({
+  aggregatedChartProcessor: { getHistory: jest.fn() },
+}));
+jest.mock('@/services/database/symbolService', () => ({
+  SymbolService: { getSymbols: jest.fn().mockResolvedValue([]) },
+}));
+
+import { Request, Response } from 'express';
+import { chartProcessor } from '@/services/processors/charts';
+import { getUdfHistory, getUdfSymbol } from './udf';
+
+const getCandles = chartProcessor.getCandles as jest.Mock;
+const getCandleBefore = chartProcessor.getCandleBefore as jest.Mock;
+
+async function call(
+  handler: (req: Request, res: Response) => Promise<void>,
+  query: Record<string, string>
+): Promise<{ status: number; body: any }> {
+  const res = { statusCode: 200, body: undefined as any } as any;
+  res.status = jest.fn((code: number) => { res.statusCode = code; return res; });
+  res.json = jest.fn((body: unknown) => { res.body = body; return res; });
+
+  await handler({ query } as unknown as Request, res as Response);
+  return { status: res.statusCode, body: res.body };
+}
+
+function candle(timestamp: number) {
+  return { timestamp, open: '1', high: '2', low: '0.5', close: '1.5', volume: '10' };
+}
+
+describe('UDF ticker parsing', () => {
+  it('resolves a ticker to its symbol and source', async () => {
+    const { status, body } = await call(getUdfSymbol, { symbol: 'btc:hyperliquid' });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ name: 'BTC:hyperliquid', exchange: 'hyperliquid' });
+  });
+
+  it.each([
+    'BTC',
+    'BTC:',
+    ':hyperliquid',
+    'BTC:binance',
+    'DOGE:hyperliquid',
+    'BTC:constructor',
+    'BTC:toString',
+    'BTC:__proto__',
+    'BTC:hasOwnProperty',
+    'hyperliquid:BTC:junk',
+    'BTC:hyperliquid:junk',
+  ])('rejects %s', async (symbol) => {
+    const { status, body } = await call(getUdfSymbol, { symbol });
+
+    expect(status).toBe(404);
+    expect(body).toEqual({ s: 'error', errmsg: 'Unknown symbol' });
+  });
+});
+
+describe('UDF history', () => {
+  beforeEach(() => {
+    getCandles.mockReset().mockResolvedValue([]);
+    getCandleBefore.mockReset().mockResolvedValue(null);
+  });
+
+  it.each([
+    ['1', '1m'],
+    ['3', '3m'],
+    ['60', '1h'],
+    ['120', '2h'],
+    ['1440', '1d'],
+    ['1D', '1d'],
+    ['1W', '1w'],
+  ])('maps resolution %s to the %s interval', async (resolution, interval) => {
+    getCandles.mockResolvedValue([candle(3_600_000)]);
+
+    const { body } = await call(getUdfHistory, { symbol: 'BTC:aster', resolution, from: '0', to: '7200' });
+
+    expect(body.s).toBe('ok');
+    expect(getCandles.mock.calls[0][2]).toBe(interval);
+  });
+
+  it.each(['1M', '12M', 'abc', '1H'])('rejects resolution %s', async (resolution) => {
+    const { status, body } = await call(getUdfHistory, { symbol: 'BTC:aster', resolution, from: '0', to: '60' });
+
+    expect(status).toBe(400);
+    expect(body.errmsg).toBe('Unsupported resolution');
+  });
+
+  it('requires a resolution', async () => {
+    const { status, body } = await call(getUdfHistory, { symbol: 'BTC:aster', from: '0', to: '60' });
+
+    expect(status).toBe(400);
+    expect(body).toEqual({ s: 'error', errmsg: 'resolution is required' });
+    expect(getCandles).not.toHaveBeenCalled();
+  });
+
+  it('rejects a malformed ticker', async () => {
+    const { body } = await call(getUdfHistory, { symbol: 'BTC:aster:junk', resolution: '1', from: '0', to: '60' });
+
+    expect(body).toEqual({ s: 'error', errmsg: 'Unknown symbol' });
+  });
+
+  it('rejects a range that ends before it starts', async () => {
+    const { status } = await call(getUdfHistory, { symbol: 'BTC:aster', resolution: '1', from: '120', to: '60' });
+
+    expect(status).toBe(400);
+  });
+
+  it('returns bars in unix seconds', async () => {
+    getCandles.mockResolvedValue([candle(60_000), candle(120_000)]);
+
+    const { body } = await call(getUdfHistory, { symbol: 'BTC:aster', resolution: '1', from: '60', to: '180' });
+
+    expect(body).toEqual({ s: 'ok', t: [60, 120], o: [1, 1], h: [2, 2], l: [0.5, 0.5], c: [1.5, 1.5], v: [10, 10] });
+  });
+
+  it('points an empty range at the newest candle before it', async () => {
+    getCandleBefore.mockResolvedValue(candle(30 * 60_000));
+
+    const { body } = await call(getUdfHistory, {
+      symbol: 'BTC:lighter',
+      resolution: '5',
+      from: '7200',
+      to: '10800',
+    });
+
+    expect(getCandleBefore).toHaveBeenCalledWith('BTC', 'lighter', '5m', 7_200_000);
+    expect(body).toEqual({ s: 'no_data', nextTime: 1800 });
+  });
+
+  it('reports no data without nextTime when nothing is stored before the range', async () => {
+    const { body } = await call(getUdfHistory, { symbol: 'BTC:lighter', resolution: '5', from: '7200', to: '10800' });
+
+    expect(body).toEqual({ s: 'no_data' });
+  });
+});
@@ -0,0 +1,428 @@
+import { Request, Response } from 'express';
+import { chartProcessor } from '@/services/processors/charts';
+import { aggregatedChartProcessor } from '@/services/processors/aggregated-charts';
+import { SymbolService } from '@/services/database/symbolService';
+import { supportedSymbols } from '@/config/exchanges';
+import { logger } from '@/utils/logger';
+import { getSourceTimeframe, isStoredTimeframe, parseInterval } from '@/utils/timeframes';
+import { Candle, ChartInterval, Timeframe } from '@/types';
+import type { Symbol as MarketSymbol } from '@/types';
+
+/**
+ * TradingView UDF datafeed (https://www.tradingview.com/charting-library-docs/latest/connecting_data/UDF)
+ *
+ * Tickers are `<symbol>:<source>`, e.g. BTC:hyperliquid or BTC:aggregated. Exchange sources
+ * serve any resolution ChartProcessor can resample; aggregated ones only the timeframes
+ * built live. Responses follow the UDF shapes rather than the usual ApiResponse envelope.
+ */
+
+type UdfSource = Candle['exchange'] | 'aggregated';
+
+const UDF_SOURCES: Record<UdfSource, string> = {
+  hyperliquid: 'Hyperliquid',
+  aster: 'Aster',
+  lighter: 'Lighter',
+  avantis: 'Avantis',
+  aggregated: 'Aggregated',
+};
+
+// Resampled on the fly for exchange sources, in addition to the live timeframes
+const RESAMPLED_RESOLUTIONS = ['3', '30', '120', '1W'];
+
+// Most bars returned by one history request; TradingView pages further back on its own
+const MAX_HISTORY_BARS = 5000;
+
+const DEFAULT_PRICE_PRECISION = 2;
+const DEFAULT_SIZE_PRECISION = 3;
+const SYMBOL_CACHE_MS = 60 * 1000;
+
+let symbolCache: { symbols: Map<string, MarketSymbol>; loadedAt: number } | null = null;
+
+interface UdfBar {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Symbol metadata from the symbols table, refreshed at most once a minute
+ */
+async function getSymbolMetadata(): Promise<Map<string, MarketSymbol>> {
+  if (symbolCache && Date.now() - symbolCache.loadedAt < SYMBOL_CACHE_MS) {
+    return symbolCache.symbols;
+  }
+
+  try {
+    const symbols = await SymbolService.getSymbols();
+    symbolCache = {
+      symbols: new Map(symbols.map((symbol) => [symbol.name, symbol])),
+      loadedAt: Date.now(),
+    };
+  } catch (error) {
+    // Serve defaults (or the stale copy) rather than failing chart loads
+    logger.warn('Failed to load symbol metadata for UDF:', error);
+    symbolCache = { symbols: symbolCache?.symbols || new Map(), loadedAt: Date.now() };
+  }
+
+  return symbolCache.symbols;
+}
+
+/**
+ * `<symbol>:<source>` to its parts, or null for anything else (extra segments included)
+ */
+function parseTicker(ticker: string): { name: string; source: UdfSource } | null {
+  const parts = ticker.split(':');
+  if (parts.length !== 2) {
+    return null;
+  }
+
+  const [name, source] = parts;
+  if (!name || !source || !Object.prototype.hasOwnProperty.call(UDF_SOURCES, source)) {
+    return null;
+  }
+
+  const upper = name.toUpperCase();
+  if (!supportedSymbols.includes(upper)) {
+    return null;
+  }
+  return { name: upper, source: source as UdfSource };
+}
+
+/**
+ * TradingView resolution (1, 60, 1D, 1W, 1S, ...) to a chart interval. Months are unsupported.
+ */
+function resolutionToInterval(resolution: string): ChartInterval | null {
+  const match = /^(\d*)([SDW]?)$/i.exec(resolution);
+  // An empty resolution would otherwise match as 1 minute
+  if (!match || resolution === '') {
+    return null;
+  }
+
+  const count = match[1] ? parseInt(match[1], 10) : 1;
+  const unit = match[2].toUpperCase();
+  let interval: string;
+
+  if (unit === 'S') {
+    interval = `${count}s`;
+  } else if (unit === 'D') {
+    interval = `${count}d`;
+  } else if (unit === 'W') {
+    interval = `${count}w`;
+  } else if (count % 1440 === 0) {
+    interval = `${count / 1440}d`;
+  } else if (count % 60 === 0) {
+    interval = `${count / 60}h`;
+  } else {
+    interval = `${count}m`;
+  }
+
+  return parseInterval(interval)?.interval ?? null;
+}
+
+function intervalToResolution(interval: ChartInterval): string {
+  const count = parseInt(interval, 10);
+  const unit = interval.slice(-1);
+
+  switch (unit) {
+    case 's':
+      return `${count}S`;
+    case 'h':
+      return (count * 60).toString();
+    case 'd':
+      return `${count}D`;
+    case 'w':
+      return `${count}W`;
+    default:
+      return count.toString();
+  }
+}
+
+/**
+ * Aggregated history only exists for the live timeframes; exchange candles can also be
+ * read from storage or resampled
+ */
+function canServe(source: UdfSource, interval: ChartInterval): boolean {
+  const live = chartProcessor.getTimeframes();
+  if (source === 'aggregated') {
+    return live.includes(interval as Timeframe);
+  }
+
+  const spec = parseInterval(interval);
+  return isStoredTimeframe(interval) || (spec !== null && getSourceTimeframe(spec, live) !== null);
+}
+
+/**
+ * Resolutions a source lists, shortest first
+ */
+function getSupportedResolutions(source: UdfSource): string[] {
+  const live = chartProcessor.getTimeframes();
+  const resolutions = live.map(intervalToResolution);
+
+  if (source !== 'aggregated') {
+    for (const resolution of RESAMPLED_RESOLUTIONS) {
+      const spec = parseInterval(resolutionToInterval(resolution) || '');
+      if (spec && getSourceTimeframe(spec, live) && !resolutions.includes(resolution)) {
+        resolutions.push(resolution);
+      }
+    }
+  }
+
+  const toMs = (resolution: string) => parseInterval(resolutionToInterval(resolution) || '')?.ms ?? 0;
+  return resolutions.sort((a, b) => toMs(a) - toMs(b));
+}
+
+function buildSymbolInfo(name: string, source: UdfSource, metadata?: MarketSymbol) {
+  const ticker = `${name}:${source}`;
+  const resolutions = getSupportedResolutions(source);
+  const quoteAsset = metadata?.quoteAsset || 'USD';
+
+  return {
+    name: ticker,
+    ticker,
+    full_name: ticker,
+    description: `${metadata?.baseAsset || name}/${quoteAsset} perpetual (${UDF_SOURCES[source]})`,
+    type: 'crypto',
+    // Perpetuals trade around the clock
+    session: '24x7',
+    timezone: 'Etc/UTC',
+    exchange: source,
+    listed_exchange: source,
+    format: 'price',
+    minmov: 1,
+    pricescale: Math.pow(10, metadata?.pricePrecision ?? DEFAULT_PRICE_PRECISION),
+    volume_precision: metadata?.sizePrecision ?? DEFAULT_SIZE_PRECISION,
+    has_intraday: true,
+    has_seconds: resolutions.some((resolution) => resolution.endsWith('S')),
+    has_daily: resolutions.some((resolution) => resolution.endsWith('D')),
+    has_weekly_and_monthly: resolutions.some((resolution) => resolution.endsWith('W')),
+    supported_resolutions: resolutions,
+    data_status: 'streaming',
+  };
+}
+
+/**
+ * Bars for [from, to) from the source, oldest first
+ */
+async function loadBars(
+  name: string,
+  source: UdfSource,
+  interval: ChartInterval,
+  from: number,
+  to: number
+): Promise<UdfBar[]> {
+  if (source === 'aggregated') {
+    const history = await aggregatedChartProcessor.getHistory(name, interval as Timeframe, from, to - 1);
+    return history.map((candle) => ({
+      time: candle.timestamp,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+    }));
+  }
+
+  const candles = await chartProcessor.getCandles(name, source, interval, from, to - 1, MAX_HISTORY_BARS);
+  return candles.map((candle) => ({
+    time: candle.timestamp,
+    open: parseFloat(candle.open),
+    high: parseFloat(candle.high),
+    low: parseFloat(candle.low),
+    close: parseFloat(candle.close),
+    volume: parseFloat(candle.volume),
+  }));
+}
+
+/**
+ * Open time of the newest bar before `before`, so TradingView can jump over an empty range
+ */
+async function findNextTime(
+  name: string,
+  source: UdfSource,
+  interval: ChartInterval,
+  before: number
+): Promise<number | null> {
+  if (source === 'aggregated') {
+    const history = await aggregatedChartProcessor.getHistory(name, interval as Timeframe, undefined, before - 1);
+    return history.length > 0 ? history[history.length - 1].timestamp : null;
+  }
+
+  const previous = await chartProcessor.getCandleBefore(name, source, interval, before);
+  return previous ? previous.timestamp : null;
+}
+
+/**
+ * GET /udf/config
+ * Datafeed capabilities
+ */
+export async function getUdfConfig(req: Request, res: Response): Promise<void> {
+  try {
+    res.json({
+      supported_resolutions: getSupportedResolutions('hyperliquid'),
+      supports_group_request: false,
+      supports_marks: false,
+      supports_search: true,
+      supports_timescale_marks: false,
+      supports_time: true,
+      exchanges: [
+        { value: '', name: 'All Exchanges', desc: '' },
+        ...Object.entries(UDF_SOURCES).map(([value, name]) => ({ value, name, desc: name })),
+      ],
+      symbols_types: [
+        { name: 'All types', value: '' },
+        { name: 'Crypto', value: 'crypto' },
+      ],
+    });
+  } catch (error) {
+    logger.error('Error in getUdfConfig:', error);
+    res.status(500).json({ s: 'error', errmsg: 'Internal server error' });
+  }
+}
+
+/**
+ * GET /udf/symbols?symbol=BTC:hyperliquid
+ * Symbol info for one ticker
+ */
+export async function getUdfSymbol(req: Request, res: Response): Promise<void> {
+  try {
+    const parsed = parseTicker(req.query.symbol as string || '');
+    if (!parsed) {
+      res.status(404).json({ s: 'error', errmsg: 'Unknown symbol' });
+      return;
+    }
+
+    const metadata = await getSymbolMetadata();
+    res.json(buildSymbolInfo(parsed.name, parsed.source, metadata.get(parsed.name)));
+  } catch (error) {
+    logger.error('Error in getUdfSymbol:', error);
+    res.status(500).json({ s: 'error', errmsg: 'Internal server error' });
+  }
+}
+
+/**
+ * GET /udf/search?query=&type=&exchange=&limit=
+ * Ticker search across every symbol and source
+ */
+export async function searchUdfSymbols(req: Request, res: Response): Promise<void> {
+  try {
+    const query = (req.query.query as string || '').toUpperCase();
+    const type = req.query.type as string || '';
+    const exchange = req.query.exchange as string || '';
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 30;
+
+    if (type && type !== 'crypto') {
+      res.json([]);
+      return;
+    }
+
+    const metadata = await getSymbolMetadata();
+    const results: Array<{
+      symbol: string;
+      full_name: string;
+      description: string;
+      exchange: string;
+      ticker: string;
+      type: string;
+    }> = [];
+
+    for (const name of supportedSymbols) {
+      for (const source of Object.keys(UDF_SOURCES) as UdfSource[]) {
+        const ticker = `${name}:${source}`;
+        if ((exchange && exchange !== source) || !ticker.toUpperCase().includes(query)) {
+          continue;
+        }
+
+        const info = buildSymbolInfo(name, source, metadata.get(name));
+        results.push({
+          symbol: ticker,
+          full_name: ticker,
+          description: info.description,
+          exchange: source,
+          ticker,
+          type: info.type,
+        });
+      }
+    }
+
+    res.json(results.slice(0, isNaN(limit) || limit < 1 ? 30 : limit));
+  } catch (error) {
+    logger.error('Error in searchUdfSymbols:', error);
+    res.status(500).json({ s: 'error', errmsg: 'Internal server error' });
+  }
+}
+
+/**
+ * GET /udf/history?symbol=&resolution=&from=&to=&countback=
+ * Bars in [from, to) (unix seconds). With `countback`, that many bars ending before `to`.
+ */
+export async function getUdfHistory(req: Request, res: Response): Promise<void> {
+  try {
+    const parsed = parseTicker(req.query.symbol as string || '');
+    if (!parsed) {
+      res.status(404).json({ s: 'error', errmsg: 'Unknown symbol' });
+      return;
+    }
+
+    const resolution = req.query.resolution as string || '';
+    if (!resolution) {
+      res.status(400).json({ s: 'error', errmsg: 'resolution is required' });
+      return;
+    }
+
+    const interval = resolutionToInterval(resolution);
+    if (!interval || !canServe(parsed.source, interval)) {
+      res.status(400).json({ s: 'error', errmsg: 'Unsupported resolution' });
+      return;
+    }
+
+    const from = parseInt(req.query.from as string, 10) * 1000;
+    const to = parseInt(req.query.to as string, 10) * 1000;
+    const countback = req.query.countback ? parseInt(req.query.countback as string, 10) : undefined;
+
+    if (isNaN(from) || isNaN(to) || from >= to || (countback !== undefined && (isNaN(countback) || countback < 1))) {
+      res.status(400).json({ s: 'error', errmsg: 'Invalid from, to or countback' });
+      return;
+    }
+
+    const intervalMs = parseInterval(interval)!.ms;
+    const barCount = Math.min(countback ?? MAX_HISTORY_BARS, MAX_HISTORY_BARS);
+    // Countback takes precedence over `from`; either way the newest bars win when capped
+    const start = countback !== undefined
+      ? to - barCount * intervalMs
+      : Math.max(from, to - MAX_HISTORY_BARS * intervalMs);
+
+    const bars = (await loadBars(parsed.name, parsed.source, interval, start, to)).slice(-barCount);
+
+    if (bars.length === 0) {
+      const nextTime = await findNextTime(parsed.name, parsed.source, interval, start);
+      res.json(nextTime !== null
+        ? { s: 'no_data', nextTime: Math.floor(nextTime / 1000) }
+        : { s: 'no_data' });
+      return;
+    }
+
+    res.json({
+      s: 'ok',
+      t: bars.map((bar) => Math.floor(bar.time / 1000)),
+      o: bars.map((bar) => bar.open),
+      h: bars.map((bar) => bar.high),
+      l: bars.map((bar) => bar.low),
+      c: bars.map((bar) => bar.close),
+      v: bars.map((bar) => bar.volume),
+    });
+  } catch (error) {
+    logger.error('Error in getUdfHistory:', error);
+    res.status(500).json({ s: 'error', errmsg: 'Internal server error' });
+  }
+}
+
+/**
+ * GET /udf/time
+ * Server time in unix seconds, as plain text
+ */
+export async function getUdfTime(req: Request, res: Response): Promise<void> {
+  res.type('text/plain').send(Math.floor(Date.now() / 1000).toString());
+}
@@ -2,7 +2,6 @@ import express, { Express } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
-import rateLimit from 'express-rate-limit';
 import { config } from '@/config';
 import { logger } from '@/utils/logger';
 import { ApiResponse } from '@/types';
@@ -13,6 +12,7 @@ import {
   getFullOrderbook,
   getOrderbookMetrics,
   getCachedOrderbooks,
+  getOrderbookSequenceStats,
 } from './routes/orderbook';
 
 import {
@@ -25,6 +25,10 @@ import {
 import {
   getCandles,
   getLatestCandle,
+  getChartMetrics,
+  startCandleBackfill,
+  getCandleBackfillJobs,
+  getCandleBackfillJob,
   getCurrentCandles,
   getCachedChartSymbols,
   getChartStats,
@@ -38,10 +42,50 @@ import {
   streamAggregatedCandles,
 } from './routes/aggregated';
 
+import {
+  getUdfConfig,
+  getUdfSymbol,
+  searchUdfSymbols,
+  getUdfHistory,
+  getUdfTime,
+} from './routes/udf';
+
+import {
+  getArbitrageOpportunities,
+  getArbitrageHistory,
+  streamArbitrage,
+} from './routes/arbitrage';
+
+import {
+  placeOrder,
+  placeRoutedOrder,
+  cancelOrder,
+  getOrders,
+} from './routes/orders';
+
+import {
+  getNonce,
+  verifySignature,
+  revokeSession,
+} from './routes/auth';
+
+import {
+  requireWalletAuth,
+  requireWalletOrApiKey,
+  walletFromParams,
+  walletFromBody,
+  walletFromBodyOrQuery,
+} from './middleware/walletAuth';
+
+import { requireApiKey } from './middleware/apiKeyAuth';
+import { rateLimit } from './middleware/rateLimit';
+
 import {
   getPositions,
   getPositionSummary,
   getPositionsBySymbol,
+  getPositionEvents,
+  streamPositions,
   syncPositions,
   upsertPosition,
   updatePosition,
@@ -50,6 +94,23 @@ import {
   resetCircuitBreakers,
 } from './routes/positions';
 
+import {
+  getAlertRules,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  getAlertDeliveries,
+} from './routes/alerts';
+
+import {
+  putAsterCredentials,
+  removeAsterCredentials,
+  putLighterCredentials,
+  removeLighterCredentials,
+} from './routes/credentials';
+
+import { getEquityCurve } from './routes/portfolio';
+
 import {
   trackVolume,
   getLeaderboard as getVolumeLeaderboard,
@@ -60,25 +121,19 @@ import {
 } from './routes/volume';
 
 const app: Express = express();
+app.set('trust proxy', config.server.trustProxy);
 
 // Security middleware
 app.use(helmet());
 app.use(cors({
   origin: config.cors.origins,
   credentials: true,
+  // Gap-fill completeness of /api/aggregated/candles, readable by browser chart clients
+  exposedHeaders: ['X-Candles-Expected', 'X-Candles-Actual', 'X-Candles-Filled', 'X-Candles-Missing'],
 }));
 
-// Rate limiting
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 1000, // limit each IP to 1000 requests per windowMs
-  message: {
-    success: false,
-    error: 'Too many requests from this IP, please try again later.',
-    timestamp: Date.now(),
-  } as ApiResponse,
-});
-app.use(limiter as any);
+// Rate limiting (Redis sliding window, shared across instances)
+app.use(rateLimit('default'));
 
 // Body parsing middleware
 app.use(compression());
@@ -131,10 +186,18 @@ app.get('/api', (req, res) => {
         charts: {
           'GET /api/charts/:symbol/candles': 'Get OHLCV candles',
           'GET /api/charts/:symbol/latest': 'Get latest candle',
+          'GET /api/charts/:symbol/metrics': 'Get technical indicators',
           'GET /api/charts/current': 'Get all current candles',
           'GET /api/charts/cached': 'Get cached chart symbols',
           'GET /api/charts/stats': 'Get chart statistics',
         },
+        udf: {
+          'GET /udf/config': 'TradingView datafeed configuration',
+          'GET /udf/symbols': 'TradingView symbol info (e.g. BTC:hyperliquid, BTC:aggregated)',
+          'GET /udf/search': 'TradingView symbol search',
+          'GET /udf/history': 'TradingView bars',
+          'GET /udf/time': 'Server time',
+        },
       },
       exchanges: ['hyperliquid', 'aster'],
       timeframes: ['1s', '1m', '5m', '15m', '1h', '4h', '1d'],
@@ -144,6 +207,7 @@ app.get('/api', (req, res) => {
 });
 
 // Orderbook routes
+app.get('/api/orderbook/sequence', getOrderbookSequenceStats);
 app.get('/api/orderbook/:symbol', getOrderbook);
 app.get('/api/orderbook/:symbol/full', getFullOrderbook);
 app.get('/api/orderbook/:symbol/metrics', getOrderbookMetrics);
@@ -156,8 +220,12 @@ app.get('/api/trades/cached', getCachedTradeSymbols);
 app.get('/api/trades/stats', getTradeStats);
 
 // Charts routes
+app.post('/api/charts/backfill', requireApiKey('admin'), startCandleBackfill);
+app.get('/api/charts/backfill', requireApiKey('admin'), getCandleBackfillJobs);
+app.get('/api/charts/backfill/:jobId', requireApiKey('admin'), getCandleBackfillJob);
 app.get('/api/charts/:symbol/candles', getCandles);
 app.get('/api/charts/:symbol/latest', getLatestCandle);
+app.get('/api/charts/:symbol/metrics', getChartMetrics);
 app.get('/api/charts/current', getCurrentCandles);
 app.get('/api/charts/cached', getCachedChartSymbols);
 app.get('/api/charts/stats', getChartStats);
@@ -169,16 +237,55 @@ app.get('/api/aggregated/routing', getAggregatedRouting);
 app.get('/api/aggregated/stream', streamAggregatedBook);
 app.get('/api/aggregated/stream/candles', streamAggregatedCandles);
 
+// TradingView UDF datafeed
+app.get('/udf/config', getUdfConfig);
+app.get('/udf/symbols', getUdfSymbol);
+app.get('/udf/search', searchUdfSymbols);
+app.get('/udf/history', getUdfHistory);
+app.get('/udf/time', getUdfTime);
+
+// Arbitrage routes
+app.get('/api/arbitrage/opportunities', getArbitrageOpportunities);
+app.get('/api/arbitrage/history', getArbitrageHistory);
+app.get('/api/arbitrage/stream', streamArbitrage);
+
+// Order routes
+app.post('/api/orders', requireWalletAuth(walletFromBody), rateLimit('trading'), placeOrder);
+app.post('/api/orders/routed', requireWalletAuth(walletFromBody), rateLimit('trading'), placeRoutedOrder);
+app.delete('/api/orders/:id', requireWalletAuth(walletFromBodyOrQuery), rateLimit('trading'), cancelOrder);
+app.get('/api/orders/:walletAddress', requireWalletOrApiKey(walletFromParams, 'trade'), getOrders);
+
+// Auth routes
+app.get('/api/auth/nonce', rateLimit('auth'), getNonce);
+app.post('/api/auth/verify', rateLimit('auth'), verifySignature);
+app.delete('/api/auth/session', revokeSession);
+
 // Position routes
-app.get('/api/positions/status', getSyncStatus);
-app.post('/api/positions/reset-circuits', resetCircuitBreakers);
+app.get('/api/positions/status', requireApiKey('admin'), getSyncStatus);
+app.post('/api/positions/reset-circuits', requireApiKey('admin'), resetCircuitBreakers);
 app.get('/api/positions/:walletAddress', getPositions);
 app.get('/api/positions/:walletAddress/summary', getPositionSummary);
+app.get('/api/positions/:walletAddress/events', getPositionEvents);
+app.get('/api/positions/:walletAddress/stream', requireWalletAuth(walletFromParams), streamPositions);
+app.get('/api/positions/:walletAddress/alerts', requireWalletAuth(walletFromParams), getAlertRules);
+app.post('/api/positions/:walletAddress/alerts', requireWalletAuth(walletFromParams), createAlertRule);
+app.get('/api/positions/:walletAddress/alerts/deliveries', requireWalletAuth(walletFromParams), getAlertDeliveries);
+app.put('/api/positions/:walletAddress/alerts/:ruleId', requireWalletAuth(walletFromParams), updateAlertRule);
+app.delete('/api/positions/:walletAddress/alerts/:ruleId', requireWalletAuth(walletFromParams), deleteAlertRule);
 app.get('/api/positions/:walletAddress/:symbol', getPositionsBySymbol);
-app.post('/api/positions/:walletAddress/sync', syncPositions);
-app.post('/api/positions', upsertPosition);
-app.put('/api/positions/:id', updatePosition);
-app.delete('/api/positions/:walletAddress/:platform/:symbol', closePosition);
+app.post('/api/positions/:walletAddress/sync', requireWalletAuth(walletFromParams), rateLimit('positionSync'), syncPositions);
+app.post('/api/positions', requireWalletAuth(walletFromBody), upsertPosition);
+app.put('/api/positions/:id', requireWalletAuth(), updatePosition);
+app.delete('/api/positions/:walletAddress/:platform/:symbol', requireWalletAuth(walletFromParams), closePosition);
+
+// Exchange credential routes (write-only; secrets are never returned)
+app.put('/api/credentials/:walletAddress/aster', requireWalletAuth(walletFromParams), putAsterCredentials);
+app.delete('/api/credentials/:walletAddress/aster', requireWalletAuth(walletFromParams), removeAsterCredentials);
+app.put('/api/credentials/:walletAddress/lighter', requireWalletAuth(walletFromParams), putLighterCredentials);
+app.delete('/api/credentials/:walletAddress/lighter', requireWalletAuth(walletFromParams), removeLighterCredentials);
+
+// Portfolio routes
+app.get('/api/portfolio/:walletAddress/equity', getEquityCurve);
 
 // Volume routes
 app.post('/api/volume/track', trackVolume);
@@ -186,7 +293,7 @@ app.get('/api/volume/leaderboard', getVolumeLeaderboard);
 app.get('/api/volume/user/:address', getVolumeUserStats);
 app.get('/api/volume/user/:address/recent', getVolumeRecentTrades);
 app.get('/api/volume/platform/:platform/stats', getVolumePlatformStats);
-app.post('/api/volume/clear', clearVolumeData);
+app.post('/api/volume/clear', requireApiKey('admin'), clearVolumeData);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -4,6 +4,9 @@ import { config } from '@/config';
 import { orderbookProcessor } from '@/services/processors/orderbook';
 import { tradeProcessor } from '@/services/processors/trades';
 import { chartProcessor } from '@/services/processors/charts';
+import { rateLimiter } from '@/services/security/rate-limiter';
+import { siweAuth } from '@/services/auth/siwe';
+import { LivePositionStream } from '@/services/streams/livePositions';
 
 interface ClientSubscription {
   id: string;
@@ -17,6 +20,11 @@ interface WebSocketClient {
   id: string;
   ws: WebSocket;
   subscriptions: Map<string, ClientSubscription>;
+  // Position subscriptions are backed by a live stream each
+  positionStreams: Map<string, LivePositionStream>;
+  // Set once the client authenticates with a SIWE session token
+  walletAddress?: string;
+  remoteAddress: string;
   lastPing: number;
   isAlive: boolean;
 }
@@ -43,6 +51,8 @@ export class WebSocketServer {
         id: clientId,
         ws,
         subscriptions: new Map(),
+        positionStreams: new Map(),
+        remoteAddress: req.socket.remoteAddress || 'unknown',
         lastPing: Date.now(),
         isAlive: true,
       };
@@ -57,7 +67,7 @@ export class WebSocketServer {
           clientId,
           serverTime: Date.now(),
           exchanges: ['hyperliquid', 'aster', 'lighter'],
-          supportedSubscriptions: ['orderbook', 'trades', 'charts'],
+          supportedSubscriptions: ['orderbook', 'trades', 'charts', 'positions'],
         },
       });
 
@@ -74,14 +84,14 @@ export class WebSocketServer {
 
       // Handle connection close
       ws.on('close', () => {
-        this.clients.delete(clientId);
+        this.removeClient(client);
         logger.info(`WebSocket client disconnected: ${clientId}`);
       });
 
       // Handle errors
       ws.on('error', (error) => {
         logger.error(`WebSocket error for client ${clientId}:`, error);
-        this.clients.delete(clientId);
+        this.removeClient(client);
       });
 
       // Handle pong responses
@@ -98,8 +108,14 @@ export class WebSocketServer {
     const { type, data, id } = message;
 
     switch (type) {
+      case 'auth':
+        this.handleAuth(client, data, id);
+        break;
       case 'subscribe':
-        this.handleSubscribe(client, data, id);
+        this.handleSubscribe(client, data, id).catch((error) => {
+          logger.error(`Failed to handle subscribe for client ${client.id}:`, error);
+          this.sendError(client, 'Failed to subscribe', id);
+        });
         break;
       case 'unsubscribe':
         this.handleUnsubscribe(client, data, id);
@@ -112,9 +128,28 @@ export class WebSocketServer {
     }
   }
 
-  private handleSubscribe(client: WebSocketClient, data: any, messageId: string): void {
+  private async handleSubscribe(client: WebSocketClient, data: any, messageId: string): Promise<void> {
     const { subscriptionType, symbol, exchange, params } = data;
 
+    // Budget is per remote address so reconnecting doesn't reset it
+    const limit = await rateLimiter.consume('wsSubscribe', `ip:${client.remoteAddress}`);
+    if (!limit.allowed) {
+      this.sendToClient(client, {
+        type: 'error',
+        data: {
+          error: 'Subscribe rate limit exceeded',
+          retryAfter: Math.max(Math.ceil((limit.resetAt - Date.now()) / 1000), 1),
+        },
+        id: messageId,
+      });
+      return;
+    }
+
+    if (subscriptionType === 'positions') {
+      await this.handlePositionsSubscribe(client, data, messageId);
+      return;
+    }
+
     if (!subscriptionType || !symbol || !exchange) {
       this.sendError(client, 'Missing required fields: subscriptionType, symbol, exchange', messageId);
       return;
@@ -167,7 +202,13 @@ export class WebSocketServer {
       return;
     }
 
-    const unsubscribed = client.subscriptions.delete(subscriptionId);
+    const positionStream = client.positionStreams.get(subscriptionId);
+    if (positionStream) {
+      client.positionStreams.delete(subscriptionId);
+      positionStream.stop();
+    }
+
+    const unsubscribed = client.subscriptions.delete(subscriptionId) || !!positionStream;
 
     this.sendToClient(client, {
       type: 'unsubscribed',
@@ -183,6 +224,100 @@ export class WebSocketServer {
     }
   }
 
+  /**
+   * Attach a SIWE session to the connection; positions subscriptions are limited to its wallet
+   */
+  private async handleAuth(client: WebSocketClient, data: any, messageId: string): Promise<void> {
+    const token = data?.token;
+    if (!token || typeof token !== 'string') {
+      this.sendError(client, 'Missing required field: token', messageId);
+      return;
+    }
+
+    try {
+      const session = await siweAuth.getSession(token);
+      if (!session) {
+        this.sendError(client, 'Invalid or expired session', messageId);
+        return;
+      }
+
+      client.walletAddress = session.walletAddress;
+      this.sendToClient(client, {
+        type: 'authenticated',
+        data: {
+          walletAddress: session.walletAddress,
+          expiresAt: session.expiresAt,
+        },
+        id: messageId,
+      });
+    } catch (error) {
+      logger.error(`Failed to authenticate WebSocket client ${client.id}:`, error);
+      this.sendError(client, 'Failed to authenticate', messageId);
+    }
+  }
+
+  private async handlePositionsSubscribe(client: WebSocketClient, data: any, messageId: string): Promise<void> {
+    const { walletAddress } = data;
+
+    if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      this.sendError(client, 'Missing or invalid field: walletAddress', messageId);
+      return;
+    }
+
+    if (!client.walletAddress) {
+      this.sendError(client, 'Authenticate with a wallet session before subscribing to positions', messageId);
+      return;
+    }
+
+    if (walletAddress.toLowerCase() !== client.walletAddress) {
+      this.sendError(client, 'Session wallet does not match the requested wallet', messageId);
+      return;
+    }
+
+    const subscriptionId = `positions:${walletAddress.toLowerCase()}`;
+    if (client.positionStreams.has(subscriptionId)) {
+      this.sendError(client, 'Already subscribed', messageId);
+      return;
+    }
+
+    const stream = new LivePositionStream(walletAddress);
+    client.positionStreams.set(subscriptionId, stream);
+
+    stream.on('positions', (snapshot) => {
+      this.sendToClient(client, {
+        type: 'positions',
+        data: {
+          subscriptionId,
+          ...snapshot,
+        },
+      });
+    });
+    stream.on('error', () => {
+      this.sendError(client, 'Failed to load positions');
+    });
+
+    // Confirm before starting so the initial snapshot arrives after the confirmation
+    this.sendToClient(client, {
+      type: 'subscribed',
+      data: {
+        subscriptionId,
+        subscriptionType: 'positions',
+        walletAddress,
+      },
+      id: messageId,
+    });
+
+    try {
+      await stream.start();
+      logger.info(`Client ${client.id} subscribed to ${subscriptionId}`);
+    } catch (error) {
+      logger.error(`Failed to start position stream for client ${client.id}:`, error);
+      client.positionStreams.delete(subscriptionId);
+      stream.stop();
+      this.sendError(client, 'Failed to subscribe to positions', messageId);
+    }
+  }
+
   private async sendInitialData(client: WebSocketClient, subscription: ClientSubscription): Promise<void> {
     try {
       switch (subscription.type) {
@@ -312,6 +447,12 @@ export class WebSocketServer {
     });
   }
 
+  private removeClient(client: WebSocketClient): void {
+    client.positionStreams.forEach((stream) => stream.stop());
+    client.positionStreams.clear();
+    this.clients.delete(client.id);
+  }
+
   private sendToClient(client: WebSocketClient, message: any): void {
     if (client.ws.readyState === WebSocket.OPEN) {
       try {
@@ -339,7 +480,7 @@ export class WebSocketServer {
       this.clients.forEach((client) => {
         if (!client.isAlive) {
           client.ws.terminate();
-          this.clients.delete(client.id);
+          this.removeClient(client);
           logger.info(`WebSocket client terminated due to timeout: ${client.id}`);
           return;
         }
@@ -370,7 +511,7 @@ export class WebSocketServer {
     return {
       connectedClients: this.clients.size,
       totalSubscriptions: Array.from(this.clients.values())
-        .reduce((total, client) => total + client.subscriptions.size, 0),
+        .reduce((total, client) => total + client.subscriptions.size + client.positionStreams.size, 0),
     };
   }
 }
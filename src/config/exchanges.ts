@@ -12,6 +12,7 @@ export const exchangeConfig: ServerConfig['exchanges'] = {
   lighter: {
     wsUrl: process.env['LIGHTER_WS_URL'] || 'wss://mainnet.zklighter.elliot.ai/stream',
     restUrl: process.env['LIGHTER_REST_URL'] || 'https://mainnet.zklighter.elliot.ai',
+    chainId: parseInt(process.env['LIGHTER_CHAIN_ID'] || '304'),
   },
   avantis: {
     wsUrl: process.env['AVANTIS_WS_URL'] || 'wss://fstream-base.avantisfi.com',
@@ -41,7 +42,148 @@ export const rateLimitConfig = {
   maxRequests: parseInt(process.env['RATE_LIMIT_MAX_REQUESTS'] || '100'),
 };
 
+export interface RateLimitBudget {
+  windowMs: number;
+  max: number;
+}
+
+// Sliding-window budgets per client (API key, wallet session or IP). Route budgets
+// apply on top of the default budget, which covers every API request.
+export const rateLimitBudgets = {
+  default: {
+    windowMs: rateLimitConfig.windowMs,
+    max: rateLimitConfig.maxRequests,
+  },
+  // Position sync fans out to every exchange
+  positionSync: {
+    windowMs: 60000,
+    max: parseInt(process.env['RATE_LIMIT_POSITION_SYNC_MAX'] || '6'),
+  },
+  trading: {
+    windowMs: 60000,
+    max: parseInt(process.env['RATE_LIMIT_TRADING_MAX'] || '60'),
+  },
+  auth: {
+    windowMs: 60000,
+    max: parseInt(process.env['RATE_LIMIT_AUTH_MAX'] || '30'),
+  },
+  wsSubscribe: {
+    windowMs: 60000,
+    max: parseInt(process.env['RATE_LIMIT_WS_SUBSCRIBE_MAX'] || '120'),
+  },
+} satisfies Record<string, RateLimitBudget>;
+
+export type RateLimitBudgetName = keyof typeof rateLimitBudgets;
+
+// Default taker fees (fraction of notional) and funding intervals used for routing.
+// Per-symbol fees from the symbols table override these when available.
+export const venueCostConfig = {
+  hyperliquid: {
+    takerFee: parseFloat(process.env['HYPERLIQUID_TAKER_FEE'] || '0.00045'),
+    fundingIntervalHours: 1,
+  },
+  aster: {
+    takerFee: parseFloat(process.env['ASTER_TAKER_FEE'] || '0.00035'),
+    fundingIntervalHours: 8,
+  },
+  lighter: {
+    takerFee: parseFloat(process.env['LIGHTER_TAKER_FEE'] || '0'),
+    fundingIntervalHours: 1,
+  },
+  avantis: {
+    takerFee: parseFloat(process.env['AVANTIS_TAKER_FEE'] || '0.0006'),
+    fundingIntervalHours: 1,
+  },
+};
+
+// Max age (ms) of a venue's last orderbook update before it is dropped from the aggregated book
+export const stalenessConfig = {
+  hyperliquid: parseInt(process.env['HYPERLIQUID_STALE_MS'] || '5000'),
+  aster: parseInt(process.env['ASTER_STALE_MS'] || '5000'),
+  lighter: parseInt(process.env['LIGHTER_STALE_MS'] || '5000'),
+  avantis: parseInt(process.env['AVANTIS_STALE_MS'] || '15000'),
+};
+
+export const arbitrageConfig = {
+  // Cross-venue price gap (bps, before fees) below which no opportunity is evaluated
+  minGrossEdgeBps: parseFloat(process.env['ARB_MIN_GROSS_EDGE_BPS'] || '0'),
+};
+
+// How each venue's orderbook sequence numbers relate between consecutive diffs:
+// 'contiguous' - each diff continues exactly where the previous one ended
+// 'monotonic'  - sequence always increases but may skip values
+// 'none'       - venue only sends full snapshots with no usable sequence
+// Whatever the policy, a diff that names the sequence it follows (prevSequence) must follow the book.
+// Aster diffs carry pu (previous u); Lighter diffs carry begin_nonce when the venue sends nonces.
+export type SequencePolicy = 'contiguous' | 'monotonic' | 'none';
+
+export const sequenceConfig: Record<'hyperliquid' | 'aster' | 'lighter' | 'avantis', SequencePolicy> = {
+  hyperliquid: 'none',
+  aster: 'contiguous',
+  lighter: 'monotonic',
+  avantis: 'contiguous',
+};
+
+export const portfolioConfig = {
+  equitySnapshotIntervalMs: parseInt(process.env['EQUITY_SNAPSHOT_INTERVAL_MS'] || '300000'), // 5 minutes
+  equitySnapshotRetentionDays: parseInt(process.env['EQUITY_SNAPSHOT_RETENTION_DAYS'] || '365'),
+};
+
+export const userStreamConfig = {
+  enabled: process.env['USER_STREAMS_ENABLED'] !== 'false',
+  // Hyperliquid caps user-specific subscriptions at 10 unique users per IP
+  hyperliquidMaxWallets: parseInt(process.env['HYPERLIQUID_USER_STREAM_MAX_WALLETS'] || '10'),
+  applyDebounceMs: parseInt(process.env['USER_STREAM_APPLY_DEBOUNCE_MS'] || '1000'),
+  walletRefreshIntervalMs: parseInt(process.env['USER_STREAM_WALLET_REFRESH_MS'] || '60000'),
+  asterListenKeyKeepaliveMs: parseInt(process.env['ASTER_LISTEN_KEY_KEEPALIVE_MS'] || '1800000'), // 30 minutes
+  // User streams retry forever; backoff stops growing at this delay
+  reconnectMaxDelayMs: parseInt(process.env['USER_STREAM_RECONNECT_MAX_DELAY_MS'] || '60000'),
+  // REST polling only reconciles what the streams may have missed
+  reconciliationIntervalMs: parseInt(process.env['POSITION_RECONCILIATION_INTERVAL_MS'] || '300000'), // 5 minutes
+};
+
+export const valuationConfig = {
+  intervalMs: parseInt(process.env['VALUATION_INTERVAL_MS'] || '5000'),
+  batchSize: parseInt(process.env['VALUATION_BATCH_SIZE'] || '500'),
+};
+
+export const alertConfig = {
+  maxRulesPerWallet: parseInt(process.env['ALERT_MAX_RULES_PER_WALLET'] || '20'),
+  // Minimum time between two notifications of the same rule for the same position
+  defaultCooldownMs: parseInt(process.env['ALERT_DEFAULT_COOLDOWN_MS'] || '900000'), // 15 minutes
+  ruleRefreshIntervalMs: parseInt(process.env['ALERT_RULE_REFRESH_MS'] || '60000'),
+  webhookTimeoutMs: parseInt(process.env['ALERT_WEBHOOK_TIMEOUT_MS'] || '5000'),
+  maxDeliveryAttempts: parseInt(process.env['ALERT_MAX_DELIVERY_ATTEMPTS'] || '6'),
+  retryBaseDelayMs: parseInt(process.env['ALERT_RETRY_BASE_DELAY_MS'] || '5000'),
+  retryMaxDelayMs: parseInt(process.env['ALERT_RETRY_MAX_DELAY_MS'] || '600000'), // 10 minutes
+  deliveryPollIntervalMs: parseInt(process.env['ALERT_DELIVERY_POLL_MS'] || '5000'),
+  // Lets webhooks reach loopback and private networks, for local development receivers only
+  allowPrivateWebhookTargets: process.env['ALERT_ALLOW_PRIVATE_WEBHOOKS'] === 'true',
+};
+
+export const indicatorConfig = {
+  smaPeriods: [20, 50, 200],
+  emaPeriods: [12, 26, 50],
+  rsiPeriod: 14,
+  macd: { fast: 12, slow: 26, signal: 9 },
+  bollinger: { period: 20, stdDev: 2 },
+  // Candles loaded to seed a series; EMA-based values converge well before this
+  warmupCandles: parseInt(process.env['INDICATOR_WARMUP_CANDLES'] || '500'),
+  // Series kept in memory; the least recently used is dropped and re-seeded from history if needed again
+  maxSeries: parseInt(process.env['INDICATOR_MAX_SERIES'] || '256'),
+};
+
+export const backfillConfig = {
+  onStartup: process.env['CANDLE_BACKFILL_ON_STARTUP'] !== 'false',
+  // How far back gaps are looked for, in candles of each timeframe (matches the chart cache size)
+  lookbackCandles: parseInt(process.env['CANDLE_BACKFILL_LOOKBACK'] || '1000'),
+  // Pause between kline requests to stay inside exchange REST limits
+  requestDelayMs: parseInt(process.env['CANDLE_BACKFILL_REQUEST_DELAY_MS'] || '250'),
+};
+
 export const chartConfig = {
+  // Only the base timeframe is built from ticks; the others are rolled up from its completed candles
+  baseTimeframe: (process.env['CHART_BASE_TIMEFRAME'] === '1s' ? '1s' : '1m') as '1s' | '1m',
   timeframes: process.env['CHART_TIMEFRAMES']?.split(',') || ['1m', '5m', '15m', '1h', '4h', '1d'],
   maxCandles: parseInt(process.env['CHART_MAX_CANDLES'] || '1000'),
   tickDataRetentionHours: parseInt(process.env['TICK_DATA_RETENTION_HOURS'] || '24'),
@@ -3,11 +3,22 @@ import { config as dotenvConfig } from 'dotenv';
 // Load environment variables
 dotenvConfig();
 
+// Express 'trust proxy': a hop count, true/false, or a list of trusted proxy addresses/subnets
+function parseTrustProxy(value: string): boolean | number | string {
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  return /^\d+$/.test(value) ? parseInt(value) : value;
+}
+
 export const config = {
   server: {
     port: parseInt(process.env['PORT'] || '3001'),
     host: process.env['HOST'] || '0.0.0.0',
     nodeEnv: process.env['NODE_ENV'] || 'development',
+    // Defaults to proxies on private networks, so req.ip is the client behind a load balancer
+    // while clients connecting directly can't spoof X-Forwarded-For
+    trustProxy: parseTrustProxy(process.env['TRUST_PROXY'] || 'loopback, linklocal, uniquelocal'),
   },
   database: {
     url: process.env['DATABASE_URL'],
@@ -27,6 +38,18 @@ export const config = {
   cors: {
     origins: process.env['CORS_ORIGINS']?.split(',') || ['http://localhost:3000'],
   },
+  auth: {
+    // Domains accepted in Sign-In-With-Ethereum messages; defaults to the CORS origins' hosts
+    siweDomains: (process.env['SIWE_DOMAINS']?.split(',') ||
+      (process.env['CORS_ORIGINS']?.split(',') || ['http://localhost:3000']).map(origin => new URL(origin).host)),
+    // Origins a message's URI must belong to; defaults to the CORS origins
+    siweUriOrigins: (process.env['SIWE_URIS']?.split(',') ||
+      process.env['CORS_ORIGINS']?.split(',') || ['http://localhost:3000']).map(uri => new URL(uri).origin),
+    // Chain IDs accepted in messages; Ethereum mainnet and Arbitrum One by default
+    siweChainIds: (process.env['SIWE_CHAIN_IDS'] || '1,42161').split(',').map(chainId => parseInt(chainId, 10)),
+    nonceTtlSeconds: parseInt(process.env['SIWE_NONCE_TTL_SECONDS'] || '300'),
+    sessionTtlSeconds: parseInt(process.env['AUTH_SESSION_TTL_SECONDS'] || '900'),
+  },
   exchanges: {
     hyperliquid: {
       wsUrl: process.env['HYPERLIQUID_WS_URL'] || 'wss://api.hyperliquid.xyz/ws',
@@ -102,6 +102,19 @@ export class RedisClient {
     await this.client.del(key);
   }
 
+  async getdel(key: string): Promise<string | null> {
+    return await this.client.getdel(key);
+  }
+
+  async incr(key: string): Promise<number> {
+    return await this.client.incr(key);
+  }
+
+  async setnx(key: string, value: string): Promise<boolean> {
+    const result = await this.client.setnx(key, value);
+    return result === 1;
+  }
+
   async exists(key: string): Promise<boolean> {
     const result = await this.client.exists(key);
     return result === 1;
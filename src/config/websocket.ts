@@ -31,9 +31,11 @@ export const wsChannels = {
   ticker: 'ticker',
   funding: 'funding',
   liquidations: 'liquidations',
+  positions: 'positions',
 } as const;
 
 export const wsMessageTypes = {
+  auth: 'auth',
   subscribe: 'subscribe',
   unsubscribe: 'unsubscribe',
   data: 'data',
@@ -0,0 +1,106 @@
+import 'dotenv/config';
+import { logger } from '@/utils/logger';
+import { apiKeyService, API_KEY_SCOPES, ApiKeyScope } from '@/services/security/api-keys';
+
+/**
+ * Mint, revoke and list API keys for operational endpoints.
+ *
+ * Usage:
+ *   npm run api-keys -- create --name ops-dashboard --scopes read,admin [--expires-days 90] [--wallet 0x...]
+ *   npm run api-keys -- revoke <keyId>
+ *   npm run api-keys -- list
+ *
+ * The full key is printed once on creation and cannot be recovered afterwards. Without
+ * --wallet, a key can only reach wallet-scoped routes (e.g. order reads) with the admin scope.
+ */
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function formatTime(timestamp: number | null): string {
+  return timestamp !== null ? new Date(timestamp).toISOString() : '-';
+}
+
+async function manageApiKeys(args: string[]): Promise<void> {
+  const [command, ...rest] = args;
+
+  switch (command) {
+    case 'create': {
+      const name = getOption(rest, 'name');
+      const scopes = (getOption(rest, 'scopes') || '').split(',').filter(Boolean) as ApiKeyScope[];
+      const expiresDays = getOption(rest, 'expires-days');
+      const wallet = getOption(rest, 'wallet');
+
+      if (!name) {
+        throw new Error('--name is required');
+      }
+      if (scopes.length === 0 || !scopes.every(scope => API_KEY_SCOPES.includes(scope))) {
+        throw new Error(`--scopes must be a comma-separated list of: ${API_KEY_SCOPES.join(', ')}`);
+      }
+
+      let expiresAt: number | undefined;
+      if (expiresDays !== undefined) {
+        const days = parseFloat(expiresDays);
+        if (!Number.isFinite(days) || days <= 0) {
+          throw new Error('--expires-days must be a positive number');
+        }
+        expiresAt = Date.now() + days * 24 * 60 * 60 * 1000;
+      }
+
+      const { key, record } = await apiKeyService.createKey(name, scopes, expiresAt, wallet);
+      console.log(`Key id:  ${record.keyId}`);
+      console.log(`Scopes:  ${record.scopes.join(', ')}`);
+      console.log(`Wallet:  ${record.walletAddress ?? '-'}`);
+      console.log(`Expires: ${formatTime(record.expiresAt)}`);
+      console.log(`API key: ${key}`);
+      console.log('Store this key now; it will not be shown again.');
+      break;
+    }
+
+    case 'revoke': {
+      const keyId = rest[0];
+      if (!keyId) {
+        throw new Error('Usage: revoke <keyId>');
+      }
+      if (!(await apiKeyService.revokeKey(keyId))) {
+        throw new Error(`No active API key with id ${keyId}`);
+      }
+      console.log(`Revoked API key ${keyId}`);
+      break;
+    }
+
+    case 'list': {
+      const keys = await apiKeyService.listKeys();
+      console.table(keys.map(key => ({
+        keyId: key.keyId,
+        name: key.name,
+        scopes: key.scopes.join(','),
+        wallet: key.walletAddress ?? '-',
+        created: formatTime(key.createdAt),
+        expires: formatTime(key.expiresAt),
+        lastUsed: formatTime(key.lastUsedAt),
+        revoked: formatTime(key.revokedAt),
+      })));
+      break;
+    }
+
+    default:
+      throw new Error('Usage: api-keys <create|revoke|list> [options]');
+  }
+}
+
+// Run command if this file is executed directly
+if (require.main === module) {
+  manageApiKeys(process.argv.slice(2))
+    .then(() => {
+      process.exit(0);
+    })
+    .catch((error) => {
+      logger.error('API key command failed:', error);
+      process.exit(1);
+    });
+}
+
+export { manageApiKeys };
@@ -0,0 +1,26 @@
+-- Create arbitrage_opportunities table
+-- One row per cross-venue opportunity, written when the venues uncross
+CREATE TABLE IF NOT EXISTS arbitrage_opportunities (
+    id SERIAL PRIMARY KEY,
+    symbol VARCHAR(50) NOT NULL,
+    buy_venue VARCHAR(20) NOT NULL CHECK (buy_venue IN ('hyperliquid', 'aster', 'lighter', 'avantis')),
+    sell_venue VARCHAR(20) NOT NULL CHECK (sell_venue IN ('hyperliquid', 'aster', 'lighter', 'avantis')),
+    buy_price DECIMAL(20, 8) NOT NULL,
+    sell_price DECIMAL(20, 8) NOT NULL,
+    executable_size DECIMAL(20, 8) NOT NULL,
+    gross_edge_bps DECIMAL(12, 4) NOT NULL,
+    net_edge_bps DECIMAL(12, 4) NOT NULL,
+    max_net_edge_bps DECIMAL(12, 4) NOT NULL,
+    first_seen BIGINT NOT NULL,
+    last_seen BIGINT NOT NULL,
+    duration_ms BIGINT NOT NULL,
+    created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW()) * 1000
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_arbitrage_symbol_first_seen ON arbitrage_opportunities(symbol, first_seen DESC);
+CREATE INDEX IF NOT EXISTS idx_arbitrage_venues ON arbitrage_opportunities(buy_venue, sell_venue);
+
+COMMENT ON TABLE arbitrage_opportunities IS 'History of crossed-market opportunities between venues';
+COMMENT ON COLUMN arbitrage_opportunities.gross_edge_bps IS 'Best sell bid over best buy ask, in basis points of the buy price';
+COMMENT ON COLUMN arbitrage_opportunities.net_edge_bps IS 'Edge after taker fees on both legs at the last observation';
@@ -0,0 +1,19 @@
+-- Migration: Track the master key version used to encrypt stored credentials
+-- Credentials are envelope-encrypted with AES-256-GCM; key_version records which
+-- master key wrapped each row so `npm run rotate-credentials` can re-wrap them.
+-- NULL means the row predates encryption and still holds a plaintext value.
+
+ALTER TABLE lighter_credentials ADD COLUMN IF NOT EXISTS key_version INTEGER;
+ALTER TABLE aster_credentials ADD COLUMN IF NOT EXISTS key_version INTEGER;
+ALTER TABLE user_accounts ADD COLUMN IF NOT EXISTS credentials_key_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_lighter_credentials_key_version
+  ON lighter_credentials(key_version);
+CREATE INDEX IF NOT EXISTS idx_aster_credentials_key_version
+  ON aster_credentials(key_version);
+
+COMMENT ON COLUMN lighter_credentials.api_key_private_encrypted IS 'Ed25519 private key, AES-256-GCM envelope-encrypted';
+COMMENT ON COLUMN lighter_credentials.key_version IS 'Master key version that wrapped the data key (NULL = legacy plaintext)';
+COMMENT ON COLUMN aster_credentials.api_secret_encrypted IS 'Aster API secret, AES-256-GCM envelope-encrypted';
+COMMENT ON COLUMN aster_credentials.key_version IS 'Master key version that wrapped the data key (NULL = legacy plaintext)';
+COMMENT ON COLUMN user_accounts.credentials_key_version IS 'Master key version for aster_api_*_encrypted columns (NULL = legacy plaintext)';
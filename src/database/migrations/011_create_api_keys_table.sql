@@ -0,0 +1,40 @@
+-- Create api_keys table
+-- Keys are shown once at creation; only a SHA-256 hash of the secret part is stored
+CREATE TABLE IF NOT EXISTS api_keys (
+    id SERIAL PRIMARY KEY,
+    key_id VARCHAR(32) NOT NULL UNIQUE,
+    key_hash VARCHAR(64) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    scopes TEXT[] NOT NULL CHECK (scopes <@ ARRAY['read', 'trade', 'admin']::TEXT[] AND cardinality(scopes) > 0),
+    created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW()) * 1000,
+    expires_at BIGINT,
+    last_used_at BIGINT,
+    revoked_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_active ON api_keys(key_id) WHERE revoked_at IS NULL;
+
+COMMENT ON TABLE api_keys IS 'API keys for operational and admin endpoints';
+COMMENT ON COLUMN api_keys.key_id IS 'Public identifier embedded in the key, used for lookup';
+COMMENT ON COLUMN api_keys.key_hash IS 'Hex SHA-256 of the secret part of the key';
+COMMENT ON COLUMN api_keys.scopes IS 'Granted scopes; admin implies trade, trade implies read';
+
+-- Create admin_audit_log table
+-- One row per request made to an admin-scoped route, including denied attempts
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+    id SERIAL PRIMARY KEY,
+    api_key_id INTEGER REFERENCES api_keys(id) ON DELETE SET NULL,
+    key_id VARCHAR(32),
+    method VARCHAR(10) NOT NULL,
+    path VARCHAR(500) NOT NULL,
+    status_code INTEGER NOT NULL,
+    ip VARCHAR(64),
+    user_agent VARCHAR(500),
+    params JSONB,
+    created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW()) * 1000
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_key_id ON admin_audit_log(key_id, created_at DESC);
+
+COMMENT ON TABLE admin_audit_log IS 'Audit trail of admin-scoped API calls';
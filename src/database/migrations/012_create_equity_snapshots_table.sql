@@ -0,0 +1,25 @@
+-- Create equity_snapshots table
+-- One row per wallet per snapshot interval, totals across all platforms
+CREATE TABLE IF NOT EXISTS equity_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    wallet_address VARCHAR(42) NOT NULL,
+    equity DECIMAL(24, 8) NOT NULL,
+    margin_used DECIMAL(24, 8) NOT NULL,
+    unrealized_pnl DECIMAL(24, 8) NOT NULL,
+    realized_pnl DECIMAL(24, 8) NOT NULL,
+    open_positions INTEGER NOT NULL,
+    platforms JSONB NOT NULL,
+    timestamp BIGINT NOT NULL,
+    UNIQUE (wallet_address, timestamp)
+);
+
+CREATE INDEX IF NOT EXISTS idx_equity_snapshots_wallet_timestamp
+    ON equity_snapshots(wallet_address, timestamp DESC);
+
+CREATE INDEX IF NOT EXISTS idx_equity_snapshots_timestamp ON equity_snapshots(timestamp);
+
+COMMENT ON TABLE equity_snapshots IS 'Periodic per-wallet account value used for equity curves';
+COMMENT ON COLUMN equity_snapshots.equity IS 'Account value across platforms; reported by the venue where available, otherwise margin plus unrealized PnL';
+COMMENT ON COLUMN equity_snapshots.realized_pnl IS 'Cumulative realized PnL of closed positions at snapshot time';
+COMMENT ON COLUMN equity_snapshots.platforms IS 'Per-platform breakdown: equity, marginUsed, unrealizedPnl, openPositions, source';
+COMMENT ON COLUMN equity_snapshots.timestamp IS 'Snapshot time (milliseconds), aligned to the snapshot interval';
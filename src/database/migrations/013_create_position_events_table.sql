@@ -0,0 +1,48 @@
+-- Create position_events table
+-- Append-only lifecycle log; positions rows are updated in place, this keeps the history
+CREATE TABLE IF NOT EXISTS position_events (
+    id BIGSERIAL PRIMARY KEY,
+    position_id INTEGER NOT NULL,
+    wallet_address VARCHAR(42) NOT NULL,
+    platform VARCHAR(20) NOT NULL,
+    symbol VARCHAR(50) NOT NULL,
+    event_type VARCHAR(30) NOT NULL CHECK (event_type IN (
+        'opened', 'increased', 'reduced', 'closed', 'liquidated', 'leverage_changed', 'margin_mode_changed'
+    )),
+    side VARCHAR(10) NOT NULL CHECK (side IN ('long', 'short')),
+    size_before VARCHAR(50) NOT NULL,
+    size_after VARCHAR(50) NOT NULL,
+    price VARCHAR(50),
+    leverage_before INTEGER,
+    leverage_after INTEGER,
+    margin_mode_before VARCHAR(20),
+    margin_mode_after VARCHAR(20),
+    realized_pnl VARCHAR(50),
+    source VARCHAR(20) NOT NULL CHECK (source IN ('sync', 'api', 'system')),
+    timestamp BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW()) * 1000
+);
+
+CREATE INDEX IF NOT EXISTS idx_position_events_wallet_id ON position_events(LOWER(wallet_address), id DESC);
+CREATE INDEX IF NOT EXISTS idx_position_events_position_id ON position_events(position_id);
+
+-- Enforce append-only at the database level
+DROP TRIGGER IF EXISTS trigger_position_events_append_only ON position_events;
+DROP FUNCTION IF EXISTS reject_position_events_mutation();
+
+CREATE OR REPLACE FUNCTION reject_position_events_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'position_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_position_events_append_only
+    BEFORE UPDATE OR DELETE ON position_events
+    FOR EACH ROW
+    EXECUTE FUNCTION reject_position_events_mutation();
+
+COMMENT ON TABLE position_events IS 'Append-only position lifecycle events written by sync services and REST mutators';
+COMMENT ON COLUMN position_events.position_id IS 'Position row the event applies to; no foreign key so events outlive position cleanup';
+COMMENT ON COLUMN position_events.price IS 'Mark price (or entry price when no mark is known) at the time of the event';
+COMMENT ON COLUMN position_events.realized_pnl IS 'Realized PnL recorded when the position closed or was liquidated';
+COMMENT ON COLUMN position_events.source IS 'What wrote the event: exchange sync, REST API, or internal job';
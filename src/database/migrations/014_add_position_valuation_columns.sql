@@ -0,0 +1,11 @@
+-- Migration: Store live mark-to-market valuation on open positions
+-- The valuation engine revalues open positions from live orderbook mids between syncs.
+-- Liquidation distance is signed: negative means the mark is already past the liquidation price.
+
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS liquidation_distance VARCHAR(50);
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS liquidation_distance_percent VARCHAR(50);
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS marked_at BIGINT;
+
+COMMENT ON COLUMN positions.liquidation_distance IS 'Price distance from mark to liquidation price, in quote currency';
+COMMENT ON COLUMN positions.liquidation_distance_percent IS 'Distance from mark to liquidation price as a percent of mark';
+COMMENT ON COLUMN positions.marked_at IS 'When mark_price/unrealized_pnl were last revalued from a live price';
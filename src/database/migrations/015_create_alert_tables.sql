@@ -0,0 +1,51 @@
+-- Create alert_rules table
+-- Per-wallet risk rules evaluated against live position valuations
+CREATE TABLE IF NOT EXISTS alert_rules (
+    id SERIAL PRIMARY KEY,
+    wallet_address VARCHAR(42) NOT NULL,
+    rule_type VARCHAR(30) NOT NULL CHECK (rule_type IN ('liquidation_distance', 'unrealized_loss', 'funding_rate')),
+    threshold VARCHAR(50) NOT NULL,
+    platform VARCHAR(20) CHECK (platform IN ('hyperliquid', 'aster', 'lighter', 'avantis')),
+    symbol VARCHAR(50),
+    webhook_url TEXT NOT NULL,
+    webhook_secret_encrypted TEXT NOT NULL,
+    key_version INTEGER NOT NULL,
+    cooldown_ms BIGINT NOT NULL,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    last_triggered_at BIGINT,
+    created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW()) * 1000,
+    updated_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW()) * 1000
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_wallet ON alert_rules(LOWER(wallet_address));
+CREATE INDEX IF NOT EXISTS idx_alert_rules_enabled ON alert_rules(enabled) WHERE enabled = true;
+
+-- Create alert_deliveries table
+-- One row per webhook notification, updated as delivery is attempted
+CREATE TABLE IF NOT EXISTS alert_deliveries (
+    id BIGSERIAL PRIMARY KEY,
+    rule_id INTEGER NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+    wallet_address VARCHAR(42) NOT NULL,
+    position_id INTEGER,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at BIGINT,
+    response_status INTEGER,
+    last_error TEXT,
+    created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW()) * 1000,
+    delivered_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_wallet_id ON alert_deliveries(LOWER(wallet_address), id DESC);
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_due ON alert_deliveries(next_attempt_at) WHERE status = 'pending';
+
+COMMENT ON TABLE alert_rules IS 'User-defined position risk alerts delivered through signed webhooks';
+COMMENT ON COLUMN alert_rules.threshold IS 'Percent to liquidation, quote-currency loss, or paid funding percent per interval, depending on rule_type';
+COMMENT ON COLUMN alert_rules.platform IS 'Restrict the rule to one venue; NULL matches every venue';
+COMMENT ON COLUMN alert_rules.symbol IS 'Restrict the rule to one market; NULL matches every market';
+COMMENT ON COLUMN alert_rules.webhook_secret_encrypted IS 'HMAC signing secret, encrypted with the credential keyring';
+COMMENT ON COLUMN alert_rules.key_version IS 'Master key version that wrapped the webhook secret';
+COMMENT ON COLUMN alert_rules.cooldown_ms IS 'Minimum time between notifications of this rule for the same position';
+COMMENT ON TABLE alert_deliveries IS 'Webhook delivery log with retry state';
+COMMENT ON COLUMN alert_deliveries.next_attempt_at IS 'When the next retry is due; NULL once delivered or given up';
@@ -0,0 +1,5 @@
+-- Allow candles from every venue
+-- Backfill stores Lighter and Avantis klines alongside Hyperliquid and Aster
+ALTER TABLE candles DROP CONSTRAINT IF EXISTS candles_exchange_check;
+ALTER TABLE candles ADD CONSTRAINT candles_exchange_check
+    CHECK (exchange IN ('hyperliquid', 'aster', 'lighter', 'avantis'));
@@ -0,0 +1,8 @@
+-- Opportunities are now recorded when they open and updated when they close
+ALTER TABLE arbitrage_opportunities
+    ADD COLUMN IF NOT EXISTS status VARCHAR(10) NOT NULL DEFAULT 'closed'
+    CHECK (status IN ('open', 'closed'));
+
+CREATE INDEX IF NOT EXISTS idx_arbitrage_open ON arbitrage_opportunities(status) WHERE status = 'open';
+
+COMMENT ON COLUMN arbitrage_opportunities.status IS 'open while the venues are still crossed; last_seen and duration_ms are final once closed';
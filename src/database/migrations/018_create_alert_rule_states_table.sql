@@ -0,0 +1,12 @@
+-- Create alert_rule_states table
+-- Per rule and position notification state, so a restart doesn't re-fire active alerts
+CREATE TABLE IF NOT EXISTS alert_rule_states (
+    rule_id INTEGER NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+    position_id INTEGER NOT NULL,
+    notified BOOLEAN NOT NULL,
+    last_fired_at BIGINT NOT NULL,
+    PRIMARY KEY (rule_id, position_id)
+);
+
+COMMENT ON TABLE alert_rule_states IS 'Alert evaluator state; rows are dropped once a position stops being valued and its cooldown has passed';
+COMMENT ON COLUMN alert_rule_states.notified IS 'The current breach has been notified; cleared when the condition recovers';
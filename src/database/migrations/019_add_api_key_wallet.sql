@@ -0,0 +1,7 @@
+-- Migration: Bind API keys to the wallet they act for
+-- A non-admin key may only read that wallet's data; NULL means the key is bound to no
+-- wallet and can only reach wallet-scoped routes with the admin scope.
+
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS wallet_address VARCHAR(42);
+
+COMMENT ON COLUMN api_keys.wallet_address IS 'Lowercase wallet the key acts for (NULL = no wallet)';
@@ -0,0 +1,166 @@
+import 'dotenv/config';
+import { database } from '@/config/database';
+import { logger } from '@/utils/logger';
+import { credentialEncryption } from '@/services/security/credential-encryption';
+
+/**
+ * Re-encrypt all stored exchange credentials and webhook secrets under the current master key.
+ *
+ * Usage:
+ *   npm run rotate-credentials              # re-wrap rows under the configured current key
+ *   npm run rotate-credentials -- --new-key # add a new key version to CREDENTIAL_KEYFILE first
+ *
+ * This is also the explicit migration for values the service refuses to decrypt:
+ * legacy plaintext rows and v1 payloads are re-encrypted bound to their wallet.
+ * Older key versions must remain available (keyfile or CREDENTIAL_PREVIOUS_KEYS)
+ * until rotation completes.
+ */
+async function rotateCredentials(): Promise<void> {
+  if (process.argv.includes('--new-key')) {
+    credentialEncryption.generateKeyfileVersion();
+  }
+
+  const version = credentialEncryption.getCurrentKeyVersion();
+  logger.info(`Rotating stored credentials to master key version ${version}...`);
+
+  // Rows on another key version or not yet in the row-bound format
+  const current = 'enc:v2:%';
+
+  await database.transaction(async (client) => {
+    // Lighter API private keys
+    const lighter = await client.query<{ id: number; wallet_address: string; api_key_private_encrypted: string }>(
+      `SELECT id, wallet_address, api_key_private_encrypted FROM lighter_credentials
+       WHERE key_version IS DISTINCT FROM $1 OR api_key_private_encrypted NOT LIKE $2
+       FOR UPDATE`,
+      [version, current]
+    );
+    for (const row of lighter.rows) {
+      await client.query(
+        `UPDATE lighter_credentials
+         SET api_key_private_encrypted = $1, key_version = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3`,
+        [
+          credentialEncryption.migrate(row.api_key_private_encrypted, {
+            walletAddress: row.wallet_address,
+            scope: 'lighter',
+            field: 'api_key_private',
+          }),
+          version,
+          row.id,
+        ]
+      );
+    }
+    logger.info(`Rotated ${lighter.rows.length} lighter_credentials rows`);
+
+    // Aster API secrets
+    const aster = await client.query<{ id: number; wallet_address: string; api_secret_encrypted: string }>(
+      `SELECT id, wallet_address, api_secret_encrypted FROM aster_credentials
+       WHERE key_version IS DISTINCT FROM $1 OR api_secret_encrypted NOT LIKE $2
+       FOR UPDATE`,
+      [version, current]
+    );
+    for (const row of aster.rows) {
+      await client.query(
+        `UPDATE aster_credentials
+         SET api_secret_encrypted = $1, key_version = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3`,
+        [
+          credentialEncryption.migrate(row.api_secret_encrypted, {
+            walletAddress: row.wallet_address,
+            scope: 'aster',
+            field: 'api_secret',
+          }),
+          version,
+          row.id,
+        ]
+      );
+    }
+    logger.info(`Rotated ${aster.rows.length} aster_credentials rows`);
+
+    // Aster credentials stored on user accounts
+    const accounts = await client.query<{
+      id: number;
+      wallet_address: string;
+      aster_api_key_encrypted: string | null;
+      aster_api_secret_encrypted: string | null;
+    }>(
+      `SELECT id, wallet_address, aster_api_key_encrypted, aster_api_secret_encrypted FROM user_accounts
+       WHERE (aster_api_key_encrypted IS NOT NULL OR aster_api_secret_encrypted IS NOT NULL)
+         AND (credentials_key_version IS DISTINCT FROM $1
+           OR aster_api_key_encrypted NOT LIKE $2
+           OR aster_api_secret_encrypted NOT LIKE $2)
+       FOR UPDATE`,
+      [version, current]
+    );
+    for (const row of accounts.rows) {
+      await client.query(
+        `UPDATE user_accounts
+         SET aster_api_key_encrypted = $1,
+             aster_api_secret_encrypted = $2,
+             credentials_key_version = $3,
+             updated_at = EXTRACT(EPOCH FROM NOW()) * 1000
+         WHERE id = $4`,
+        [
+          row.aster_api_key_encrypted
+            ? credentialEncryption.migrate(row.aster_api_key_encrypted, {
+              walletAddress: row.wallet_address,
+              scope: 'aster',
+              field: 'api_key',
+            })
+            : null,
+          row.aster_api_secret_encrypted
+            ? credentialEncryption.migrate(row.aster_api_secret_encrypted, {
+              walletAddress: row.wallet_address,
+              scope: 'aster',
+              field: 'api_secret',
+            })
+            : null,
+          version,
+          row.id,
+        ]
+      );
+    }
+    logger.info(`Rotated ${accounts.rows.length} user_accounts rows`);
+
+    // Alert webhook signing secrets
+    const alertRules = await client.query<{ id: number; wallet_address: string; webhook_secret_encrypted: string }>(
+      `SELECT id, wallet_address, webhook_secret_encrypted FROM alert_rules
+       WHERE key_version IS DISTINCT FROM $1 OR webhook_secret_encrypted NOT LIKE $2
+       FOR UPDATE`,
+      [version, current]
+    );
+    for (const row of alertRules.rows) {
+      await client.query(
+        `UPDATE alert_rules
+         SET webhook_secret_encrypted = $1, key_version = $2, updated_at = EXTRACT(EPOCH FROM NOW()) * 1000
+         WHERE id = $3`,
+        [
+          credentialEncryption.migrate(row.webhook_secret_encrypted, {
+            walletAddress: row.wallet_address,
+            scope: 'alerts',
+            field: 'webhook_secret',
+          }),
+          version,
+          row.id,
+        ]
+      );
+    }
+    logger.info(`Rotated ${alertRules.rows.length} alert_rules rows`);
+  });
+
+  logger.info('Credential rotation completed successfully');
+}
+
+// Run rotation if this file is executed directly
+if (require.main === module) {
+  rotateCredentials()
+    .then(() => {
+      process.exit(0);
+    })
+    .catch((error) => {
+      logger.error('Credential rotation failed:', error);
+      process.exit(1);
+    });
+}
+
+export { rotateCredentials };
@@ -6,6 +6,7 @@ import { tradeProcessor } from '@/services/processors/trades';
 import { chartProcessor } from '@/services/processors/charts';
 import { aggregationProcessor } from '@/services/processors/aggregation';
 import { aggregatedChartProcessor } from '@/services/processors/aggregated-charts';
+import { arbitrageDetector } from '@/services/processors/arbitrage';
 import { redisClient } from '@/config/redis';
 import { database } from '@/config/database';
 import { logger } from '@/utils/logger';
@@ -63,6 +64,9 @@ class TradingDataBackend {
     }
     
     logger.info('Database connection established');
+
+    await aggregationProcessor.loadFeeSchedule();
+    await arbitrageDetector.closeOrphanedOpportunities();
   }
 
   private async initializeRedis(): Promise<void> {
@@ -144,6 +148,10 @@ class TradingDataBackend {
       }
     });
 
+    this.hyperliquidClient.on('marketStats', (stats) => {
+      aggregationProcessor.updateFundingRate(stats.symbol, 'hyperliquid', stats.fundingRate);
+    });
+
     this.hyperliquidClient.on('trades', async (trades) => {
       try {
         logger.info(`Hyperliquid: Received ${trades.length} trades - ${trades[0]?.symbol} @ ${trades[0]?.price}`);
@@ -250,6 +258,43 @@ class TradingDataBackend {
       }
     });
 
+    // Aster streams depth diffs; publish the rebuilt book, not the diff
+    this.asterClient.on('orderbookUpdate', async (update) => {
+      try {
+        await orderbookProcessor.processUpdate(update);
+
+        const book = await orderbookProcessor.getTopLevels(update.symbol, update.exchange);
+        if (!book || book.bids.length === 0 || book.asks.length === 0) {
+          return;
+        }
+
+        const midPrice = (parseFloat(book.bids[0].price) + parseFloat(book.asks[0].price)) / 2;
+        await chartProcessor.processTickData({
+          symbol: update.symbol,
+          exchange: update.exchange,
+          price: midPrice.toString(),
+          size: '0',
+          side: 'buy',
+          timestamp: update.timestamp,
+          tradeId: `ob-${update.timestamp}`,
+        });
+
+        await redisPublisher.publishOrderbook({
+          exchange: update.exchange,
+          symbol: update.symbol,
+          bids: book.bids.map(level => [level.price, level.size]),
+          asks: book.asks.map(level => [level.price, level.size]),
+          timestamp: update.timestamp,
+        });
+      } catch (error) {
+        logger.error('Failed to process Aster orderbook update:', error);
+      }
+    });
+
+    this.asterClient.on('marketStats', (stats) => {
+      aggregationProcessor.updateFundingRate(stats.symbol, 'aster', stats.fundingRate);
+    });
+
     this.asterClient.on('trades', async (trades) => {
       try {
         await tradeProcessor.processTrades(trades);
@@ -315,8 +360,26 @@ class TradingDataBackend {
       await aggregationProcessor.processOrderbookUpdate(orderbook);
     });
 
-    aggregationProcessor.on('aggregated', (data) => {
+    // Drop books that missed diffs from aggregation and rebuild them from a fresh snapshot
+    orderbookProcessor.on('orderbookInvalidated', async ({ symbol, exchange }) => {
+      try {
+        await aggregationProcessor.invalidateSource(symbol, exchange);
+      } catch (error) {
+        logger.error(`Failed to invalidate ${exchange}:${symbol} in aggregation:`, error);
+      }
+    });
+
+    orderbookProcessor.setSnapshotRequester('hyperliquid', (symbol) => this.hyperliquidClient.requestOrderbookSnapshot(symbol));
+    orderbookProcessor.setSnapshotRequester('aster', (symbol) => this.asterClient.requestOrderbookSnapshot(symbol));
+
+    aggregationProcessor.on('aggregated', async (data) => {
       logger.debug(`Aggregated orderbook published: ${data.symbol}`);
+
+      try {
+        await arbitrageDetector.processAggregatedBook(data);
+      } catch (error) {
+        logger.error('Failed to process arbitrage detection:', error);
+      }
     });
 
     tradeProcessor.on('tradesProcessed', (trades) => {
@@ -385,6 +448,15 @@ class TradingDataBackend {
       }
     }, 60 * 60 * 1000); // 1 hour
 
+    // Drop venues whose orderbook feed has gone quiet
+    setInterval(async () => {
+      try {
+        await aggregationProcessor.checkStaleSources();
+      } catch (error) {
+        logger.error('Failed to check stale orderbook sources:', error);
+      }
+    }, 1000);
+
     // Log stats every 5 minutes
     setInterval(() => {
       this.logStats();
@@ -420,6 +492,7 @@ class TradingDataBackend {
       tradeProcessor.stop();
       chartProcessor.stop();
       aggregationProcessor.stop();
+      arbitrageDetector.stop();
       aggregatedChartProcessor.stop();
 
       // Disconnect from exchanges
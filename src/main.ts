@@ -158,6 +158,10 @@ class HyperdexBackend {
       }
     });
 
+    this.hyperliquidClient.on('marketStats', (stats) => {
+      aggregationProcessor.updateFundingRate(stats.symbol, 'hyperliquid', stats.fundingRate);
+    });
+
     this.hyperliquidClient.on('trades', async (trades) => {
       try {
         await tradeProcessor.processTrades(trades);
@@ -242,6 +246,43 @@ class HyperdexBackend {
       }
     });
 
+    // Aster streams depth diffs; publish the rebuilt book, not the diff
+    this.asterClient.on('orderbookUpdate', async (update) => {
+      try {
+        await orderbookProcessor.processUpdate(update);
+
+        const book = await orderbookProcessor.getTopLevels(update.symbol, update.exchange);
+        if (!book || book.bids.length === 0 || book.asks.length === 0) {
+          return;
+        }
+
+        const midPrice = (parseFloat(book.bids[0].price) + parseFloat(book.asks[0].price)) / 2;
+        await chartProcessor.processTickData({
+          symbol: update.symbol,
+          exchange: update.exchange,
+          price: midPrice.toString(),
+          size: '0',
+          side: 'buy',
+          timestamp: update.timestamp,
+          tradeId: `ob-${update.timestamp}`,
+        });
+
+        await redisPublisher.publishOrderbook({
+          exchange: update.exchange,
+          symbol: update.symbol,
+          bids: book.bids.map(level => [level.price, level.size]),
+          asks: book.asks.map(level => [level.price, level.size]),
+          timestamp: update.timestamp,
+        });
+      } catch (error) {
+        logger.error('Failed to process Aster orderbook update:', error);
+      }
+    });
+
+    this.asterClient.on('marketStats', (stats) => {
+      aggregationProcessor.updateFundingRate(stats.symbol, 'aster', stats.fundingRate);
+    });
+
     this.asterClient.on('trades', async (trades) => {
       try {
         await tradeProcessor.processTrades(trades);
@@ -326,6 +367,10 @@ class HyperdexBackend {
       }
     });
 
+    this.avantisClient.on('marketStats', (stats) => {
+      aggregationProcessor.updateFundingRate(stats.symbol, 'avantis', stats.fundingRate);
+    });
+
     this.avantisClient.on('trades', async (trades) => {
       try {
         await tradeProcessor.processTrades(trades);
@@ -370,6 +415,18 @@ class HyperdexBackend {
       await aggregationProcessor.processOrderbookUpdate(orderbook);
     });
 
+    // Drop books that missed diffs from aggregation and rebuild them from a fresh snapshot
+    orderbookProcessor.on('orderbookInvalidated', async ({ symbol, exchange }) => {
+      try {
+        await aggregationProcessor.invalidateSource(symbol, exchange);
+      } catch (error) {
+        logger.error(`Failed to invalidate ${exchange}:${symbol} in aggregation:`, error);
+      }
+    });
+
+    orderbookProcessor.setSnapshotRequester('hyperliquid', (symbol) => this.hyperliquidClient.requestOrderbookSnapshot(symbol));
+    orderbookProcessor.setSnapshotRequester('aster', (symbol) => this.asterClient.requestOrderbookSnapshot(symbol));
+
     aggregationProcessor.on('aggregated', (data) => {
       logger.debug(`Aggregated orderbook published: ${data.symbol}`);
     });
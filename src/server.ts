@@ -4,21 +4,30 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
-import rateLimit from 'express-rate-limit';
 
 // Import all components
 import { HyperliquidClient } from '@/services/exchanges/hyperliquid';
 import { AsterClient } from '@/services/exchanges/aster';
 import { LighterClient } from '@/services/exchanges/lighter';
 import { orderbookProcessor } from '@/services/processors/orderbook';
+import { OrderbookUpdate } from '@/types';
 import { tradeProcessor } from '@/services/processors/trades';
 import { chartProcessor } from '@/services/processors/charts';
+import { indicatorProcessor } from '@/services/processors/indicators';
+import { candleBackfill } from '@/services/backfill/candleBackfill';
+import { BACKFILL_TIMEFRAMES } from '@/services/backfill/klineSources';
 import { aggregationProcessor } from '@/services/processors/aggregation';
 import { aggregatedChartProcessor } from '@/services/processors/aggregated-charts';
+import { arbitrageDetector } from '@/services/processors/arbitrage';
+import { equitySnapshotter } from '@/services/polling/equitySnapshotter';
+import { positionPoller } from '@/services/polling/positionPoller';
+import { valuationEngine } from '@/services/processors/valuation';
+import { alertEvaluator } from '@/services/alerts/alertEvaluator';
+import { userStreamManager } from '@/services/userStreams/userStreamManager';
 import { redisClient } from '@/config/redis';
 import { database } from '@/config/database';
 import { logger } from '@/utils/logger';
-import { supportedSymbols } from '@/config/exchanges';
+import { supportedSymbols, userStreamConfig, backfillConfig } from '@/config/exchanges';
 import { config } from '@/config';
 
 // Import route handlers
@@ -27,6 +36,7 @@ import {
   getFullOrderbook,
   getOrderbookMetrics,
   getCachedOrderbooks,
+  getOrderbookSequenceStats,
 } from '@/api/routes/orderbook';
 
 import {
@@ -39,6 +49,10 @@ import {
 import {
   getCandles,
   getLatestCandle,
+  getChartMetrics,
+  startCandleBackfill,
+  getCandleBackfillJobs,
+  getCandleBackfillJob,
   getCurrentCandles,
   getCachedChartSymbols,
   getChartStats,
@@ -52,10 +66,50 @@ import {
   streamAggregatedCandles,
 } from '@/api/routes/aggregated';
 
+import {
+  getUdfConfig,
+  getUdfSymbol,
+  searchUdfSymbols,
+  getUdfHistory,
+  getUdfTime,
+} from '@/api/routes/udf';
+
+import {
+  getArbitrageOpportunities,
+  getArbitrageHistory,
+  streamArbitrage,
+} from '@/api/routes/arbitrage';
+
+import {
+  placeOrder,
+  placeRoutedOrder,
+  cancelOrder,
+  getOrders,
+} from '@/api/routes/orders';
+
+import {
+  getNonce,
+  verifySignature,
+  revokeSession,
+} from '@/api/routes/auth';
+
+import {
+  requireWalletAuth,
+  requireWalletOrApiKey,
+  walletFromParams,
+  walletFromBody,
+  walletFromBodyOrQuery,
+} from '@/api/middleware/walletAuth';
+
+import { requireApiKey } from '@/api/middleware/apiKeyAuth';
+import { rateLimit } from '@/api/middleware/rateLimit';
+
 import {
   getPositions,
   getPositionSummary,
   getPositionsBySymbol,
+  getPositionEvents,
+  streamPositions,
   syncPositions,
   upsertPosition,
   updatePosition,
@@ -64,6 +118,23 @@ import {
   resetCircuitBreakers,
 } from '@/api/routes/positions';
 
+import {
+  getAlertRules,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  getAlertDeliveries,
+} from '@/api/routes/alerts';
+
+import {
+  putAsterCredentials,
+  removeAsterCredentials,
+  putLighterCredentials,
+  removeLighterCredentials,
+} from '@/api/routes/credentials';
+
+import { getEquityCurve } from '@/api/routes/portfolio';
+
 import {
   trackVolume,
   getLeaderboard,
@@ -75,20 +146,19 @@ import {
 
 // Create Express app
 const app = express();
+app.set('trust proxy', config.server.trustProxy);
 
 // Apply middleware
 app.use(helmet());
 app.use(cors({
   origin: config.cors.origins,
   credentials: true,
+  // Gap-fill completeness of /api/aggregated/candles, readable by browser chart clients
+  exposedHeaders: ['X-Candles-Expected', 'X-Candles-Actual', 'X-Candles-Filled', 'X-Candles-Missing'],
 }));
 
-// Rate limiting
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 1000, // limit each IP to 1000 requests per windowMs
-});
-app.use(limiter as any);
+// Rate limiting (Redis sliding window, shared across instances)
+app.use(rateLimit('default'));
 
 // Body parsing middleware
 app.use(compression());
@@ -128,6 +198,7 @@ app.get('/api', (req, res) => {
 
 // Mount all routes
 // Orderbook routes
+app.get('/api/orderbook/sequence', getOrderbookSequenceStats);
 app.get('/api/orderbook/:symbol', getOrderbook);
 app.get('/api/orderbook/:symbol/full', getFullOrderbook);
 app.get('/api/orderbook/:symbol/metrics', getOrderbookMetrics);
@@ -140,8 +211,12 @@ app.get('/api/trades/cached', getCachedTradeSymbols);
 app.get('/api/trades/stats', getTradeStats);
 
 // Charts routes
+app.post('/api/charts/backfill', requireApiKey('admin'), startCandleBackfill);
+app.get('/api/charts/backfill', requireApiKey('admin'), getCandleBackfillJobs);
+app.get('/api/charts/backfill/:jobId', requireApiKey('admin'), getCandleBackfillJob);
 app.get('/api/charts/:symbol/candles', getCandles);
 app.get('/api/charts/:symbol/latest', getLatestCandle);
+app.get('/api/charts/:symbol/metrics', getChartMetrics);
 app.get('/api/charts/current', getCurrentCandles);
 app.get('/api/charts/cached', getCachedChartSymbols);
 app.get('/api/charts/stats', getChartStats);
@@ -153,16 +228,55 @@ app.get('/api/aggregated/routing', getAggregatedRouting);
 app.get('/api/aggregated/stream', streamAggregatedBook);
 app.get('/api/aggregated/stream/candles', streamAggregatedCandles);
 
+// TradingView UDF datafeed
+app.get('/udf/config', getUdfConfig);
+app.get('/udf/symbols', getUdfSymbol);
+app.get('/udf/search', searchUdfSymbols);
+app.get('/udf/history', getUdfHistory);
+app.get('/udf/time', getUdfTime);
+
+// Arbitrage routes
+app.get('/api/arbitrage/opportunities', getArbitrageOpportunities);
+app.get('/api/arbitrage/history', getArbitrageHistory);
+app.get('/api/arbitrage/stream', streamArbitrage);
+
+// Order routes
+app.post('/api/orders', requireWalletAuth(walletFromBody), rateLimit('trading'), placeOrder);
+app.post('/api/orders/routed', requireWalletAuth(walletFromBody), rateLimit('trading'), placeRoutedOrder);
+app.delete('/api/orders/:id', requireWalletAuth(walletFromBodyOrQuery), rateLimit('trading'), cancelOrder);
+app.get('/api/orders/:walletAddress', requireWalletOrApiKey(walletFromParams, 'trade'), getOrders);
+
+// Auth routes
+app.get('/api/auth/nonce', rateLimit('auth'), getNonce);
+app.post('/api/auth/verify', rateLimit('auth'), verifySignature);
+app.delete('/api/auth/session', revokeSession);
+
 // Position routes
-app.get('/api/positions/status', getSyncStatus);
-app.post('/api/positions/reset-circuits', resetCircuitBreakers);
+app.get('/api/positions/status', requireApiKey('admin'), getSyncStatus);
+app.post('/api/positions/reset-circuits', requireApiKey('admin'), resetCircuitBreakers);
 app.get('/api/positions/:walletAddress', getPositions);
 app.get('/api/positions/:walletAddress/summary', getPositionSummary);
+app.get('/api/positions/:walletAddress/events', getPositionEvents);
+app.get('/api/positions/:walletAddress/stream', requireWalletAuth(walletFromParams), streamPositions);
+app.get('/api/positions/:walletAddress/alerts', requireWalletAuth(walletFromParams), getAlertRules);
+app.post('/api/positions/:walletAddress/alerts', requireWalletAuth(walletFromParams), createAlertRule);
+app.get('/api/positions/:walletAddress/alerts/deliveries', requireWalletAuth(walletFromParams), getAlertDeliveries);
+app.put('/api/positions/:walletAddress/alerts/:ruleId', requireWalletAuth(walletFromParams), updateAlertRule);
+app.delete('/api/positions/:walletAddress/alerts/:ruleId', requireWalletAuth(walletFromParams), deleteAlertRule);
 app.get('/api/positions/:walletAddress/:symbol', getPositionsBySymbol);
-app.post('/api/positions/:walletAddress/sync', syncPositions);
-app.post('/api/positions', upsertPosition);
-app.put('/api/positions/:id', updatePosition);
-app.delete('/api/positions/:walletAddress/:platform/:symbol', closePosition);
+app.post('/api/positions/:walletAddress/sync', requireWalletAuth(walletFromParams), rateLimit('positionSync'), syncPositions);
+app.post('/api/positions', requireWalletAuth(walletFromBody), upsertPosition);
+app.put('/api/positions/:id', requireWalletAuth(), updatePosition);
+app.delete('/api/positions/:walletAddress/:platform/:symbol', requireWalletAuth(walletFromParams), closePosition);
+
+// Exchange credential routes (write-only; secrets are never returned)
+app.put('/api/credentials/:walletAddress/aster', requireWalletAuth(walletFromParams), putAsterCredentials);
+app.delete('/api/credentials/:walletAddress/aster', requireWalletAuth(walletFromParams), removeAsterCredentials);
+app.put('/api/credentials/:walletAddress/lighter', requireWalletAuth(walletFromParams), putLighterCredentials);
+app.delete('/api/credentials/:walletAddress/lighter', requireWalletAuth(walletFromParams), removeLighterCredentials);
+
+// Portfolio routes
+app.get('/api/portfolio/:walletAddress/equity', getEquityCurve);
 
 // Volume routes
 app.post('/api/volume/track', trackVolume);
@@ -170,7 +284,7 @@ app.get('/api/volume/leaderboard', getLeaderboard);
 app.get('/api/volume/user/:address', getUserStats);
 app.get('/api/volume/user/:address/recent', getUserRecentTrades);
 app.get('/api/volume/platform/:platform/stats', getPlatformStats);
-app.post('/api/volume/clear', clearVolume);
+app.post('/api/volume/clear', requireApiKey('admin'), clearVolume);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -246,6 +360,27 @@ class HyperdexServer {
       const dbHealthy = await database.healthCheck();
       if (dbHealthy) {
         logger.info('✅ Database connected');
+        await aggregationProcessor.loadFeeSchedule();
+        await arbitrageDetector.closeOrphanedOpportunities();
+        equitySnapshotter.start();
+        positionPoller.start();
+        valuationEngine.start();
+        alertEvaluator.start().catch((error) => {
+          logger.error('Failed to start alert evaluator:', error);
+        });
+        if (backfillConfig.onStartup) {
+          candleBackfill.enqueue({
+            symbols: supportedSymbols,
+            exchanges: ['hyperliquid', 'aster', 'lighter'],
+            timeframes: BACKFILL_TIMEFRAMES,
+            lookbackCandles: backfillConfig.lookbackCandles,
+          }, 'startup');
+        }
+        if (userStreamConfig.enabled) {
+          userStreamManager.start().catch((error) => {
+            logger.error('Failed to start user streams:', error);
+          });
+        }
       }
     } catch (error) {
       logger.warn('⚠️  Database not available, continuing without it');
@@ -303,6 +438,10 @@ class HyperdexServer {
       await redisPublisher.publishOrderbook(snapshot);
     });
 
+    this.hyperliquidClient.on('marketStats', (stats) => {
+      aggregationProcessor.updateFundingRate(stats.symbol, 'hyperliquid', stats.fundingRate);
+    });
+
     this.hyperliquidClient.on('trades', async (trades) => {
       await tradeProcessor.processTrades(trades);
 
@@ -321,6 +460,35 @@ class HyperdexServer {
       }
     });
 
+    // Aster and Lighter stream diffs; publish the rebuilt book, not the diff
+    const publishDiff = async (update: OrderbookUpdate) => {
+      await orderbookProcessor.processUpdate(update);
+
+      const book = await orderbookProcessor.getTopLevels(update.symbol, update.exchange);
+      if (!book || book.bids.length === 0 || book.asks.length === 0) {
+        return;
+      }
+
+      const midPrice = (parseFloat(book.bids[0].price) + parseFloat(book.asks[0].price)) / 2;
+      await chartProcessor.processTickData({
+        symbol: update.symbol,
+        exchange: update.exchange,
+        price: midPrice.toString(),
+        size: '0',
+        side: 'buy',
+        timestamp: update.timestamp,
+        tradeId: `ob-${update.timestamp}`,
+      });
+
+      await redisPublisher.publishOrderbook({
+        exchange: update.exchange,
+        symbol: update.symbol,
+        bids: book.bids.map(level => [level.price, level.size]),
+        asks: book.asks.map(level => [level.price, level.size]),
+        timestamp: update.timestamp,
+      });
+    };
+
     // Aster handlers (similar)
     this.asterClient.on('orderbook', async (snapshot) => {
       await orderbookProcessor.processSnapshot(snapshot);
@@ -344,6 +512,12 @@ class HyperdexServer {
       await redisPublisher.publishOrderbook(snapshot);
     });
 
+    this.asterClient.on('orderbookUpdate', publishDiff);
+
+    this.asterClient.on('marketStats', (stats) => {
+      aggregationProcessor.updateFundingRate(stats.symbol, 'aster', stats.fundingRate);
+    });
+
     this.asterClient.on('trades', async (trades) => {
       await tradeProcessor.processTrades(trades);
 
@@ -385,6 +559,12 @@ class HyperdexServer {
       await redisPublisher.publishOrderbook(snapshot);
     });
 
+    this.lighterClient.on('orderbookUpdate', publishDiff);
+
+    this.lighterClient.on('marketStats', (stats) => {
+      aggregationProcessor.updateFundingRate(stats.symbol, 'lighter', stats.fundingRate);
+    });
+
     this.lighterClient.on('trades', async (trades) => {
       await tradeProcessor.processTrades(trades);
 
@@ -411,6 +591,29 @@ class HyperdexServer {
       await aggregationProcessor.processOrderbookUpdate(orderbook);
     });
 
+    // Drop books that missed diffs from aggregation and rebuild them from a fresh snapshot
+    orderbookProcessor.on('orderbookInvalidated', async ({ symbol, exchange }) => {
+      try {
+        await aggregationProcessor.invalidateSource(symbol, exchange);
+      } catch (error) {
+        logger.error(`Failed to invalidate ${exchange}:${symbol} in aggregation:`, error);
+      }
+    });
+
+    orderbookProcessor.setSnapshotRequester('hyperliquid', (symbol) => this.hyperliquidClient.requestOrderbookSnapshot(symbol));
+    orderbookProcessor.setSnapshotRequester('aster', (symbol) => this.asterClient.requestOrderbookSnapshot(symbol));
+    orderbookProcessor.setSnapshotRequester('lighter', (symbol) => this.lighterClient.requestOrderbookSnapshot(symbol));
+
+    aggregationProcessor.on('aggregated', async (data) => {
+      try {
+        await arbitrageDetector.processAggregatedBook(data);
+      } catch (error) {
+        logger.error('Failed to process arbitrage detection:', error);
+      }
+    });
+
+    indicatorProcessor.start();
+
     chartProcessor.on('candleUpdated', async (update) => {
       await aggregatedChartProcessor.processCandleUpdate(update);
 
@@ -455,6 +658,15 @@ class HyperdexServer {
       }
     }, 60 * 60 * 1000);
 
+    // Drop venues whose orderbook feed has gone quiet
+    setInterval(async () => {
+      try {
+        await aggregationProcessor.checkStaleSources();
+      } catch (error) {
+        logger.error('Failed to check stale orderbook sources:', error);
+      }
+    }, 1000);
+
     // Log stats every 5 minutes
     setInterval(() => {
       const stats = {
@@ -482,9 +694,16 @@ class HyperdexServer {
     // Stop processors
     orderbookProcessor.stop();
     tradeProcessor.stop();
+    indicatorProcessor.stop();
     chartProcessor.stop();
     aggregationProcessor.stop();
+    arbitrageDetector.stop();
     aggregatedChartProcessor.stop();
+    equitySnapshotter.stop();
+    positionPoller.stop();
+    alertEvaluator.stop();
+    valuationEngine.stop();
+    await userStreamManager.stop();
 
     // Disconnect from exchanges
     await this.hyperliquidClient.disconnect();
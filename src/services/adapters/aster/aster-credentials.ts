@@ -0,0 +1,108 @@
+import { database } from '@/config/database';
+import { logger } from '@/utils/logger';
+import { credentialEncryption, CredentialContext } from '@/services/security/credential-encryption';
+
+export interface AsterCredentials {
+  apiKey: string;
+  apiSecret: string;
+}
+
+function getContext(walletAddress: string, field: 'api_key' | 'api_secret'): CredentialContext {
+  return { walletAddress, scope: 'aster', field };
+}
+
+/**
+ * Get decrypted Aster API credentials for a wallet address.
+ * Prefers the aster_credentials table and falls back to keys stored on user_accounts.
+ */
+export async function getAsterCredentials(walletAddress: string): Promise<AsterCredentials | null> {
+  try {
+    const stored = await database.query<{ api_key: string; api_secret_encrypted: string }>(
+      `SELECT api_key, api_secret_encrypted
+       FROM aster_credentials
+       WHERE wallet_address = $1`,
+      [walletAddress.toLowerCase()]
+    );
+
+    if (stored.rows.length > 0) {
+      return {
+        apiKey: stored.rows[0].api_key,
+        apiSecret: credentialEncryption.decrypt(
+          stored.rows[0].api_secret_encrypted,
+          getContext(walletAddress, 'api_secret')
+        ),
+      };
+    }
+
+    const account = await database.query<{
+      aster_api_key_encrypted: string | null;
+      aster_api_secret_encrypted: string | null;
+    }>(
+      `SELECT aster_api_key_encrypted, aster_api_secret_encrypted
+       FROM user_accounts
+       WHERE wallet_address = $1 AND is_active = true`,
+      [walletAddress]
+    );
+
+    if (account.rows.length === 0 || !account.rows[0].aster_api_key_encrypted || !account.rows[0].aster_api_secret_encrypted) {
+      logger.debug(`No Aster credentials found for ${walletAddress}`);
+      return null;
+    }
+
+    return {
+      apiKey: credentialEncryption.decrypt(account.rows[0].aster_api_key_encrypted, getContext(walletAddress, 'api_key')),
+      apiSecret: credentialEncryption.decrypt(account.rows[0].aster_api_secret_encrypted, getContext(walletAddress, 'api_secret')),
+    };
+  } catch (error) {
+    logger.error(`Failed to fetch Aster credentials for ${walletAddress}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Store or update Aster API credentials for a wallet address.
+ * The secret is encrypted bound to the wallet before it is written.
+ */
+export async function storeAsterCredentials(walletAddress: string, credentials: AsterCredentials): Promise<void> {
+  try {
+    const wallet = walletAddress.toLowerCase();
+    const apiSecretEncrypted = credentialEncryption.encrypt(credentials.apiSecret, getContext(wallet, 'api_secret'));
+
+    await database.query(
+      `INSERT INTO aster_credentials (
+        wallet_address, api_key, api_secret_encrypted, key_version, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ON CONFLICT (wallet_address)
+      DO UPDATE SET
+        api_key = EXCLUDED.api_key,
+        api_secret_encrypted = EXCLUDED.api_secret_encrypted,
+        key_version = EXCLUDED.key_version,
+        updated_at = CURRENT_TIMESTAMP`,
+      [wallet, credentials.apiKey, apiSecretEncrypted, credentialEncryption.getKeyVersion(apiSecretEncrypted)]
+    );
+
+    logger.info(`Stored Aster credentials for ${walletAddress}`);
+  } catch (error) {
+    logger.error('Failed to store Aster credentials:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete Aster credentials for a wallet address
+ */
+export async function deleteAsterCredentials(walletAddress: string): Promise<void> {
+  try {
+    const result = await database.query(
+      'DELETE FROM aster_credentials WHERE wallet_address = $1',
+      [walletAddress.toLowerCase()]
+    );
+
+    if (result.rowCount && result.rowCount > 0) {
+      logger.info(`Deleted Aster credentials for ${walletAddress}`);
+    }
+  } catch (error) {
+    logger.error(`Failed to delete Aster credentials for ${walletAddress}:`, error);
+    throw error;
+  }
+}
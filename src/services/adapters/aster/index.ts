@@ -0,0 +1,9 @@
+/**
+ * Aster Adapter for Hyperdex
+ *
+ * Credential access for authenticated Aster API calls.
+ *
+ * @module AsterAdapter
+ */
+
+export * from './aster-credentials';
@@ -8,6 +8,9 @@
 // Export Lighter adapter
 export * from './lighter';
 
+// Export Aster credentials
+export * from './aster';
+
 // Future adapters can be added here:
 // export * from './other-platform';
 
@@ -10,6 +10,10 @@
 export * from './lighter-adapter';
 export * from './lighter-credentials';
 export * from './lighter-signer';
+export * from './lighter-tx';
+export * from './lighter-poseidon2';
+export * from './lighter-schnorr';
+export * from './lighter-nonce-manager';
 export * from './lighter-errors';
 
 // Re-export types for convenience
@@ -29,12 +33,15 @@ export type {
   WithdrawParams,
 } from './lighter-adapter';
 
-export type { LighterCredentials } from './lighter-credentials';
+export type { LighterCredentials, LighterCredentialsInput } from './lighter-credentials';
 export type {
   SignCreateOrderParams,
   SignCancelOrderParams,
   SignCancelAllOrdersParams,
   SignUpdateLeverageParams,
+  SignTransferParams,
+  SignWithdrawParams,
+  SignedLighterTx,
 } from './lighter-signer';
 
 export type {
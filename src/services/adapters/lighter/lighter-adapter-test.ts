@@ -46,7 +46,7 @@ const TEST_CONFIG = {
   baseUrl: 'https://mainnet.zklighter.elliot.ai', // or testnet.zklighter.elliot.ai
   walletAddress: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8', // Your wallet
   accountIndex: 65, // Your account index
-  privateKey: '3ad126b9f0a2cc8cb367ef67a6c77389a85e18e20ce8da2edf34d022e9bf1aa8', // Your Ed25519 private key (hex string, no 0x prefix)
+  privateKey: '3ad126b9f0a2cc8cb367ef67a6c77389a85e18e20ce8da2edf34d022e9bf1aa8', // Your API private key (40 bytes as hex, no 0x prefix)
   apiKeyIndex: 2,
 };
 
@@ -24,6 +24,8 @@ export interface LighterPosition {
   leverage: string;
   margin: string;
   liquidation_price?: string;
+  position_value?: string;
+  margin_mode?: number;
 }
 
 export interface LighterOrder {
@@ -109,11 +111,14 @@ export interface CancelOrderParams {
 export interface UpdateLeverageParams {
   market_index: number;
   leverage: number;
+  margin_mode?: number;
 }
 
 export interface TransferParams {
   account_index_to: number;
   amount: string;
+  fee?: string;
+  memo?: string;
 }
 
 export interface WithdrawParams {
@@ -176,24 +181,8 @@ export class LighterRestClient {
       });
       
       // sub_accounts contains the positions array from the API response
-      if (account && Array.isArray(account.sub_accounts)) {
-        for (const pos of account.sub_accounts) {
-          // Only include positions with non-zero position size
-          const positionSize = parseFloat(pos.position || '0');
-          if (positionSize !== 0) {
-            positions.push({
-              market_id: pos.market_id,
-              side: pos.sign === 1 ? 'long' : 'short',
-              size: pos.position,
-              entry_price: pos.avg_entry_price,
-              mark_price: '0', // Not provided in this response
-              unrealized_pnl: pos.unrealized_pnl,
-              leverage: pos.initial_margin_fraction,
-              margin: pos.allocated_margin,
-              liquidation_price: pos.liquidation_price,
-            });
-          }
-        }
+      if (account) {
+        positions.push(...LighterRestClient.parsePositions(account.sub_accounts));
       }
       
       logger.debug(`Lighter: Found ${positions.length} active positions for account ${accountIndex}`);
@@ -205,6 +194,31 @@ export class LighterRestClient {
     }
   }
 
+  /**
+   * Map the raw positions array of an account response, skipping empty positions
+   */
+  static parsePositions(rawPositions: any[] | undefined): LighterPosition[] {
+    if (!Array.isArray(rawPositions)) {
+      return [];
+    }
+
+    return rawPositions
+      .filter((pos) => parseFloat(pos.position || '0') !== 0)
+      .map((pos) => ({
+        market_id: pos.market_id,
+        side: pos.sign === 1 ? 'long' : 'short',
+        size: pos.position,
+        entry_price: pos.avg_entry_price,
+        mark_price: '0', // Not provided in this response
+        unrealized_pnl: pos.unrealized_pnl,
+        leverage: pos.initial_margin_fraction,
+        margin: pos.allocated_margin,
+        liquidation_price: pos.liquidation_price,
+        position_value: pos.position_value,
+        margin_mode: pos.margin_mode,
+      }));
+  }
+
   async getAccountPnL(
     accountIndex: number,
     startTimestamp?: number,
@@ -292,7 +306,7 @@ export class LighterRestClient {
       const rawTrades = response.data?.trades || response.data?.data || [];
       
       // Transform trades to match LighterTrade interface
-      const trades = Array.isArray(rawTrades) ? rawTrades.map((trade: any) => ({
+      const trades = Array.isArray(rawTrades) ? rawTrades.map((trade: any): LighterTrade => ({
         trade_id: trade.trade_id,
         market_id: trade.market_id,
         price: trade.price,
@@ -376,7 +390,8 @@ export class LighterRestClient {
     if (countBack) params.count_back = countBack;
 
     const response = await this.client.get('/api/v1/candlesticks', { params });
-    return response.data.data || [];
+    // The response structure is { code: 200, resolution, candlesticks: [...] }
+    return response.data?.candlesticks || response.data?.data || [];
   }
 
   // Transaction Operations
@@ -526,9 +541,9 @@ export class LighterSignerClient {
     try {
       logger.info('Lighter: Canceling all orders via TypeScript signer', { marketId, timeInForce });
       const signer = await this.getSigner();
+      // Lighter cancels across all markets; marketId is kept for logging only
       return await signer.cancelAllOrders(
         {
-          marketIndex: marketId,
           timeInForce: timeInForce || 0,
         },
         this.apiKeyIndex
@@ -547,6 +562,7 @@ export class LighterSignerClient {
         {
           marketIndex: params.market_index,
           leverage: params.leverage,
+          marginMode: params.margin_mode,
         },
         this.apiKeyIndex
       );
@@ -558,8 +574,17 @@ export class LighterSignerClient {
 
   async transfer(params: TransferParams): Promise<{ tx: any; txHash: string; error?: string }> {
     try {
-      logger.info('Lighter: Transfer (not yet implemented in TS signer)', params);
-      throw new Error('Transfer not yet implemented');
+      logger.info('Lighter: Transferring via TypeScript signer', params);
+      const signer = await this.getSigner();
+      return await signer.transfer(
+        {
+          toAccountIndex: params.account_index_to,
+          usdcAmount: params.amount,
+          fee: params.fee,
+          memo: params.memo,
+        },
+        this.apiKeyIndex
+      );
     } catch (error: any) {
       logger.error('Lighter: Error transferring:', error);
       return { tx: null, txHash: '', error: error.message };
@@ -568,8 +593,15 @@ export class LighterSignerClient {
 
   async withdraw(params: WithdrawParams): Promise<{ tx: any; txHash: string; error?: string }> {
     try {
-      logger.info('Lighter: Withdraw (not yet implemented in TS signer)', params);
-      throw new Error('Withdrawal not yet implemented');
+      logger.info('Lighter: Withdrawing via TypeScript signer', params);
+      const signer = await this.getSigner();
+      // Withdrawals always settle to the account's registered L1 address
+      return await signer.withdraw(
+        {
+          usdcAmount: params.amount,
+        },
+        this.apiKeyIndex
+      );
     } catch (error: any) {
       logger.error('Lighter: Error withdrawing:', error);
       return { tx: null, txHash: '', error: error.message };
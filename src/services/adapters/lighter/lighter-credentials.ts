@@ -1,5 +1,6 @@
 import { database } from '@/config/database';
 import { logger } from '@/utils/logger';
+import { credentialEncryption, CredentialContext } from '@/services/security/credential-encryption';
 
 export interface LighterCredentials {
   walletAddress: string;
@@ -9,6 +10,19 @@ export interface LighterCredentials {
   apiKeyPublic: string;
 }
 
+export interface LighterCredentialsInput {
+  walletAddress: string;
+  accountIndex: number;
+  apiKeyIndex: number;
+  // Plaintext API private key; encrypted before it is written
+  apiKeyPrivate: string;
+  apiKeyPublic: string;
+}
+
+function getPrivateKeyContext(walletAddress: string): CredentialContext {
+  return { walletAddress, scope: 'lighter', field: 'api_key_private' };
+}
+
 /**
  * Get Lighter credentials for a wallet address
  */
@@ -16,11 +30,11 @@ export async function getLighterCredentials(walletAddress: string): Promise<Ligh
   try {
     const query = `
       SELECT 
-        wallet_address,
-        account_index,
-        api_key_index,
-        api_key_private_encrypted,
-        api_key_public
+        wallet_address AS "walletAddress",
+        account_index AS "accountIndex",
+        api_key_index AS "apiKeyIndex",
+        api_key_private_encrypted AS "apiKeyPrivateEncrypted",
+        api_key_public AS "apiKeyPublic"
       FROM lighter_credentials
       WHERE wallet_address = $1
       ORDER BY created_at DESC
@@ -42,10 +56,11 @@ export async function getLighterCredentials(walletAddress: string): Promise<Ligh
 }
 
 /**
- * Store or update Lighter credentials for a wallet address
+ * Store or update Lighter credentials for a wallet address. The private key is
+ * encrypted here, bound to the wallet, so plaintext never reaches the table.
  */
 export async function storeLighterCredentials(
-  credentials: LighterCredentials
+  credentials: LighterCredentialsInput
 ): Promise<void> {
   try {
     const query = `
@@ -55,24 +70,30 @@ export async function storeLighterCredentials(
         api_key_index,
         api_key_private_encrypted,
         api_key_public,
+        key_version,
         created_at,
         updated_at
-      ) VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ) VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
       ON CONFLICT (wallet_address) 
       DO UPDATE SET
         account_index = EXCLUDED.account_index,
         api_key_index = EXCLUDED.api_key_index,
         api_key_private_encrypted = EXCLUDED.api_key_private_encrypted,
         api_key_public = EXCLUDED.api_key_public,
+        key_version = EXCLUDED.key_version,
         updated_at = CURRENT_TIMESTAMP
     `;
 
+    const walletAddress = credentials.walletAddress.toLowerCase();
+    const apiKeyPrivateEncrypted = encryptLighterPrivateKey(credentials.apiKeyPrivate, walletAddress);
+
     await database.query(query, [
-      credentials.walletAddress.toLowerCase(),
+      walletAddress,
       credentials.accountIndex,
       credentials.apiKeyIndex,
-      credentials.apiKeyPrivateEncrypted,
+      apiKeyPrivateEncrypted,
       credentials.apiKeyPublic,
+      credentialEncryption.getKeyVersion(apiKeyPrivateEncrypted),
     ]);
 
     logger.info(`Stored Lighter credentials for ${credentials.walletAddress}`);
@@ -104,22 +125,15 @@ export async function deleteLighterCredentials(walletAddress: string): Promise<v
 }
 
 /**
- * Decrypt credentials (placeholder - implement actual decryption)
- * TODO: Implement proper AES-256 decryption
+ * Decrypt a stored Lighter API private key for the wallet that owns it
  */
-export function decryptLighterPrivateKey(encryptedKey: string): string {
-  // Placeholder - in production, implement proper decryption
-  // For now, return as-is if not actually encrypted
-  return encryptedKey;
+export function decryptLighterPrivateKey(encryptedKey: string, walletAddress: string): string {
+  return credentialEncryption.decrypt(encryptedKey, getPrivateKeyContext(walletAddress));
 }
 
 /**
- * Encrypt credentials (placeholder - implement actual encryption)
- * TODO: Implement proper AES-256 encryption
+ * Encrypt a Lighter API private key for storage on a wallet's row
  */
-export function encryptLighterPrivateKey(privateKey: string): string {
-  // Placeholder - in production, implement proper encryption
-  // For now, return as-is if not actually encrypting
-  return privateKey;
+export function encryptLighterPrivateKey(privateKey: string, walletAddress: string): string {
+  return credentialEncryption.encrypt(privateKey, getPrivateKeyContext(walletAddress));
 }
-
@@ -6,7 +6,7 @@ export class LighterAuthenticationError extends Error {
   constructor(message?: string) {
     super(
       message ||
-        'Authentication required: This endpoint requires an Ed25519 API key. ' +
+        'Authentication required: This endpoint requires a Lighter API key. ' +
           'Initialize the signer with initializeSigner() or generate an API key with: npm run generate-lighter-key'
     );
     this.name = 'LighterAuthenticationError';
@@ -42,3 +42,10 @@ export class LighterValidationError extends Error {
     Object.setPrototypeOf(this, LighterValidationError.prototype);
   }
 }
+
+/**
+ * Check whether an API error was caused by a stale or reused nonce
+ */
+export function isInvalidNonceError(error: unknown): boolean {
+  return error instanceof LighterApiError && /nonce/i.test(error.message);
+}
@@ -0,0 +1,139 @@
+const store = new Map<string, string>();
+const redis = {
+  status: 'ready',
+  set: jest.fn(async (key: string, value: string, ...args: unknown[]) => {
+    if (args.includes('NX') && store.has(key)) return null;
+    store.set(key, value);
+    return 'OK';
+  }),
+  // Stands in for the module's Lua scripts: the release script rewinds, the unlock script deletes
+  eval: jest.fn(async (script: string, _numKeys: number, key: string, arg: string) => {
+    if (store.get(key) !== arg) return 0;
+    if (script.includes('tonumber')) {
+      store.set(key, String(Number(arg) - 1));
+    } else {
+      store.delete(key);
+    }
+    return 1;
+  }),
+};
+
+jest.mock('@/config/redis', () => ({
+  redisClient: {
+    getClient: () => redis,
+    exists: async (key: string) => store.has(key),
+    get: async (key: string) => store.get(key) ?? null,
+    set: async (key: string, value: string) => { store.set(key, value); },
+    setnx: async (key: string, value: string) => {
+      if (store.has(key)) return false;
+      store.set(key, value);
+      return true;
+    },
+    incr: async (key: string) => {
+      const next = Number(store.get(key) ?? 0) + 1;
+      store.set(key, String(next));
+      return next;
+    },
+  },
+}));
+
+import { LighterNonceManager } from './lighter-nonce-manager';
+
+const KEY = 'lighter:nonce:65:2';
+
+describe('LighterNonceManager', () => {
+  let manager: LighterNonceManager;
+  let fetchServerNonce: jest.Mock<Promise<number>, []>;
+
+  beforeEach(() => {
+    store.clear();
+    redis.status = 'ready';
+    manager = new LighterNonceManager();
+    fetchServerNonce = jest.fn().mockResolvedValue(10);
+  });
+
+  it('seeds once and hands out distinct nonces to concurrent callers', async () => {
+    const nonces = await Promise.all(
+      Array.from({ length: 5 }, () => manager.reserve(65, 2, fetchServerNonce))
+    );
+
+    expect(fetchServerNonce).toHaveBeenCalledTimes(1);
+    expect([...nonces].sort()).toEqual([10, 11, 12, 13, 14]);
+  });
+
+  it('keeps a counter another instance seeded first', async () => {
+    store.set(KEY, '41');
+
+    expect(await manager.reserve(65, 2, fetchServerNonce)).toBe(42);
+    expect(fetchServerNonce).not.toHaveBeenCalled();
+  });
+
+  it('shares one server fetch between concurrent resyncs', async () => {
+    store.set(KEY, '20');
+
+    await Promise.all([
+      manager.resync(65, 2, fetchServerNonce, 15),
+      manager.resync(65, 2, fetchServerNonce, 16),
+      manager.resync(65, 2, fetchServerNonce, 17),
+    ]);
+
+    expect(fetchServerNonce).toHaveBeenCalledTimes(1);
+    expect(store.get(KEY)).toBe('9');
+    expect(store.has(`${KEY}:lock`)).toBe(false);
+  });
+
+  it('skips a resync for a nonce reserved before the last resync', async () => {
+    // A previous resync already rewound the counter below the failed nonce
+    store.set(KEY, '9');
+
+    await manager.resync(65, 2, fetchServerNonce, 17);
+
+    expect(fetchServerNonce).not.toHaveBeenCalled();
+    expect(store.get(KEY)).toBe('9');
+  });
+
+  it('waits for another instance holding the resync lock instead of fetching', async () => {
+    store.set(KEY, '20');
+    store.set(`${KEY}:lock`, 'other-instance');
+    setTimeout(() => {
+      store.set(KEY, '9');
+      store.delete(`${KEY}:lock`);
+    }, 20);
+
+    await manager.resync(65, 2, fetchServerNonce, 15);
+
+    expect(fetchServerNonce).not.toHaveBeenCalled();
+    expect(store.get(KEY)).toBe('9');
+  });
+
+  it('rewinds a released nonce when nothing was reserved after it', async () => {
+    const nonce = await manager.reserve(65, 2, fetchServerNonce);
+
+    await manager.release(65, 2, nonce, fetchServerNonce);
+
+    expect(await manager.reserve(65, 2, fetchServerNonce)).toBe(nonce);
+    expect(fetchServerNonce).toHaveBeenCalledTimes(1);
+  });
+
+  it('resyncs when a released nonce is followed by other reservations', async () => {
+    const first = await manager.reserve(65, 2, fetchServerNonce);
+    await manager.reserve(65, 2, fetchServerNonce);
+
+    await manager.release(65, 2, first, fetchServerNonce);
+
+    expect(fetchServerNonce).toHaveBeenCalledTimes(2);
+    expect(await manager.reserve(65, 2, fetchServerNonce)).toBe(10);
+  });
+
+  it('falls back to an in-process counter without Redis', async () => {
+    redis.status = 'end';
+
+    const first = await manager.reserve(65, 2, fetchServerNonce);
+    const second = await manager.reserve(65, 2, fetchServerNonce);
+    await manager.release(65, 2, second, fetchServerNonce);
+
+    expect([first, second]).toEqual([10, 11]);
+    expect(await manager.reserve(65, 2, fetchServerNonce)).toBe(11);
+    expect(store.size).toBe(0);
+  });
+});
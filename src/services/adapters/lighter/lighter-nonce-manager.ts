@@ -0,0 +1,200 @@
+import { randomBytes } from 'crypto';
+import { redisClient } from '@/config/redis';
+import { logger } from '@/utils/logger';
+
+/**
+ * Reserves Lighter transaction nonces locally instead of asking the API before
+ * every transaction.
+ *
+ * The last used nonce per account/API key is kept in Redis and advanced with
+ * INCR, so concurrent orders and multiple backend instances never hand out the
+ * same nonce. When Redis is unavailable an in-process counter is used instead.
+ *
+ * Resyncs from the server are single-flight per key within a process and hold a
+ * Redis lock across instances, so two resyncs never overwrite each other's counter.
+ */
+
+const LOCK_TTL_MS = 10_000;
+const LOCK_POLL_MS = 50;
+
+// KEYS[1] = nonce key; ARGV[1] = released nonce
+// Rewinds the counter only if nothing was reserved after the released nonce
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  redis.call('SET', KEYS[1], tonumber(ARGV[1]) - 1)
+  return 1
+end
+return 0
+`;
+
+// KEYS[1] = lock key; ARGV[1] = owner token
+const UNLOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+export class LighterNonceManager {
+  private localNonces: Map<string, number> = new Map();
+  private pendingSeeds: Map<string, Promise<void>> = new Map();
+  private pendingResyncs: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Reserve the next nonce for an API key, seeding from the server on first use
+   */
+  async reserve(
+    accountIndex: number,
+    apiKeyIndex: number,
+    fetchServerNonce: () => Promise<number>
+  ): Promise<number> {
+    const key = this.getKey(accountIndex, apiKeyIndex);
+
+    if (this.useRedis()) {
+      if (!(await redisClient.exists(key))) {
+        await this.seed(key, fetchServerNonce);
+      }
+      return redisClient.incr(key);
+    }
+
+    if (!this.localNonces.has(key)) {
+      await this.seed(key, fetchServerNonce);
+    }
+    const nonce = this.localNonces.get(key)! + 1;
+    this.localNonces.set(key, nonce);
+    return nonce;
+  }
+
+  /**
+   * Return a nonce the exchange never accepted (signing failed or the tx was rejected).
+   * If later nonces were already reserved the counter can't simply be rewound, so it is resynced.
+   */
+  async release(
+    accountIndex: number,
+    apiKeyIndex: number,
+    nonce: number,
+    fetchServerNonce: () => Promise<number>
+  ): Promise<void> {
+    const key = this.getKey(accountIndex, apiKeyIndex);
+
+    let rewound: boolean;
+    if (this.useRedis()) {
+      rewound = (await redisClient.getClient().eval(RELEASE_SCRIPT, 1, key, String(nonce))) === 1;
+    } else {
+      rewound = this.localNonces.get(key) === nonce;
+      if (rewound) {
+        this.localNonces.set(key, nonce - 1);
+      }
+    }
+
+    if (!rewound) {
+      await this.resync(accountIndex, apiKeyIndex, fetchServerNonce, nonce);
+    }
+  }
+
+  /**
+   * Discard the local view and resync from the server (e.g. after an invalid nonce error).
+   * With `failedNonce`, the resync is skipped if the counter was already rewound below it,
+   * i.e. another caller resynced after that nonce was reserved.
+   */
+  async resync(
+    accountIndex: number,
+    apiKeyIndex: number,
+    fetchServerNonce: () => Promise<number>,
+    failedNonce?: number
+  ): Promise<void> {
+    const key = this.getKey(accountIndex, apiKeyIndex);
+
+    const pending = this.pendingResyncs.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const sync = (async () => {
+      if (!this.useRedis()) {
+        if (!this.isStale(this.localNonces.get(key), failedNonce)) {
+          return;
+        }
+        logger.warn(`Lighter: Resyncing nonce for account ${accountIndex}, API key ${apiKeyIndex}`);
+        this.localNonces.set(key, (await fetchServerNonce()) - 1);
+        return;
+      }
+
+      const lockKey = `${key}:lock`;
+      const token = randomBytes(8).toString('hex');
+      const acquired = await redisClient.getClient().set(lockKey, token, 'PX', LOCK_TTL_MS, 'NX');
+      if (acquired !== 'OK') {
+        // Another instance is resyncing this key; its result is what we would have written
+        await this.waitForUnlock(lockKey);
+        return;
+      }
+
+      try {
+        const current = await redisClient.get(key);
+        if (!this.isStale(current === null ? undefined : Number(current), failedNonce)) {
+          return;
+        }
+        logger.warn(`Lighter: Resyncing nonce for account ${accountIndex}, API key ${apiKeyIndex}`);
+        await redisClient.set(key, String((await fetchServerNonce()) - 1));
+      } finally {
+        await redisClient.getClient().eval(UNLOCK_SCRIPT, 1, lockKey, token);
+      }
+    })();
+
+    this.pendingResyncs.set(key, sync);
+    try {
+      await sync;
+    } finally {
+      this.pendingResyncs.delete(key);
+    }
+  }
+
+  /**
+   * Store the server's next nonce as "last used - 1" unless another caller or
+   * instance seeded first. Concurrent callers share one fetch.
+   */
+  private async seed(key: string, fetchServerNonce: () => Promise<number>): Promise<void> {
+    const pending = this.pendingSeeds.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const sync = (async () => {
+      const lastUsed = (await fetchServerNonce()) - 1;
+
+      if (this.useRedis()) {
+        await redisClient.setnx(key, String(lastUsed));
+      } else if (!this.localNonces.has(key)) {
+        this.localNonces.set(key, lastUsed);
+      }
+    })();
+
+    this.pendingSeeds.set(key, sync);
+    try {
+      await sync;
+    } finally {
+      this.pendingSeeds.delete(key);
+    }
+  }
+
+  private isStale(lastUsed: number | undefined, failedNonce?: number): boolean {
+    return failedNonce === undefined || lastUsed === undefined || lastUsed >= failedNonce;
+  }
+
+  private async waitForUnlock(lockKey: string): Promise<void> {
+    const deadline = Date.now() + LOCK_TTL_MS;
+    while (Date.now() < deadline && (await redisClient.exists(lockKey))) {
+      await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+    }
+  }
+
+  private useRedis(): boolean {
+    return redisClient.getClient().status === 'ready';
+  }
+
+  private getKey(accountIndex: number, apiKeyIndex: number): string {
+    return `lighter:nonce:${accountIndex}:${apiKeyIndex}`;
+  }
+}
+
+export const lighterNonceManager = new LighterNonceManager();
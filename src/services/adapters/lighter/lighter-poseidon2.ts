@@ -0,0 +1,196 @@
+/**
+ * Poseidon2 over the Goldilocks field, as used by Lighter's signer
+ * (github.com/elliottech/poseidon_crypto, hash/poseidon2_goldilocks).
+ *
+ * Width 12, rate 8, x^7 S-box, 8 full and 22 partial rounds. Field elements are
+ * canonical bigints in [0, p). Transaction hashes and Schnorr challenges are both
+ * `hashToQuinticExtension` outputs: 5 field elements, i.e. one GF(p^5) element.
+ */
+
+export const GOLDILOCKS_MODULUS = 0xffffffff00000001n;
+
+const WIDTH = 12;
+const RATE = 8;
+const FULL_ROUNDS = 8;
+const PARTIAL_ROUNDS = 22;
+
+// Round constants: FULL_ROUNDS x WIDTH for the full rounds, one per partial round
+const EXTERNAL_CONSTANTS: readonly bigint[] = [
+  0xd70193d17ab3b7d6n, 0xa2c3662a78a9162bn, 0x7a9fda827556ad44n, 0xe8d5501818c99643n,
+  0x4c7a8fced4d5fd38n, 0x55ab38985c0c513dn, 0x28a17bd016210b0bn, 0x8f8277679ec32fa8n,
+  0x768b3c3d68a460e9n, 0x872a022eb559d941n, 0xd1316dd4b3b97973n, 0xa7b608e578321000n,
+  0x3fa02c87b0bee026n, 0x7a38f0022e13c31en, 0x00c054f3c5e8d20dn, 0x439f50f4bca7242fn,
+  0x4d0938aa57cd517fn, 0xb2e03ac5fb6b9a7dn, 0xe29d1f4237bedca8n, 0x05b7c844bc99b848n,
+  0x91cc0b73f34e17edn, 0x876e4427694bd755n, 0x67002ae0725c612dn, 0x05351f20e0b6315fn,
+  0x2e3b9ef5457eb60bn, 0xd9ac17618c3783ddn, 0x0807528ad8874bcfn, 0xc78d546a455d2a0en,
+  0xf8b930c81e2481f0n, 0x712707d8dff3b041n, 0xdcb8c0aa0b9d34c3n, 0x9baddbdf2ee3a468n,
+  0x2dd16d50c5176c78n, 0x89eac5cfbc075cd3n, 0x2a741dea181587f3n, 0x1a4d6aa85a113d84n,
+  0x4d736286a2387e34n, 0x8bad5dfc4fcb3ee3n, 0x84fbd03adb77c56an, 0x8d5cdd1a23ec53a2n,
+  0x036f08f08fff28ecn, 0xb717a3f4dbdfb443n, 0x58a074b5509d645cn, 0xf92bf834e4b87718n,
+  0x1541c3a0baa5ac4bn, 0x22149e6783e67692n, 0x9be8b5d9e112476fn, 0x41e0969f62babb76n,
+  0xbc585ad3b9443dbbn, 0xf28dd3206975cbb1n, 0xdd8815e53ca045e0n, 0xde82c416b9e701ban,
+  0xc5cb875233afa025n, 0x7212697cd897ffa9n, 0x67844790aa63cfd7n, 0xdc0b9cfa97fe65c3n,
+  0xe8fe091869a82070n, 0x62902bb2e413c6d1n, 0x29f9f5001fb84f57n, 0xbe1014796ef5f8ben,
+  0x71feb53e9bdba19cn, 0x251054f592ebb71cn, 0xe1a57643a4bb284bn, 0xa4ba6f87a45b739bn,
+  0x2c1fcade0b958c49n, 0xbbb424cda9a3e360n, 0x2ca647354c5f3f54n, 0xc9277b64d152e084n,
+  0xdbc9ac97445eff17n, 0x6f6cdf3198969f70n, 0x1de29d14fa76d8f1n, 0x73337458a8cc1d19n,
+  0xb87e775e2fb3ab23n, 0xf166a1c7a565c80bn, 0xb24be06f426c747fn, 0xc281e8c49482ce00n,
+  0x51974c3b3b726c2dn, 0x87444cf8caf7d619n, 0x7c362f827a580cedn, 0x9567af14667647a0n,
+  0xcbf0473cbec54e37n, 0xe3209dedeff4f620n, 0xd43ad94e45a4c4een, 0x976981ee73f41768n,
+  0xef707a224e207258n, 0x2fc779e10e6362een, 0x29b5ee60ad8c891fn, 0x96b37b39d8bfd667n,
+  0x877df68a8b22e733n, 0x5c41746f562c8d9fn, 0x0c9d76751052b71an, 0xfb3465341bf1c087n,
+  0xa0d14dc614d15eb1n, 0xdc27d17136906fa6n, 0x482e163b05ec397fn, 0x0273a462992366efn,
+];
+
+const INTERNAL_CONSTANTS: readonly bigint[] = [
+  0xa571418d95897b60n, 0x8f32676574fcf6d3n, 0x731102d4e3fb1bben, 0x0330f08328a82d2bn,
+  0x7f0449b6557f785dn, 0x62f06210658dcbcbn, 0xd5a98af9f89c458bn, 0x77ec69083a346385n,
+  0xef7ca48bbc27f890n, 0x53e9652f61eac532n, 0xa71c634abff4f0ccn, 0xb16f5f0d7e28ea29n,
+  0xc9dde31d0a003ab2n, 0x2ddadf9775902533n, 0xe4fa73fb16408b47n, 0x90242ebc00d2ee59n,
+  0xbb02dffd9f381982n, 0xdea328364c50907cn, 0x1395d3b924857cf8n, 0x7d3ead0d5aec04e6n,
+  0xc2f12be3fed74668n, 0x0ba3c338f8c3d285n,
+];
+
+// Internal linear layer is 1 + diag(MATRIX_DIAG)
+const MATRIX_DIAG: readonly bigint[] = [
+  0xc3b6c08e23ba9300n, 0xd84b5de94a324fb6n, 0x0d0c371c5b35b84fn, 0x7964f570e7188037n,
+  0x5daf18bbd996604bn, 0x6743bc47b9595257n, 0x5528b9362c59bb70n, 0xac45e25b7127b68bn,
+  0xa2077d7dfbb606b5n, 0xf3faac6faee378aen, 0x0c6388b51545e883n, 0xd27dbb6944917b60n,
+];
+
+const P = GOLDILOCKS_MODULUS;
+
+/**
+ * Reduce any integer into the field (negative values wrap, as Go's FromInt64 does)
+ */
+export function toGoldilocks(value: bigint): bigint {
+  const r = value % P;
+  return r < 0n ? r + P : r;
+}
+
+function sbox(x: bigint): bigint {
+  const x2 = (x * x) % P;
+  const x3 = (x2 * x) % P;
+  const x4 = (x2 * x2) % P;
+  return (x3 * x4) % P;
+}
+
+/**
+ * Multiply one 4-element chunk by the circulant [2 3 1 1] matrix
+ */
+function applyMat4(state: bigint[], offset: number): void {
+  const x0 = state[offset];
+  const x1 = state[offset + 1];
+  const x2 = state[offset + 2];
+  const x3 = state[offset + 3];
+
+  const t01 = x0 + x1;
+  const t23 = x2 + x3;
+  const t0123 = t01 + t23;
+  const t01123 = t0123 + x1;
+  const t01233 = t0123 + x3;
+
+  state[offset] = (t01123 + t01) % P;
+  state[offset + 1] = (t01123 + 2n * x2) % P;
+  state[offset + 2] = (t01233 + t23) % P;
+  state[offset + 3] = (t01233 + 2n * x0) % P;
+}
+
+function externalLinearLayer(state: bigint[]): void {
+  for (let i = 0; i < WIDTH; i += 4) {
+    applyMat4(state, i);
+  }
+
+  const sums = [0n, 0n, 0n, 0n];
+  for (let i = 0; i < WIDTH; i++) {
+    sums[i % 4] += state[i];
+  }
+  for (let i = 0; i < WIDTH; i++) {
+    state[i] = (state[i] + sums[i % 4]) % P;
+  }
+}
+
+function internalLinearLayer(state: bigint[]): void {
+  let sum = 0n;
+  for (const x of state) {
+    sum += x;
+  }
+  for (let i = 0; i < WIDTH; i++) {
+    state[i] = (state[i] * MATRIX_DIAG[i] + sum) % P;
+  }
+}
+
+function fullRound(state: bigint[], round: number): void {
+  for (let i = 0; i < WIDTH; i++) {
+    state[i] = sbox((state[i] + EXTERNAL_CONSTANTS[round * WIDTH + i]) % P);
+  }
+  externalLinearLayer(state);
+}
+
+/**
+ * Apply the Poseidon2 permutation to a 12-element state in place
+ */
+export function permute(state: bigint[]): void {
+  if (state.length !== WIDTH) {
+    throw new Error(`Poseidon2 state must have ${WIDTH} elements, got ${state.length}`);
+  }
+
+  externalLinearLayer(state);
+  for (let r = 0; r < FULL_ROUNDS / 2; r++) {
+    fullRound(state, r);
+  }
+  for (let r = 0; r < PARTIAL_ROUNDS; r++) {
+    state[0] = sbox((state[0] + INTERNAL_CONSTANTS[r]) % P);
+    internalLinearLayer(state);
+  }
+  for (let r = FULL_ROUNDS / 2; r < FULL_ROUNDS; r++) {
+    fullRound(state, r);
+  }
+}
+
+/**
+ * Sponge without padding: absorb by overwriting the rate, squeeze `numOutputs` elements
+ */
+export function hashNToMNoPad(input: readonly bigint[], numOutputs: number): bigint[] {
+  const state: bigint[] = new Array(WIDTH).fill(0n);
+
+  for (let i = 0; i < input.length; i += RATE) {
+    for (let j = 0; j < RATE && i + j < input.length; j++) {
+      state[j] = toGoldilocks(input[i + j]);
+    }
+    permute(state);
+  }
+
+  const outputs: bigint[] = [];
+  for (;;) {
+    for (let i = 0; i < RATE; i++) {
+      outputs.push(state[i]);
+      if (outputs.length === numOutputs) {
+        return outputs;
+      }
+    }
+    permute(state);
+  }
+}
+
+/**
+ * Hash field elements to one GF(p^5) element (5 limbs, lowest degree first)
+ */
+export function hashToQuinticExtension(input: readonly bigint[]): bigint[] {
+  return hashNToMNoPad(input, 5);
+}
+
+/**
+ * Serialize field elements as consecutive 8-byte little-endian limbs
+ */
+export function elementsToLittleEndianBytes(elements: readonly bigint[]): Uint8Array {
+  const bytes = new Uint8Array(elements.length * 8);
+  elements.forEach((element, i) => {
+    let v = element;
+    for (let j = 0; j < 8; j++) {
+      bytes[i * 8 + j] = Number(v & 0xffn);
+      v >>= 8n;
+    }
+  });
+  return bytes;
+}
@@ -0,0 +1,267 @@
+import { randomBytes } from 'crypto';
+import {
+  GOLDILOCKS_MODULUS,
+  elementsToLittleEndianBytes,
+  hashToQuinticExtension,
+  toGoldilocks,
+} from './lighter-poseidon2';
+
+/**
+ * Schnorr signatures over ECgFp5, as used by Lighter's signer
+ * (github.com/elliottech/poseidon_crypto, curve/ecgfp5 and signature/schnorr).
+ *
+ * ECgFp5 is y^2 = x(x^2 + 2x + 263z) over GF(p^5) = GF(p)[z]/(z^5 - 3), p the
+ * Goldilocks prime. Its group has prime order n and every element is encoded as a
+ * single GF(p^5) value w. Here elements are kept as affine points of the order-n
+ * subgroup, for which the ecgfp5 encoding is w = -y/x (0 for the neutral element).
+ *
+ * Keys, scalars and signatures use Lighter's byte layouts: 40-byte little-endian
+ * scalars, 40-byte public keys (the encoded point) and 80-byte `s || e` signatures.
+ */
+
+type Gfp5 = readonly bigint[];
+
+export interface EcgFp5Point {
+  x: Gfp5;
+  y: Gfp5;
+}
+
+/** Neutral element */
+export type EcgFp5Element = EcgFp5Point | null;
+
+export const ECGFP5_ORDER =
+  0x7ffffffd800000077ffffff1000000167fffffe6cfb80639e8885c39d724a09ce80fd996948bffe1n;
+
+export const SCALAR_LENGTH = 40;
+export const PUBLIC_KEY_LENGTH = 40;
+export const SIGNATURE_LENGTH = 80;
+
+const P = GOLDILOCKS_MODULUS;
+const ZERO: Gfp5 = [0n, 0n, 0n, 0n, 0n];
+const CURVE_A: Gfp5 = [2n, 0n, 0n, 0n, 0n];
+const CURVE_B: Gfp5 = [0n, 263n, 0n, 0n, 0n];
+
+export const GENERATOR: EcgFp5Point = {
+  x: [0x4d35e87030bbac6en, 0xc38a88767c92c15dn, 0xb7280d74d92502f6n, 0xe1f0ea3702bb3d73n, 0xde05800237daddf0n],
+  y: [0xcb285e3d3d114e4an, 0xf1d5de220db4fa90n, 0x235fca299b6bf42bn, 0x783c571ff5130a38n, 0x87e9fff320948844n],
+};
+
+function powMod(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  let b = base % P;
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % P;
+    b = (b * b) % P;
+    e >>= 1n;
+  }
+  return result;
+}
+
+// Frobenius x -> x^p maps z^i to FROBENIUS_GAMMA^i * z^i
+const FROBENIUS_GAMMA = powMod(3n, (P - 1n) / 5n);
+
+const gfp5 = {
+  add: (a: Gfp5, b: Gfp5): Gfp5 => a.map((x, i) => (x + b[i]) % P),
+  sub: (a: Gfp5, b: Gfp5): Gfp5 => a.map((x, i) => (x - b[i] + P) % P),
+  neg: (a: Gfp5): Gfp5 => a.map((x) => (P - x) % P),
+  scale: (a: Gfp5, k: bigint): Gfp5 => a.map((x) => (x * k) % P),
+  isZero: (a: Gfp5): boolean => a.every((x) => x === 0n),
+  equals: (a: Gfp5, b: Gfp5): boolean => a.every((x, i) => x === b[i]),
+
+  mul(a: Gfp5, b: Gfp5): Gfp5 {
+    const c = [0n, 0n, 0n, 0n, 0n];
+    for (let i = 0; i < 5; i++) {
+      for (let j = 0; j < 5; j++) {
+        const t = a[i] * b[j];
+        if (i + j < 5) {
+          c[i + j] += t;
+        } else {
+          c[i + j - 5] += 3n * t;
+        }
+      }
+    }
+    return c.map((x) => x % P);
+  },
+
+  frobenius(a: Gfp5, power: number): Gfp5 {
+    const gamma = powMod(FROBENIUS_GAMMA, BigInt(power));
+    let g = 1n;
+    return a.map((x) => {
+      const r = (x * g) % P;
+      g = (g * gamma) % P;
+      return r;
+    });
+  },
+
+  /**
+   * Inverse via the norm: a^-1 = (a^p * a^p^2 * a^p^3 * a^p^4) / N(a), with N(a) in GF(p)
+   */
+  inv(a: Gfp5): Gfp5 {
+    if (gfp5.isZero(a)) {
+      return ZERO;
+    }
+    const conj = gfp5.mul(
+      gfp5.mul(gfp5.frobenius(a, 1), gfp5.frobenius(a, 2)),
+      gfp5.mul(gfp5.frobenius(a, 3), gfp5.frobenius(a, 4))
+    );
+    const norm = gfp5.mul(a, conj)[0];
+    return gfp5.scale(conj, powMod(norm, P - 2n));
+  },
+};
+
+/**
+ * Group law on affine points
+ */
+export function addPoints(p: EcgFp5Element, q: EcgFp5Element): EcgFp5Element {
+  if (p === null) return q;
+  if (q === null) return p;
+
+  let slope: Gfp5;
+  if (gfp5.equals(p.x, q.x)) {
+    if (gfp5.isZero(gfp5.add(p.y, q.y))) {
+      return null;
+    }
+    // Tangent: (3x^2 + 2ax + b) / 2y
+    const x2 = gfp5.mul(p.x, p.x);
+    const numerator = gfp5.add(gfp5.add(gfp5.scale(x2, 3n), gfp5.scale(gfp5.mul(CURVE_A, p.x), 2n)), CURVE_B);
+    slope = gfp5.mul(numerator, gfp5.inv(gfp5.scale(p.y, 2n)));
+  } else {
+    slope = gfp5.mul(gfp5.sub(q.y, p.y), gfp5.inv(gfp5.sub(q.x, p.x)));
+  }
+
+  const x = gfp5.sub(gfp5.sub(gfp5.sub(gfp5.mul(slope, slope), CURVE_A), p.x), q.x);
+  const y = gfp5.sub(gfp5.mul(slope, gfp5.sub(p.x, x)), p.y);
+  return { x, y };
+}
+
+/**
+ * Scalar multiplication (double-and-add; not constant time)
+ */
+export function multiplyPoint(point: EcgFp5Element, scalar: bigint): EcgFp5Element {
+  let k = ((scalar % ECGFP5_ORDER) + ECGFP5_ORDER) % ECGFP5_ORDER;
+  let result: EcgFp5Element = null;
+  let addend = point;
+  while (k > 0n) {
+    if (k & 1n) {
+      result = addPoints(result, addend);
+    }
+    addend = addPoints(addend, addend);
+    k >>= 1n;
+  }
+  return result;
+}
+
+/**
+ * Encode a group element as its GF(p^5) value w
+ */
+export function encodePoint(point: EcgFp5Element): bigint[] {
+  if (point === null) {
+    return [...ZERO];
+  }
+  return [...gfp5.neg(gfp5.mul(point.y, gfp5.inv(point.x)))];
+}
+
+export function scalarFromLittleEndian(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = (value << 8n) | BigInt(bytes[i]);
+  }
+  return value;
+}
+
+export function scalarToLittleEndian(scalar: bigint): Uint8Array {
+  const bytes = new Uint8Array(SCALAR_LENGTH);
+  let v = scalar;
+  for (let i = 0; i < SCALAR_LENGTH; i++) {
+    bytes[i] = Number(v & 0xffn);
+    v >>= 8n;
+  }
+  return bytes;
+}
+
+/**
+ * Interpret the 5 limbs of a GF(p^5) element as a 320-bit integer, reduced mod n
+ */
+function scalarFromGfp5(element: readonly bigint[]): bigint {
+  let value = 0n;
+  for (let i = element.length - 1; i >= 0; i--) {
+    value = (value << 64n) | element[i];
+  }
+  return value % ECGFP5_ORDER;
+}
+
+/**
+ * Parse a 40-byte little-endian private key into a scalar
+ */
+export function privateKeyToScalar(privateKey: Uint8Array): bigint {
+  if (privateKey.length !== SCALAR_LENGTH) {
+    throw new Error(`Private key must be ${SCALAR_LENGTH} bytes, got ${privateKey.length}`);
+  }
+  const scalar = scalarFromLittleEndian(privateKey) % ECGFP5_ORDER;
+  if (scalar === 0n) {
+    throw new Error('Private key must be non-zero');
+  }
+  return scalar;
+}
+
+export function publicKeyPoint(privateKey: Uint8Array): EcgFp5Element {
+  return multiplyPoint(GENERATOR, privateKeyToScalar(privateKey));
+}
+
+/**
+ * The 40-byte public key registered with Lighter for a private key
+ */
+export function derivePublicKey(privateKey: Uint8Array): Uint8Array {
+  return elementsToLittleEndianBytes(encodePoint(publicKeyPoint(privateKey)));
+}
+
+function challenge(r: readonly bigint[], hashedMessage: readonly bigint[]): bigint {
+  return scalarFromGfp5(hashToQuinticExtension([...r, ...hashedMessage]));
+}
+
+function randomScalar(): bigint {
+  for (;;) {
+    // 512 random bits reduced mod n leave a negligible bias
+    const k = scalarFromLittleEndian(randomBytes(64)) % ECGFP5_ORDER;
+    if (k !== 0n) return k;
+  }
+}
+
+/**
+ * Sign an already hashed message (a GF(p^5) element).
+ * s = k - e * sk with e = H(encode(k * G) || message); returns s || e.
+ */
+export function schnorrSign(hashedMessage: readonly bigint[], privateKey: Uint8Array, nonce: bigint = randomScalar()): Uint8Array {
+  if (hashedMessage.length !== 5) {
+    throw new Error(`Hashed message must have 5 limbs, got ${hashedMessage.length}`);
+  }
+  const sk = privateKeyToScalar(privateKey);
+  const message = hashedMessage.map(toGoldilocks);
+
+  const r = encodePoint(multiplyPoint(GENERATOR, nonce));
+  const e = challenge(r, message);
+  const s = (((nonce - e * sk) % ECGFP5_ORDER) + ECGFP5_ORDER) % ECGFP5_ORDER;
+
+  const signature = new Uint8Array(SIGNATURE_LENGTH);
+  signature.set(scalarToLittleEndian(s), 0);
+  signature.set(scalarToLittleEndian(e), SCALAR_LENGTH);
+  return signature;
+}
+
+/**
+ * Check an `s || e` signature: e must equal H(encode(s * G + e * PK) || message)
+ */
+export function schnorrVerify(hashedMessage: readonly bigint[], signature: Uint8Array, publicKey: EcgFp5Element): boolean {
+  if (signature.length !== SIGNATURE_LENGTH || hashedMessage.length !== 5 || publicKey === null) {
+    return false;
+  }
+  const s = scalarFromLittleEndian(signature.subarray(0, SCALAR_LENGTH));
+  const e = scalarFromLittleEndian(signature.subarray(SCALAR_LENGTH));
+  if (s >= ECGFP5_ORDER || e >= ECGFP5_ORDER) {
+    return false;
+  }
+
+  const r = encodePoint(addPoints(multiplyPoint(GENERATOR, s), multiplyPoint(publicKey, e)));
+  return challenge(r, hashedMessage.map(toGoldilocks)) === e;
+}
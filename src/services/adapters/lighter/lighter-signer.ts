@@ -1,18 +1,22 @@
-import * as ed25519 from '@noble/ed25519';
-import { sha512 } from '@noble/hashes/sha2.js';
 import axios from 'axios';
 import { logger } from '@/utils/logger';
 import { exchangeConfig } from '@/config/exchanges';
-
-// Set up SHA-512 for ed25519 (required by @noble/ed25519 v3.0.0+)
-// The library requires hashes.sha512 to be set for synchronous operations
-(ed25519 as any).hashes.sha512 = (message: Uint8Array) => sha512(message);
-
-// Transaction types
-export const TX_TYPE_CREATE_ORDER = 14;
-export const TX_TYPE_CANCEL_ORDER = 15;
-export const TX_TYPE_CANCEL_ALL_ORDERS = 16;
-export const TX_TYPE_UPDATE_LEVERAGE = 20;
+import { LighterApiError, LighterValidationError, isInvalidNonceError } from './lighter-errors';
+import { lighterNonceManager } from './lighter-nonce-manager';
+import {
+  TX_TYPE_TRANSFER,
+  TX_TYPE_WITHDRAW,
+  TX_TYPE_CREATE_ORDER,
+  TX_TYPE_CANCEL_ORDER,
+  TX_TYPE_CANCEL_ALL_ORDERS,
+  TX_TYPE_UPDATE_LEVERAGE,
+  LighterTxField,
+  hashTx,
+  splitUint64,
+  encodeMemo,
+} from './lighter-tx';
+import { elementsToLittleEndianBytes } from './lighter-poseidon2';
+import { SCALAR_LENGTH, schnorrSign } from './lighter-schnorr';
 
 // Order types
 export const ORDER_TYPE_LIMIT = 0;
@@ -23,6 +27,18 @@ export const TIF_IMMEDIATE_OR_CANCEL = 0;
 export const TIF_GOOD_TILL_TIME = 1;
 export const TIF_POST_ONLY = 2;
 
+// Margin modes
+export const MARGIN_MODE_CROSS = 0;
+export const MARGIN_MODE_ISOLATED = 1;
+
+// Transactions are rejected once ExpiredAt passes; GTT orders rest for 28 days by default
+export const DEFAULT_TX_EXPIRY_MS = 10 * 60 * 1000 - 1000;
+export const DEFAULT_ORDER_EXPIRY_MS = 28 * 24 * 60 * 60 * 1000;
+export const NIL_ORDER_EXPIRY = 0;
+
+// Initial margin fractions are expressed in 1/10000ths (10000 = 1x)
+export const MARGIN_FRACTION_TICK = 10000;
+
 export interface SignCreateOrderParams {
   marketIndex: number;
   clientOrderIndex: number;
@@ -34,21 +50,45 @@ export interface SignCreateOrderParams {
   reduceOnly: boolean;
   triggerPrice: string;
   expiry?: number;
+  expiredAt?: number;
 }
 
 export interface SignCancelOrderParams {
   marketIndex: number;
   orderIndex: number;
+  expiredAt?: number;
 }
 
 export interface SignCancelAllOrdersParams {
-  marketIndex: number;
   timeInForce: number;
+  time?: number;
+  expiredAt?: number;
 }
 
 export interface SignUpdateLeverageParams {
   marketIndex: number;
   leverage: number;
+  marginMode?: number;
+  expiredAt?: number;
+}
+
+export interface SignTransferParams {
+  toAccountIndex: number;
+  usdcAmount: string;
+  fee?: string;
+  memo?: string;
+  expiredAt?: number;
+}
+
+export interface SignWithdrawParams {
+  usdcAmount: string;
+  expiredAt?: number;
+}
+
+export interface SignedLighterTx {
+  txType: number;
+  txInfo: Record<string, any>;
+  txHash: string;
 }
 
 /**
@@ -73,18 +113,24 @@ function uint8ArrayToHex(bytes: Uint8Array): string {
 }
 
 export class LighterSigner {
-  private privateKey: string;
+  private privateKey: Uint8Array;
   private accountIndex: number;
   private baseUrl: string;
+  private chainId: number;
 
-  constructor(privateKey: string, accountIndex: number, baseUrl?: string) {
-    this.privateKey = privateKey;
+  constructor(privateKey: string, accountIndex: number, baseUrl?: string, chainId?: number) {
+    if (!/^(0x)?[0-9a-fA-F]+$/.test(privateKey) || privateKey.replace(/^0x/, '').length !== SCALAR_LENGTH * 2) {
+      throw new LighterValidationError(`Lighter API private key must be ${SCALAR_LENGTH} bytes of hex`);
+    }
+    this.privateKey = hexToUint8Array(privateKey);
     this.accountIndex = accountIndex;
     this.baseUrl = baseUrl || exchangeConfig.lighter.restUrl;
+    this.chainId = chainId ?? exchangeConfig.lighter.chainId;
   }
 
   /**
-   * Get next nonce for the account
+   * Get next nonce for the account from the API.
+   * Transactions reserve nonces through the nonce manager, which only calls this to seed or resync.
    */
   async getNextNonce(apiKeyIndex: number): Promise<number> {
     try {
@@ -109,156 +155,342 @@ export class LighterSigner {
   }
 
   /**
-   * Sign a message with Ed25519
+   * Hash a transaction with Poseidon2 and sign it with Schnorr over ECgFp5
    */
-  private async signMessage(message: string): Promise<string> {
-    const privateKeyBytes = hexToUint8Array(this.privateKey);
-    const messageBytes = new TextEncoder().encode(message);
-    const signature = await ed25519.sign(messageBytes, privateKeyBytes);
-    return uint8ArrayToHex(signature);
+  private async signTx(
+    txType: number,
+    nonce: number,
+    apiKeyIndex: number,
+    expiredAt: number,
+    fields: LighterTxField[]
+  ): Promise<{ sig: string; txHash: string }> {
+    const message = hashTx(
+      txType,
+      { chainId: this.chainId, nonce, expiredAt, accountIndex: this.accountIndex, apiKeyIndex },
+      fields
+    );
+    const signature = schnorrSign(message, this.privateKey);
+
+    return {
+      sig: Buffer.from(signature).toString('base64'),
+      txHash: uint8ArrayToHex(elementsToLittleEndianBytes(message)),
+    };
+  }
+
+  private defaultExpiredAt(expiredAt?: number): number {
+    return expiredAt ?? Date.now() + DEFAULT_TX_EXPIRY_MS;
   }
 
   /**
    * Sign a create order transaction
    */
-  private async signCreateOrder(
+  async signCreateOrder(
     params: SignCreateOrderParams,
-    nonce: number
-  ): Promise<any> {
-    const expireAt = params.expiry || -1;
-    
-    const tx = {
+    nonce: number,
+    apiKeyIndex: number
+  ): Promise<SignedLighterTx> {
+    const expiredAt = this.defaultExpiredAt(params.expiredAt);
+    const orderExpiry = params.expiry ?? (params.timeInForce === TIF_IMMEDIATE_OR_CANCEL
+      ? NIL_ORDER_EXPIRY
+      : Date.now() + DEFAULT_ORDER_EXPIRY_MS);
+
+    const { sig, txHash } = await this.signTx(TX_TYPE_CREATE_ORDER, nonce, apiKeyIndex, expiredAt, [
+      params.marketIndex,
+      params.clientOrderIndex,
+      params.baseAmount,
+      params.price,
+      params.isAsk,
+      params.orderType,
+      params.timeInForce,
+      params.reduceOnly,
+      params.triggerPrice,
+      orderExpiry,
+    ]);
+
+    const txInfo = {
       AccountIndex: this.accountIndex,
-      OrderBookIndex: params.marketIndex,
-      BaseAmount: parseInt(params.baseAmount),
-      Price: parseInt(params.price),
+      ApiKeyIndex: apiKeyIndex,
+      MarketIndex: params.marketIndex,
+      ClientOrderIndex: params.clientOrderIndex,
+      BaseAmount: Number(params.baseAmount),
+      Price: Number(params.price),
       IsAsk: params.isAsk ? 1 : 0,
-      OrderType: params.orderType,
-      ExpiredAt: expireAt,
+      Type: params.orderType,
+      TimeInForce: params.timeInForce,
+      ReduceOnly: params.reduceOnly ? 1 : 0,
+      TriggerPrice: Number(params.triggerPrice),
+      OrderExpiry: orderExpiry,
+      ExpiredAt: expiredAt,
       Nonce: nonce,
+      Sig: sig,
     };
 
-    // Create a message to sign (this would need to match Lighter's signing scheme)
-    // For now, we'll create a placeholder signature structure
-    // In a production implementation, you'd need to properly compute the Ed25519 signature
-    // over the transaction fields in the format expected by Lighter
-    const messageToSign = JSON.stringify(tx);
-    
-    // Sign the message
-    const signature = await this.signMessage(messageToSign);
-    
-    tx['Sig'] = signature;
-    
-    logger.debug('Lighter: Create order transaction', tx);
-    return tx;
+    logger.debug('Lighter: Create order transaction', txInfo);
+    return { txType: TX_TYPE_CREATE_ORDER, txInfo, txHash };
   }
 
   /**
    * Sign a cancel order transaction
    */
-  private async signCancelOrder(params: SignCancelOrderParams, nonce: number): Promise<any> {
-    const tx = {
+  async signCancelOrder(
+    params: SignCancelOrderParams,
+    nonce: number,
+    apiKeyIndex: number
+  ): Promise<SignedLighterTx> {
+    const expiredAt = this.defaultExpiredAt(params.expiredAt);
+
+    const { sig, txHash } = await this.signTx(TX_TYPE_CANCEL_ORDER, nonce, apiKeyIndex, expiredAt, [
+      params.marketIndex,
+      params.orderIndex,
+    ]);
+
+    const txInfo = {
       AccountIndex: this.accountIndex,
-      OrderBookIndex: params.marketIndex,
-      OrderNonce: params.orderIndex,
-      ExpiredAt: -1,
+      ApiKeyIndex: apiKeyIndex,
+      MarketIndex: params.marketIndex,
+      Index: params.orderIndex,
+      ExpiredAt: expiredAt,
       Nonce: nonce,
+      Sig: sig,
     };
 
-    // Sign the transaction
-    const messageToSign = JSON.stringify(tx);
-    const signature = await this.signMessage(messageToSign);
-    tx['Sig'] = signature;
-
-    logger.debug('Lighter: Cancel order transaction', tx);
-    return tx;
+    logger.debug('Lighter: Cancel order transaction', txInfo);
+    return { txType: TX_TYPE_CANCEL_ORDER, txInfo, txHash };
   }
 
   /**
-   * Sign a cancel all orders transaction
+   * Sign a cancel all orders transaction.
+   * `time` is 0 for an immediate cancel, otherwise the scheduled cancel timestamp.
    */
-  private signCancelAllOrders(params: SignCancelAllOrdersParams, nonce: number): any {
-    const tx = {
+  async signCancelAllOrders(
+    params: SignCancelAllOrdersParams,
+    nonce: number,
+    apiKeyIndex: number
+  ): Promise<SignedLighterTx> {
+    const expiredAt = this.defaultExpiredAt(params.expiredAt);
+    const time = params.time ?? 0;
+
+    const { sig, txHash } = await this.signTx(TX_TYPE_CANCEL_ALL_ORDERS, nonce, apiKeyIndex, expiredAt, [
+      params.timeInForce,
+      time,
+    ]);
+
+    const txInfo = {
       AccountIndex: this.accountIndex,
-      OrderBookIndex: params.marketIndex,
+      ApiKeyIndex: apiKeyIndex,
       TimeInForce: params.timeInForce,
-      ExpiredAt: Date.now(),
+      Time: time,
+      ExpiredAt: expiredAt,
       Nonce: nonce,
+      Sig: sig,
     };
 
-    logger.debug('Lighter: Cancel all orders transaction', tx);
-    return tx;
+    logger.debug('Lighter: Cancel all orders transaction', txInfo);
+    return { txType: TX_TYPE_CANCEL_ALL_ORDERS, txInfo, txHash };
   }
 
   /**
    * Sign an update leverage transaction
    */
-  private async signUpdateLeverage(params: SignUpdateLeverageParams, nonce: number): Promise<any> {
-    const tx = {
+  async signUpdateLeverage(
+    params: SignUpdateLeverageParams,
+    nonce: number,
+    apiKeyIndex: number
+  ): Promise<SignedLighterTx> {
+    if (!(params.leverage > 0)) {
+      throw new LighterValidationError('Leverage must be a positive number');
+    }
+
+    const expiredAt = this.defaultExpiredAt(params.expiredAt);
+    const initialMarginFraction = Math.round(MARGIN_FRACTION_TICK / params.leverage);
+    const marginMode = params.marginMode ?? MARGIN_MODE_CROSS;
+
+    const { sig, txHash } = await this.signTx(TX_TYPE_UPDATE_LEVERAGE, nonce, apiKeyIndex, expiredAt, [
+      params.marketIndex,
+      initialMarginFraction,
+      marginMode,
+    ]);
+
+    const txInfo = {
       AccountIndex: this.accountIndex,
-      OrderBookIndex: params.marketIndex,
-      Leverage: params.leverage,
+      ApiKeyIndex: apiKeyIndex,
+      MarketIndex: params.marketIndex,
+      InitialMarginFraction: initialMarginFraction,
+      MarginMode: marginMode,
+      ExpiredAt: expiredAt,
       Nonce: nonce,
+      Sig: sig,
     };
 
-    // Sign the transaction
-    const messageToSign = JSON.stringify(tx);
-    const signature = await this.signMessage(messageToSign);
-    tx['Sig'] = signature;
+    logger.debug('Lighter: Update leverage transaction', txInfo);
+    return { txType: TX_TYPE_UPDATE_LEVERAGE, txInfo, txHash };
+  }
+
+  /**
+   * Sign a USDC transfer to another account
+   */
+  async signTransfer(
+    params: SignTransferParams,
+    nonce: number,
+    apiKeyIndex: number
+  ): Promise<SignedLighterTx> {
+    const expiredAt = this.defaultExpiredAt(params.expiredAt);
+    const fee = params.fee ?? '0';
+    const memo = encodeMemo(params.memo);
+
+    const { sig, txHash } = await this.signTx(TX_TYPE_TRANSFER, nonce, apiKeyIndex, expiredAt, [
+      params.toAccountIndex,
+      ...splitUint64(params.usdcAmount),
+      ...splitUint64(fee),
+    ]);
+
+    const txInfo = {
+      FromAccountIndex: this.accountIndex,
+      ApiKeyIndex: apiKeyIndex,
+      ToAccountIndex: params.toAccountIndex,
+      USDCAmount: Number(params.usdcAmount),
+      Fee: Number(fee),
+      Memo: Array.from(memo),
+      ExpiredAt: expiredAt,
+      Nonce: nonce,
+      Sig: sig,
+    };
 
-    logger.debug('Lighter: Update leverage transaction', tx);
-    return tx;
+    logger.debug('Lighter: Transfer transaction', txInfo);
+    return { txType: TX_TYPE_TRANSFER, txInfo, txHash };
   }
 
   /**
-   * Create and sign an order, then send it
+   * Sign a USDC withdrawal to the account's L1 address
    */
-  async createOrder(
-    params: SignCreateOrderParams,
+  async signWithdraw(
+    params: SignWithdrawParams,
+    nonce: number,
     apiKeyIndex: number
-  ): Promise<{ tx: any; txHash: string; error?: string }> {
-    try {
-      // Get nonce
-      const nonce = await this.getNextNonce(apiKeyIndex);
-      logger.info(`Lighter: Got nonce ${nonce} for account ${this.accountIndex}`);
+  ): Promise<SignedLighterTx> {
+    const expiredAt = this.defaultExpiredAt(params.expiredAt);
+
+    const { sig, txHash } = await this.signTx(TX_TYPE_WITHDRAW, nonce, apiKeyIndex, expiredAt, [
+      ...splitUint64(params.usdcAmount),
+    ]);
+
+    const txInfo = {
+      FromAccountIndex: this.accountIndex,
+      ApiKeyIndex: apiKeyIndex,
+      USDCAmount: Number(params.usdcAmount),
+      ExpiredAt: expiredAt,
+      Nonce: nonce,
+      Sig: sig,
+    };
 
-      // Create and sign transaction
-      const txObj = await this.signCreateOrder(params, nonce);
-      
-      // Send transaction using form data (multipart/form-data)
-      const formData = new URLSearchParams();
-      formData.append('tx_type', TX_TYPE_CREATE_ORDER.toString());
-      formData.append('tx_info', JSON.stringify(txObj));
-      
-      const response = await axios.post(`${this.baseUrl}/api/v1/sendTx`, formData, {
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-      });
+    logger.debug('Lighter: Withdraw transaction', txInfo);
+    return { txType: TX_TYPE_WITHDRAW, txInfo, txHash };
+  }
+
+  /**
+   * Submit a signed transaction. Rejections are thrown as LighterApiError.
+   */
+  private async sendTx(signed: SignedLighterTx): Promise<{ tx: any; txHash: string; error?: string }> {
+    // Send transaction using form data
+    const formData = new URLSearchParams();
+    formData.append('tx_type', signed.txType.toString());
+    formData.append('tx_info', JSON.stringify(signed.txInfo));
+
+    const response = await axios.post(`${this.baseUrl}/api/v1/sendTx`, formData, {
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      validateStatus: () => true,
+    });
+
+    if (response.data?.code !== 200) {
+      throw new LighterApiError(
+        response.data?.msg || response.data?.message || 'Unknown error',
+        response.data?.code ?? response.status,
+        response.data
+      );
+    }
 
-      if (response.data.code === 200) {
-        return {
-          tx: txObj,
-          txHash: response.data.data?.tx_hash || '',
-          error: undefined,
-        };
-      } else {
-        return {
-          tx: txObj,
-          txHash: '',
-          error: response.data.msg || 'Unknown error',
-        };
+    return {
+      tx: signed.txInfo,
+      txHash: response.data.data?.tx_hash || response.data.tx_hash || signed.txHash,
+      error: undefined,
+    };
+  }
+
+  /**
+   * Sign a transaction with a locally reserved nonce and send it.
+   * On an invalid nonce the manager is resynced from the server and the tx retried once.
+   * A nonce the exchange never accepted is released; after a transport error, where the
+   * tx may or may not have landed, the nonce is resynced from the server instead.
+   */
+  private async submit(
+    action: string,
+    apiKeyIndex: number,
+    sign: (nonce: number) => Promise<SignedLighterTx>
+  ): Promise<{ tx: any; txHash: string; error?: string }> {
+    const fetchServerNonce = () => this.getNextNonce(apiKeyIndex);
+    let signed: SignedLighterTx | null = null;
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const nonce = await lighterNonceManager.reserve(this.accountIndex, apiKeyIndex, fetchServerNonce);
+        logger.debug(`Lighter: Reserved nonce ${nonce} for account ${this.accountIndex}`);
+
+        try {
+          signed = await sign(nonce);
+        } catch (error) {
+          await this.recoverNonce(() => lighterNonceManager.release(this.accountIndex, apiKeyIndex, nonce, fetchServerNonce));
+          throw error;
+        }
+
+        try {
+          return await this.sendTx(signed);
+        } catch (error) {
+          if (isInvalidNonceError(error)) {
+            await this.recoverNonce(() => lighterNonceManager.resync(this.accountIndex, apiKeyIndex, fetchServerNonce, nonce));
+            if (attempt === 0) {
+              continue;
+            }
+          } else if (error instanceof LighterApiError) {
+            await this.recoverNonce(() => lighterNonceManager.release(this.accountIndex, apiKeyIndex, nonce, fetchServerNonce));
+          } else {
+            await this.recoverNonce(() => lighterNonceManager.resync(this.accountIndex, apiKeyIndex, fetchServerNonce, nonce));
+          }
+          throw error;
+        }
       }
     } catch (error: any) {
-      logger.error('Lighter: Error creating order:', error);
+      logger.error(`Lighter: Error ${action}:`, error);
       return {
-        tx: null,
+        tx: error instanceof LighterApiError ? signed?.txInfo ?? null : null,
         txHash: '',
         error: error.message || String(error),
       };
     }
   }
 
+  /**
+   * Nonce bookkeeping after a failed send must not mask the send error
+   */
+  private async recoverNonce(recover: () => Promise<void>): Promise<void> {
+    try {
+      await recover();
+    } catch (error) {
+      logger.warn(`Lighter: Failed to recover nonce for account ${this.accountIndex}:`, error);
+    }
+  }
+
+  /**
+   * Create and sign an order, then send it
+   */
+  async createOrder(
+    params: SignCreateOrderParams,
+    apiKeyIndex: number
+  ): Promise<{ tx: any; txHash: string; error?: string }> {
+    return this.submit('creating order', apiKeyIndex, (nonce) => this.signCreateOrder(params, nonce, apiKeyIndex));
+  }
+
   /**
    * Cancel an order
    */
@@ -266,41 +498,7 @@ export class LighterSigner {
     params: SignCancelOrderParams,
     apiKeyIndex: number
   ): Promise<{ tx: any; txHash: string; error?: string }> {
-    try {
-      const nonce = await this.getNextNonce(apiKeyIndex);
-      const txObj = await this.signCancelOrder(params, nonce);
-
-      const formData = new URLSearchParams();
-      formData.append('tx_type', TX_TYPE_CANCEL_ORDER.toString());
-      formData.append('tx_info', JSON.stringify(txObj));
-      
-      const response = await axios.post(`${this.baseUrl}/api/v1/sendTx`, formData, {
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-      });
-
-      if (response.data.code === 200) {
-        return {
-          tx: txObj,
-          txHash: response.data.data?.tx_hash || '',
-          error: undefined,
-        };
-      } else {
-        return {
-          tx: txObj,
-          txHash: '',
-          error: response.data.msg || 'Unknown error',
-        };
-      }
-    } catch (error: any) {
-      logger.error('Lighter: Error canceling order:', error);
-      return {
-        tx: null,
-        txHash: '',
-        error: error.message || String(error),
-      };
-    }
+    return this.submit('canceling order', apiKeyIndex, (nonce) => this.signCancelOrder(params, nonce, apiKeyIndex));
   }
 
   /**
@@ -310,41 +508,7 @@ export class LighterSigner {
     params: SignCancelAllOrdersParams,
     apiKeyIndex: number
   ): Promise<{ tx: any; txHash: string; error?: string }> {
-    try {
-      const nonce = await this.getNextNonce(apiKeyIndex);
-      const txObj = this.signCancelAllOrders(params, nonce);
-
-      const formData = new URLSearchParams();
-      formData.append('tx_type', TX_TYPE_CANCEL_ALL_ORDERS.toString());
-      formData.append('tx_info', JSON.stringify(txObj));
-      
-      const response = await axios.post(`${this.baseUrl}/api/v1/sendTx`, formData, {
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-      });
-
-      if (response.data.code === 200) {
-        return {
-          tx: txObj,
-          txHash: response.data.data.tx_hash,
-          error: undefined,
-        };
-      } else {
-        return {
-          tx: txObj,
-          txHash: '',
-          error: response.data.msg || 'Unknown error',
-        };
-      }
-    } catch (error: any) {
-      logger.error('Lighter: Error canceling all orders:', error);
-      return {
-        tx: null,
-        txHash: '',
-        error: error.message || String(error),
-      };
-    }
+    return this.submit('canceling all orders', apiKeyIndex, (nonce) => this.signCancelAllOrders(params, nonce, apiKeyIndex));
   }
 
   /**
@@ -354,41 +518,26 @@ export class LighterSigner {
     params: SignUpdateLeverageParams,
     apiKeyIndex: number
   ): Promise<{ tx: any; txHash: string; error?: string }> {
-    try {
-      const nonce = await this.getNextNonce(apiKeyIndex);
-      const txObj = await this.signUpdateLeverage(params, nonce);
+    return this.submit('updating leverage', apiKeyIndex, (nonce) => this.signUpdateLeverage(params, nonce, apiKeyIndex));
+  }
 
-      const formData = new URLSearchParams();
-      formData.append('tx_type', TX_TYPE_UPDATE_LEVERAGE.toString());
-      formData.append('tx_info', JSON.stringify(txObj));
-      
-      const response = await axios.post(`${this.baseUrl}/api/v1/sendTx`, formData, {
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-      });
+  /**
+   * Transfer USDC to another account
+   */
+  async transfer(
+    params: SignTransferParams,
+    apiKeyIndex: number
+  ): Promise<{ tx: any; txHash: string; error?: string }> {
+    return this.submit('transferring', apiKeyIndex, (nonce) => this.signTransfer(params, nonce, apiKeyIndex));
+  }
 
-      if (response.data.code === 200) {
-        return {
-          tx: txObj,
-          txHash: response.data.data?.tx_hash || '',
-          error: undefined,
-        };
-      } else {
-        return {
-          tx: txObj,
-          txHash: '',
-          error: response.data.msg || 'Unknown error',
-        };
-      }
-    } catch (error: any) {
-      logger.error('Lighter: Error updating leverage:', error);
-      return {
-        tx: null,
-        txHash: '',
-        error: error.message || String(error),
-      };
-    }
+  /**
+   * Withdraw USDC to L1
+   */
+  async withdraw(
+    params: SignWithdrawParams,
+    apiKeyIndex: number
+  ): Promise<{ tx: any; txHash: string; error?: string }> {
+    return this.submit('withdrawing', apiKeyIndex, (nonce) => this.signWithdraw(params, nonce, apiKeyIndex));
   }
 }
-
@@ -0,0 +1,110 @@
+import { LighterValidationError } from './lighter-errors';
+import { hashToQuinticExtension, toGoldilocks } from './lighter-poseidon2';
+
+/**
+ * Lighter L2 transaction hashing, matching lighter-go's `*TxInfo.Hash`.
+ *
+ * Every transaction hashes the same header followed by its type-specific fields,
+ * in the field order of Lighter's tx_info payloads:
+ *
+ *   chainId | txType | nonce | expiredAt | accountIndex | apiKeyIndex | ...fields
+ *
+ * Each field is one Goldilocks element (negative values such as `ExpiredAt = -1`
+ * wrap modulo p); 64-bit USDC amounts are split into low and high 32-bit halves.
+ * The elements are hashed with Poseidon2 into one GF(p^5) element, which is the
+ * message the Schnorr signature covers. Memos are not part of the hash.
+ */
+
+// Transaction types
+export const TX_TYPE_TRANSFER = 12;
+export const TX_TYPE_WITHDRAW = 13;
+export const TX_TYPE_CREATE_ORDER = 14;
+export const TX_TYPE_CANCEL_ORDER = 15;
+export const TX_TYPE_CANCEL_ALL_ORDERS = 16;
+export const TX_TYPE_UPDATE_LEVERAGE = 20;
+
+export const MEMO_LENGTH = 32;
+
+export interface LighterTxHeader {
+  chainId: number;
+  nonce: number;
+  expiredAt: number;
+  accountIndex: number;
+  apiKeyIndex: number;
+}
+
+export type LighterTxField = number | bigint | string | boolean;
+
+const UINT64_MAX = (1n << 64n) - 1n;
+const INT64_MIN = -(1n << 63n);
+const UINT32_MASK = 0xffffffffn;
+
+function toInteger(value: LighterTxField): bigint {
+  let n: bigint;
+  if (typeof value === 'boolean') {
+    n = value ? 1n : 0n;
+  } else if (typeof value === 'string') {
+    if (!/^-?\d+$/.test(value)) {
+      throw new LighterValidationError(`Transaction field must be an integer, got "${value}"`);
+    }
+    n = BigInt(value);
+  } else if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new LighterValidationError(`Transaction field must be a safe integer, got ${value}`);
+    }
+    n = BigInt(value);
+  } else {
+    n = value;
+  }
+
+  if (n < INT64_MIN || n > UINT64_MAX) {
+    throw new LighterValidationError(`Transaction field out of 64-bit range: ${n}`);
+  }
+  return n;
+}
+
+/**
+ * Split an unsigned 64-bit amount into the [low, high] 32-bit halves that get hashed
+ */
+export function splitUint64(value: LighterTxField): [bigint, bigint] {
+  const n = toInteger(value);
+  if (n < 0n) {
+    throw new LighterValidationError(`Amount must not be negative, got ${n}`);
+  }
+  return [n & UINT32_MASK, n >> 32n];
+}
+
+/**
+ * Field elements of a transaction header and its type-specific fields
+ */
+export function txElements(txType: number, header: LighterTxHeader, fields: LighterTxField[]): bigint[] {
+  return [
+    header.chainId,
+    txType,
+    header.nonce,
+    header.expiredAt,
+    header.accountIndex,
+    header.apiKeyIndex,
+    ...fields,
+  ].map((field) => toGoldilocks(toInteger(field)));
+}
+
+/**
+ * Hash a transaction into the GF(p^5) message that gets signed
+ */
+export function hashTx(txType: number, header: LighterTxHeader, fields: LighterTxField[]): bigint[] {
+  return hashToQuinticExtension(txElements(txType, header, fields));
+}
+
+/**
+ * Encode a memo string as a zero-padded 32-byte field
+ */
+export function encodeMemo(memo: string = ''): Uint8Array {
+  const encoded = new TextEncoder().encode(memo);
+  if (encoded.length > MEMO_LENGTH) {
+    throw new LighterValidationError(`Memo must be at most ${MEMO_LENGTH} bytes`);
+  }
+  const bytes = new Uint8Array(MEMO_LENGTH);
+  bytes.set(encoded);
+  return bytes;
+}
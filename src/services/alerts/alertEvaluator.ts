@@ -0,0 +1,252 @@
+import { AlertService, AlertRule } from '@/services/database/alertService';
+import { PositionService } from '@/services/database/positionService';
+import { valuationEngine, PositionValuation } from '@/services/processors/valuation';
+import { aggregationProcessor } from '@/services/processors/aggregation';
+import { webhookDispatcher } from './webhookDispatcher';
+import { alertConfig } from '@/config/exchanges';
+import { logger } from '@/utils/logger';
+
+interface RuleState {
+  // Whether this breach has been notified; cleared once the condition recovers
+  notified: boolean;
+  lastFiredAt: number;
+  // Only kept in memory; a restart counts every stored state as just seen
+  lastSeenAt: number;
+}
+
+/**
+ * Evaluates alert rules against live position valuations
+ *
+ * Runs on every ValuationEngine 'revalued' pass. A rule fires once per position each
+ * time its condition is entered, at most once per cooldown, and re-arms when the
+ * condition clears. Rules are cached in memory and reloaded on an interval and after
+ * API changes. Rule states are written through to alert_rule_states when they change,
+ * so a restart doesn't re-notify breaches that were already delivered.
+ */
+export class AlertEvaluator {
+  private rulesByWallet: Map<string, AlertRule[]> = new Map();
+  // Keyed by `${ruleId}:${positionId}`
+  private states: Map<string, RuleState> = new Map();
+  private refreshIntervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  private readonly onRevalued = (valuations: PositionValuation[]) => {
+    this.evaluate(valuations).catch((error) => {
+      logger.error('Alert evaluation failed:', error);
+    });
+  };
+
+  /**
+   * Load rules and start evaluating valuations
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn('Alert evaluator already running');
+      return;
+    }
+
+    await this.reloadRules();
+    await this.loadStates();
+    this.isRunning = true;
+    valuationEngine.on('revalued', this.onRevalued);
+    webhookDispatcher.start();
+
+    this.refreshIntervalId = setInterval(() => {
+      this.reloadRules().catch((error) => {
+        logger.error('Failed to reload alert rules:', error);
+      });
+    }, alertConfig.ruleRefreshIntervalMs);
+
+    logger.info('Alert evaluator started');
+  }
+
+  /**
+   * Stop evaluating and delivering
+   */
+  stop(): void {
+    if (this.refreshIntervalId) {
+      clearInterval(this.refreshIntervalId);
+      this.refreshIntervalId = null;
+    }
+    valuationEngine.off('revalued', this.onRevalued);
+    webhookDispatcher.stop();
+    this.isRunning = false;
+    logger.info('Alert evaluator stopped');
+  }
+
+  /**
+   * Reload enabled rules from the database
+   */
+  async reloadRules(): Promise<void> {
+    const rules = await AlertService.getEnabledRules();
+    const rulesByWallet = new Map<string, AlertRule[]>();
+    for (const rule of rules) {
+      const key = rule.walletAddress.toLowerCase();
+      rulesByWallet.set(key, [...(rulesByWallet.get(key) || []), rule]);
+    }
+    this.rulesByWallet = rulesByWallet;
+
+    // Forget state for rules that were deleted or disabled, and for positions that are no
+    // longer valued (closed or without a live price) once their cooldown has passed
+    const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+    const now = Date.now();
+    const forgotten: Array<{ ruleId: number; positionId: number }> = [];
+    for (const [key, state] of this.states) {
+      const [ruleId, positionId] = key.split(':').map((part) => parseInt(part));
+      const rule = rulesById.get(ruleId);
+      const unseen = now - state.lastSeenAt > alertConfig.ruleRefreshIntervalMs;
+      if (!rule || (unseen && now - state.lastFiredAt >= rule.cooldownMs)) {
+        this.states.delete(key);
+        forgotten.push({ ruleId, positionId });
+      }
+    }
+
+    await AlertService.deleteRuleStates(forgotten).catch((error) => {
+      logger.error('Failed to delete alert rule states:', error);
+    });
+  }
+
+  /**
+   * Restore rule states saved before the last restart
+   */
+  private async loadStates(): Promise<void> {
+    const now = Date.now();
+    this.states.clear();
+    for (const state of await AlertService.getRuleStates()) {
+      this.states.set(`${state.ruleId}:${state.positionId}`, {
+        notified: state.notified,
+        lastFiredAt: state.lastFiredAt,
+        lastSeenAt: now,
+      });
+    }
+  }
+
+  private async saveState(ruleId: number, positionId: number, state: RuleState): Promise<void> {
+    try {
+      await AlertService.saveRuleState({ ruleId, positionId, notified: state.notified, lastFiredAt: state.lastFiredAt });
+    } catch (error) {
+      logger.error(`Failed to save alert state for rule ${ruleId}, position ${positionId}:`, error);
+    }
+  }
+
+  /**
+   * Current value of a rule's metric for a valuation, or null when it can't be measured
+   */
+  measure(rule: AlertRule, valuation: PositionValuation): number | null {
+    const { position } = valuation;
+
+    switch (rule.ruleType) {
+      case 'liquidation_distance':
+        return valuation.liquidationDistancePercent;
+      case 'unrealized_loss':
+        return -valuation.unrealizedPnl;
+      case 'funding_rate': {
+        const fundingRate = aggregationProcessor.getFundingRate(PositionService.getMarketSymbol(position), position.platform);
+        if (fundingRate === undefined) {
+          return null;
+        }
+        // Longs pay positive funding, shorts pay negative funding
+        return fundingRate * 100 * (position.side === 'long' ? 1 : -1);
+      }
+    }
+  }
+
+  /**
+   * Whether a measured value breaches the rule's threshold
+   */
+  isBreached(rule: AlertRule, value: number): boolean {
+    const threshold = parseFloat(rule.threshold);
+    return rule.ruleType === 'liquidation_distance' ? value < threshold : value > threshold;
+  }
+
+  private async evaluate(valuations: PositionValuation[]): Promise<void> {
+    const now = Date.now();
+
+    for (const valuation of valuations) {
+      const { position } = valuation;
+      const rules = this.rulesByWallet.get(position.walletAddress.toLowerCase());
+      if (!rules || position.id === undefined) {
+        continue;
+      }
+
+      for (const rule of rules) {
+        if (!this.matchesScope(rule, valuation)) {
+          continue;
+        }
+
+        const key = `${rule.id}:${position.id}`;
+        const value = this.measure(rule, valuation);
+        if (value === null || !this.isBreached(rule, value)) {
+          const state = this.states.get(key);
+          if (state) {
+            state.lastSeenAt = now;
+            if (state.notified) {
+              state.notified = false;
+              await this.saveState(rule.id, position.id, state);
+            }
+          }
+          continue;
+        }
+
+        const state = this.states.get(key) || { notified: false, lastFiredAt: 0, lastSeenAt: now };
+        state.lastSeenAt = now;
+        this.states.set(key, state);
+        if (state.notified || now - state.lastFiredAt < rule.cooldownMs) {
+          continue;
+        }
+
+        state.notified = true;
+        state.lastFiredAt = now;
+        // Saved before delivery, so a crash mid-delivery can't cause a second notification
+        await this.saveState(rule.id, position.id, state);
+        await this.fire(rule, valuation, value, now);
+      }
+    }
+  }
+
+  private matchesScope(rule: AlertRule, { position }: PositionValuation): boolean {
+    if (rule.platform && rule.platform !== position.platform) {
+      return false;
+    }
+    if (rule.symbol) {
+      const symbol = rule.symbol.toUpperCase();
+      return symbol === position.symbol.toUpperCase() || symbol === PositionService.getMarketSymbol(position).toUpperCase();
+    }
+    return true;
+  }
+
+  private async fire(rule: AlertRule, valuation: PositionValuation, value: number, triggeredAt: number): Promise<void> {
+    const { position } = valuation;
+    logger.info(`Alert rule ${rule.id} (${rule.ruleType}) triggered for position ${position.id}: ${value}`);
+
+    try {
+      await AlertService.markTriggered(rule.id, triggeredAt);
+      await webhookDispatcher.enqueue(rule.id, rule.walletAddress, position.id, {
+        event: 'alert.triggered',
+        ruleId: rule.id,
+        ruleType: rule.ruleType,
+        threshold: rule.threshold,
+        value: value.toString(),
+        walletAddress: rule.walletAddress,
+        position: {
+          id: position.id,
+          platform: position.platform,
+          symbol: position.symbol,
+          side: position.side,
+          size: position.size,
+          entryPrice: position.entryPrice,
+          markPrice: position.markPrice,
+          liquidationPrice: position.liquidationPrice,
+          unrealizedPnl: position.unrealizedPnl,
+          liquidationDistance: position.liquidationDistance,
+          liquidationDistancePercent: position.liquidationDistancePercent,
+        },
+        triggeredAt,
+      });
+    } catch (error) {
+      logger.error(`Failed to deliver alert for rule ${rule.id}:`, error);
+    }
+  }
+}
+
+export const alertEvaluator = new AlertEvaluator();
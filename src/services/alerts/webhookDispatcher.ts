@@ -0,0 +1,151 @@
+import { createHmac } from 'crypto';
+import { AlertService, ClaimedAlertDelivery } from '@/services/database/alertService';
+import { alertConfig } from '@/config/exchanges';
+import { checkWebhookTarget } from '@/services/security/webhook-target';
+import { logger } from '@/utils/logger';
+
+// Deliveries picked up per poll
+const CLAIM_BATCH_SIZE = 50;
+
+/**
+ * Sign a webhook body. Receivers recompute HMAC-SHA256 over `<timestamp>.<body>` with
+ * the rule's secret and compare it to X-Hyperdex-Signature.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Delivers alert notifications to user webhooks
+ *
+ * New deliveries are attempted straight away; failures are retried with exponential
+ * backoff by a poller that reads due rows from alert_deliveries, so retries survive
+ * restarts. After alertConfig.maxDeliveryAttempts a delivery is marked failed.
+ * A webhook that now resolves to a private or reserved address fails without retries.
+ */
+export class WebhookDispatcher {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isPolling = false;
+
+  /**
+   * Start retrying due deliveries
+   */
+  start(): void {
+    if (this.intervalId) {
+      logger.warn('Webhook dispatcher already running');
+      return;
+    }
+
+    logger.info(`Starting webhook dispatcher with poll interval ${alertConfig.deliveryPollIntervalMs}ms`);
+    this.intervalId = setInterval(() => {
+      this.processDue();
+    }, alertConfig.deliveryPollIntervalMs);
+  }
+
+  /**
+   * Stop retrying; pending deliveries are picked up again on the next start
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      logger.info('Webhook dispatcher stopped');
+    }
+  }
+
+  /**
+   * Log a notification and make its first delivery attempt
+   */
+  async enqueue(ruleId: number, walletAddress: string, positionId: number | undefined, payload: Record<string, unknown>): Promise<void> {
+    const claimed = await AlertService.createDelivery({ ruleId, walletAddress, positionId, payload });
+    if (claimed) {
+      await this.attempt(claimed);
+    }
+  }
+
+  /**
+   * Attempt every delivery whose retry is due
+   */
+  async processDue(): Promise<void> {
+    if (this.isPolling) {
+      return;
+    }
+    this.isPolling = true;
+
+    try {
+      const claimed = await AlertService.claimDueDeliveries(CLAIM_BATCH_SIZE);
+      for (const delivery of claimed) {
+        await this.attempt(delivery);
+      }
+    } catch (error) {
+      logger.error('Failed to process due webhook deliveries:', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async attempt({ delivery, webhookUrl, webhookSecret }: ClaimedAlertDelivery): Promise<void> {
+    const body = JSON.stringify({ deliveryId: delivery.id, ...delivery.payload });
+    const timestamp = Date.now();
+    let responseStatus: number | undefined;
+    let lastError: string | undefined;
+
+    try {
+      const refused = await checkWebhookTarget(webhookUrl);
+      if (refused) {
+        logger.warn(`Refusing webhook delivery ${delivery.id}: ${refused}`);
+        await AlertService.recordAttempt(delivery.id, { status: 'failed', lastError: refused });
+        return;
+      }
+
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'hyperdex-alerts/1.0',
+          'X-Hyperdex-Delivery': delivery.id.toString(),
+          'X-Hyperdex-Timestamp': timestamp.toString(),
+          'X-Hyperdex-Signature': `sha256=${signWebhookPayload(webhookSecret, timestamp, body)}`,
+        },
+        body,
+        // Redirects are not followed; the registered URL must answer itself
+        redirect: 'manual',
+        signal: AbortSignal.timeout(alertConfig.webhookTimeoutMs),
+      });
+      responseStatus = response.status;
+
+      if (response.ok) {
+        await AlertService.recordAttempt(delivery.id, {
+          status: 'delivered',
+          responseStatus,
+          deliveredAt: Date.now(),
+        });
+        return;
+      }
+      lastError = `Webhook responded ${response.status} ${response.statusText}`;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    const attempts = delivery.attempts + 1;
+    if (attempts >= alertConfig.maxDeliveryAttempts) {
+      logger.warn(`Giving up on webhook delivery ${delivery.id} after ${attempts} attempts: ${lastError}`);
+      await AlertService.recordAttempt(delivery.id, { status: 'failed', responseStatus, lastError });
+      return;
+    }
+
+    const delay = Math.min(
+      alertConfig.retryBaseDelayMs * Math.pow(2, attempts - 1),
+      alertConfig.retryMaxDelayMs
+    );
+    logger.debug(`Webhook delivery ${delivery.id} failed (attempt ${attempts}), retrying in ${delay}ms: ${lastError}`);
+    await AlertService.recordAttempt(delivery.id, {
+      status: 'pending',
+      responseStatus,
+      lastError,
+      nextAttemptAt: Date.now() + delay,
+    });
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher();
@@ -0,0 +1,85 @@
+// The noble packages are ESM-only; signature recovery is stubbed below
+jest.mock('@noble/curves/secp256k1.js', () => ({ secp256k1: {} }));
+jest.mock('@noble/hashes/sha3.js', () => ({ keccak_256: jest.fn() }));
+jest.mock('@/config/redis', () => ({
+  redisClient: {
+    set: jest.fn().mockResolvedValue('OK'),
+    get: jest.fn().mockResolvedValue(null),
+    getdel: jest.fn(),
+    del: jest.fn().mockResolvedValue(1),
+  },
+}));
+
+import { config } from '@/config';
+import { redisClient } from '@/config/redis';
+import { siweAuth } from './siwe';
+
+const address = '0xabcdefabcdefabcdefabcdefabcdefabcdef1111';
+
+function message(fields: Record<string, string> = {}): string {
+  const values: Record<string, string> = {
+    'URI': `${config.auth.siweUriOrigins[0]}/login`,
+    'Version': '1',
+    'Chain ID': String(config.auth.siweChainIds[0]),
+    'Nonce': 'abc123',
+    'Issued At': new Date().toISOString(),
+    ...fields,
+  };
+
+  return [
+    `${config.auth.siweDomains[0]} wants you to sign in with your Ethereum account:`,
+    address,
+    '',
+    'Sign in to HyperDex',
+    '',
+    ...Object.entries(values).map(([name, value]) => `${name}: ${value}`),
+  ].join('\n');
+}
+
+async function verify(fields: Record<string, string> = {}) {
+  return siweAuth.verify(message(fields), `0x${'11'.repeat(65)}`);
+}
+
+describe('SiweAuth.verify', () => {
+  const getdel = redisClient.getdel as jest.Mock;
+
+  beforeEach(() => {
+    getdel.mockReset().mockResolvedValue(address);
+    jest.spyOn(siweAuth, 'recoverAddress').mockReturnValue(address);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('opens a session for a well-formed message', async () => {
+    const { session } = await verify({ 'Expiration Time': new Date(Date.now() + 60_000).toISOString() });
+
+    expect(session.walletAddress).toBe(address);
+    expect(getdel).toHaveBeenCalledWith('siwe:nonce:abc123');
+  });
+
+  it.each([
+    ['Expiration Time', 'Invalid Expiration Time'],
+    ['Not Before', 'Invalid Not Before time'],
+  ])('rejects an unparseable %s', async (field, error) => {
+    await expect(verify({ [field]: 'next tuesday' })).rejects.toThrow(error);
+    expect(getdel).not.toHaveBeenCalled();
+  });
+
+  it('rejects an expired message', async () => {
+    await expect(verify({ 'Expiration Time': new Date(Date.now() - 1000).toISOString() }))
+      .rejects.toThrow('Message has expired');
+  });
+
+  it.each([
+    'https://evil.example.com/login',
+    'not a uri',
+  ])('rejects the URI %s', async (uri) => {
+    await expect(verify({ 'URI': uri })).rejects.toThrow('is not accepted');
+  });
+
+  it('rejects a chain ID that is not configured', async () => {
+    await expect(verify({ 'Chain ID': '999999' })).rejects.toThrow('Chain ID 999999 is not accepted');
+  });
+});
@@ -0,0 +1,284 @@
+import { createHash, randomBytes } from 'crypto';
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import { config } from '@/config';
+import { redisClient } from '@/config/redis';
+import { logger } from '@/utils/logger';
+
+/**
+ * Sign-In-With-Ethereum (EIP-4361) authentication.
+ *
+ * Flow:
+ *   1. Client requests a single-use nonce for its wallet
+ *   2. Client signs an EIP-4361 message containing that nonce with `personal_sign` (EIP-191)
+ *   3. Server recovers the signer, consumes the nonce and issues a short-lived session token
+ *
+ * The message's domain, URI and chain ID must match the configured values.
+ *
+ * Session tokens are opaque random strings; only their SHA-256 is stored in Redis,
+ * so they expire with the key TTL and can be revoked by deleting it.
+ * Only EOA signatures are supported (no EIP-1271 contract wallets).
+ */
+
+const NONCE_KEY_PREFIX = 'siwe:nonce:';
+const SESSION_KEY_PREFIX = 'siwe:session:';
+const CLOCK_SKEW_MS = 60 * 1000;
+
+export class AuthError extends Error {
+  public statusCode: number;
+
+  constructor(message: string, statusCode: number = 401) {
+    super(message);
+    this.name = 'AuthError';
+    this.statusCode = statusCode;
+    Object.setPrototypeOf(this, AuthError.prototype);
+  }
+}
+
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+export interface WalletSession {
+  walletAddress: string;
+  chainId: number;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+const FIELD_NAMES: Record<string, keyof SiweMessage> = {
+  'URI': 'uri',
+  'Version': 'version',
+  'Chain ID': 'chainId',
+  'Nonce': 'nonce',
+  'Issued At': 'issuedAt',
+  'Expiration Time': 'expirationTime',
+  'Not Before': 'notBefore',
+  'Request ID': 'requestId',
+};
+
+export class SiweAuth {
+  /**
+   * Issue a single-use nonce bound to a wallet
+   */
+  async createNonce(walletAddress: string): Promise<{ nonce: string; expiresAt: number }> {
+    const nonce = randomBytes(16).toString('hex');
+    const ttl = config.auth.nonceTtlSeconds;
+
+    await redisClient.set(`${NONCE_KEY_PREFIX}${nonce}`, walletAddress.toLowerCase(), ttl);
+
+    return { nonce, expiresAt: Date.now() + ttl * 1000 };
+  }
+
+  /**
+   * Verify a signed SIWE message and open a session for its wallet
+   */
+  async verify(message: string, signature: string): Promise<{ token: string; session: WalletSession }> {
+    const parsed = this.parseMessage(message);
+    const now = Date.now();
+
+    if (!config.auth.siweDomains.includes(parsed.domain)) {
+      throw new AuthError(`Domain ${parsed.domain} is not accepted`);
+    }
+    if (!this.isAcceptedUri(parsed.uri)) {
+      throw new AuthError(`URI ${parsed.uri} is not accepted`);
+    }
+    if (parsed.version !== '1') {
+      throw new AuthError(`Unsupported SIWE version ${parsed.version}`);
+    }
+    if (!config.auth.siweChainIds.includes(parsed.chainId)) {
+      throw new AuthError(`Chain ID ${parsed.chainId} is not accepted`);
+    }
+
+    const issuedAt = Date.parse(parsed.issuedAt);
+    if (isNaN(issuedAt) || issuedAt > now + CLOCK_SKEW_MS) {
+      throw new AuthError('Invalid Issued At time');
+    }
+    // A present but unparseable bound is rejected rather than treated as absent
+    const expirationTime = parsed.expirationTime !== undefined ? Date.parse(parsed.expirationTime) : undefined;
+    if (expirationTime !== undefined && isNaN(expirationTime)) {
+      throw new AuthError('Invalid Expiration Time');
+    }
+    if (expirationTime !== undefined && expirationTime <= now) {
+      throw new AuthError('Message has expired');
+    }
+    const notBefore = parsed.notBefore !== undefined ? Date.parse(parsed.notBefore) : undefined;
+    if (notBefore !== undefined && isNaN(notBefore)) {
+      throw new AuthError('Invalid Not Before time');
+    }
+    if (notBefore !== undefined && notBefore > now + CLOCK_SKEW_MS) {
+      throw new AuthError('Message is not yet valid');
+    }
+
+    const signer = this.recoverAddress(message, signature);
+    if (signer !== parsed.address.toLowerCase()) {
+      throw new AuthError('Signature does not match the message address');
+    }
+
+    // Consume the nonce only once the signature checks out, so a bad attempt can't burn it
+    const nonceOwner = await redisClient.getdel(`${NONCE_KEY_PREFIX}${parsed.nonce}`);
+    if (!nonceOwner || nonceOwner !== signer) {
+      throw new AuthError('Nonce is invalid, expired or already used');
+    }
+
+    const ttl = config.auth.sessionTtlSeconds;
+    const session: WalletSession = {
+      walletAddress: signer,
+      chainId: parsed.chainId,
+      issuedAt: now,
+      expiresAt: now + ttl * 1000,
+    };
+    const token = randomBytes(32).toString('base64url');
+
+    await redisClient.set(this.getSessionKey(token), JSON.stringify(session), ttl);
+    logger.info(`SIWE session opened for ${signer}`);
+
+    return { token, session };
+  }
+
+  /**
+   * Resolve a session token, or null when it is unknown or expired
+   */
+  async getSession(token: string): Promise<WalletSession | null> {
+    const data = await redisClient.get(this.getSessionKey(token));
+    if (!data) {
+      return null;
+    }
+
+    const session = JSON.parse(data) as WalletSession;
+    return session.expiresAt > Date.now() ? session : null;
+  }
+
+  async revokeSession(token: string): Promise<void> {
+    await redisClient.del(this.getSessionKey(token));
+  }
+
+  /**
+   * Parse an EIP-4361 message into its fields
+   */
+  parseMessage(message: string): SiweMessage {
+    const lines = message.split('\n');
+    const header = lines[0]?.match(/^(.+) wants you to sign in with your Ethereum account:$/);
+    if (!header) {
+      throw new AuthError('Malformed SIWE message header', 400);
+    }
+
+    const address = lines[1]?.trim();
+    if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      throw new AuthError('Malformed SIWE message address', 400);
+    }
+
+    const fields: Partial<Record<keyof SiweMessage, string>> = {};
+    const statement: string[] = [];
+    const resources: string[] = [];
+    let inResources = false;
+
+    for (const line of lines.slice(2)) {
+      if (inResources) {
+        if (line.startsWith('- ')) {
+          resources.push(line.slice(2));
+        }
+        continue;
+      }
+      if (line === 'Resources:') {
+        inResources = true;
+        continue;
+      }
+
+      const separator = line.indexOf(': ');
+      const name = separator > 0 ? FIELD_NAMES[line.slice(0, separator)] : undefined;
+      if (name) {
+        fields[name] = line.slice(separator + 2);
+      } else if (line.trim() !== '' && Object.keys(fields).length === 0) {
+        statement.push(line);
+      }
+    }
+
+    for (const required of ['uri', 'version', 'chainId', 'nonce', 'issuedAt'] as const) {
+      if (!fields[required]) {
+        throw new AuthError(`SIWE message is missing ${required}`, 400);
+      }
+    }
+
+    const chainId = parseInt(fields.chainId!);
+    if (!Number.isSafeInteger(chainId)) {
+      throw new AuthError('Invalid SIWE chain ID', 400);
+    }
+
+    return {
+      domain: header[1],
+      address,
+      statement: statement.length > 0 ? statement.join('\n') : undefined,
+      uri: fields.uri!,
+      version: fields.version!,
+      chainId,
+      nonce: fields.nonce!,
+      issuedAt: fields.issuedAt!,
+      expirationTime: fields.expirationTime,
+      notBefore: fields.notBefore,
+      requestId: fields.requestId,
+      resources: resources.length > 0 ? resources : undefined,
+    };
+  }
+
+  /**
+   * Recover the lowercase address that produced an EIP-191 `personal_sign` signature
+   */
+  recoverAddress(message: string, signature: string): string {
+    const hex = signature.startsWith('0x') ? signature.slice(2) : signature;
+    if (!/^[a-fA-F0-9]{130}$/.test(hex)) {
+      throw new AuthError('Signature must be 65 bytes of hex', 400);
+    }
+
+    const bytes = Buffer.from(hex, 'hex');
+    const v = bytes[64];
+    const recovery = v >= 27 ? v - 27 : v;
+    if (recovery !== 0 && recovery !== 1) {
+      throw new AuthError('Invalid signature recovery id', 400);
+    }
+
+    const messageBytes = Buffer.from(message, 'utf8');
+    const prefixed = Buffer.concat([
+      Buffer.from(`\x19Ethereum Signed Message:\n${messageBytes.length}`, 'utf8'),
+      messageBytes,
+    ]);
+    const digest = keccak_256(prefixed);
+
+    let publicKey: Uint8Array;
+    try {
+      publicKey = secp256k1.Signature.fromBytes(bytes.subarray(0, 64), 'compact')
+        .addRecoveryBit(recovery)
+        .recoverPublicKey(digest)
+        .toBytes(false);
+    } catch (error) {
+      throw new AuthError('Signature could not be verified');
+    }
+
+    return `0x${Buffer.from(keccak_256(publicKey.subarray(1))).subarray(12).toString('hex')}`;
+  }
+
+  private isAcceptedUri(uri: string): boolean {
+    try {
+      return config.auth.siweUriOrigins.includes(new URL(uri).origin);
+    } catch {
+      return false;
+    }
+  }
+
+  private getSessionKey(token: string): string {
+    return `${SESSION_KEY_PREFIX}${createHash('sha256').update(token).digest('hex')}`;
+  }
+}
+
+export const siweAuth = new SiweAuth();
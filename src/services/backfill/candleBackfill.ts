@@ -0,0 +1,270 @@
+import { randomUUID } from 'crypto';
+import { Candle, Timeframe } from '@/types';
+import { klineSources, BACKFILL_TIMEFRAMES } from './klineSources';
+import { chartCache } from '@/services/cache/charts';
+import { database } from '@/config/database';
+import { CandleService } from '@/services/database/candleService';
+import { backfillConfig } from '@/config/exchanges';
+import { logger } from '@/utils/logger';
+import { TIMEFRAME_MS } from '@/utils/timeframes';
+
+type Exchange = Candle['exchange'];
+
+export interface BackfillRequest {
+  symbols: string[];
+  exchanges: Exchange[];
+  timeframes: Timeframe[];
+  lookbackCandles: number;
+}
+
+export type BackfillJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface BackfillJob {
+  id: string;
+  status: BackfillJobStatus;
+  request: BackfillRequest;
+  // 'startup' for the boot-time run, 'api' for admin requests
+  trigger: 'startup' | 'api';
+  progress: {
+    // One task per symbol/exchange/timeframe series
+    totalTasks: number;
+    completedTasks: number;
+    currentTask: string | null;
+    gapsFound: number;
+    candlesFetched: number;
+    candlesInserted: number;
+  };
+  errors: string[];
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+interface CandleGap {
+  from: number;
+  to: number;
+}
+
+// Finished jobs kept for progress queries
+const MAX_JOB_HISTORY = 20;
+// Errors kept per job; the rest are only logged
+const MAX_JOB_ERRORS = 50;
+
+/**
+ * Historical candle backfill
+ *
+ * For every requested series the candles table is scanned for missing candle slots over
+ * the lookback window, and each gap is fetched from the exchange's REST klines. The live
+ * builder also writes its completed candles to the table, so gaps are windows that were
+ * neither observed live nor backfilled (e.g. while the ingester was down). Fetched
+ * candles are inserted (existing rows win) and written to the chart cache, replacing any
+ * partial candles built from live ticks. Jobs run one at a time, in order.
+ */
+export class CandleBackfillService {
+  private jobs: Map<string, BackfillJob> = new Map();
+  private queue: string[] = [];
+  private isProcessing = false;
+
+  /**
+   * Queue a backfill job and start processing if idle
+   */
+  enqueue(request: BackfillRequest, trigger: BackfillJob['trigger'] = 'api'): BackfillJob {
+    const timeframes = request.timeframes.filter((timeframe) => BACKFILL_TIMEFRAMES.includes(timeframe));
+    const job: BackfillJob = {
+      id: randomUUID(),
+      status: 'queued',
+      request: { ...request, timeframes },
+      trigger,
+      progress: {
+        totalTasks: request.symbols.length * request.exchanges.length * timeframes.length,
+        completedTasks: 0,
+        currentTask: null,
+        gapsFound: 0,
+        candlesFetched: 0,
+        candlesInserted: 0,
+      },
+      errors: [],
+      createdAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+    };
+
+    this.jobs.set(job.id, job);
+    this.queue.push(job.id);
+    this.pruneJobs();
+    logger.info(`Queued candle backfill ${job.id} (${job.progress.totalTasks} series, ${trigger})`);
+
+    this.processQueue().catch((error) => {
+      logger.error('Candle backfill queue failed:', error);
+    });
+    return job;
+  }
+
+  getJob(id: string): BackfillJob | null {
+    return this.jobs.get(id) || null;
+  }
+
+  /**
+   * Jobs newest first
+   */
+  getJobs(): BackfillJob[] {
+    return Array.from(this.jobs.values()).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+    this.isProcessing = true;
+
+    try {
+      let id: string | undefined;
+      while ((id = this.queue.shift()) !== undefined) {
+        const job = this.jobs.get(id);
+        if (job) {
+          await this.runJob(job);
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async runJob(job: BackfillJob): Promise<void> {
+    job.status = 'running';
+    job.startedAt = Date.now();
+
+    try {
+      for (const exchange of job.request.exchanges) {
+        for (const symbol of job.request.symbols) {
+          for (const timeframe of job.request.timeframes) {
+            job.progress.currentTask = `${exchange}:${symbol}:${timeframe}`;
+            try {
+              await this.backfillSeries(job, symbol, exchange, timeframe);
+            } catch (error) {
+              const message = `${job.progress.currentTask}: ${error instanceof Error ? error.message : String(error)}`;
+              logger.warn(`Candle backfill ${job.id} failed for ${message}`);
+              if (job.errors.length < MAX_JOB_ERRORS) {
+                job.errors.push(message);
+              }
+            }
+            job.progress.completedTasks += 1;
+          }
+        }
+      }
+
+      job.status = 'completed';
+    } catch (error) {
+      job.status = 'failed';
+      job.errors.push(error instanceof Error ? error.message : String(error));
+    } finally {
+      job.progress.currentTask = null;
+      job.finishedAt = Date.now();
+      logger.info(
+        `Candle backfill ${job.id} ${job.status}: ${job.progress.gapsFound} gaps, ` +
+        `${job.progress.candlesInserted} candles inserted, ${job.errors.length} errors`
+      );
+    }
+  }
+
+  private async backfillSeries(job: BackfillJob, symbol: string, exchange: Exchange, timeframe: Timeframe): Promise<void> {
+    const windowMs = TIMEFRAME_MS[timeframe];
+    // Only closed candles; the forming one belongs to the live builder
+    const end = Math.floor(Date.now() / windowMs) * windowMs;
+    const start = end - job.request.lookbackCandles * windowMs;
+
+    const gaps = await this.findGaps(symbol, exchange, timeframe, start, end);
+    job.progress.gapsFound += gaps.length;
+
+    const source = klineSources[exchange];
+    for (const gap of gaps) {
+      let from = gap.from;
+      while (from < gap.to) {
+        const to = Math.min(gap.to, from + source.pageSize * windowMs);
+        const candles = (await source.fetchPage(symbol, timeframe, from, to))
+          .filter((candle) => candle.timestamp >= from && candle.timestamp < to && this.isValid(candle));
+
+        job.progress.candlesFetched += candles.length;
+        job.progress.candlesInserted += await this.storeCandles(candles);
+        from = to;
+
+        await new Promise((resolve) => setTimeout(resolve, backfillConfig.requestDelayMs));
+      }
+    }
+  }
+
+  /**
+   * Contiguous ranges of candle slots in [start, end) with no row in the candles table
+   */
+  private async findGaps(
+    symbol: string,
+    exchange: Exchange,
+    timeframe: Timeframe,
+    start: number,
+    end: number
+  ): Promise<CandleGap[]> {
+    const result = await database.query<{ timestamp: string }>(
+      `SELECT timestamp FROM candles
+       WHERE symbol = $1 AND exchange = $2 AND timeframe = $3
+       AND timestamp >= $4 AND timestamp < $5
+       ORDER BY timestamp ASC`,
+      [symbol, exchange, timeframe, start, end]
+    );
+    const existing = new Set(result.rows.map((row) => parseInt(row.timestamp)));
+
+    const windowMs = TIMEFRAME_MS[timeframe];
+    const gaps: CandleGap[] = [];
+    let gapStart: number | null = null;
+
+    for (let slot = start; slot < end; slot += windowMs) {
+      if (!existing.has(slot)) {
+        gapStart = gapStart ?? slot;
+      } else if (gapStart !== null) {
+        gaps.push({ from: gapStart, to: slot });
+        gapStart = null;
+      }
+    }
+    if (gapStart !== null) {
+      gaps.push({ from: gapStart, to: end });
+    }
+
+    return gaps;
+  }
+
+  /**
+   * Insert candles into the table and cache, returning how many rows were new
+   */
+  private async storeCandles(candles: Candle[]): Promise<number> {
+    if (candles.length === 0) {
+      return 0;
+    }
+
+    const inserted = await CandleService.insertCandles(candles);
+    await chartCache.replaceCandles(candles);
+    return inserted;
+  }
+
+  /**
+   * The candles table rejects rows whose open/close fall outside high/low
+   */
+  private isValid(candle: Candle): boolean {
+    const open = parseFloat(candle.open);
+    const high = parseFloat(candle.high);
+    const low = parseFloat(candle.low);
+    const close = parseFloat(candle.close);
+
+    return [open, high, low, close].every((value) => isFinite(value))
+      && high >= low
+      && open <= high && open >= low
+      && close <= high && close >= low;
+  }
+
+  private pruneJobs(): void {
+    const finished = this.getJobs().filter((job) => job.status === 'completed' || job.status === 'failed');
+    for (const job of finished.slice(MAX_JOB_HISTORY)) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
+
+export const candleBackfill = new CandleBackfillService();
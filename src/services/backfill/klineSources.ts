@@ -0,0 +1,190 @@
+import { Candle, Timeframe } from '@/types';
+import { exchangeConfig } from '@/config/exchanges';
+import { LighterRestClient } from '@/services/adapters/lighter';
+import { MARKET_INDEX_MAP } from '@/services/exchanges/lighter';
+import { retry } from '@/utils/retry';
+
+type Exchange = Candle['exchange'];
+
+/**
+ * Fetches closed klines for one market from an exchange REST API.
+ * `from` is inclusive and `to` exclusive, both candle open times in ms.
+ */
+export interface KlineSource {
+  // Most candles a single request returns
+  pageSize: number;
+  fetchPage(symbol: string, timeframe: Timeframe, from: number, to: number): Promise<Candle[]>;
+}
+
+// Exchanges only serve klines from one minute up; 1s candles come from live ticks only
+export const BACKFILL_TIMEFRAMES: Timeframe[] = ['1m', '5m', '15m', '1h', '4h', '1d'];
+
+const RETRY_OPTIONS = {
+  maxRetries: 3,
+  initialDelayMs: 1000,
+  backoffMultiplier: 2,
+};
+
+/**
+ * Build a Candle from raw kline values. Without an exchange-reported quote volume it is
+ * estimated from the typical price.
+ */
+function toCandle(
+  symbol: string,
+  exchange: Exchange,
+  timeframe: Timeframe,
+  kline: {
+    timestamp: number;
+    open: string;
+    high: string;
+    low: string;
+    close: string;
+    volume: string;
+    quoteVolume?: string;
+    tradeCount?: number;
+  }
+): Candle {
+  const open = parseFloat(kline.open);
+  const high = parseFloat(kline.high);
+  const low = parseFloat(kline.low);
+  const close = parseFloat(kline.close);
+  const volume = parseFloat(kline.volume) || 0;
+  const quoteVolume = kline.quoteVolume !== undefined
+    ? parseFloat(kline.quoteVolume) || 0
+    : volume * ((high + low + close) / 3);
+
+  return {
+    symbol,
+    exchange,
+    timeframe,
+    timestamp: kline.timestamp,
+    open: kline.open,
+    high: kline.high,
+    low: kline.low,
+    close: kline.close,
+    volume: volume.toString(),
+    quoteVolume: quoteVolume.toString(),
+    tradeCount: kline.tradeCount ?? 0,
+    vwap: (volume > 0 ? quoteVolume / volume : close).toString(),
+    priceChange: (close - open).toString(),
+    priceChangePercent: (open > 0 ? ((close - open) / open) * 100 : 0).toString(),
+  };
+}
+
+/**
+ * Hyperliquid info `candleSnapshot`
+ */
+const hyperliquidSource: KlineSource = {
+  pageSize: 5000,
+  async fetchPage(symbol, timeframe, from, to) {
+    const rows = await retry(async () => {
+      const response = await fetch(exchangeConfig.hyperliquid.restUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'candleSnapshot',
+          req: { coin: symbol, interval: timeframe, startTime: from, endTime: to - 1 },
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Hyperliquid API error: ${response.status} ${response.statusText}`);
+      }
+
+      return response.json() as Promise<Array<{
+        t: number; o: string; h: string; l: string; c: string; v: string; n: number;
+      }>>;
+    }, RETRY_OPTIONS);
+
+    return rows.map((row) => toCandle(symbol, 'hyperliquid', timeframe, {
+      timestamp: row.t,
+      open: row.o,
+      high: row.h,
+      low: row.l,
+      close: row.c,
+      volume: row.v,
+      tradeCount: row.n,
+    }));
+  },
+};
+
+/**
+ * Binance-style `/fapi/v1/klines`, served by both Aster and Avantis
+ */
+function createFapiSource(exchange: 'aster' | 'avantis'): KlineSource {
+  return {
+    pageSize: 1500,
+    async fetchPage(symbol, timeframe, from, to) {
+      const query = new URLSearchParams({
+        symbol: `${symbol}USDT`,
+        interval: timeframe,
+        startTime: from.toString(),
+        endTime: (to - 1).toString(),
+        limit: '1500',
+      }).toString();
+
+      const rows = await retry(async () => {
+        const response = await fetch(`${exchangeConfig[exchange].restUrl}/fapi/v1/klines?${query}`);
+
+        if (!response.ok) {
+          throw new Error(`${exchange} API error: ${response.status} ${response.statusText}`);
+        }
+
+        // [openTime, open, high, low, close, volume, closeTime, quoteVolume, trades, ...]
+        return response.json() as Promise<Array<[number, string, string, string, string, string, number, string, number]>>;
+      }, RETRY_OPTIONS);
+
+      return rows.map((row) => toCandle(symbol, exchange, timeframe, {
+        timestamp: row[0],
+        open: row[1],
+        high: row[2],
+        low: row[3],
+        close: row[4],
+        volume: row[5],
+        quoteVolume: row[7],
+        tradeCount: row[8],
+      }));
+    },
+  };
+}
+
+/**
+ * Lighter `/api/v1/candlesticks`
+ */
+function createLighterSource(): KlineSource {
+  const client = new LighterRestClient(exchangeConfig.lighter.restUrl);
+
+  return {
+    pageSize: 500,
+    async fetchPage(symbol, timeframe, from, to) {
+      const marketId = MARKET_INDEX_MAP[symbol];
+      if (marketId === undefined) {
+        throw new Error(`No Lighter market index for ${symbol}`);
+      }
+
+      const rows = await retry(
+        () => client.getCandlesticks(marketId, timeframe, from, to - 1, 500),
+        RETRY_OPTIONS
+      );
+
+      return rows.map((row) => toCandle(symbol, 'lighter', timeframe, {
+        // Normalize second timestamps to ms
+        timestamp: row.timestamp < 1e12 ? row.timestamp * 1000 : row.timestamp,
+        open: String(row.open),
+        high: String(row.high),
+        low: String(row.low),
+        close: String(row.close),
+        // volume0 is base volume, volume1 quote volume
+        volume: String(row.volume0 ?? row.volume ?? '0'),
+        quoteVolume: row.volume1 !== undefined ? String(row.volume1) : undefined,
+      }));
+    },
+  };
+}
+
+export const klineSources: Record<Exchange, KlineSource> = {
+  hyperliquid: hyperliquidSource,
+  aster: createFapiSource('aster'),
+  lighter: createLighterSource(),
+  avantis: createFapiSource('avantis'),
+};
@@ -1,11 +1,12 @@
 import { redisClient } from '@/config/redis';
-import { cacheTTL } from '@/config/exchanges';
-import { Candle, ChartDataRequest, ChartUpdate, Timeframe } from '@/types';
+import { cacheTTL, chartConfig } from '@/config/exchanges';
+import { Candle, ChartDataRequest, ChartMetrics, ChartUpdate, Timeframe } from '@/types';
 import { logger } from '@/utils/logger';
 
 export class ChartCache {
   private readonly CANDLES_KEY_PREFIX = 'candles:';
   private readonly UPDATE_CHANNEL_PREFIX = 'charts:update:';
+  private readonly METRICS_KEY_PREFIX = 'chart-metrics:';
 
   async setCandles(candles: Candle[]): Promise<void> {
     if (candles.length === 0) return;
@@ -38,13 +39,41 @@ export class ChartCache {
     }
     
     // Keep only the most recent candles (based on config)
-    const maxCandles = 1000; // Could be configurable
-    await redisClient.getClient().zremrangebyrank(candlesKey, 0, -maxCandles - 1);
+    await redisClient.getClient().zremrangebyrank(candlesKey, 0, -chartConfig.maxCandles - 1);
     
     // Set TTL
     await redisClient.getClient().expire(candlesKey, cacheTTL.charts);
   }
 
+  /**
+   * Store candles, replacing whatever is cached at the same open times, in one round trip
+   */
+  async replaceCandles(candles: Candle[]): Promise<void> {
+    if (candles.length === 0) return;
+
+    const pipeline = redisClient.getClient().pipeline();
+    const keys = new Set<string>();
+    for (const candle of candles) {
+      const key = `${this.CANDLES_KEY_PREFIX}${candle.exchange}:${candle.symbol}:${candle.timeframe}`;
+      keys.add(key);
+      pipeline.zremrangebyscore(key, candle.timestamp, candle.timestamp);
+      pipeline.zadd(key, candle.timestamp, JSON.stringify(candle));
+    }
+
+    for (const key of keys) {
+      pipeline.zremrangebyrank(key, 0, -chartConfig.maxCandles - 1);
+      pipeline.expire(key, cacheTTL.charts);
+    }
+
+    const results = await pipeline.exec();
+    const failed = results?.find(([error]) => error);
+    if (failed) {
+      throw failed[0];
+    }
+
+    logger.debug(`Replaced ${candles.length} cached candles`);
+  }
+
   async getCandles(
     symbol: string,
     exchange: 'hyperliquid' | 'aster' | 'lighter' | 'avantis',
@@ -99,6 +128,32 @@ export class ChartCache {
     }
   }
 
+  /**
+   * Newest cached candle that opened before `before`
+   */
+  async getCandleBefore(
+    symbol: string,
+    exchange: 'hyperliquid' | 'aster' | 'lighter' | 'avantis',
+    timeframe: Timeframe,
+    before: number
+  ): Promise<Candle | null> {
+    const key = `${this.CANDLES_KEY_PREFIX}${exchange}:${symbol}:${timeframe}`;
+
+    const candleData = await redisClient.getClient()
+      .zrevrangebyscore(key, `(${before}`, '-inf', 'LIMIT', 0, 1);
+
+    if (candleData.length === 0) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(candleData[0]) as Candle;
+    } catch (error) {
+      logger.error(`Failed to parse candle from cache: ${candleData[0]}`, error);
+      return null;
+    }
+  }
+
   async updateCandle(update: ChartUpdate): Promise<void> {
     const key = `${this.CANDLES_KEY_PREFIX}${update.exchange}:${update.symbol}:${update.timeframe}`;
     
@@ -123,6 +178,31 @@ export class ChartCache {
     logger.debug(`Candle ${update.type}: ${update.exchange}:${update.symbol}:${update.timeframe}`);
   }
 
+  async setMetrics(metrics: ChartMetrics): Promise<void> {
+    const key = `${this.METRICS_KEY_PREFIX}${metrics.exchange}:${metrics.symbol}:${metrics.timeframe}`;
+    await redisClient.getClient().set(key, JSON.stringify(metrics), 'EX', cacheTTL.charts);
+  }
+
+  async getMetrics(
+    symbol: string,
+    exchange: 'hyperliquid' | 'aster' | 'lighter' | 'avantis',
+    timeframe: Timeframe
+  ): Promise<ChartMetrics | null> {
+    const key = `${this.METRICS_KEY_PREFIX}${exchange}:${symbol}:${timeframe}`;
+    const data = await redisClient.getClient().get(key);
+
+    if (!data) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(data) as ChartMetrics;
+    } catch (error) {
+      logger.error(`Failed to parse chart metrics from cache: ${data}`, error);
+      return null;
+    }
+  }
+
   async getCandleCount(
     symbol: string,
     exchange: 'hyperliquid' | 'aster' | 'lighter' | 'avantis',
@@ -72,6 +72,13 @@ export class OrderbookCache {
       return;
     }
 
+    // The processor validates sequences before writing here; this only guards against racing writers.
+    // Diffs without a venue sequence can't be ordered, so they always apply.
+    if (update.sequence && update.sequence <= currentOrderbook.sequence) {
+      logger.debug(`Skipping stale cached orderbook update: ${update.exchange}:${update.symbol} ${update.sequence}`);
+      return;
+    }
+
     // Apply updates
     if (update.bids) {
       currentOrderbook.bids.levels = this.applyPriceLevelUpdates(
@@ -89,7 +96,7 @@ export class OrderbookCache {
 
     // Update metadata
     currentOrderbook.timestamp = update.timestamp;
-    currentOrderbook.sequence = update.sequence;
+    currentOrderbook.sequence = update.sequence || currentOrderbook.sequence;
     currentOrderbook.spread = this.calculateSpread(currentOrderbook);
     currentOrderbook.midPrice = this.calculateMidPrice(currentOrderbook);
 
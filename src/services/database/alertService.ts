@@ -0,0 +1,449 @@
+import { database } from '@/config/database';
+import { alertConfig } from '@/config/exchanges';
+import { credentialEncryption, CredentialContext } from '@/services/security/credential-encryption';
+
+const db = database;
+
+function getWebhookSecretContext(walletAddress: string): CredentialContext {
+  return { walletAddress, scope: 'alerts', field: 'webhook_secret' };
+}
+
+export type AlertRuleType = 'liquidation_distance' | 'unrealized_loss' | 'funding_rate';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ['liquidation_distance', 'unrealized_loss', 'funding_rate'];
+
+export type AlertPlatform = 'hyperliquid' | 'aster' | 'lighter' | 'avantis';
+
+export interface AlertRule {
+  id: number;
+  walletAddress: string;
+  ruleType: AlertRuleType;
+  // Percent to liquidation, quote-currency loss, or paid funding percent per interval
+  threshold: string;
+  // Unset matches every venue / market
+  platform?: AlertPlatform;
+  symbol?: string;
+  webhookUrl: string;
+  cooldownMs: number;
+  enabled: boolean;
+  lastTriggeredAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AlertRuleInput {
+  walletAddress: string;
+  ruleType: AlertRuleType;
+  threshold: string;
+  platform?: AlertPlatform;
+  symbol?: string;
+  webhookUrl: string;
+  webhookSecret: string;
+  cooldownMs: number;
+  enabled: boolean;
+}
+
+// undefined leaves a field unchanged; null clears the optional scope fields
+export interface AlertRuleUpdate {
+  threshold?: string;
+  platform?: AlertPlatform | null;
+  symbol?: string | null;
+  webhookUrl?: string;
+  cooldownMs?: number;
+  enabled?: boolean;
+}
+
+export type AlertDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface AlertDelivery {
+  id: number;
+  ruleId: number;
+  walletAddress: string;
+  positionId?: number;
+  payload: Record<string, unknown>;
+  status: AlertDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: number;
+  responseStatus?: number;
+  lastError?: string;
+  createdAt: number;
+  deliveredAt?: number;
+}
+
+// A delivery claimed for sending, with what's needed to send it
+export interface ClaimedAlertDelivery {
+  delivery: AlertDelivery;
+  webhookUrl: string;
+  webhookSecret: string;
+}
+
+export interface AlertDeliveryAttempt {
+  status: AlertDeliveryStatus;
+  responseStatus?: number;
+  lastError?: string;
+  nextAttemptAt?: number;
+  deliveredAt?: number;
+}
+
+// Evaluator state for one rule and position
+export interface AlertRuleState {
+  ruleId: number;
+  positionId: number;
+  notified: boolean;
+  lastFiredAt: number;
+}
+
+export interface AlertDeliveryQuery {
+  limit: number;
+  // Return deliveries older than this delivery id (exclusive)
+  before?: number;
+  ruleId?: number;
+  status?: AlertDeliveryStatus;
+}
+
+/**
+ * Database service for alert rules and the webhook delivery log
+ */
+export class AlertService {
+  /**
+   * Create a rule; the webhook secret is stored encrypted
+   */
+  static async createRule(input: AlertRuleInput): Promise<AlertRule> {
+    const query = `
+      INSERT INTO alert_rules (
+        wallet_address, rule_type, threshold, platform, symbol,
+        webhook_url, webhook_secret_encrypted, key_version, cooldown_ms, enabled
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [
+      input.walletAddress,
+      input.ruleType,
+      input.threshold,
+      input.platform || null,
+      input.symbol || null,
+      input.webhookUrl,
+      credentialEncryption.encrypt(input.webhookSecret, getWebhookSecretContext(input.walletAddress)),
+      credentialEncryption.getCurrentKeyVersion(),
+      input.cooldownMs,
+      input.enabled,
+    ]);
+
+    return this.mapRowToRule(result.rows[0]);
+  }
+
+  /**
+   * Get all rules for a wallet, oldest first
+   */
+  static async getWalletRules(walletAddress: string): Promise<AlertRule[]> {
+    const result = await db.query(
+      'SELECT * FROM alert_rules WHERE LOWER(wallet_address) = LOWER($1) ORDER BY id',
+      [walletAddress]
+    );
+    return result.rows.map(this.mapRowToRule);
+  }
+
+  /**
+   * Count a wallet's rules
+   */
+  static async countWalletRules(walletAddress: string): Promise<number> {
+    const result = await db.query<{ count: string }>(
+      'SELECT COUNT(*) AS count FROM alert_rules WHERE LOWER(wallet_address) = LOWER($1)',
+      [walletAddress]
+    );
+    return parseInt(result.rows[0].count);
+  }
+
+  /**
+   * Get every enabled rule
+   */
+  static async getEnabledRules(): Promise<AlertRule[]> {
+    const result = await db.query('SELECT * FROM alert_rules WHERE enabled = true');
+    return result.rows.map(this.mapRowToRule);
+  }
+
+  /**
+   * Update a wallet's rule, returning null when it doesn't exist
+   */
+  static async updateRule(
+    id: number,
+    walletAddress: string,
+    updates: AlertRuleUpdate
+  ): Promise<AlertRule | null> {
+    const columns: Record<keyof AlertRuleUpdate, string> = {
+      threshold: 'threshold',
+      platform: 'platform',
+      symbol: 'symbol',
+      webhookUrl: 'webhook_url',
+      cooldownMs: 'cooldown_ms',
+      enabled: 'enabled',
+    };
+
+    const sets = ['updated_at = EXTRACT(EPOCH FROM NOW()) * 1000'];
+    const values: unknown[] = [id, walletAddress];
+    for (const [field, column] of Object.entries(columns) as Array<[keyof AlertRuleUpdate, string]>) {
+      if (updates[field] !== undefined) {
+        values.push(updates[field]);
+        sets.push(`${column} = $${values.length}`);
+      }
+    }
+
+    const result = await db.query(
+      `UPDATE alert_rules SET ${sets.join(', ')}
+       WHERE id = $1 AND LOWER(wallet_address) = LOWER($2)
+       RETURNING *`,
+      values
+    );
+
+    return result.rows[0] ? this.mapRowToRule(result.rows[0]) : null;
+  }
+
+  /**
+   * Delete a wallet's rule along with its delivery log
+   */
+  static async deleteRule(id: number, walletAddress: string): Promise<boolean> {
+    const result = await db.query(
+      'DELETE FROM alert_rules WHERE id = $1 AND LOWER(wallet_address) = LOWER($2)',
+      [id, walletAddress]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Record when a rule last fired
+   */
+  static async markTriggered(id: number, triggeredAt: number): Promise<void> {
+    await db.query('UPDATE alert_rules SET last_triggered_at = $2 WHERE id = $1', [id, triggeredAt]);
+  }
+
+  /**
+   * Get the evaluator state of every enabled rule
+   */
+  static async getRuleStates(): Promise<AlertRuleState[]> {
+    const result = await db.query(
+      `SELECT s.* FROM alert_rule_states s
+       JOIN alert_rules r ON r.id = s.rule_id
+       WHERE r.enabled = true`
+    );
+    return result.rows.map(this.mapRowToRuleState);
+  }
+
+  /**
+   * Store a rule's state for a position
+   */
+  static async saveRuleState(state: AlertRuleState): Promise<void> {
+    await db.query(
+      `INSERT INTO alert_rule_states (rule_id, position_id, notified, last_fired_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (rule_id, position_id) DO UPDATE SET
+        notified = EXCLUDED.notified,
+        last_fired_at = EXCLUDED.last_fired_at`,
+      [state.ruleId, state.positionId, state.notified, state.lastFiredAt]
+    );
+  }
+
+  /**
+   * Forget rule states the evaluator no longer tracks
+   */
+  static async deleteRuleStates(keys: Array<{ ruleId: number; positionId: number }>): Promise<void> {
+    if (keys.length === 0) {
+      return;
+    }
+    await db.query(
+      `DELETE FROM alert_rule_states s
+       USING UNNEST($1::int[], $2::int[]) AS k(rule_id, position_id)
+       WHERE s.rule_id = k.rule_id AND s.position_id = k.position_id`,
+      [keys.map((key) => key.ruleId), keys.map((key) => key.positionId)]
+    );
+  }
+
+  /**
+   * Log a new delivery, already claimed by the caller for its first attempt
+   */
+  static async createDelivery(delivery: {
+    ruleId: number;
+    walletAddress: string;
+    positionId?: number;
+    payload: Record<string, unknown>;
+  }): Promise<ClaimedAlertDelivery | null> {
+    const query = `
+      WITH inserted AS (
+        INSERT INTO alert_deliveries (rule_id, wallet_address, position_id, payload, next_attempt_at)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING *
+      )
+      SELECT inserted.*, r.webhook_url, r.webhook_secret_encrypted
+      FROM inserted JOIN alert_rules r ON r.id = inserted.rule_id
+    `;
+
+    const result = await db.query(query, [
+      delivery.ruleId,
+      delivery.walletAddress,
+      delivery.positionId ?? null,
+      JSON.stringify(delivery.payload),
+      Date.now() + this.getClaimLeaseMs(),
+    ]);
+
+    return result.rows[0] ? this.mapRowToClaimed(result.rows[0]) : null;
+  }
+
+  /**
+   * Claim pending deliveries whose retry is due. Claimed rows are leased by pushing
+   * next_attempt_at forward, so concurrent dispatchers don't send them twice.
+   */
+  static async claimDueDeliveries(limit: number): Promise<ClaimedAlertDelivery[]> {
+    const now = Date.now();
+    const query = `
+      WITH due AS (
+        SELECT id FROM alert_deliveries
+        WHERE status = 'pending' AND next_attempt_at <= $1
+        ORDER BY next_attempt_at
+        LIMIT $2
+        FOR UPDATE SKIP LOCKED
+      ), claimed AS (
+        UPDATE alert_deliveries d SET next_attempt_at = $3
+        FROM due WHERE d.id = due.id
+        RETURNING d.*
+      )
+      SELECT claimed.*, r.webhook_url, r.webhook_secret_encrypted
+      FROM claimed JOIN alert_rules r ON r.id = claimed.rule_id
+    `;
+
+    const result = await db.query(query, [now, limit, now + this.getClaimLeaseMs()]);
+    return result.rows.map((row) => this.mapRowToClaimed(row));
+  }
+
+  /**
+   * Record the outcome of a delivery attempt
+   */
+  static async recordAttempt(id: number, attempt: AlertDeliveryAttempt): Promise<void> {
+    await db.query(
+      `UPDATE alert_deliveries SET
+        status = $2,
+        attempts = attempts + 1,
+        response_status = $3,
+        last_error = $4,
+        next_attempt_at = $5,
+        delivered_at = $6
+      WHERE id = $1`,
+      [
+        id,
+        attempt.status,
+        attempt.responseStatus ?? null,
+        attempt.lastError ?? null,
+        attempt.nextAttemptAt ?? null,
+        attempt.deliveredAt ?? null,
+      ]
+    );
+  }
+
+  /**
+   * Page through a wallet's delivery log, newest first
+   */
+  static async getWalletDeliveries(
+    walletAddress: string,
+    options: AlertDeliveryQuery
+  ): Promise<{ deliveries: AlertDelivery[]; nextCursor: number | null }> {
+    const conditions = ['LOWER(wallet_address) = LOWER($1)'];
+    const values: unknown[] = [walletAddress];
+
+    if (options.before !== undefined) {
+      values.push(options.before);
+      conditions.push(`id < $${values.length}`);
+    }
+    if (options.ruleId !== undefined) {
+      values.push(options.ruleId);
+      conditions.push(`rule_id = $${values.length}`);
+    }
+    if (options.status) {
+      values.push(options.status);
+      conditions.push(`status = $${values.length}`);
+    }
+
+    // Fetch one extra row to know whether another page exists
+    values.push(options.limit + 1);
+    const query = `
+      SELECT * FROM alert_deliveries
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY id DESC
+      LIMIT $${values.length}
+    `;
+
+    const result = await db.query(query, values);
+    const deliveries = result.rows.slice(0, options.limit).map(this.mapRowToDelivery);
+    const nextCursor = result.rows.length > options.limit ? deliveries[deliveries.length - 1].id : null;
+
+    return { deliveries, nextCursor };
+  }
+
+  /**
+   * How long a claimed delivery stays hidden from other dispatchers
+   */
+  private static getClaimLeaseMs(): number {
+    return alertConfig.webhookTimeoutMs * 2;
+  }
+
+  /**
+   * Map database row to AlertRule object
+   */
+  private static mapRowToRule(row: any): AlertRule {
+    return {
+      id: row.id,
+      walletAddress: row.wallet_address,
+      ruleType: row.rule_type,
+      threshold: row.threshold,
+      platform: row.platform ?? undefined,
+      symbol: row.symbol ?? undefined,
+      webhookUrl: row.webhook_url,
+      cooldownMs: parseInt(row.cooldown_ms),
+      enabled: row.enabled,
+      lastTriggeredAt: row.last_triggered_at ? parseInt(row.last_triggered_at) : undefined,
+      createdAt: parseInt(row.created_at),
+      updatedAt: parseInt(row.updated_at)
+    };
+  }
+
+  /**
+   * Map database row to AlertRuleState object
+   */
+  private static mapRowToRuleState(row: any): AlertRuleState {
+    return {
+      ruleId: row.rule_id,
+      positionId: row.position_id,
+      notified: row.notified,
+      lastFiredAt: parseInt(row.last_fired_at),
+    };
+  }
+
+  /**
+   * Map database row to AlertDelivery object
+   */
+  private static mapRowToDelivery(row: any): AlertDelivery {
+    return {
+      id: parseInt(row.id),
+      ruleId: row.rule_id,
+      walletAddress: row.wallet_address,
+      positionId: row.position_id ?? undefined,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at ? parseInt(row.next_attempt_at) : undefined,
+      responseStatus: row.response_status ?? undefined,
+      lastError: row.last_error ?? undefined,
+      createdAt: parseInt(row.created_at),
+      deliveredAt: row.delivered_at ? parseInt(row.delivered_at) : undefined
+    };
+  }
+
+  /**
+   * Map a delivery row joined with its rule's webhook settings
+   */
+  private static mapRowToClaimed(row: any): ClaimedAlertDelivery {
+    return {
+      delivery: this.mapRowToDelivery(row),
+      webhookUrl: row.webhook_url,
+      webhookSecret: credentialEncryption.decrypt(row.webhook_secret_encrypted, getWebhookSecretContext(row.wallet_address)),
+    };
+  }
+}
@@ -0,0 +1,109 @@
+import { database } from '@/config/database';
+import { Candle } from '@/types';
+
+const db = database;
+
+// Row shape of the candles table; BIGINT columns come back from pg as strings
+export interface CandleRow {
+  symbol: string;
+  exchange: Candle['exchange'];
+  timeframe: Candle['timeframe'];
+  timestamp: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+  quote_volume: string;
+  trade_count: number;
+  vwap: string | null;
+  price_change: string | null;
+  price_change_percent: string | null;
+}
+
+/**
+ * Database service for stored OHLCV candles
+ */
+export class CandleService {
+  /**
+   * Insert candles, keeping rows that already exist at the same open time.
+   * Returns how many rows were new.
+   */
+  static async insertCandles(candles: Candle[]): Promise<number> {
+    if (candles.length === 0) {
+      return 0;
+    }
+
+    const result = await db.query(
+      `INSERT INTO candles (
+        symbol, exchange, timeframe, timestamp, open, high, low, close,
+        volume, quote_volume, trade_count, vwap, price_change, price_change_percent
+      )
+      SELECT * FROM UNNEST(
+        $1::text[], $2::text[], $3::text[], $4::bigint[], $5::text[], $6::text[], $7::text[], $8::text[],
+        $9::text[], $10::text[], $11::int[], $12::text[], $13::text[], $14::text[]
+      )
+      ON CONFLICT (symbol, exchange, timeframe, timestamp) DO NOTHING`,
+      [
+        candles.map((candle) => candle.symbol),
+        candles.map((candle) => candle.exchange),
+        candles.map((candle) => candle.timeframe),
+        candles.map((candle) => candle.timestamp),
+        candles.map((candle) => candle.open),
+        candles.map((candle) => candle.high),
+        candles.map((candle) => candle.low),
+        candles.map((candle) => candle.close),
+        candles.map((candle) => candle.volume),
+        candles.map((candle) => candle.quoteVolume),
+        candles.map((candle) => candle.tradeCount),
+        candles.map((candle) => candle.vwap ?? null),
+        candles.map((candle) => candle.priceChange ?? null),
+        candles.map((candle) => candle.priceChangePercent ?? null),
+      ]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Newest stored candle that opened before `before`
+   */
+  static async getCandleBefore(
+    symbol: string,
+    exchange: Candle['exchange'],
+    timeframe: Candle['timeframe'],
+    before: number
+  ): Promise<Candle | null> {
+    const result = await db.query<CandleRow>(
+      `SELECT * FROM candles
+       WHERE symbol = $1 AND exchange = $2 AND timeframe = $3 AND timestamp < $4
+       ORDER BY timestamp DESC
+       LIMIT 1`,
+      [symbol, exchange, timeframe, before]
+    );
+
+    return result.rows.length > 0 ? this.mapRowToCandle(result.rows[0]) : null;
+  }
+
+  /**
+   * Map database row to Candle object
+   */
+  static mapRowToCandle(row: CandleRow): Candle {
+    return {
+      symbol: row.symbol,
+      exchange: row.exchange,
+      timeframe: row.timeframe,
+      timestamp: parseInt(row.timestamp),
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      volume: row.volume,
+      quoteVolume: row.quote_volume,
+      tradeCount: row.trade_count,
+      vwap: row.vwap ?? undefined,
+      priceChange: row.price_change ?? undefined,
+      priceChangePercent: row.price_change_percent ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,189 @@
+import { database } from '@/config/database';
+
+const db = database;
+
+export interface PlatformEquity {
+  equity: number;
+  marginUsed: number;
+  unrealizedPnl: number;
+  openPositions: number;
+  // 'account' when the venue reported an account value, 'positions' when derived from open positions
+  source: 'account' | 'positions';
+}
+
+export interface EquitySnapshot {
+  walletAddress: string;
+  equity: number;
+  marginUsed: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+  openPositions: number;
+  platforms: Record<string, PlatformEquity>;
+  timestamp: number;
+}
+
+export interface EquityCurveStats {
+  startEquity: number;
+  endEquity: number;
+  change: number;
+  changePct: number | null;
+  realizedPnlChange: number;
+  peakEquity: number;
+  troughEquity: number;
+  maxDrawdown: number;
+  maxDrawdownPct: number | null;
+  maxDrawdownPeakAt: number | null;
+  maxDrawdownTroughAt: number | null;
+  currentDrawdown: number;
+  currentDrawdownPct: number | null;
+}
+
+/**
+ * Database service for per-wallet equity snapshots
+ */
+export class EquitySnapshotService {
+  /**
+   * Store a snapshot, replacing any existing one for the same wallet and time
+   */
+  static async recordSnapshot(snapshot: EquitySnapshot): Promise<void> {
+    const query = `
+      INSERT INTO equity_snapshots (
+        wallet_address, equity, margin_used, unrealized_pnl, realized_pnl,
+        open_positions, platforms, timestamp
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (wallet_address, timestamp) DO UPDATE SET
+        equity = EXCLUDED.equity,
+        margin_used = EXCLUDED.margin_used,
+        unrealized_pnl = EXCLUDED.unrealized_pnl,
+        realized_pnl = EXCLUDED.realized_pnl,
+        open_positions = EXCLUDED.open_positions,
+        platforms = EXCLUDED.platforms
+    `;
+
+    await db.query(query, [
+      snapshot.walletAddress.toLowerCase(),
+      snapshot.equity,
+      snapshot.marginUsed,
+      snapshot.unrealizedPnl,
+      snapshot.realizedPnl,
+      snapshot.openPositions,
+      JSON.stringify(snapshot.platforms),
+      snapshot.timestamp
+    ]);
+  }
+
+  /**
+   * Get snapshots in a time range, keeping the last snapshot of each resolution bucket
+   */
+  static async getSnapshots(
+    walletAddress: string,
+    from: number,
+    to: number,
+    resolutionMs: number
+  ): Promise<EquitySnapshot[]> {
+    const query = `
+      SELECT DISTINCT ON (timestamp / $4) *
+      FROM equity_snapshots
+      WHERE wallet_address = $1 AND timestamp >= $2 AND timestamp <= $3
+      ORDER BY timestamp / $4, timestamp DESC
+    `;
+
+    const result = await db.query(query, [walletAddress.toLowerCase(), from, to, resolutionMs]);
+    return result.rows.map(this.mapRowToSnapshot);
+  }
+
+  /**
+   * Get wallets that had a snapshot recently, so their curve continues after positions close
+   */
+  static async getRecentWallets(sinceMs: number): Promise<string[]> {
+    const query = `
+      SELECT DISTINCT wallet_address
+      FROM equity_snapshots
+      WHERE timestamp >= $1
+    `;
+
+    const result = await db.query<{ wallet_address: string }>(query, [sinceMs]);
+    return result.rows.map((r) => r.wallet_address);
+  }
+
+  /**
+   * Summarize an equity curve. Drawdowns are measured from the running peak;
+   * deposits and withdrawals are not separated from trading performance.
+   */
+  static calculateStats(snapshots: EquitySnapshot[]): EquityCurveStats | null {
+    if (snapshots.length === 0) {
+      return null;
+    }
+
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+
+    let peak = first.equity;
+    let peakAt = first.timestamp;
+    let trough = first.equity;
+    let maxDrawdown = 0;
+    let maxDrawdownPct: number | null = null;
+    let maxDrawdownPeakAt: number | null = null;
+    let maxDrawdownTroughAt: number | null = null;
+
+    for (const snapshot of snapshots) {
+      if (snapshot.equity > peak) {
+        peak = snapshot.equity;
+        peakAt = snapshot.timestamp;
+      }
+      trough = Math.min(trough, snapshot.equity);
+
+      const drawdown = peak - snapshot.equity;
+      if (drawdown > maxDrawdown) {
+        maxDrawdown = drawdown;
+        maxDrawdownPct = peak > 0 ? (drawdown / peak) * 100 : null;
+        maxDrawdownPeakAt = peakAt;
+        maxDrawdownTroughAt = snapshot.timestamp;
+      }
+    }
+
+    const change = last.equity - first.equity;
+    const currentDrawdown = peak - last.equity;
+
+    return {
+      startEquity: first.equity,
+      endEquity: last.equity,
+      change,
+      changePct: first.equity > 0 ? (change / first.equity) * 100 : null,
+      realizedPnlChange: last.realizedPnl - first.realizedPnl,
+      peakEquity: peak,
+      troughEquity: trough,
+      maxDrawdown,
+      maxDrawdownPct,
+      maxDrawdownPeakAt,
+      maxDrawdownTroughAt,
+      currentDrawdown,
+      currentDrawdownPct: peak > 0 ? (currentDrawdown / peak) * 100 : null,
+    };
+  }
+
+  /**
+   * Delete old snapshots (cleanup)
+   */
+  static async cleanupOldSnapshots(daysOld: number): Promise<number> {
+    const cutoffTime = Date.now() - (daysOld * 24 * 60 * 60 * 1000);
+    const result = await db.query('DELETE FROM equity_snapshots WHERE timestamp < $1', [cutoffTime]);
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Map database row to EquitySnapshot object
+   */
+  private static mapRowToSnapshot(row: any): EquitySnapshot {
+    return {
+      walletAddress: row.wallet_address,
+      equity: parseFloat(row.equity),
+      marginUsed: parseFloat(row.margin_used),
+      unrealizedPnl: parseFloat(row.unrealized_pnl),
+      realizedPnl: parseFloat(row.realized_pnl),
+      openPositions: row.open_positions,
+      platforms: row.platforms,
+      timestamp: parseInt(row.timestamp)
+    };
+  }
+}
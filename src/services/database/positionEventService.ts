@@ -0,0 +1,161 @@
+import type { PoolClient } from 'pg';
+import { database } from '@/config/database';
+
+const db = database;
+
+export type PositionEventType =
+  | 'opened'
+  | 'increased'
+  | 'reduced'
+  | 'closed'
+  | 'liquidated'
+  | 'leverage_changed'
+  | 'margin_mode_changed';
+
+export const POSITION_EVENT_TYPES: PositionEventType[] = [
+  'opened',
+  'increased',
+  'reduced',
+  'closed',
+  'liquidated',
+  'leverage_changed',
+  'margin_mode_changed',
+];
+
+// What caused the change: an exchange sync, a REST call, or an internal job
+export type PositionEventSource = 'sync' | 'api' | 'system';
+
+export interface PositionEvent {
+  id?: number;
+  positionId: number;
+  walletAddress: string;
+  platform: string;
+  symbol: string;
+  eventType: PositionEventType;
+  side: 'long' | 'short';
+  sizeBefore: string;
+  sizeAfter: string;
+  price?: string;
+  leverageBefore?: number;
+  leverageAfter?: number;
+  marginModeBefore?: 'cross' | 'isolated';
+  marginModeAfter?: 'cross' | 'isolated';
+  realizedPnl?: string;
+  source: PositionEventSource;
+  timestamp: number;
+}
+
+export interface PositionEventQuery {
+  limit: number;
+  // Return events older than this event id (exclusive)
+  before?: number;
+  platform?: string;
+  symbol?: string;
+  eventTypes?: PositionEventType[];
+}
+
+/**
+ * Database service for the append-only position lifecycle log
+ */
+export class PositionEventService {
+  /**
+   * Append events, using the caller's transaction so they commit with the position change
+   */
+  static async recordEvents(client: PoolClient, events: PositionEvent[]): Promise<void> {
+    for (const event of events) {
+      await client.query(
+        `INSERT INTO position_events (
+          position_id, wallet_address, platform, symbol, event_type, side,
+          size_before, size_after, price, leverage_before, leverage_after,
+          margin_mode_before, margin_mode_after, realized_pnl, source, timestamp
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)`,
+        [
+          event.positionId,
+          event.walletAddress,
+          event.platform,
+          event.symbol,
+          event.eventType,
+          event.side,
+          event.sizeBefore,
+          event.sizeAfter,
+          event.price || null,
+          event.leverageBefore ?? null,
+          event.leverageAfter ?? null,
+          event.marginModeBefore || null,
+          event.marginModeAfter || null,
+          event.realizedPnl || null,
+          event.source,
+          event.timestamp
+        ]
+      );
+    }
+  }
+
+  /**
+   * Page through a wallet's events, newest first
+   */
+  static async getWalletEvents(
+    walletAddress: string,
+    options: PositionEventQuery
+  ): Promise<{ events: PositionEvent[]; nextCursor: number | null }> {
+    const conditions = ['LOWER(wallet_address) = LOWER($1)'];
+    const values: unknown[] = [walletAddress];
+
+    if (options.before !== undefined) {
+      values.push(options.before);
+      conditions.push(`id < $${values.length}`);
+    }
+    if (options.platform) {
+      values.push(options.platform);
+      conditions.push(`platform = $${values.length}`);
+    }
+    if (options.symbol) {
+      values.push(options.symbol);
+      conditions.push(`symbol = $${values.length}`);
+    }
+    if (options.eventTypes && options.eventTypes.length > 0) {
+      values.push(options.eventTypes);
+      conditions.push(`event_type = ANY($${values.length})`);
+    }
+
+    // Fetch one extra row to know whether another page exists
+    values.push(options.limit + 1);
+    const query = `
+      SELECT * FROM position_events
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY id DESC
+      LIMIT $${values.length}
+    `;
+
+    const result = await db.query(query, values);
+    const events = result.rows.slice(0, options.limit).map(this.mapRowToEvent);
+    const nextCursor = result.rows.length > options.limit ? events[events.length - 1].id! : null;
+
+    return { events, nextCursor };
+  }
+
+  /**
+   * Map database row to PositionEvent object
+   */
+  private static mapRowToEvent(row: any): PositionEvent {
+    return {
+      id: parseInt(row.id),
+      positionId: row.position_id,
+      walletAddress: row.wallet_address,
+      platform: row.platform,
+      symbol: row.symbol,
+      eventType: row.event_type,
+      side: row.side,
+      sizeBefore: row.size_before,
+      sizeAfter: row.size_after,
+      price: row.price ?? undefined,
+      leverageBefore: row.leverage_before ?? undefined,
+      leverageAfter: row.leverage_after ?? undefined,
+      marginModeBefore: row.margin_mode_before ?? undefined,
+      marginModeAfter: row.margin_mode_after ?? undefined,
+      realizedPnl: row.realized_pnl ?? undefined,
+      source: row.source,
+      timestamp: parseInt(row.timestamp)
+    };
+  }
+}
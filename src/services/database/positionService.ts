@@ -1,4 +1,10 @@
 import { database } from '@/config/database';
+import {
+  PositionEventService,
+  PositionEvent,
+  PositionEventType,
+  PositionEventSource,
+} from './positionEventService';
 
 const db = database;
 
@@ -21,6 +27,10 @@ export interface Position {
   takeProfitPrice?: string;
   platformPositionId?: string;
   platformData?: Record<string, any>;
+  // Signed distance from mark to liquidation; negative once the mark is past it
+  liquidationDistance?: string;
+  liquidationDistancePercent?: string;
+  markedAt?: number;
   status: 'open' | 'closed' | 'liquidated';
   openedAt: number;
   closedAt?: number;
@@ -34,6 +44,8 @@ export interface PositionUpdate {
   liquidationPrice?: string;
   marginUsed?: string;
   platformData?: Record<string, any>;
+  liquidationDistance?: string;
+  liquidationDistancePercent?: string;
 }
 
 /**
@@ -41,110 +53,122 @@ export interface PositionUpdate {
  */
 export class PositionService {
   /**
-   * Create or update a position
+   * Create or update a position, appending lifecycle events for what changed
    */
-  static async upsertPosition(position: Omit<Position, 'id' | 'createdAt' | 'lastUpdatedAt'>): Promise<Position> {
-    // Check if position already exists
-    const existingQuery = `
-      SELECT id FROM positions
-      WHERE wallet_address = $1 AND platform = $2 AND symbol = $3 AND status = 'open'
-    `;
-
-    const existingResult = await db.query(existingQuery, [
-      position.walletAddress,
-      position.platform,
-      position.symbol
-    ]);
-
-    if (existingResult.rows.length > 0) {
-      // Update existing position
-      const updateQuery = `
-        UPDATE positions SET
-          side = $4,
-          size = $5,
-          entry_price = $6,
-          mark_price = $7,
-          leverage = $8,
-          margin_mode = $9,
-          margin_used = $10,
-          unrealized_pnl = $11,
-          realized_pnl = $12,
-          liquidation_price = $13,
-          stop_loss_price = $14,
-          take_profit_price = $15,
-          platform_position_id = $16,
-          platform_data = $17,
-          status = $18,
-          opened_at = $19,
-          closed_at = $20
-        WHERE id = $1
-        RETURNING *
+  static async upsertPosition(
+    position: Omit<Position, 'id' | 'createdAt' | 'lastUpdatedAt'>,
+    source: PositionEventSource = 'api'
+  ): Promise<Position> {
+    return db.transaction(async (client) => {
+      // Lock the existing row so concurrent syncs diff against the same state
+      const existingQuery = `
+        SELECT * FROM positions
+        WHERE wallet_address = $1 AND platform = $2 AND symbol = $3 AND status = 'open'
+        FOR UPDATE
       `;
 
-      const updateValues = [
-        (existingResult.rows[0] as { id: number }).id,
+      const existingResult = await client.query(existingQuery, [
         position.walletAddress,
         position.platform,
-        position.symbol,
-        position.side,
-        position.size,
-        position.entryPrice,
-        position.markPrice || null,
-        position.leverage,
-        position.marginMode,
-        position.marginUsed,
-        position.unrealizedPnl || '0',
-        position.realizedPnl || '0',
-        position.liquidationPrice || null,
-        position.stopLossPrice || null,
-        position.takeProfitPrice || null,
-        position.platformPositionId || null,
-        position.platformData ? JSON.stringify(position.platformData) : null,
-        position.status,
-        position.openedAt,
-        position.closedAt || null
-      ];
-
-      const result = await db.query(updateQuery, updateValues);
-      return this.mapRowToPosition(result.rows[0]);
-    } else {
-      // Insert new position
-      const insertQuery = `
-        INSERT INTO positions (
-          wallet_address, platform, symbol, side, size, entry_price, mark_price,
-          leverage, margin_mode, margin_used, unrealized_pnl, realized_pnl,
-          liquidation_price, stop_loss_price, take_profit_price,
-          platform_position_id, platform_data, status, opened_at, closed_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
-        RETURNING *
-      `;
+        position.symbol
+      ]);
+      const existing = existingResult.rows.length > 0
+        ? this.mapRowToPosition(existingResult.rows[0])
+        : null;
 
-      const insertValues = [
-        position.walletAddress,
-        position.platform,
-        position.symbol,
-        position.side,
-        position.size,
-        position.entryPrice,
-        position.markPrice || null,
-        position.leverage,
-        position.marginMode,
-        position.marginUsed,
-        position.unrealizedPnl || '0',
-        position.realizedPnl || '0',
-        position.liquidationPrice || null,
-        position.stopLossPrice || null,
-        position.takeProfitPrice || null,
-        position.platformPositionId || null,
-        position.platformData ? JSON.stringify(position.platformData) : null,
-        position.status,
-        position.openedAt,
-        position.closedAt || null
-      ];
-
-      const result = await db.query(insertQuery, insertValues);
-      return this.mapRowToPosition(result.rows[0]);
-    }
+      let result;
+      if (existing) {
+        // Update existing position
+        const updateQuery = `
+          UPDATE positions SET
+            side = $4,
+            size = $5,
+            entry_price = $6,
+            mark_price = $7,
+            leverage = $8,
+            margin_mode = $9,
+            margin_used = $10,
+            unrealized_pnl = $11,
+            realized_pnl = $12,
+            liquidation_price = $13,
+            stop_loss_price = $14,
+            take_profit_price = $15,
+            platform_position_id = $16,
+            platform_data = $17,
+            status = $18,
+            opened_at = $19,
+            closed_at = $20
+          WHERE id = $1
+          RETURNING *
+        `;
+
+        const updateValues = [
+          existing.id,
+          position.walletAddress,
+          position.platform,
+          position.symbol,
+          position.side,
+          position.size,
+          position.entryPrice,
+          position.markPrice || null,
+          position.leverage,
+          position.marginMode,
+          position.marginUsed,
+          position.unrealizedPnl || '0',
+          position.realizedPnl || '0',
+          position.liquidationPrice || null,
+          position.stopLossPrice || null,
+          position.takeProfitPrice || null,
+          position.platformPositionId || null,
+          position.platformData ? JSON.stringify(position.platformData) : null,
+          position.status,
+          position.openedAt,
+          position.closedAt || null
+        ];
+
+        result = await client.query(updateQuery, updateValues);
+      } else {
+        // Insert new position
+        const insertQuery = `
+          INSERT INTO positions (
+            wallet_address, platform, symbol, side, size, entry_price, mark_price,
+            leverage, margin_mode, margin_used, unrealized_pnl, realized_pnl,
+            liquidation_price, stop_loss_price, take_profit_price,
+            platform_position_id, platform_data, status, opened_at, closed_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+          RETURNING *
+        `;
+
+        const insertValues = [
+          position.walletAddress,
+          position.platform,
+          position.symbol,
+          position.side,
+          position.size,
+          position.entryPrice,
+          position.markPrice || null,
+          position.leverage,
+          position.marginMode,
+          position.marginUsed,
+          position.unrealizedPnl || '0',
+          position.realizedPnl || '0',
+          position.liquidationPrice || null,
+          position.stopLossPrice || null,
+          position.takeProfitPrice || null,
+          position.platformPositionId || null,
+          position.platformData ? JSON.stringify(position.platformData) : null,
+          position.status,
+          position.openedAt,
+          position.closedAt || null
+        ];
+
+        result = await client.query(insertQuery, insertValues);
+      }
+
+      const saved = this.mapRowToPosition(result.rows[0]);
+      await PositionEventService.recordEvents(client, this.diffPosition(existing, saved, source));
+      return saved;
+    });
   }
 
   /**
@@ -162,7 +186,9 @@ export class PositionService {
         unrealized_pnl = COALESCE($5, unrealized_pnl),
         liquidation_price = COALESCE($6, liquidation_price),
         margin_used = COALESCE($7, margin_used),
-        platform_data = COALESCE($8, platform_data)
+        platform_data = COALESCE($8, platform_data),
+        liquidation_distance = COALESCE($9, liquidation_distance),
+        liquidation_distance_percent = COALESCE($10, liquidation_distance_percent)
       WHERE wallet_address = $1 AND platform = $2 AND symbol = $3 AND status = 'open'
       RETURNING *
     `;
@@ -175,7 +201,9 @@ export class PositionService {
       updates.unrealizedPnl || null,
       updates.liquidationPrice || null,
       updates.marginUsed || null,
-      updates.platformData ? JSON.stringify(updates.platformData) : null
+      updates.platformData ? JSON.stringify(updates.platformData) : null,
+      updates.liquidationDistance || null,
+      updates.liquidationDistancePercent || null
     ];
 
     const result = await db.query(query, values);
@@ -183,26 +211,91 @@ export class PositionService {
   }
 
   /**
-   * Close a position
+   * Write live valuations for many open positions in one statement
+   */
+  static async updateMarks(
+    updates: Array<PositionUpdate & { id: number }>,
+    markedAt: number = Date.now()
+  ): Promise<number> {
+    if (updates.length === 0) {
+      return 0;
+    }
+
+    const query = `
+      UPDATE positions p SET
+        mark_price = COALESCE(u.mark_price, p.mark_price),
+        unrealized_pnl = COALESCE(u.unrealized_pnl, p.unrealized_pnl),
+        liquidation_distance = u.liquidation_distance,
+        liquidation_distance_percent = u.liquidation_distance_percent,
+        marked_at = $6
+      FROM UNNEST($1::int[], $2::text[], $3::text[], $4::text[], $5::text[])
+        AS u(id, mark_price, unrealized_pnl, liquidation_distance, liquidation_distance_percent)
+      WHERE p.id = u.id AND p.status = 'open'
+    `;
+
+    const result = await db.query(query, [
+      updates.map((u) => u.id),
+      updates.map((u) => u.markPrice ?? null),
+      updates.map((u) => u.unrealizedPnl ?? null),
+      updates.map((u) => u.liquidationDistance ?? null),
+      updates.map((u) => u.liquidationDistancePercent ?? null),
+      markedAt
+    ]);
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Close a position, or mark it liquidated
    */
   static async closePosition(
     walletAddress: string,
     platform: string,
     symbol: string,
-    realizedPnl?: string
+    realizedPnl?: string,
+    options: { source?: PositionEventSource; status?: 'closed' | 'liquidated' } = {}
   ): Promise<Position | null> {
-    const query = `
-      UPDATE positions SET
-        status = 'closed',
-        closed_at = EXTRACT(EPOCH FROM NOW()) * 1000,
-        realized_pnl = COALESCE($4, realized_pnl)
-      WHERE wallet_address = $1 AND platform = $2 AND symbol = $3 AND status = 'open'
-      RETURNING *
-    `;
+    const status = options.status || 'closed';
 
-    const values = [walletAddress, platform, symbol, realizedPnl || null];
-    const result = await db.query(query, values);
-    return result.rows.length > 0 ? this.mapRowToPosition(result.rows[0]) : null;
+    return db.transaction(async (client) => {
+      const query = `
+        UPDATE positions SET
+          status = $5,
+          closed_at = EXTRACT(EPOCH FROM NOW()) * 1000,
+          realized_pnl = COALESCE($4, realized_pnl)
+        WHERE wallet_address = $1 AND platform = $2 AND symbol = $3 AND status = 'open'
+        RETURNING *
+      `;
+
+      const values = [walletAddress, platform, symbol, realizedPnl || null, status];
+      const result = await client.query(query, values);
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const closed = this.mapRowToPosition(result.rows[0]);
+      await PositionEventService.recordEvents(client, [
+        this.buildEvent(closed, status, options.source || 'api', {
+          sizeBefore: closed.size,
+          sizeAfter: '0',
+          realizedPnl: closed.realizedPnl,
+          timestamp: closed.closedAt,
+        }),
+      ]);
+      return closed;
+    });
+  }
+
+  /**
+   * Whether the last known mark price has reached the liquidation price. Used to
+   * tell liquidations apart from ordinary closes when a position disappears.
+   */
+  static isPastLiquidation(position: Position): boolean {
+    const markPrice = parseFloat(position.markPrice || '');
+    const liquidationPrice = parseFloat(position.liquidationPrice || '');
+    if (!(markPrice > 0) || !(liquidationPrice > 0)) {
+      return false;
+    }
+    return position.side === 'long' ? markPrice <= liquidationPrice : markPrice >= liquidationPrice;
   }
 
   /**
@@ -229,6 +322,22 @@ export class PositionService {
     return result.rows.map(this.mapRowToPosition);
   }
 
+  /**
+   * Get every open position across all wallets
+   */
+  static async getAllOpenPositions(): Promise<Position[]> {
+    const result = await db.query(`SELECT * FROM positions WHERE status = 'open'`);
+    return result.rows.map(this.mapRowToPosition);
+  }
+
+  /**
+   * Symbol the position's market is quoted under in orderbook data.
+   * Aster positions keep the USDT pair name while books use the base symbol.
+   */
+  static getMarketSymbol(position: Pick<Position, 'platform' | 'symbol'>): string {
+    return position.platform === 'aster' ? position.symbol.replace(/USDT$/, '') : position.symbol;
+  }
+
   /**
    * Get position by platform-specific ID
    */
@@ -308,6 +417,45 @@ export class PositionService {
     return summary;
   }
 
+  /**
+   * Get total realized PnL of a user's closed and liquidated positions
+   */
+  static async getRealizedPnlTotal(walletAddress: string): Promise<number> {
+    const query = `
+      SELECT COALESCE(SUM(CAST(realized_pnl AS DECIMAL)), 0) as total_realized_pnl
+      FROM positions
+      WHERE LOWER(wallet_address) = LOWER($1) AND status IN ('closed', 'liquidated')
+    `;
+
+    const result = await db.query<{ total_realized_pnl: string }>(query, [walletAddress]);
+    return parseFloat(result.rows[0]?.total_realized_pnl) || 0;
+  }
+
+  /**
+   * Get wallets worth keeping in sync: those with open positions (most recently
+   * updated first) plus any wallet with a linked Lighter account
+   */
+  static async getActiveWalletAddresses(limit: number = 1000): Promise<string[]> {
+    const query = `
+      SELECT wallet_address
+      FROM (
+        SELECT wallet_address, MAX(last_updated_at) AS last_seen
+        FROM positions
+        WHERE status = 'open'
+        GROUP BY wallet_address
+        UNION ALL
+        SELECT wallet_address, 0 AS last_seen
+        FROM lighter_credentials
+      ) active
+      GROUP BY wallet_address
+      ORDER BY MAX(last_seen) DESC
+      LIMIT $1
+    `;
+
+    const result = await db.query<{ wallet_address: string }>(query, [limit]);
+    return result.rows.map((r) => r.wallet_address);
+  }
+
   /**
    * Delete old closed positions (cleanup)
    */
@@ -322,6 +470,92 @@ export class PositionService {
     return result.rowCount || 0;
   }
 
+  /**
+   * Work out which lifecycle events turn `before` into `after`
+   */
+  private static diffPosition(
+    before: Position | null,
+    after: Position,
+    source: PositionEventSource
+  ): PositionEvent[] {
+    const events: PositionEvent[] = [];
+    const afterSize = after.status === 'open' ? after.size : '0';
+
+    if (!before) {
+      events.push(this.buildEvent(after, 'opened', source, { sizeBefore: '0', sizeAfter: after.size }));
+      if (after.status !== 'open') {
+        events.push(this.buildEvent(after, after.status, source, {
+          sizeBefore: after.size,
+          sizeAfter: '0',
+          realizedPnl: after.realizedPnl,
+        }));
+      }
+      return events;
+    }
+
+    if (before.side !== after.side) {
+      // A flip is the old position closing and a new one opening
+      events.push(this.buildEvent(before, 'closed', source, { sizeBefore: before.size, sizeAfter: '0' }));
+      events.push(this.buildEvent(after, 'opened', source, { sizeBefore: '0', sizeAfter: afterSize }));
+    } else if (after.status !== 'open') {
+      events.push(this.buildEvent(after, after.status, source, {
+        sizeBefore: before.size,
+        sizeAfter: '0',
+        realizedPnl: after.realizedPnl,
+      }));
+      return events;
+    } else {
+      const sizeChange = parseFloat(after.size) - parseFloat(before.size);
+      if (Math.abs(sizeChange) > 1e-12) {
+        events.push(this.buildEvent(after, sizeChange > 0 ? 'increased' : 'reduced', source, {
+          sizeBefore: before.size,
+          sizeAfter: after.size,
+        }));
+      }
+    }
+
+    if (before.leverage !== after.leverage) {
+      events.push(this.buildEvent(after, 'leverage_changed', source, {
+        sizeBefore: afterSize,
+        sizeAfter: afterSize,
+        leverageBefore: before.leverage,
+        leverageAfter: after.leverage,
+      }));
+    }
+    if (before.marginMode !== after.marginMode) {
+      events.push(this.buildEvent(after, 'margin_mode_changed', source, {
+        sizeBefore: afterSize,
+        sizeAfter: afterSize,
+        marginModeBefore: before.marginMode,
+        marginModeAfter: after.marginMode,
+      }));
+    }
+
+    return events;
+  }
+
+  private static buildEvent(
+    position: Position,
+    eventType: PositionEventType,
+    source: PositionEventSource,
+    details: Partial<PositionEvent> & { sizeBefore: string; sizeAfter: string }
+  ): PositionEvent {
+    return {
+      positionId: position.id!,
+      walletAddress: position.walletAddress,
+      platform: position.platform,
+      symbol: position.symbol,
+      eventType,
+      side: position.side,
+      price: position.markPrice || position.entryPrice,
+      leverageAfter: position.leverage,
+      marginModeAfter: position.marginMode,
+      source,
+      ...details,
+      timestamp: details.timestamp || Date.now(),
+    };
+  }
+
   /**
    * Map database row to Position object
    */
@@ -344,7 +578,10 @@ export class PositionService {
       stopLossPrice: row.stop_loss_price,
       takeProfitPrice: row.take_profit_price,
       platformPositionId: row.platform_position_id,
-      platformData: row.platform_data ? JSON.parse(row.platform_data) : undefined,
+      platformData: typeof row.platform_data === 'string' ? JSON.parse(row.platform_data) : row.platform_data ?? undefined,
+      liquidationDistance: row.liquidation_distance ?? undefined,
+      liquidationDistancePercent: row.liquidation_distance_percent ?? undefined,
+      markedAt: row.marked_at ? parseInt(row.marked_at) : undefined,
       status: row.status,
       openedAt: parseInt(row.opened_at),
       closedAt: row.closed_at ? parseInt(row.closed_at) : undefined,
@@ -0,0 +1,68 @@
+import { database } from '@/config/database';
+import type { Symbol as MarketSymbol } from '@/types';
+
+const db = database;
+
+/**
+ * Database service for market symbol metadata
+ */
+export class SymbolService {
+  /**
+   * Get all symbols, by name
+   */
+  static async getSymbols(): Promise<MarketSymbol[]> {
+    const result = await db.query('SELECT * FROM symbols ORDER BY name');
+    return result.rows.map(this.mapRowToSymbol);
+  }
+
+  /**
+   * Get a symbol by name
+   */
+  static async getSymbol(name: string): Promise<MarketSymbol | null> {
+    const result = await db.query('SELECT * FROM symbols WHERE name = $1', [name]);
+    return result.rows.length > 0 ? this.mapRowToSymbol(result.rows[0]) : null;
+  }
+
+  private static mapRowToSymbol(row: any): MarketSymbol {
+    return {
+      name: row.name,
+      baseAsset: row.base_asset,
+      quoteAsset: row.quote_asset,
+      exchange: row.exchange,
+      status: row.status,
+      contractType: row.contract_type ?? undefined,
+      expiration: row.expiration ? parseInt(row.expiration) : undefined,
+      contractSize: row.contract_size ?? undefined,
+      pricePrecision: row.price_precision,
+      sizePrecision: row.size_precision,
+      minQuantity: row.min_quantity,
+      maxQuantity: row.max_quantity,
+      minNotional: row.min_notional,
+      maxNotional: row.max_notional,
+      tickSize: row.tick_size,
+      stepSize: row.step_size,
+      makerFee: row.maker_fee,
+      takerFee: row.taker_fee,
+      leverage: {
+        min: row.leverage_min,
+        max: row.leverage_max,
+        default: row.leverage_default,
+      },
+      marginType: row.margin_type,
+      fundingRate: row.funding_rate ?? undefined,
+      nextFundingTime: row.next_funding_time ? parseInt(row.next_funding_time) : undefined,
+      markPrice: row.mark_price ?? undefined,
+      indexPrice: row.index_price ?? undefined,
+      lastPrice: row.last_price ?? undefined,
+      volume24h: row.volume_24h ?? undefined,
+      quoteVolume24h: row.quote_volume_24h ?? undefined,
+      priceChange24h: row.price_change_24h ?? undefined,
+      priceChangePercent24h: row.price_change_percent_24h ?? undefined,
+      high24h: row.high_24h ?? undefined,
+      low24h: row.low_24h ?? undefined,
+      openInterest: row.open_interest ?? undefined,
+      createdAt: parseInt(row.created_at),
+      updatedAt: parseInt(row.updated_at),
+    };
+  }
+}
@@ -1,6 +1,7 @@
+import axios from 'axios';
 import { BaseExchangeClient } from './base';
 import { exchangeConfig } from '@/config/exchanges';
-import { OrderbookSnapshot, Trade } from '@/types';
+import { OrderbookSnapshot, OrderbookUpdate, Trade } from '@/types';
 import { logger } from '@/utils/logger';
 
 interface AsterMessage {
@@ -29,16 +30,36 @@ interface AsterTradeData {
   i: string;
 }
 
+interface AsterMarkPriceData {
+  e: 'markPriceUpdate';
+  E: number;
+  s: string;
+  p: string;
+  i: string;
+  r: string;
+  T: number;
+}
+
+// Diff depth event: U/u are the first/last update ids it covers, pu the last id of the previous event
 interface AsterDepthData {
   e: 'depthUpdate';
   E: number;
   s: string;
   U: number;
   u: number;
+  pu: number;
   b: string[][];
   a: string[][];
 }
 
+interface AsterDepthSnapshot {
+  lastUpdateId: number;
+  E?: number;
+  T?: number;
+  bids: string[][];
+  asks: string[][];
+}
+
 export class AsterClient extends BaseExchangeClient {
   private subscribedSymbols: string[] = [];
   private subscribedIntervals: string[] = ['1m'];
@@ -57,7 +78,8 @@ export class AsterClient extends BaseExchangeClient {
         // Add USDT suffix for Aster futures trading pairs
         const asterSymbol = `${symbol}USDT`.toLowerCase();
         streams.push(`${asterSymbol}@trade`);
-        streams.push(`${asterSymbol}@depth20@100ms`);
+        streams.push(`${asterSymbol}@depth@100ms`);
+        streams.push(`${asterSymbol}@markPrice@1s`);
 
         for (const interval of this.subscribedIntervals) {
           streams.push(`${asterSymbol}@kline_${interval}`);
@@ -116,7 +138,7 @@ export class AsterClient extends BaseExchangeClient {
       // Add USDT suffix for Aster futures trading pairs
       const asterSymbol = `${symbol}USDT`.toLowerCase();
       streams.push(`${asterSymbol}@trade`);
-      streams.push(`${asterSymbol}@depth20@100ms`);
+      streams.push(`${asterSymbol}@depth@100ms`);
       this.subscriptions.delete(symbol);
     }
 
@@ -148,6 +170,8 @@ export class AsterClient extends BaseExchangeClient {
           this.handleTrade(message.data as AsterTradeData, symbol);
         } else if (streamType && streamType.startsWith('depth')) {
           this.handleDepthUpdate(message.data as AsterDepthData, symbol);
+        } else if (streamType === 'markPrice') {
+          this.handleMarkPrice(message.data as AsterMarkPriceData, symbol);
         } else if (streamType && streamType.startsWith('kline_')) {
           const interval = streamType.replace('kline_', '');
           this.handleKline(message.data, symbol, interval);
@@ -200,36 +224,69 @@ export class AsterClient extends BaseExchangeClient {
     this.emit('trades', [trade]);
   }
 
+  /**
+   * Forward a diff with its update ids; the orderbook processor checks that each
+   * diff continues the previous one (pu) and rebuilds the book from a REST snapshot
+   */
   private handleDepthUpdate(data: AsterDepthData, symbol: string): void {
     // Remove USDT suffix to normalize symbol
     const normalizedSymbol = symbol.replace('USDT', '');
+    const toLevels = (levels: string[][] = []) => levels
+      .filter(level => level.length >= 2)
+      .map(([price, size]) => ({ price, size, timestamp: data.E }));
 
-    const orderbookDiff: OrderbookSnapshot = {
+    const update: OrderbookUpdate = {
       symbol: normalizedSymbol,
       exchange: 'aster',
-      bids: (data.b || []).filter(level => level.length >= 2) as [string, string][],
-      asks: (data.a || []).filter(level => level.length >= 2) as [string, string][],
+      bids: toLevels(data.b),
+      asks: toLevels(data.a),
       timestamp: data.E,
       sequence: data.u,
+      prevSequence: data.pu,
+      firstSequence: data.U,
+      type: 'diff',
     };
 
-    this.emit('orderbook', orderbookDiff);
+    this.emit('orderbookUpdate', update);
   }
 
-  public async requestOrderbookSnapshot(symbol: string): Promise<void> {
-    if (!this.isConnected) {
-      throw new Error('Aster client not connected');
-    }
+  private handleMarkPrice(data: AsterMarkPriceData, symbol: string): void {
+    // Remove USDT suffix to normalize symbol
+    const normalizedSymbol = symbol.replace('USDT', '');
 
+    this.emit('marketStats', {
+      symbol: normalizedSymbol,
+      exchange: 'aster',
+      indexPrice: data.i,
+      markPrice: data.p,
+      fundingRate: data.r,
+      nextFundingTime: data.T,
+      timestamp: data.E,
+    });
+  }
+
+  /**
+   * Fetch a depth snapshot over REST and emit it; diffs after its lastUpdateId apply on top
+   */
+  public async requestOrderbookSnapshot(symbol: string): Promise<void> {
     // Add USDT suffix for Aster futures trading pairs
-    const asterSymbol = `${symbol}USDT`.toLowerCase();
+    const asterSymbol = `${symbol}USDT`;
 
-    // Request depth snapshot
-    this.sendMessage({
-      method: 'SUBSCRIBE',
-      params: [`${asterSymbol}@depth20@100ms`],
-      id: Date.now(),
+    const response = await axios.get<AsterDepthSnapshot>(`${exchangeConfig.aster.restUrl}/fapi/v1/depth`, {
+      params: { symbol: asterSymbol, limit: 1000 },
+      timeout: 10000,
     });
+
+    const snapshot: OrderbookSnapshot = {
+      symbol,
+      exchange: 'aster',
+      bids: response.data.bids.map(([price, size]) => [price, size] as [string, string]),
+      asks: response.data.asks.map(([price, size]) => [price, size] as [string, string]),
+      timestamp: response.data.E ?? response.data.T ?? Date.now(),
+      sequence: response.data.lastUpdateId,
+    };
+
+    this.emit('orderbook', snapshot);
   }
 
   public async requestRecentTrades(symbol: string): Promise<void> {
@@ -29,6 +29,16 @@ interface AvantisTradeData {
   i: string;
 }
 
+interface AvantisMarkPriceData {
+  e: 'markPriceUpdate';
+  E: number;
+  s: string;
+  p: string;
+  i: string;
+  r: string;
+  T: number;
+}
+
 interface AvantisDepthData {
   e: 'depthUpdate';
   E: number;
@@ -58,6 +68,7 @@ export class AvantisClient extends BaseExchangeClient {
         const avantisSymbol = `${symbol}USDT`.toLowerCase();
         streams.push(`${avantisSymbol}@trade`);
         streams.push(`${avantisSymbol}@depth20@100ms`);
+        streams.push(`${avantisSymbol}@markPrice@1s`);
 
         for (const interval of this.subscribedIntervals) {
           streams.push(`${avantisSymbol}@kline_${interval}`);
@@ -148,6 +159,8 @@ export class AvantisClient extends BaseExchangeClient {
           this.handleTrade(message.data as AvantisTradeData, symbol);
         } else if (streamType && streamType.startsWith('depth')) {
           this.handleDepthUpdate(message.data as AvantisDepthData, symbol);
+        } else if (streamType === 'markPrice') {
+          this.handleMarkPrice(message.data as AvantisMarkPriceData, symbol);
         } else if (streamType && streamType.startsWith('kline_')) {
           const interval = streamType.replace('kline_', '');
           this.handleKline(message.data, symbol, interval);
@@ -216,6 +229,21 @@ export class AvantisClient extends BaseExchangeClient {
     this.emit('orderbook', orderbookDiff);
   }
 
+  private handleMarkPrice(data: AvantisMarkPriceData, symbol: string): void {
+    // Remove USDT suffix to normalize symbol
+    const normalizedSymbol = symbol.replace('USDT', '');
+
+    this.emit('marketStats', {
+      symbol: normalizedSymbol,
+      exchange: 'avantis',
+      indexPrice: data.i,
+      markPrice: data.p,
+      fundingRate: data.r,
+      nextFundingTime: data.T,
+      timestamp: data.E,
+    });
+  }
+
   public async requestOrderbookSnapshot(symbol: string): Promise<void> {
     if (!this.isConnected) {
       throw new Error('Avantis client not connected');
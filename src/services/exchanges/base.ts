@@ -9,6 +9,8 @@ export abstract class BaseExchangeClient extends EventEmitter {
   protected reconnectAttempts = 0;
   protected maxReconnectAttempts = 10;
   protected reconnectDelay = 1000;
+  protected maxReconnectDelay = Infinity;
+  protected reconnectTimer: NodeJS.Timeout | null = null;
   protected isConnecting = false;
   protected isConnected = false;
   protected heartbeatInterval: NodeJS.Timeout | null = null;
@@ -85,12 +87,14 @@ export abstract class BaseExchangeClient extends EventEmitter {
   protected abstract handleMessage(message: unknown): void;
 
   protected scheduleReconnect(): void {
-    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts);
+    const delay = Math.min(this.reconnectDelay * Math.pow(2, this.reconnectAttempts), this.maxReconnectDelay);
     this.reconnectAttempts++;
 
     logger.info(`${this.name} Scheduling reconnect attempt ${this.reconnectAttempts} in ${delay}ms`);
     
-    setTimeout(() => {
+    this.cancelReconnect();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
       if (!this.isConnected && !this.isConnecting) {
         this.connect().catch((error) => {
           logger.error(`${this.name} Reconnect failed:`, error);
@@ -99,6 +103,13 @@ export abstract class BaseExchangeClient extends EventEmitter {
     }, delay);
   }
 
+  protected cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
   protected startHeartbeat(): void {
     this.stopHeartbeat();
     this.heartbeatInterval = setInterval(() => {
@@ -29,6 +29,18 @@ interface HyperliquidAllTradesData {
   trades: HyperliquidTradeData[];
 }
 
+interface HyperliquidAssetCtxData {
+  coin: string;
+  ctx: {
+    funding: string;
+    openInterest: string;
+    oraclePx: string;
+    markPx: string;
+    dayNtlVlm: string;
+    prevDayPx: string;
+  };
+}
+
 export class HyperliquidClient extends BaseExchangeClient {
   private subscriptionId = 0;
   private subscribedSymbols: string[] = [];
@@ -92,9 +104,18 @@ export class HyperliquidClient extends BaseExchangeClient {
           coin: symbol,
         },
       });
+
+      // Mark price, open interest and the live hourly funding rate
+      this.sendMessage({
+        method: 'subscribe',
+        subscription: {
+          type: 'activeAssetCtx',
+          coin: symbol,
+        },
+      });
     }
 
-    logger.info(`Hyperliquid subscribed to ${symbols.length} symbols (orderbook + trades only)`);
+    logger.info(`Hyperliquid subscribed to ${symbols.length} symbols (orderbook + trades + asset context)`);
   }
 
   async unsubscribe(symbols: string[]): Promise<void> {
@@ -136,6 +157,11 @@ export class HyperliquidClient extends BaseExchangeClient {
         return;
       }
 
+      if (message.channel === 'activeAssetCtx') {
+        this.handleAssetCtx(message.data as HyperliquidAssetCtxData);
+        return;
+      }
+
       logger.warn(`Hyperliquid: Unknown channel: ${message.channel}`);
       return;
     }
@@ -219,6 +245,23 @@ export class HyperliquidClient extends BaseExchangeClient {
     this.emit('orderbook', orderbookSnapshot);
   }
 
+  private handleAssetCtx(data: HyperliquidAssetCtxData): void {
+    if (!data?.coin || !data.ctx) {
+      return;
+    }
+
+    this.emit('marketStats', {
+      symbol: data.coin,
+      exchange: 'hyperliquid',
+      indexPrice: data.ctx.oraclePx,
+      markPrice: data.ctx.markPx,
+      openInterest: data.ctx.openInterest,
+      fundingRate: data.ctx.funding,
+      volume24h: data.ctx.dayNtlVlm,
+      timestamp: Date.now(),
+    });
+  }
+
   public async requestOrderbookSnapshot(symbol: string): Promise<void> {
     if (!this.isConnected) {
       throw new Error('Hyperliquid client not connected');
@@ -1,6 +1,6 @@
 import { BaseExchangeClient } from './base';
 import { exchangeConfig } from '@/config/exchanges';
-import { OrderbookSnapshot, Trade } from '@/types';
+import { OrderbookSnapshot, OrderbookUpdate, Trade } from '@/types';
 import { logger } from '@/utils/logger';
 
 interface LighterOrderBookUpdate {
@@ -17,6 +17,9 @@ interface LighterOrderBookUpdate {
       size: string;
     }>;
     offset: number;
+    // Book nonce after this message and the nonce it builds on, when the venue sends them
+    nonce?: number;
+    begin_nonce?: number;
   };
   type: string;
 }
@@ -68,7 +71,7 @@ interface LighterMessage {
 }
 
 // Map common symbols to Lighter market indices
-const MARKET_INDEX_MAP: Record<string, number> = {
+export const MARKET_INDEX_MAP: Record<string, number> = {
   'BTC': 1,  // Swapped with ETH - was 0
   'ETH': 0,  // Swapped with BTC - was 1
   'SOL': 2,
@@ -78,7 +81,7 @@ const MARKET_INDEX_MAP: Record<string, number> = {
 };
 
 // Reverse mapping for market index to symbol
-const INDEX_TO_SYMBOL_MAP: Record<number, string> = Object.entries(MARKET_INDEX_MAP).reduce(
+export const INDEX_TO_SYMBOL_MAP: Record<number, string> = Object.entries(MARKET_INDEX_MAP).reduce(
   (acc, [symbol, index]) => {
     acc[index] = symbol;
     return acc;
@@ -263,13 +266,34 @@ export class LighterClient extends BaseExchangeClient {
         return;
       }
 
+      // Nonces chain consecutive messages; the offset only increases, so it is the fallback
+      const sequence = message.order_book.nonce ?? message.order_book.offset ?? message.offset;
+
+      // The subscribe response carries the full book; later messages only carry changed levels
+      if (message.type === 'update/order_book') {
+        const timestamp = Date.now();
+        const update: OrderbookUpdate = {
+          symbol,
+          exchange: 'lighter',
+          bids: message.order_book.bids.map(level => ({ price: level.price, size: level.size, timestamp })),
+          asks: message.order_book.asks.map(level => ({ price: level.price, size: level.size, timestamp })),
+          timestamp,
+          sequence,
+          prevSequence: message.order_book.nonce !== undefined ? message.order_book.begin_nonce : undefined,
+          type: 'diff',
+        };
+
+        this.emit('orderbookUpdate', update);
+        return;
+      }
+
       const orderbook: OrderbookSnapshot = {
         symbol,
         exchange: 'lighter',
         bids: message.order_book.bids.map(level => [level.price, level.size]),
         asks: message.order_book.asks.map(level => [level.price, level.size]),
         timestamp: Date.now(),
-        sequence: message.order_book.offset,
+        sequence,
       };
 
       this.emit('orderbook', orderbook);
@@ -351,7 +375,11 @@ export class LighterClient extends BaseExchangeClient {
       throw new Error(`Unknown symbol: ${symbol}`);
     }
 
-    // Resubscribe to get fresh snapshot
+    // Resubscribe to get fresh snapshot; the server only sends one on a new subscription
+    this.sendMessage({
+      type: 'unsubscribe',
+      channel: `order_book/${marketIndex}`,
+    });
     this.sendMessage({
       type: 'subscribe',
       channel: `order_book/${marketIndex}`,
@@ -0,0 +1,223 @@
+import { PositionService, Position } from '../database/positionService';
+import { EquitySnapshotService, PlatformEquity } from '../database/equitySnapshotService';
+import { hyperliquidPositionSync } from '../sync/hyperliquidPositionSync';
+import { portfolioConfig } from '@/config/exchanges';
+import { database } from '@/config/database';
+import { logger } from '@/utils/logger';
+
+/**
+ * Records per-wallet equity, margin used and unrealized PnL across all platforms
+ * at a fixed interval, building the time series behind portfolio equity curves.
+ *
+ * Hyperliquid reports an account value (collateral plus unrealized PnL), so idle
+ * collateral is included. Other venues are valued from stored open positions as
+ * margin used plus unrealized PnL.
+ */
+export class EquitySnapshotter {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isSnapshotting = false;
+  private snapshotInterval: number;
+  private lastSnapshotAt: number | null = null;
+  private lastCleanupAt = 0;
+
+  // Keep snapshotting wallets for a while after their last position closes
+  private readonly RECENT_WALLET_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+  private readonly CONCURRENCY = 5;
+  private readonly CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+  constructor(snapshotIntervalMs: number) {
+    this.snapshotInterval = snapshotIntervalMs;
+  }
+
+  /**
+   * Start taking snapshots
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('Equity snapshotter already running');
+      return;
+    }
+
+    this.isRunning = true;
+    logger.info(`Starting equity snapshotter with interval ${this.snapshotInterval}ms`);
+
+    this.snapshotAll();
+    this.intervalId = setInterval(() => {
+      this.snapshotAll();
+    }, this.snapshotInterval);
+  }
+
+  /**
+   * Stop taking snapshots
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    logger.info('Equity snapshotter stopped');
+  }
+
+  /**
+   * Snapshot every tracked wallet
+   */
+  private async snapshotAll(): Promise<void> {
+    // A slow run must not overlap the next one
+    if (this.isSnapshotting) {
+      logger.warn('Previous equity snapshot run still in progress, skipping');
+      return;
+    }
+    this.isSnapshotting = true;
+
+    try {
+      // Align to the interval so every wallet in a run shares one timestamp
+      const timestamp = Math.floor(Date.now() / this.snapshotInterval) * this.snapshotInterval;
+      const wallets = await this.getTrackedWallets();
+
+      let recorded = 0;
+      for (let i = 0; i < wallets.length; i += this.CONCURRENCY) {
+        const batch = wallets.slice(i, i + this.CONCURRENCY);
+        const results = await Promise.allSettled(
+          batch.map((wallet) => this.snapshotWallet(wallet, timestamp))
+        );
+
+        results.forEach((result, j) => {
+          if (result.status === 'fulfilled') {
+            recorded++;
+          } else {
+            logger.error(`Failed to snapshot equity for ${batch[j]}:`, result.reason);
+          }
+        });
+      }
+
+      this.lastSnapshotAt = timestamp;
+      logger.info(`Equity snapshot complete: ${recorded}/${wallets.length} wallets recorded`);
+
+      if (timestamp - this.lastCleanupAt >= this.CLEANUP_INTERVAL_MS) {
+        const deleted = await EquitySnapshotService.cleanupOldSnapshots(portfolioConfig.equitySnapshotRetentionDays);
+        this.lastCleanupAt = timestamp;
+        if (deleted > 0) {
+          logger.info(`Deleted ${deleted} equity snapshots older than ${portfolioConfig.equitySnapshotRetentionDays} days`);
+        }
+      }
+    } catch (error) {
+      logger.error('Equity snapshot run failed:', error);
+    } finally {
+      this.isSnapshotting = false;
+    }
+  }
+
+  /**
+   * Value one wallet across platforms and store the snapshot
+   */
+  async snapshotWallet(walletAddress: string, timestamp: number = Date.now()): Promise<void> {
+    const [positions, realizedPnl] = await Promise.all([
+      PositionService.getUserPositions(walletAddress),
+      PositionService.getRealizedPnlTotal(walletAddress),
+    ]);
+
+    const platforms = this.valuePositions(positions);
+
+    try {
+      const summary = await hyperliquidPositionSync.getAccountSummary(walletAddress);
+      const accountValue = parseFloat(summary.accountValue);
+      if (Number.isFinite(accountValue)) {
+        const existing = platforms.hyperliquid;
+        platforms.hyperliquid = {
+          equity: accountValue,
+          marginUsed: parseFloat(summary.totalMarginUsed) || 0,
+          unrealizedPnl: existing?.unrealizedPnl ?? 0,
+          openPositions: existing?.openPositions ?? 0,
+          source: 'account',
+        };
+      }
+    } catch (error) {
+      logger.debug(`Hyperliquid account value unavailable for ${walletAddress}, using positions:`, error);
+    }
+
+    // Drop platforms with nothing in them
+    for (const [platform, value] of Object.entries(platforms)) {
+      if (value.equity === 0 && value.openPositions === 0) {
+        delete platforms[platform];
+      }
+    }
+
+    const totals = Object.values(platforms);
+    await EquitySnapshotService.recordSnapshot({
+      walletAddress,
+      equity: totals.reduce((sum, p) => sum + p.equity, 0),
+      marginUsed: totals.reduce((sum, p) => sum + p.marginUsed, 0),
+      unrealizedPnl: totals.reduce((sum, p) => sum + p.unrealizedPnl, 0),
+      realizedPnl,
+      openPositions: positions.length,
+      platforms,
+      timestamp,
+    });
+  }
+
+  private valuePositions(positions: Position[]): Record<string, PlatformEquity> {
+    const platforms: Record<string, PlatformEquity> = {};
+
+    for (const position of positions) {
+      const entry = platforms[position.platform] ||= {
+        equity: 0,
+        marginUsed: 0,
+        unrealizedPnl: 0,
+        openPositions: 0,
+        source: 'positions',
+      };
+
+      const marginUsed = parseFloat(position.marginUsed) || 0;
+      const unrealizedPnl = parseFloat(position.unrealizedPnl || '0') || 0;
+      entry.marginUsed += marginUsed;
+      entry.unrealizedPnl += unrealizedPnl;
+      entry.equity += marginUsed + unrealizedPnl;
+      entry.openPositions++;
+    }
+
+    return platforms;
+  }
+
+  /**
+   * Wallets with open positions, plus wallets snapshotted recently
+   */
+  private async getTrackedWallets(): Promise<string[]> {
+    const [open, recent] = await Promise.all([
+      database.query<{ wallet_address: string }>(
+        `SELECT DISTINCT wallet_address FROM positions WHERE status = 'open'`
+      ),
+      EquitySnapshotService.getRecentWallets(Date.now() - this.RECENT_WALLET_WINDOW_MS),
+    ]);
+
+    const wallets = new Map<string, string>();
+    for (const row of open.rows) {
+      wallets.set(row.wallet_address.toLowerCase(), row.wallet_address);
+    }
+    for (const wallet of recent) {
+      if (!wallets.has(wallet)) {
+        wallets.set(wallet, wallet);
+      }
+    }
+    return Array.from(wallets.values());
+  }
+
+  /**
+   * Get snapshotter status
+   */
+  getStatus(): {
+    isRunning: boolean;
+    snapshotInterval: number;
+    lastSnapshotAt: number | null;
+  } {
+    return {
+      isRunning: this.isRunning,
+      snapshotInterval: this.snapshotInterval,
+      lastSnapshotAt: this.lastSnapshotAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const equitySnapshotter = new EquitySnapshotter(portfolioConfig.equitySnapshotIntervalMs);
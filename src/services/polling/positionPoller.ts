@@ -1,9 +1,13 @@
 import { PositionService } from '../database/positionService';
 import { positionSyncOrchestrator } from '../sync/positionSyncOrchestrator';
+import { userStreamConfig } from '@/config/exchanges';
 import { logger } from '@/utils/logger';
 
 /**
  * Service for polling and updating open positions
+ *
+ * When user streams are enabled they deliver changes as they happen, and polling only
+ * reconciles anything a stream missed (dropped connections, untracked wallets).
  */
 export class PositionPoller {
   private intervalId: NodeJS.Timeout | null = null;
@@ -84,22 +88,11 @@ export class PositionPoller {
   }
 
   /**
-   * Get all wallet addresses with open positions
+   * Get all wallet addresses with open positions or a linked Lighter account
    */
   private async getActiveWallets(): Promise<string[]> {
     try {
-      const query = `
-        SELECT DISTINCT wallet_address
-        FROM positions
-        WHERE status = 'open'
-        ORDER BY last_updated_at DESC
-        LIMIT 1000
-      `;
-
-      const { database } = await import('@/config/database');
-      const results = await database.query<{ wallet_address: string }>(query);
-
-      return results.rows.map((r) => r.wallet_address);
+      return await PositionService.getActiveWalletAddresses(1000);
     } catch (error) {
       logger.error('Failed to get active wallets:', error);
       return [];
@@ -136,4 +129,6 @@ export class PositionPoller {
 }
 
 // Export singleton instance
-export const positionPoller = new PositionPoller(60000); // Poll every minute
+export const positionPoller = new PositionPoller(
+  userStreamConfig.enabled ? userStreamConfig.reconciliationIntervalMs : 60000 // Otherwise poll every minute
+);
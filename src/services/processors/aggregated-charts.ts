@@ -3,7 +3,7 @@ import { Candle, Timeframe, ChartUpdate } from '@/types';
 import { redisClient } from '@/config/redis';
 import { logger } from '@/utils/logger';
 
-interface AggregatedCandle {
+export interface AggregatedCandle {
   symbol: string;
   timeframe: Timeframe;
   timestamp: number;
@@ -15,6 +15,8 @@ interface AggregatedCandle {
   quoteVolume: number;
   tradeCount: number;
   vwap: number;
+  // Flat zero-volume candle filled in for an interval without trades (never stored)
+  synthetic?: boolean;
 }
 
 interface CandleCache {
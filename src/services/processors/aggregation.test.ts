@@ -0,0 +1,213 @@
+import { Orderbook } from '@/types';
+
+jest.mock('@/config/redis', () => ({
+  redisClient: {
+    publish: jest.fn().mockResolvedValue(1),
+    set: jest.fn().mockResolvedValue('OK'),
+    get: jest.fn().mockResolvedValue(null),
+  },
+}));
+jest.mock('@/config/database', () => ({ database: { query: jest.fn() } }));
+
+import { AggregationProcessor, AggregatedOrderbook } from './aggregation';
+
+function book(
+  exchange: Orderbook['exchange'],
+  asks: Array<[number, number]>,
+  bids: Array<[number, number]> = []
+): Orderbook {
+  const toLevels = (levels: Array<[number, number]>) =>
+    levels.map(([price, size]) => ({ price: price.toString(), size: size.toString(), timestamp: Date.now() }));
+
+  return {
+    symbol: 'BTC',
+    exchange,
+    bids: { levels: toLevels(bids), totalSize: '0' },
+    asks: { levels: toLevels(asks), totalSize: '0' },
+    timestamp: Date.now(),
+    sequence: 0,
+    spread: '0',
+    midPrice: '0',
+  };
+}
+
+async function aggregate(processor: AggregationProcessor, books: Orderbook[]): Promise<AggregatedOrderbook> {
+  let latest: AggregatedOrderbook | null = null;
+  processor.on('aggregated', (data: AggregatedOrderbook) => {
+    latest = data;
+  });
+
+  for (const orderbook of books) {
+    // Each update is throttled per symbol; clear it so every book is merged
+    (processor as any).lastPublishTime.clear();
+    await processor.processOrderbookUpdate(orderbook);
+  }
+
+  return latest!;
+}
+
+describe('AggregationProcessor sized routing', () => {
+  let processor: AggregationProcessor;
+
+  beforeEach(() => {
+    processor = new AggregationProcessor();
+    // Zero fees so the assertions are on price alone
+    for (const platform of ['hyperliquid', 'aster', 'lighter', 'avantis'] as const) {
+      processor.updateVenueCosts('BTC', platform, { takerFee: 0 });
+    }
+  });
+
+  it('splits across venues and fills cheapest levels first', async () => {
+    const aggregated = await aggregate(processor, [
+      book('hyperliquid', [[100, 1], [102, 5]]),
+      book('aster', [[101, 1], [103, 5]]),
+    ]);
+
+    const decision = processor.calculateSizedRouting(aggregated, 'buy', 3);
+
+    expect(decision.filledSize).toBe(3);
+    expect(decision.averagePrice).toBeCloseTo((100 + 101 + 102) / 3);
+    expect(decision.allocations.map(a => [a.platform, a.size])).toEqual(
+      expect.arrayContaining([['hyperliquid', 2], ['aster', 1]])
+    );
+  });
+
+  it('compares against a single venue on the same normalized ladder', async () => {
+    // 100.004 normalizes to 100 in the merged ladder; the single-venue walk must agree
+    const aggregated = await aggregate(processor, [
+      book('hyperliquid', [[100.004, 2]]),
+    ]);
+
+    const decision = processor.calculateSizedRouting(aggregated, 'buy', 2);
+
+    expect(decision.bestSingleVenue).toEqual(expect.objectContaining({
+      platform: 'hyperliquid',
+      averagePrice: 100,
+      filledSize: 2,
+    }));
+    expect(decision.savings).toBeCloseTo(0);
+  });
+
+  it('limits the single-venue walk to the merged ladder depth', async () => {
+    // 60 levels on one venue, of which only the best 50 are in the merged ladder
+    const levels = Array.from({ length: 60 }, (_, i) => [100 + i, 1] as [number, number]);
+    const aggregated = await aggregate(processor, [book('hyperliquid', levels)]);
+
+    const decision = processor.calculateSizedRouting(aggregated, 'buy', 60);
+
+    expect(decision.filledSize).toBe(50);
+    expect(decision.bestSingleVenue?.filledSize).toBe(50);
+    expect(decision.savings).toBeCloseTo(0);
+  });
+
+  it('restricts the split to the allowed platforms', async () => {
+    const aggregated = await aggregate(processor, [
+      book('hyperliquid', [[100, 1]]),
+      book('aster', [[101, 5]]),
+    ]);
+
+    const decision = processor.calculateSizedRouting(aggregated, 'buy', 2, 0, ['aster']);
+
+    expect(decision.allocations).toHaveLength(1);
+    expect(decision.allocations[0]).toEqual(expect.objectContaining({ platform: 'aster', size: 2 }));
+    expect(decision.bestSingleVenue?.platform).toBe('aster');
+  });
+});
+
+describe('AggregationProcessor venue costs', () => {
+  const { database } = jest.requireMock('@/config/database');
+
+  it('keeps default fees when the fee schedule cannot be loaded', async () => {
+    const processor = new AggregationProcessor();
+    database.query.mockRejectedValueOnce(new Error('connection refused'));
+
+    await expect(processor.loadFeeSchedule()).resolves.toBeUndefined();
+    expect(processor.getFundingRate('BTC', 'aster')).toBeUndefined();
+  });
+
+  it('applies live funding updates and ignores malformed rates', () => {
+    const processor = new AggregationProcessor();
+
+    processor.updateFundingRate('BTC', 'hyperliquid', '0.0000125');
+    processor.updateFundingRate('BTC', 'hyperliquid', 'NaN');
+    processor.updateFundingRate('BTC', 'hyperliquid', undefined);
+
+    expect(processor.getFundingRate('BTC', 'hyperliquid')).toBeCloseTo(0.0000125);
+  });
+});
+
+describe('AggregationProcessor staleness events', () => {
+  const { redisClient } = jest.requireMock('@/config/redis');
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('publishes sourceStale and sourceRecovered on the aggregated book channel', async () => {
+    const processor = new AggregationProcessor();
+    const start = Date.now();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(start);
+
+    await aggregate(processor, [book('hyperliquid', [[100, 1]])]);
+
+    // Hyperliquid goes quiet past its threshold while Aster keeps updating
+    now.mockReturnValue(start + 10_000);
+    redisClient.publish.mockClear();
+    await aggregate(processor, [book('aster', [[101, 1]])]);
+
+    const events = () => redisClient.publish.mock.calls
+      .map(([channel, message]: [string, string]) => ({ channel, ...JSON.parse(message) }))
+      .filter((message: { event: string }) => message.event !== 'book');
+
+    expect(events()).toEqual([
+      expect.objectContaining({
+        channel: 'aggregated:book:BTC',
+        event: 'sourceStale',
+        data: expect.objectContaining({ symbol: 'BTC', platform: 'hyperliquid', ageMs: 10_000 }),
+      }),
+    ]);
+
+    redisClient.publish.mockClear();
+    await aggregate(processor, [book('hyperliquid', [[100, 1]])]);
+
+    expect(events()).toEqual([
+      expect.objectContaining({
+        event: 'sourceRecovered',
+        data: expect.objectContaining({ platform: 'hyperliquid' }),
+      }),
+    ]);
+  });
+});
+
+describe('AggregationProcessor source invalidation', () => {
+  const { redisClient } = jest.requireMock('@/config/redis');
+
+  it('replaces the cached book with an empty one when the only venue is invalidated', async () => {
+    const processor = new AggregationProcessor();
+    await aggregate(processor, [book('aster', [[101, 1]], [[99, 1]])]);
+    redisClient.set.mockClear();
+
+    await processor.invalidateSource('BTC', 'aster');
+
+    const cached = redisClient.set.mock.calls.find(([key]: [string]) => key === 'agg:book:BTC');
+    const published: AggregatedOrderbook = JSON.parse(cached[1]);
+    expect(published.aggregated.asks).toEqual([]);
+    expect(published.aggregated.bids).toEqual([]);
+    expect(published.sources.aster).toBeFalsy();
+
+    const routing = redisClient.set.mock.calls.find(([key]: [string]) => key === 'agg:routing:BTC');
+    expect(JSON.parse(routing[1]).buy.reason).toBe('No liquidity available');
+  });
+
+  it('keeps serving the remaining venues when one of several is invalidated', async () => {
+    const processor = new AggregationProcessor();
+    await aggregate(processor, [book('aster', [[101, 1]]), book('hyperliquid', [[102, 1]])]);
+    redisClient.set.mockClear();
+
+    await processor.invalidateSource('BTC', 'aster');
+
+    const cached = redisClient.set.mock.calls.find(([key]: [string]) => key === 'agg:book:BTC');
+    const published: AggregatedOrderbook = JSON.parse(cached[1]);
+    expect(published.aggregated.asks.map((level) => level.price)).toEqual([102]);
+  });
+});
@@ -1,9 +1,11 @@
 import { EventEmitter } from 'events';
 import { Orderbook } from '@/types';
 import { redisClient } from '@/config/redis';
+import { database } from '@/config/database';
+import { venueCostConfig, stalenessConfig } from '@/config/exchanges';
 import { logger } from '@/utils/logger';
 
-interface SourceLevel {
+export interface SourceLevel {
   platform: 'hyperliquid' | 'aster' | 'lighter' | 'avantis';
   size: number;
 }
@@ -17,11 +19,73 @@ interface AggregatedLevel {
 interface RoutingDecision {
   platform: 'hyperliquid' | 'aster' | 'lighter' | 'avantis';
   price: number;
+  effectivePrice: number;
+  takerFee: number;
+  fundingCost: number;
+  holdingHours: number;
   reason: string;
   savings: number;
   savingsPercent: number;
 }
 
+export interface StaleSource {
+  platform: SourceLevel['platform'];
+  lastUpdate: number;
+  ageMs: number;
+  thresholdMs: number;
+}
+
+export interface SourceStatusEvent {
+  symbol: string;
+  platform: SourceLevel['platform'];
+  lastUpdate: number;
+  ageMs?: number;
+  timestamp: number;
+}
+
+// Event names carried on the aggregated:book:<symbol> channel
+export type AggregatedStreamEvent = 'book' | 'sourceStale' | 'sourceRecovered';
+
+export interface VenueCost {
+  takerFee: number;
+  fundingRate: number;
+  fundingIntervalHours: number;
+}
+
+export interface RoutingAllocation {
+  platform: SourceLevel['platform'];
+  size: number;
+  notional: number;
+  averagePrice: number;
+  effectivePrice: number;
+  worstPrice: number;
+}
+
+export interface SizedRoutingDecision {
+  symbol: string;
+  side: 'buy' | 'sell';
+  requestedSize: number;
+  filledSize: number;
+  unfilledSize: number;
+  averagePrice: number;
+  effectivePrice: number;
+  holdingHours: number;
+  worstPrice: number;
+  midPrice: number;
+  slippage: number;
+  slippageBps: number;
+  allocations: RoutingAllocation[];
+  bestSingleVenue: {
+    platform: SourceLevel['platform'];
+    averagePrice: number;
+    effectivePrice: number;
+    filledSize: number;
+  } | null;
+  savings: number;
+  savingsPercent: number;
+  timestamp: number;
+}
+
 export interface AggregatedOrderbook {
   symbol: string;
   timestamp: number;
@@ -65,14 +129,29 @@ export interface AggregatedOrderbook {
       lastUpdate: number;
     } | null;
   };
+  staleSources: StaleSource[];
+  costs: Record<SourceLevel['platform'], VenueCost>;
   routing: {
     buy: RoutingDecision;
     sell: RoutingDecision;
   };
 }
 
+// Merged ladder depth per side; sized routing and the single-venue comparison both walk it
+const LADDER_DEPTH = 50;
+
+/**
+ * Normalize prices to 2 decimal places so levels like 180.520 and 180.52 merge
+ */
+function normalizePrice(price: number): number {
+  return Math.round(price * 100) / 100;
+}
+
 export class AggregationProcessor extends EventEmitter {
   private orderbookCache: Map<string, Orderbook> = new Map();
+  private venueCosts: Map<string, Partial<VenueCost>> = new Map();
+  private lastReceived: Map<string, number> = new Map();
+  private staleKeys: Set<string> = new Set();
   private readonly CACHE_TTL = 60; // 60 seconds
   private readonly ROUTING_TTL = 1; // 1 second for ultra-fresh routing
   private readonly PUBLISH_THROTTLE_MS = 50; // Publish at most every 50ms
@@ -89,15 +168,114 @@ export class AggregationProcessor extends EventEmitter {
   async processOrderbookUpdate(orderbook: Orderbook): Promise<void> {
     const key = this.getCacheKey(orderbook.symbol, orderbook.exchange);
     this.orderbookCache.set(key, orderbook);
+    // Track local receipt time; exchange timestamps can be skewed or replayed
+    this.lastReceived.set(key, Date.now());
 
     // Trigger aggregation for this symbol (with throttling)
     await this.aggregateAndPublish(orderbook.symbol);
   }
 
   /**
-   * Main aggregation logic - merges orderbooks from both exchanges
+   * Drop a venue's book until it is rebuilt, e.g. after a sequence gap
+   */
+  async invalidateSource(symbol: string, exchange: SourceLevel['platform']): Promise<void> {
+    const key = this.getCacheKey(symbol, exchange);
+    if (!this.orderbookCache.delete(key)) {
+      return;
+    }
+    this.lastReceived.delete(key);
+    this.staleKeys.delete(key);
+
+    logger.warn(`Dropped ${key} from aggregation until it is resnapshotted`);
+    // Bypass the publish throttle so routing stops using the corrupt book immediately;
+    // if it was the only book, an empty one replaces it
+    this.lastPublishTime.delete(symbol);
+    await this.aggregateAndPublish(symbol, true);
+  }
+
+  /**
+   * Re-aggregate symbols whose books have gone stale without a newer update
+   * from another venue, so the drop is published even when every feed is down
+   */
+  async checkStaleSources(): Promise<void> {
+    const now = Date.now();
+    const symbols = new Set<string>();
+
+    for (const [key, receivedAt] of this.lastReceived) {
+      const [exchange, symbol] = key.split(':') as [SourceLevel['platform'], string];
+      if (!this.staleKeys.has(key) && now - receivedAt > stalenessConfig[exchange]) {
+        symbols.add(symbol);
+      }
+    }
+
+    for (const symbol of symbols) {
+      await this.aggregateAndPublish(symbol);
+    }
+  }
+
+  /**
+   * Update fee or funding inputs used for routing on a venue
+   */
+  updateVenueCosts(
+    symbol: string,
+    exchange: SourceLevel['platform'],
+    costs: Partial<Pick<VenueCost, 'takerFee' | 'fundingRate'>>
+  ): void {
+    const key = this.getCacheKey(symbol, exchange);
+    const current = this.venueCosts.get(key) || {};
+    this.venueCosts.set(key, { ...current, ...costs });
+  }
+
+  /**
+   * Apply a live funding rate from a venue's market stats stream. The symbols table
+   * value loaded at startup is only a fallback until the first update arrives.
+   */
+  updateFundingRate(symbol: string, exchange: SourceLevel['platform'], fundingRate: string | undefined): void {
+    const rate = parseFloat(fundingRate ?? '');
+    if (!isNaN(rate)) {
+      this.updateVenueCosts(symbol, exchange, { fundingRate: rate });
+    }
+  }
+
+  /**
+   * Latest known funding rate per interval for a venue market, if any
    */
-  private async aggregateAndPublish(symbol: string): Promise<void> {
+  getFundingRate(symbol: string, exchange: SourceLevel['platform']): number | undefined {
+    return this.venueCosts.get(this.getCacheKey(symbol, exchange))?.fundingRate;
+  }
+
+  /**
+   * Load per-symbol taker fees and funding rates from the symbols table.
+   * Never throws; on failure the default fees stay in effect.
+   */
+  async loadFeeSchedule(): Promise<void> {
+    try {
+      const result = await database.query<{
+        name: string;
+        exchange: SourceLevel['platform'];
+        taker_fee: string;
+        funding_rate: string | null;
+      }>('SELECT name, exchange, taker_fee, funding_rate FROM symbols');
+
+      for (const row of result.rows) {
+        this.updateVenueCosts(row.name, row.exchange, {
+          takerFee: parseFloat(row.taker_fee),
+          ...(row.funding_rate ? { fundingRate: parseFloat(row.funding_rate) } : {}),
+        });
+      }
+
+      logger.info(`Loaded routing fee schedule for ${result.rows.length} symbols`);
+    } catch (error) {
+      // Routing still works on the venueCostConfig defaults
+      logger.warn('Failed to load routing fee schedule, using default venue fees:', error);
+    }
+  }
+
+  /**
+   * Main aggregation logic - merges orderbooks from both exchanges.
+   * `publishEmpty` publishes even when no venue has a book left.
+   */
+  private async aggregateAndPublish(symbol: string, publishEmpty: boolean = false): Promise<void> {
     // Throttle publishing to avoid overwhelming Redis
     const lastPublish = this.lastPublishTime.get(symbol) || 0;
     const now = Date.now();
@@ -106,13 +284,15 @@ export class AggregationProcessor extends EventEmitter {
     }
     this.lastPublishTime.set(symbol, now);
 
-    const hlBook = this.orderbookCache.get(this.getCacheKey(symbol, 'hyperliquid'));
-    const asterBook = this.orderbookCache.get(this.getCacheKey(symbol, 'aster'));
-    const lighterBook = this.orderbookCache.get(this.getCacheKey(symbol, 'lighter'));
-    const avantisBook = this.orderbookCache.get(this.getCacheKey(symbol, 'avantis'));
+    const staleSources: StaleSource[] = [];
+    const hlBook = this.getFreshBook(symbol, 'hyperliquid', now, staleSources);
+    const asterBook = this.getFreshBook(symbol, 'aster', now, staleSources);
+    const lighterBook = this.getFreshBook(symbol, 'lighter', now, staleSources);
+    const avantisBook = this.getFreshBook(symbol, 'avantis', now, staleSources);
 
-    // Need at least one book to continue
-    if (!hlBook && !asterBook && !lighterBook && !avantisBook) {
+    // Need at least one book to continue; if every known book went stale or was
+    // invalidated we still publish an empty book so consumers stop routing to frozen quotes
+    if (!hlBook && !asterBook && !lighterBook && !avantisBook && staleSources.length === 0 && !publishEmpty) {
       logger.warn(`No orderbook data available for ${symbol}`);
       return;
     }
@@ -120,6 +300,7 @@ export class AggregationProcessor extends EventEmitter {
     try {
       // Merge orderbooks
       const aggregated = this.mergeOrderbooks(symbol, hlBook, asterBook, lighterBook, avantisBook);
+      aggregated.staleSources = staleSources;
 
       // Calculate routing
       aggregated.routing = this.calculateRouting(aggregated);
@@ -139,6 +320,45 @@ export class AggregationProcessor extends EventEmitter {
     }
   }
 
+  /**
+   * Return a cached book only if it updated within the venue's staleness threshold.
+   * Emits and publishes `sourceStale` / `sourceRecovered` on transitions.
+   */
+  private getFreshBook(
+    symbol: string,
+    exchange: SourceLevel['platform'],
+    now: number,
+    staleSources: StaleSource[]
+  ): Orderbook | undefined {
+    const key = this.getCacheKey(symbol, exchange);
+    const book = this.orderbookCache.get(key);
+    if (!book) {
+      return undefined;
+    }
+
+    const lastUpdate = this.lastReceived.get(key) || book.timestamp;
+    const ageMs = now - lastUpdate;
+    const thresholdMs = stalenessConfig[exchange];
+
+    if (ageMs > thresholdMs) {
+      staleSources.push({ platform: exchange, lastUpdate, ageMs, thresholdMs });
+
+      if (!this.staleKeys.has(key)) {
+        this.staleKeys.add(key);
+        logger.warn(`Dropping stale ${exchange} book for ${symbol} from aggregation (${ageMs}ms old)`);
+        this.publishSourceStatus('sourceStale', { symbol, platform: exchange, lastUpdate, ageMs, timestamp: now });
+      }
+      return undefined;
+    }
+
+    if (this.staleKeys.delete(key)) {
+      logger.info(`${exchange} book for ${symbol} rejoined aggregation`);
+      this.publishSourceStatus('sourceRecovered', { symbol, platform: exchange, lastUpdate, timestamp: now });
+    }
+
+    return book;
+  }
+
   /**
    * Merge orderbooks from multiple exchanges
    */
@@ -258,13 +478,48 @@ export class AggregationProcessor extends EventEmitter {
             }
           : null,
       },
+      staleSources: [],
+      costs: this.getVenueCosts(symbol),
       routing: {
-        buy: { platform: 'hyperliquid', price: 0, reason: '', savings: 0, savingsPercent: 0 },
-        sell: { platform: 'hyperliquid', price: 0, reason: '', savings: 0, savingsPercent: 0 },
+        buy: this.emptyRoutingDecision(),
+        sell: this.emptyRoutingDecision(),
       },
     };
   }
 
+  /**
+   * Resolve fee and funding inputs for every venue of a symbol
+   */
+  private getVenueCosts(symbol: string): Record<SourceLevel['platform'], VenueCost> {
+    const platforms: Array<SourceLevel['platform']> = ['hyperliquid', 'aster', 'lighter', 'avantis'];
+    const costs = {} as Record<SourceLevel['platform'], VenueCost>;
+
+    for (const platform of platforms) {
+      const override = this.venueCosts.get(this.getCacheKey(symbol, platform)) || {};
+      costs[platform] = {
+        takerFee: override.takerFee ?? venueCostConfig[platform].takerFee,
+        fundingRate: override.fundingRate ?? 0,
+        fundingIntervalHours: venueCostConfig[platform].fundingIntervalHours,
+      };
+    }
+
+    return costs;
+  }
+
+  private emptyRoutingDecision(): RoutingDecision {
+    return {
+      platform: 'hyperliquid',
+      price: 0,
+      effectivePrice: 0,
+      takerFee: 0,
+      fundingCost: 0,
+      holdingHours: 0,
+      reason: '',
+      savings: 0,
+      savingsPercent: 0,
+    };
+  }
+
   /**
    * Merge price levels from multiple sources
    */
@@ -277,12 +532,6 @@ export class AggregationProcessor extends EventEmitter {
   ): AggregatedLevel[] {
     const priceMap = new Map<number, SourceLevel[]>();
 
-    // Helper function to normalize prices to 2 decimal places
-    // This ensures prices like 180.520 and 180.52 are treated as the same
-    const normalizePrice = (price: number): number => {
-      return Math.round(price * 100) / 100;
-    };
-
     // Add Hyperliquid levels
     hlLevels.forEach(level => {
       const rawPrice = parseFloat(level.price);
@@ -341,101 +590,314 @@ export class AggregationProcessor extends EventEmitter {
     // Sort: bids descending, asks ascending
     aggregated.sort((a, b) => (side === 'bid' ? b.price - a.price : a.price - b.price));
 
-    // Return top 50 levels
-    return aggregated.slice(0, 50);
+    return aggregated.slice(0, LADDER_DEPTH);
   }
 
   /**
-   * Calculate smart routing recommendations
+   * Calculate smart routing recommendations on an all-in basis
+   * (price + taker fee + expected funding over the holding period)
    */
-  private calculateRouting(aggregated: AggregatedOrderbook): {
+  calculateRouting(aggregated: AggregatedOrderbook, holdingHours: number = 0): {
     buy: RoutingDecision;
     sell: RoutingDecision;
   } {
-    const hlSource = aggregated.sources.hyperliquid;
-    const asterSource = aggregated.sources.aster;
-    const lighterSource = aggregated.sources.lighter;
-    const avantisSource = aggregated.sources.avantis;
-
-    // Get best prices from each exchange
-    const hlBestAsk = hlSource?.asks[0]?.price || Infinity;
-    const asterBestAsk = asterSource?.asks[0]?.price || Infinity;
-    const lighterBestAsk = lighterSource?.asks[0]?.price || Infinity;
-    const avantisBestAsk = avantisSource?.asks[0]?.price || Infinity;
-    const hlBestBid = hlSource?.bids[0]?.price || 0;
-    const asterBestBid = asterSource?.bids[0]?.price || 0;
-    const lighterBestBid = lighterSource?.bids[0]?.price || 0;
-    const avantisBestBid = avantisSource?.bids[0]?.price || 0;
-
-    // Calculate buy routing (best ask)
-    let buyPlatform: 'hyperliquid' | 'aster' | 'lighter' | 'avantis' = 'hyperliquid';
-    let buyPrice = hlBestAsk;
-    if (asterBestAsk < buyPrice) {
-      buyPlatform = 'aster';
-      buyPrice = asterBestAsk;
+    return {
+      buy: this.routeTopOfBook(aggregated, 'buy', holdingHours),
+      sell: this.routeTopOfBook(aggregated, 'sell', holdingHours),
+    };
+  }
+
+  /**
+   * Pick the venue with the best effective top-of-book price for one side
+   */
+  private routeTopOfBook(
+    aggregated: AggregatedOrderbook,
+    side: 'buy' | 'sell',
+    holdingHours: number
+  ): RoutingDecision {
+    const candidates: RoutingDecision[] = [];
+
+    for (const platform of Object.keys(aggregated.sources) as Array<SourceLevel['platform']>) {
+      const source = aggregated.sources[platform];
+      const price = (side === 'buy' ? source?.asks[0]?.price : source?.bids[0]?.price) || 0;
+      if (price <= 0) continue;
+
+      const costs = aggregated.costs?.[platform];
+      const takerFee = costs?.takerFee ?? venueCostConfig[platform].takerFee;
+      const fundingCost = this.getFundingCost(price, side, costs, holdingHours);
+
+      candidates.push({
+        platform,
+        price,
+        effectivePrice: this.getEffectivePrice(price, side, costs, holdingHours),
+        takerFee,
+        fundingCost,
+        holdingHours,
+        reason: '',
+        savings: 0,
+        savingsPercent: 0,
+      });
     }
-    if (lighterBestAsk < buyPrice) {
-      buyPlatform = 'lighter';
-      buyPrice = lighterBestAsk;
+
+    if (candidates.length === 0) {
+      return { ...this.emptyRoutingDecision(), holdingHours, reason: 'No liquidity available' };
     }
-    if (avantisBestAsk < buyPrice) {
-      buyPlatform = 'avantis';
-      buyPrice = avantisBestAsk;
+
+    // Lower all-in cost is better when buying, higher all-in proceeds when selling
+    candidates.sort((a, b) => side === 'buy'
+      ? a.effectivePrice - b.effectivePrice
+      : b.effectivePrice - a.effectivePrice);
+
+    const best = candidates[0];
+    const others = candidates.slice(1);
+    const avgOtherEffective = others.length > 0
+      ? others.reduce((sum, c) => sum + c.effectivePrice, 0) / others.length
+      : best.effectivePrice;
+    const savings = Math.abs(avgOtherEffective - best.effectivePrice);
+    const savingsPercent = best.effectivePrice > 0 ? (savings / best.effectivePrice) * 100 : 0;
+
+    // Note when the best raw price loses out once fees and funding are included
+    const bestRaw = [...candidates].sort((a, b) => side === 'buy' ? a.price - b.price : b.price - a.price)[0];
+    const label = side === 'buy' ? 'ask' : 'bid';
+    let reason = `Best all-in ${label} (${(best.takerFee * 10000).toFixed(1)}bp taker fee`;
+    if (holdingHours > 0) {
+      reason += `, ${best.fundingCost.toFixed(4)} funding over ${holdingHours}h`;
     }
-    const avgOtherAsk = (hlBestAsk + asterBestAsk + lighterBestAsk + avantisBestAsk - buyPrice) / 3;
-    const buySavings = Math.abs(avgOtherAsk - buyPrice);
-    const buySavingsPercent = buyPrice > 0 ? (buySavings / buyPrice) * 100 : 0;
-
-    // Calculate sell routing (best bid)
-    let sellPlatform: 'hyperliquid' | 'aster' | 'lighter' | 'avantis' = 'hyperliquid';
-    let sellPrice = hlBestBid;
-    if (asterBestBid > sellPrice) {
-      sellPlatform = 'aster';
-      sellPrice = asterBestBid;
+    reason += ')';
+    if (bestRaw.platform !== best.platform) {
+      const rawEdgeBps = ((Math.abs(bestRaw.price - best.price)) / best.price) * 10000;
+      const costEdgeBps = ((Math.abs(bestRaw.effectivePrice - best.effectivePrice)) / best.effectivePrice) * 10000;
+      reason += `; ${bestRaw.platform} is ${rawEdgeBps.toFixed(1)}bp better on price but ${costEdgeBps.toFixed(1)}bp worse after costs`;
     }
-    if (lighterBestBid > sellPrice) {
-      sellPlatform = 'lighter';
-      sellPrice = lighterBestBid;
+    if (savings > 0 && others.length > 0) {
+      reason += `; ${savingsPercent.toFixed(3)}% better than other venues`;
     }
-    if (avantisBestBid > sellPrice) {
-      sellPlatform = 'avantis';
-      sellPrice = avantisBestBid;
+
+    return { ...best, reason, savings, savingsPercent };
+  }
+
+  /**
+   * Price adjusted for taker fee and expected funding over the holding period
+   */
+  private getEffectivePrice(
+    price: number,
+    side: 'buy' | 'sell',
+    costs: VenueCost | undefined,
+    holdingHours: number
+  ): number {
+    const takerFee = costs?.takerFee ?? 0;
+    const fundingCost = this.getFundingCost(price, side, costs, holdingHours);
+
+    return side === 'buy'
+      ? price * (1 + takerFee) + fundingCost
+      : price * (1 - takerFee) - fundingCost;
+  }
+
+  /**
+   * Expected funding paid per unit over the holding period (negative when received).
+   * Longs pay positive funding, shorts receive it.
+   */
+  private getFundingCost(
+    price: number,
+    side: 'buy' | 'sell',
+    costs: VenueCost | undefined,
+    holdingHours: number
+  ): number {
+    if (!costs || holdingHours <= 0 || costs.fundingIntervalHours <= 0) {
+      return 0;
     }
-    const avgOtherBid = (hlBestBid + asterBestBid + lighterBestBid + avantisBestBid - sellPrice) / 3;
-    const sellSavings = Math.abs(sellPrice - avgOtherBid);
-    const sellSavingsPercent = sellPrice > 0 ? (sellSavings / sellPrice) * 100 : 0;
+
+    const periods = holdingHours / costs.fundingIntervalHours;
+    const funding = price * costs.fundingRate * periods;
+    return side === 'buy' ? funding : -funding;
+  }
+
+  /**
+   * Calculate a size-aware split across venues by walking the merged ladder.
+   * `platforms` restricts the split to venues the caller can actually trade on.
+   */
+  calculateSizedRouting(
+    aggregated: AggregatedOrderbook,
+    side: 'buy' | 'sell',
+    size: number,
+    holdingHours: number = 0,
+    platforms?: Array<SourceLevel['platform']>
+  ): SizedRoutingDecision {
+    const levels = side === 'buy' ? aggregated.aggregated.asks : aggregated.aggregated.bids;
+    const allowed = (platform: SourceLevel['platform']) => !platforms || platforms.includes(platform);
+
+    // Flatten the merged ladder into venue quotes ordered by all-in price, so a venue
+    // with a better raw price but higher fees doesn't get filled first
+    const quotes = levels
+      .flatMap(level => level.sources.filter(source => allowed(source.platform)).map(source => ({
+        platform: source.platform,
+        price: level.price,
+        size: source.size,
+        effectivePrice: this.getEffectivePrice(level.price, side, aggregated.costs?.[source.platform], holdingHours),
+      })))
+      .sort((a, b) => {
+        const diff = side === 'buy' ? a.effectivePrice - b.effectivePrice : b.effectivePrice - a.effectivePrice;
+        // Fill the deepest venue first at equal cost to keep child orders to a minimum
+        return diff !== 0 ? diff : b.size - a.size;
+      });
+
+    const fills = new Map<SourceLevel['platform'], RoutingAllocation>();
+    let remaining = size;
+
+    for (const quote of quotes) {
+      if (remaining <= 0) break;
+
+      const fillSize = Math.min(quote.size, remaining);
+      if (fillSize <= 0) continue;
+
+      const allocation = fills.get(quote.platform) || {
+        platform: quote.platform,
+        size: 0,
+        notional: 0,
+        averagePrice: 0,
+        effectivePrice: 0,
+        worstPrice: quote.price,
+      };
+      const effectiveNotional = allocation.effectivePrice * allocation.size + fillSize * quote.effectivePrice;
+      allocation.size += fillSize;
+      allocation.notional += fillSize * quote.price;
+      allocation.averagePrice = allocation.notional / allocation.size;
+      allocation.effectivePrice = effectiveNotional / allocation.size;
+      allocation.worstPrice = side === 'buy'
+        ? Math.max(allocation.worstPrice, quote.price)
+        : Math.min(allocation.worstPrice, quote.price);
+      fills.set(quote.platform, allocation);
+
+      remaining -= fillSize;
+    }
+
+    const allocations = Array.from(fills.values()).sort((a, b) => b.size - a.size);
+    const filledSize = allocations.reduce((sum, a) => sum + a.size, 0);
+    const notional = allocations.reduce((sum, a) => sum + a.notional, 0);
+    const effectiveNotional = allocations.reduce((sum, a) => sum + a.effectivePrice * a.size, 0);
+    const averagePrice = filledSize > 0 ? notional / filledSize : 0;
+    const effectivePrice = filledSize > 0 ? effectiveNotional / filledSize : 0;
+    const worstPrice = allocations.reduce(
+      (worst, a) => (side === 'buy' ? Math.max(worst, a.worstPrice) : Math.min(worst, a.worstPrice)),
+      side === 'buy' ? 0 : Infinity
+    );
+
+    const bestBid = aggregated.aggregated.bestBid.price;
+    const bestAsk = aggregated.aggregated.bestAsk.price;
+    const midPrice = bestBid > 0 && bestAsk > 0 ? (bestBid + bestAsk) / 2 : 0;
+    const slippage = midPrice > 0 && filledSize > 0
+      ? (side === 'buy' ? averagePrice - midPrice : midPrice - averagePrice)
+      : 0;
+    const slippageBps = midPrice > 0 ? (slippage / midPrice) * 10000 : 0;
+
+    // Compare against sending the whole clip to a single venue
+    const bestSingleVenue = this.findBestSingleVenue(aggregated, side, size, holdingHours, platforms);
+    const savings = bestSingleVenue && filledSize > 0
+      ? (side === 'buy'
+          ? bestSingleVenue.effectivePrice - effectivePrice
+          : effectivePrice - bestSingleVenue.effectivePrice)
+      : 0;
+    const savingsPercent = effectivePrice > 0 ? (savings / effectivePrice) * 100 : 0;
 
     return {
-      buy: {
-        platform: buyPlatform,
-        price: buyPrice,
-        reason: `Best ask price${buySavings > 0 ? ` (${buySavingsPercent.toFixed(3)}% better)` : ''}`,
-        savings: buySavings,
-        savingsPercent: buySavingsPercent,
-      },
-      sell: {
-        platform: sellPlatform,
-        price: sellPrice,
-        reason: `Best bid price${sellSavings > 0 ? ` (${sellSavingsPercent.toFixed(3)}% better)` : ''}`,
-        savings: sellSavings,
-        savingsPercent: sellSavingsPercent,
-      },
+      symbol: aggregated.symbol,
+      side,
+      requestedSize: size,
+      filledSize,
+      unfilledSize: Math.max(size - filledSize, 0),
+      averagePrice,
+      effectivePrice,
+      holdingHours,
+      worstPrice: Number.isFinite(worstPrice) ? worstPrice : 0,
+      midPrice,
+      slippage,
+      slippageBps,
+      allocations,
+      bestSingleVenue,
+      savings,
+      savingsPercent,
+      timestamp: Date.now(),
     };
   }
 
+  /**
+   * Find the venue with the best average fill for the full size on its own book.
+   * Walks the venue's share of the merged ladder, so the split is compared against
+   * the same depth and normalized prices it was computed from.
+   */
+  private findBestSingleVenue(
+    aggregated: AggregatedOrderbook,
+    side: 'buy' | 'sell',
+    size: number,
+    holdingHours: number,
+    platforms?: Array<SourceLevel['platform']>
+  ): SizedRoutingDecision['bestSingleVenue'] {
+    const ladder = side === 'buy' ? aggregated.aggregated.asks : aggregated.aggregated.bids;
+    let best: SizedRoutingDecision['bestSingleVenue'] = null;
+
+    for (const platform of Object.keys(aggregated.sources) as Array<SourceLevel['platform']>) {
+      if (!aggregated.sources[platform] || (platforms && !platforms.includes(platform))) continue;
+
+      let remaining = size;
+      let notional = 0;
+      for (const level of ladder) {
+        if (remaining <= 0) break;
+        const venueSize = level.sources
+          .filter(source => source.platform === platform)
+          .reduce((sum, source) => sum + source.size, 0);
+        const fillSize = Math.min(venueSize, remaining);
+        notional += fillSize * level.price;
+        remaining -= fillSize;
+      }
+
+      const filledSize = size - remaining;
+      if (filledSize <= 0) continue;
+
+      const averagePrice = notional / filledSize;
+      const effectivePrice = this.getEffectivePrice(averagePrice, side, aggregated.costs?.[platform], holdingHours);
+      const better = !best
+        || filledSize > best.filledSize
+        || (filledSize === best.filledSize && (side === 'buy'
+          ? effectivePrice < best.effectivePrice
+          : effectivePrice > best.effectivePrice));
+
+      if (better) {
+        best = { platform, averagePrice, effectivePrice, filledSize };
+      }
+    }
+
+    return best;
+  }
+
   /**
    * Publish to Redis Pub/Sub for SSE streaming
    */
-  private async publishToRedis(symbol: string, data: AggregatedOrderbook): Promise<void> {
+  private async publishToRedis(
+    symbol: string,
+    data: AggregatedOrderbook | SourceStatusEvent,
+    event: AggregatedStreamEvent = 'book'
+  ): Promise<void> {
     const channel = `aggregated:book:${symbol}`;
     const message = JSON.stringify({
       channel,
+      event,
       data,
       timestamp: Date.now(),
     });
 
     await redisClient.publish(channel, message);
-    logger.debug(`Published aggregated book to ${channel}`);
+    logger.debug(`Published aggregated ${event} to ${channel}`);
+  }
+
+  /**
+   * Emit a venue staleness transition locally and on the symbol's aggregated stream
+   */
+  private publishSourceStatus(event: 'sourceStale' | 'sourceRecovered', status: SourceStatusEvent): void {
+    this.emit(event, status);
+
+    this.publishToRedis(status.symbol, status, event).catch((error) => {
+      logger.error(`Failed to publish ${event} for ${status.symbol}:`, error);
+    });
   }
 
   /**
@@ -459,6 +921,14 @@ export class AggregationProcessor extends EventEmitter {
     logger.debug(`Cached aggregated data for ${symbol}`);
   }
 
+  /**
+   * Get the last published aggregated book for a symbol
+   */
+  async getCachedBook(symbol: string): Promise<AggregatedOrderbook | null> {
+    const cached = await redisClient.get(`agg:book:${symbol}`);
+    return cached ? JSON.parse(cached) as AggregatedOrderbook : null;
+  }
+
   /**
    * Get cache key for orderbook
    */
@@ -472,6 +942,7 @@ export class AggregationProcessor extends EventEmitter {
   getStats() {
     return {
       cachedOrderbooks: this.orderbookCache.size,
+      staleOrderbooks: Array.from(this.staleKeys),
       symbols: Array.from(
         new Set(
           Array.from(this.orderbookCache.keys()).map(key => key.split(':')[1])
@@ -485,6 +956,9 @@ export class AggregationProcessor extends EventEmitter {
    */
   stop(): void {
     this.orderbookCache.clear();
+    this.venueCosts.clear();
+    this.lastReceived.clear();
+    this.staleKeys.clear();
     this.lastPublishTime.clear();
     logger.info('AggregationProcessor stopped');
   }
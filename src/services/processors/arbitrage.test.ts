@@ -0,0 +1,85 @@
+jest.mock('@/config/redis', () => ({
+  redisClient: {
+    publish: jest.fn().mockResolvedValue(1),
+    set: jest.fn().mockResolvedValue('OK'),
+  },
+}));
+jest.mock('@/config/database', () => ({ database: { query: jest.fn() } }));
+
+import { database } from '@/config/database';
+import { AggregatedOrderbook } from './aggregation';
+import { ArbitrageDetector } from './arbitrage';
+
+const query = database.query as jest.Mock;
+
+function crossedBook(crossed: boolean): AggregatedOrderbook {
+  const side = (price: number) => [{ price, size: 1 }];
+  return {
+    symbol: 'BTC',
+    timestamp: Date.now(),
+    sources: {
+      hyperliquid: { bids: side(99), asks: side(100), lastUpdate: Date.now() },
+      aster: { bids: side(crossed ? 101 : 99.5), asks: side(102), lastUpdate: Date.now() },
+      lighter: null,
+      avantis: null,
+    },
+  } as unknown as AggregatedOrderbook;
+}
+
+describe('ArbitrageDetector history', () => {
+  beforeEach(() => {
+    query.mockReset();
+  });
+
+  it('records an opportunity when it opens and closes the same row', async () => {
+    query.mockResolvedValueOnce({ rows: [{ id: 7 }], rowCount: 1 });
+    query.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+    const detector = new ArbitrageDetector();
+
+    await detector.processAggregatedBook(crossedBook(true));
+
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(query.mock.calls[0][0]).toContain('INSERT INTO arbitrage_opportunities');
+    expect(query.mock.calls[0][0]).toContain("'open'");
+    expect(query.mock.calls[0][1].slice(0, 3)).toEqual(['BTC', 'hyperliquid', 'aster']);
+
+    await detector.processAggregatedBook(crossedBook(false));
+
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(query.mock.calls[1][0]).toContain("status = 'closed'");
+    expect(query.mock.calls[1][1][0]).toBe(7);
+  });
+
+  it('maps history rows to typed opportunities', async () => {
+    query.mockResolvedValueOnce({
+      rows: [{
+        id: 3,
+        symbol: 'BTC',
+        buy_venue: 'aster',
+        sell_venue: 'lighter',
+        buy_price: '100.5',
+        sell_price: '100.75',
+        executable_size: '0.2',
+        gross_edge_bps: '24.8756',
+        net_edge_bps: '21.3',
+        max_net_edge_bps: '22',
+        first_seen: '1700000000000',
+        last_seen: '1700000001500',
+        duration_ms: '1500',
+        status: 'open',
+      }],
+      rowCount: 1,
+    });
+
+    const [opportunity] = await new ArbitrageDetector().getHistory('BTC');
+
+    expect(opportunity).toEqual(expect.objectContaining({
+      id: 'BTC:aster->lighter',
+      recordId: 3,
+      buyPrice: 100.5,
+      firstSeen: 1700000000000,
+      durationMs: 1500,
+      status: 'open',
+    }));
+  });
+});
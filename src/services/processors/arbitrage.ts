@@ -0,0 +1,339 @@
+import { EventEmitter } from 'events';
+import { redisClient } from '@/config/redis';
+import { database } from '@/config/database';
+import { arbitrageConfig } from '@/config/exchanges';
+import { logger } from '@/utils/logger';
+import { AggregatedOrderbook, SourceLevel } from './aggregation';
+
+type Platform = SourceLevel['platform'];
+
+export interface ArbitrageOpportunity {
+  id: string;
+  symbol: string;
+  buyVenue: Platform;
+  sellVenue: Platform;
+  buyPrice: number;
+  sellPrice: number;
+  executableSize: number;
+  grossEdgeBps: number;
+  netEdgeBps: number;
+  maxNetEdgeBps: number;
+  firstSeen: number;
+  lastSeen: number;
+  durationMs: number;
+  status: 'open' | 'closed';
+  // arbitrage_opportunities row id, once recorded
+  recordId?: number;
+}
+
+export class ArbitrageDetector extends EventEmitter {
+  private openOpportunities: Map<string, ArbitrageOpportunity> = new Map();
+  // Pending or completed inserts of open opportunities, resolved to the row id
+  private records: Map<string, Promise<number | null>> = new Map();
+  private readonly CACHE_TTL = 5; // 5 seconds
+
+  constructor() {
+    super();
+    logger.info('ArbitrageDetector initialized');
+  }
+
+  /**
+   * Check an aggregated book for crossed venues and track opportunity lifecycles
+   */
+  async processAggregatedBook(book: AggregatedOrderbook): Promise<void> {
+    const now = Date.now();
+    const seen = new Set<string>();
+    const platforms = Object.keys(book.sources) as Platform[];
+
+    for (const buyVenue of platforms) {
+      for (const sellVenue of platforms) {
+        if (buyVenue === sellVenue) continue;
+
+        const detected = this.detect(book, buyVenue, sellVenue);
+        if (!detected) continue;
+
+        const id = this.getOpportunityId(book.symbol, buyVenue, sellVenue);
+        seen.add(id);
+
+        const existing = this.openOpportunities.get(id);
+        const opportunity: ArbitrageOpportunity = {
+          id,
+          symbol: book.symbol,
+          buyVenue,
+          sellVenue,
+          ...detected,
+          maxNetEdgeBps: Math.max(existing?.maxNetEdgeBps ?? -Infinity, detected.netEdgeBps),
+          firstSeen: existing?.firstSeen ?? now,
+          lastSeen: now,
+          durationMs: now - (existing?.firstSeen ?? now),
+          status: 'open',
+        };
+
+        this.openOpportunities.set(id, opportunity);
+
+        if (!existing) {
+          logger.info(`Arbitrage opened ${id}: ${opportunity.grossEdgeBps.toFixed(2)}bp gross, ${opportunity.netEdgeBps.toFixed(2)}bp net`);
+          this.emit('opportunityOpened', opportunity);
+          this.records.set(id, this.insert(opportunity));
+        }
+
+        await this.publish(opportunity);
+      }
+    }
+
+    // Anything open for this symbol that wasn't seen on this book has closed
+    for (const [id, opportunity] of this.openOpportunities) {
+      if (opportunity.symbol !== book.symbol || seen.has(id)) continue;
+
+      this.openOpportunities.delete(id);
+      const closed: ArbitrageOpportunity = {
+        ...opportunity,
+        durationMs: now - opportunity.firstSeen,
+        status: 'closed',
+      };
+
+      logger.info(`Arbitrage closed ${id} after ${closed.durationMs}ms`);
+      this.emit('opportunityClosed', closed);
+
+      await this.publish(closed);
+      await this.close(closed);
+    }
+
+    await redisClient.set(
+      `arb:open:${book.symbol}`,
+      JSON.stringify(this.getOpenOpportunities(book.symbol)),
+      this.CACHE_TTL
+    );
+  }
+
+  /**
+   * Compare one venue's asks against another venue's bids
+   */
+  private detect(
+    book: AggregatedOrderbook,
+    buyVenue: Platform,
+    sellVenue: Platform
+  ): Pick<ArbitrageOpportunity, 'buyPrice' | 'sellPrice' | 'executableSize' | 'grossEdgeBps' | 'netEdgeBps'> | null {
+    const asks = book.sources[buyVenue]?.asks || [];
+    const bids = book.sources[sellVenue]?.bids || [];
+    if (asks.length === 0 || bids.length === 0) return null;
+
+    const buyPrice = asks[0].price;
+    const sellPrice = bids[0].price;
+    if (buyPrice <= 0 || sellPrice <= buyPrice) return null;
+
+    const grossEdgeBps = ((sellPrice - buyPrice) / buyPrice) * 10000;
+    if (grossEdgeBps < arbitrageConfig.minGrossEdgeBps) return null;
+
+    const buyFee = book.costs?.[buyVenue]?.takerFee ?? 0;
+    const sellFee = book.costs?.[sellVenue]?.takerFee ?? 0;
+    const netEdgeBps = ((sellPrice * (1 - sellFee) - buyPrice * (1 + buyFee)) / buyPrice) * 10000;
+
+    return {
+      buyPrice,
+      sellPrice,
+      executableSize: this.getExecutableSize(asks, bids),
+      grossEdgeBps,
+      netEdgeBps,
+    };
+  }
+
+  /**
+   * Size that can be bought on one ladder and sold on the other while still crossed
+   */
+  private getExecutableSize(
+    asks: Array<{ price: number; size: number }>,
+    bids: Array<{ price: number; size: number }>
+  ): number {
+    let askIndex = 0;
+    let bidIndex = 0;
+    let askRemaining = asks[0]?.size || 0;
+    let bidRemaining = bids[0]?.size || 0;
+    let size = 0;
+
+    while (askIndex < asks.length && bidIndex < bids.length && bids[bidIndex].price > asks[askIndex].price) {
+      const fill = Math.min(askRemaining, bidRemaining);
+      size += fill;
+      askRemaining -= fill;
+      bidRemaining -= fill;
+
+      if (askRemaining <= 0) {
+        askIndex++;
+        askRemaining = asks[askIndex]?.size || 0;
+      }
+      if (bidRemaining <= 0) {
+        bidIndex++;
+        bidRemaining = bids[bidIndex]?.size || 0;
+      }
+    }
+
+    return size;
+  }
+
+  /**
+   * Publish to Redis Pub/Sub for SSE streaming
+   */
+  private async publish(opportunity: ArbitrageOpportunity): Promise<void> {
+    const channel = `arbitrage:${opportunity.symbol}`;
+    const message = JSON.stringify({
+      channel,
+      data: opportunity,
+      timestamp: Date.now(),
+    });
+
+    await redisClient.publish(channel, message);
+  }
+
+  /**
+   * Record a newly opened opportunity so history shows it while it is still live
+   */
+  private async insert(opportunity: ArbitrageOpportunity): Promise<number | null> {
+    try {
+      const result = await database.query<{ id: number }>(
+        `INSERT INTO arbitrage_opportunities (
+          symbol, buy_venue, sell_venue, buy_price, sell_price, executable_size,
+          gross_edge_bps, net_edge_bps, max_net_edge_bps, first_seen, last_seen, duration_ms, status
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, 'open')
+        RETURNING id`,
+        [
+          opportunity.symbol,
+          opportunity.buyVenue,
+          opportunity.sellVenue,
+          opportunity.buyPrice,
+          opportunity.sellPrice,
+          opportunity.executableSize,
+          opportunity.grossEdgeBps,
+          opportunity.netEdgeBps,
+          opportunity.maxNetEdgeBps,
+          opportunity.firstSeen,
+          opportunity.lastSeen,
+          opportunity.durationMs,
+        ]
+      );
+      return result.rows[0]?.id ?? null;
+    } catch (error) {
+      logger.error(`Failed to record arbitrage opportunity ${opportunity.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Write the final observation of a closed opportunity over its open row
+   */
+  private async close(opportunity: ArbitrageOpportunity): Promise<void> {
+    const recordId = await this.records.get(opportunity.id);
+    this.records.delete(opportunity.id);
+    if (recordId == null) {
+      return;
+    }
+
+    try {
+      await database.query(
+        `UPDATE arbitrage_opportunities
+         SET buy_price = $2, sell_price = $3, executable_size = $4, gross_edge_bps = $5,
+             net_edge_bps = $6, max_net_edge_bps = $7, last_seen = $8, duration_ms = $9, status = 'closed'
+         WHERE id = $1`,
+        [
+          recordId,
+          opportunity.buyPrice,
+          opportunity.sellPrice,
+          opportunity.executableSize,
+          opportunity.grossEdgeBps,
+          opportunity.netEdgeBps,
+          opportunity.maxNetEdgeBps,
+          opportunity.lastSeen,
+          opportunity.durationMs,
+        ]
+      );
+    } catch (error) {
+      logger.error(`Failed to close arbitrage opportunity ${opportunity.id}:`, error);
+    }
+  }
+
+  /**
+   * Close rows left open by a previous process, which never saw them uncross.
+   * Call once on startup, before any books are processed.
+   */
+  async closeOrphanedOpportunities(): Promise<void> {
+    try {
+      const result = await database.query(
+        `UPDATE arbitrage_opportunities SET status = 'closed' WHERE status = 'open'`
+      );
+      if (result.rowCount) {
+        logger.info(`Closed ${result.rowCount} arbitrage opportunities left open by a previous run`);
+      }
+    } catch (error) {
+      logger.error('Failed to close orphaned arbitrage opportunities:', error);
+    }
+  }
+
+  /**
+   * Get currently open opportunities, optionally for one symbol
+   */
+  getOpenOpportunities(symbol?: string): ArbitrageOpportunity[] {
+    return Array.from(this.openOpportunities.values())
+      .filter(o => !symbol || o.symbol === symbol)
+      .sort((a, b) => b.netEdgeBps - a.netEdgeBps);
+  }
+
+  /**
+   * Get historical opportunities from the database
+   */
+  async getHistory(symbol: string, from?: number, to?: number, limit: number = 100): Promise<ArbitrageOpportunity[]> {
+    const result = await database.query(
+      `SELECT * FROM arbitrage_opportunities
+       WHERE symbol = $1
+         AND ($2::BIGINT IS NULL OR first_seen >= $2)
+         AND ($3::BIGINT IS NULL OR first_seen <= $3)
+       ORDER BY first_seen DESC
+       LIMIT $4`,
+      [symbol, from ?? null, to ?? null, limit]
+    );
+
+    return result.rows.map(row => this.mapRowToOpportunity(row));
+  }
+
+  private mapRowToOpportunity(row: any): ArbitrageOpportunity {
+    return {
+      id: this.getOpportunityId(row.symbol, row.buy_venue, row.sell_venue),
+      symbol: row.symbol,
+      buyVenue: row.buy_venue,
+      sellVenue: row.sell_venue,
+      buyPrice: parseFloat(row.buy_price),
+      sellPrice: parseFloat(row.sell_price),
+      executableSize: parseFloat(row.executable_size),
+      grossEdgeBps: parseFloat(row.gross_edge_bps),
+      netEdgeBps: parseFloat(row.net_edge_bps),
+      maxNetEdgeBps: parseFloat(row.max_net_edge_bps),
+      firstSeen: parseInt(row.first_seen),
+      lastSeen: parseInt(row.last_seen),
+      durationMs: parseInt(row.duration_ms),
+      status: row.status,
+      recordId: row.id,
+    };
+  }
+
+  private getOpportunityId(symbol: string, buyVenue: Platform, sellVenue: Platform): string {
+    return `${symbol}:${buyVenue}->${sellVenue}`;
+  }
+
+  /**
+   * Get statistics
+   */
+  getStats() {
+    return {
+      openOpportunities: this.openOpportunities.size,
+    };
+  }
+
+  /**
+   * Stop detector
+   */
+  stop(): void {
+    this.openOpportunities.clear();
+    this.records.clear();
+    logger.info('ArbitrageDetector stopped');
+  }
+}
+
+export const arbitrageDetector = new ArbitrageDetector();
@@ -1,8 +1,18 @@
 import { EventEmitter } from 'events';
-import { Candle, ChartUpdate, Timeframe, TickData } from '@/types';
+import { Candle, ChartInterval, ChartUpdate, ResampledCandle, Timeframe, TickData } from '@/types';
 import { chartCache } from '@/services/cache/charts';
 import { database } from '@/config/database';
+import { CandleService, CandleRow } from '@/services/database/candleService';
+import { chartConfig } from '@/config/exchanges';
 import { logger } from '@/utils/logger';
+import {
+  TIMEFRAME_MS,
+  IntervalSpec,
+  getBucketStart,
+  getSourceTimeframe,
+  isStoredTimeframe,
+  parseInterval,
+} from '@/utils/timeframes';
 
 interface CandleBuilder {
   symbol: string;
@@ -19,8 +29,26 @@ interface CandleBuilder {
   vwap: number;
 }
 
+// Most stored candles read to resample one request
+const MAX_RESAMPLE_SOURCE_CANDLES = 10000;
+
+/**
+ * Candle builder
+ *
+ * Only the base timeframe (chartConfig.baseTimeframe) is built from ticks. Each completed
+ * base candle is rolled up into the higher configured timeframes, so those are updated
+ * once per base candle rather than on every trade, and complete with the last base
+ * candle of their window (or when a later window starts). The forming base candle is
+ * merged in when previewing a higher timeframe's current candle. Any other interval
+ * (3m, 30m, 2h, 1w, ...) is resampled from stored candles when requested.
+ */
 export class ChartProcessor extends EventEmitter {
+  // Base timeframe builders, fed by ticks
   private candleBuilders: Map<string, CandleBuilder> = new Map();
+  // Higher timeframe builders, fed by completed base candles
+  private rollupBuilders: Map<string, CandleBuilder> = new Map();
+  private readonly baseTimeframe: Timeframe = chartConfig.baseTimeframe;
+  private readonly rollupTimeframes: Timeframe[];
   private batchInsertBuffer: Candle[] = [];
   private batchInsertInterval: NodeJS.Timeout | null = null;
   private readonly BATCH_SIZE = 100;
@@ -28,22 +56,23 @@ export class ChartProcessor extends EventEmitter {
 
   constructor() {
     super();
+    const baseMs = TIMEFRAME_MS[this.baseTimeframe];
+    this.rollupTimeframes = chartConfig.timeframes
+      .filter(isStoredTimeframe)
+      .filter((timeframe) => TIMEFRAME_MS[timeframe] > baseMs && TIMEFRAME_MS[timeframe] % baseMs === 0)
+      .sort((a, b) => TIMEFRAME_MS[a] - TIMEFRAME_MS[b]);
     this.startBatchInsert();
   }
 
   async processTickData(tickData: TickData): Promise<void> {
-    const timeframes: Timeframe[] = ['1m', '5m', '15m', '1h', '4h', '1d'];
-    
-    for (const timeframe of timeframes) {
-      await this.updateCandleFromTick(tickData, timeframe);
-    }
+    await this.updateCandleFromTick(tickData);
   }
 
-  private async updateCandleFromTick(tickData: TickData, timeframe: Timeframe): Promise<void> {
-    const key = `${tickData.exchange}:${tickData.symbol}:${timeframe}`;
-    const windowMs = this.getTimeframeMs(timeframe);
+  private async updateCandleFromTick(tickData: TickData): Promise<void> {
+    const timeframe = this.baseTimeframe;
+    const key = this.getKey(tickData.exchange, tickData.symbol, timeframe);
+    const windowMs = TIMEFRAME_MS[timeframe];
     const candleStart = Math.floor(tickData.timestamp / windowMs) * windowMs;
-    const candleEnd = candleStart + windowMs;
 
     let builder = this.candleBuilders.get(key);
 
@@ -51,7 +80,8 @@ export class ChartProcessor extends EventEmitter {
     if (!builder || builder.timestamp !== candleStart) {
       // Complete and save the previous candle if it exists
       if (builder) {
-        await this.completeCandle(builder);
+        const completed = await this.completeCandle(builder);
+        await this.rollUp(completed);
       }
 
       // Try to load existing candle from cache or database
@@ -104,13 +134,71 @@ export class ChartProcessor extends EventEmitter {
     // Update VWAP
     builder.vwap = builder.quoteVolume / builder.volume;
 
-    // Emit real-time update
-    const updatedCandle = this.createCandleFromBuilder(builder);
+    await this.emitCandleUpdate(builder);
+  }
+
+  /**
+   * Fold a completed base candle into every higher timeframe
+   */
+  private async rollUp(base: Candle): Promise<void> {
+    const baseEnd = base.timestamp + TIMEFRAME_MS[this.baseTimeframe];
+
+    for (const timeframe of this.rollupTimeframes) {
+      const key = this.getKey(base.exchange, base.symbol, timeframe);
+      const windowMs = TIMEFRAME_MS[timeframe];
+      const candleStart = Math.floor(base.timestamp / windowMs) * windowMs;
+
+      let builder = this.rollupBuilders.get(key);
+
+      // The window ended without trades in its last base candle; close it now
+      if (builder && builder.timestamp !== candleStart) {
+        this.rollupBuilders.delete(key);
+        await this.completeCandle(builder);
+        builder = undefined;
+      }
+
+      if (builder) {
+        this.mergeInto(builder, this.candleFromCandle(base));
+      } else {
+        // A restarted process resumes the window from the cached candle
+        const existingCandle = await this.loadCandle(base.symbol, base.exchange, timeframe, candleStart);
+        if (existingCandle) {
+          builder = this.candleFromCandle(existingCandle);
+          this.mergeInto(builder, this.candleFromCandle(base));
+        } else {
+          builder = this.candleFromCandle({ ...base, timeframe, timestamp: candleStart });
+        }
+      }
+
+      if (baseEnd >= candleStart + windowMs) {
+        this.rollupBuilders.delete(key);
+        await this.completeCandle(builder);
+      } else {
+        this.rollupBuilders.set(key, builder);
+        await this.emitCandleUpdate(builder);
+      }
+    }
+  }
+
+  /**
+   * Extend a candle with a later one of the same or a shorter timeframe
+   */
+  private mergeInto(target: CandleBuilder, next: CandleBuilder): void {
+    target.high = Math.max(target.high, next.high);
+    target.low = Math.min(target.low, next.low);
+    target.close = next.close;
+    target.volume += next.volume;
+    target.quoteVolume += next.quoteVolume;
+    target.tradeCount += next.tradeCount;
+    target.vwap = target.volume > 0 ? target.quoteVolume / target.volume : target.close;
+  }
+
+  private async emitCandleUpdate(builder: CandleBuilder): Promise<void> {
     const update: ChartUpdate = {
       symbol: builder.symbol,
       exchange: builder.exchange,
       timeframe: builder.timeframe,
-      candle: updatedCandle,
+      candle: this.createCandleFromBuilder(builder),
       type: 'update',
     };
 
@@ -182,7 +270,7 @@ export class ChartProcessor extends EventEmitter {
     };
   }
 
-  private async completeCandle(builder: CandleBuilder): Promise<void> {
+  private async completeCandle(builder: CandleBuilder): Promise<Candle> {
     const candle = this.createCandleFromBuilder(builder);
     
     // Add to batch insert buffer
@@ -202,15 +290,69 @@ export class ChartProcessor extends EventEmitter {
 
     this.emit('candleCompleted', update);
     await chartCache.updateCandle(update);
+    return candle;
   }
 
+  /**
+   * Candles with open times in [from, to]. Intervals other than the stored timeframes
+   * are resampled from the longest stored timeframe that divides them.
+   */
   async getCandles(
     symbol: string,
     exchange: 'hyperliquid' | 'aster' | 'lighter' | 'avantis',
     timeframe: Timeframe,
     from: number,
     to: number,
+    limit?: number
+  ): Promise<Candle[]>;
+  async getCandles(
+    symbol: string,
+    exchange: 'hyperliquid' | 'aster' | 'lighter' | 'avantis',
+    timeframe: ChartInterval,
+    from: number,
+    to: number,
+    limit?: number
+  ): Promise<ResampledCandle[]>;
+  async getCandles(
+    symbol: string,
+    exchange: 'hyperliquid' | 'aster' | 'lighter' | 'avantis',
+    timeframe: ChartInterval,
+    from: number,
+    to: number,
     limit: number = 1000
+  ): Promise<ResampledCandle[]> {
+    if (isStoredTimeframe(timeframe)) {
+      return this.getStoredCandles(symbol, exchange, timeframe, from, to, limit);
+    }
+
+    const spec = parseInterval(timeframe);
+    const sourceTimeframe = spec && getSourceTimeframe(spec, this.getTimeframes());
+    if (!spec || !sourceTimeframe) {
+      logger.warn(`Cannot resample ${symbol}:${exchange} to ${timeframe}`);
+      return [];
+    }
+
+    // Start at the bucket containing `from` so the first candle is complete
+    const sourceLimit = Math.min(limit * (spec.ms / TIMEFRAME_MS[sourceTimeframe]), MAX_RESAMPLE_SOURCE_CANDLES);
+    const sourceCandles = await this.getStoredCandles(
+      symbol,
+      exchange,
+      sourceTimeframe,
+      getBucketStart(from, spec),
+      to,
+      sourceLimit
+    );
+
+    return this.resampleCandles(sourceCandles, spec).slice(0, limit);
+  }
+
+  private async getStoredCandles(
+    symbol: string,
+    exchange: 'hyperliquid' | 'aster' | 'lighter' | 'avantis',
+    timeframe: Timeframe,
+    from: number,
+    to: number,
+    limit: number
   ): Promise<Candle[]> {
     // Try cache first
     const cachedCandles = await chartCache.getCandles(symbol, exchange, timeframe, from, to, limit);
@@ -220,7 +362,7 @@ export class ChartProcessor extends EventEmitter {
 
     // Fall back to database
     try {
-      const result = await database.query<Candle>(
+      const result = await database.query<CandleRow>(
         `SELECT * FROM candles
          WHERE symbol = $1 AND exchange = $2 AND timeframe = $3
          AND timestamp >= $4 AND timestamp <= $5
@@ -228,7 +370,7 @@ export class ChartProcessor extends EventEmitter {
          LIMIT $6`,
         [symbol, exchange, timeframe, from, to, limit]
       );
-      return result.rows;
+      return result.rows.map(CandleService.mapRowToCandle);
     } catch (error) {
       logger.error(`Failed to get candles from DB: ${symbol}:${exchange}:${timeframe}`, error);
       return [];
@@ -248,7 +390,7 @@ export class ChartProcessor extends EventEmitter {
 
     // Fall back to database
     try {
-      const result = await database.query<Candle>(
+      const result = await database.query<CandleRow>(
         `SELECT * FROM candles
          WHERE symbol = $1 AND exchange = $2 AND timeframe = $3
          ORDER BY timestamp DESC
@@ -256,24 +398,95 @@ export class ChartProcessor extends EventEmitter {
         [symbol, exchange, timeframe]
       );
 
-      return result.rows.length > 0 ? result.rows[0] : null;
+      return result.rows.length > 0 ? CandleService.mapRowToCandle(result.rows[0]) : null;
     } catch (error) {
       logger.error(`Failed to get latest candle from DB: ${symbol}:${exchange}:${timeframe}`, error);
       return null;
     }
   }
 
-  private getTimeframeMs(timeframe: Timeframe): number {
-    const multipliers = {
-      '1s': 1 * 1000,
-      '1m': 60 * 1000,
-      '5m': 5 * 60 * 1000,
-      '15m': 15 * 60 * 1000,
-      '1h': 60 * 60 * 1000,
-      '4h': 4 * 60 * 60 * 1000,
-      '1d': 24 * 60 * 60 * 1000,
-    };
-    return multipliers[timeframe];
+  /**
+   * Newest candle that opened before `before`, resampled when the interval isn't stored.
+   * A resampled candle only covers the stored candles before `before`.
+   */
+  async getCandleBefore(
+    symbol: string,
+    exchange: 'hyperliquid' | 'aster' | 'lighter' | 'avantis',
+    timeframe: ChartInterval,
+    before: number
+  ): Promise<ResampledCandle | null> {
+    if (isStoredTimeframe(timeframe)) {
+      return this.getStoredCandleBefore(symbol, exchange, timeframe, before);
+    }
+
+    const spec = parseInterval(timeframe);
+    const sourceTimeframe = spec && getSourceTimeframe(spec, this.getTimeframes());
+    if (!spec || !sourceTimeframe) {
+      return null;
+    }
+
+    const source = await this.getStoredCandleBefore(symbol, exchange, sourceTimeframe, before);
+    if (!source) {
+      return null;
+    }
+
+    const [candle] = await this.getCandles(
+      symbol,
+      exchange,
+      timeframe,
+      getBucketStart(source.timestamp, spec),
+      source.timestamp,
+      1
+    );
+    return candle ?? null;
+  }
+
+  private async getStoredCandleBefore(
+    symbol: string,
+    exchange: 'hyperliquid' | 'aster' | 'lighter' | 'avantis',
+    timeframe: Timeframe,
+    before: number
+  ): Promise<Candle | null> {
+    // The cache holds the newest candles, so a hit there is also the newest overall
+    const cachedCandle = await chartCache.getCandleBefore(symbol, exchange, timeframe, before);
+    if (cachedCandle) {
+      return cachedCandle;
+    }
+
+    try {
+      return await CandleService.getCandleBefore(symbol, exchange, timeframe, before);
+    } catch (error) {
+      logger.error(`Failed to get candle before ${before} from DB: ${symbol}:${exchange}:${timeframe}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Aggregate ascending candles into interval buckets
+   */
+  private resampleCandles(candles: Candle[], spec: IntervalSpec): ResampledCandle[] {
+    const buckets: CandleBuilder[] = [];
+
+    for (const candle of candles) {
+      const next = this.candleFromCandle(candle);
+      const bucketStart = getBucketStart(candle.timestamp, spec);
+      const current = buckets[buckets.length - 1];
+
+      if (current && current.timestamp === bucketStart) {
+        this.mergeInto(current, next);
+      } else {
+        buckets.push({ ...next, timestamp: bucketStart });
+      }
+    }
+
+    return buckets.map((bucket) => ({
+      ...this.createCandleFromBuilder(bucket),
+      timeframe: spec.interval,
+    }));
+  }
+
+  private getKey(exchange: string, symbol: string, timeframe: Timeframe): string {
+    return `${exchange}:${symbol}:${timeframe}`;
   }
 
   private startBatchInsert(): void {
@@ -295,38 +508,86 @@ export class ChartProcessor extends EventEmitter {
     }, this.BATCH_INTERVAL);
   }
 
+  /**
+   * Persist completed candles so the candles table (and backfill gap detection) sees
+   * live windows too. Rows already present, e.g. backfilled from exchange klines, win.
+   */
   private async insertCandlesBatch(candles: Candle[]): Promise<void> {
-    // Skip database - use cache only for real-time performance
-    // Candles are already cached via chartCache.setCandles() in completeCandle()
-    return;
+    await CandleService.insertCandles(candles);
   }
 
   async forceCompleteAllCandles(): Promise<void> {
-    for (const builder of this.candleBuilders.values()) {
+    const baseBuilders = Array.from(this.candleBuilders.values());
+    this.candleBuilders.clear();
+
+    for (const builder of baseBuilders) {
+      const completed = await this.completeCandle(builder);
+      await this.rollUp(completed);
+    }
+
+    // Rollups still inside their window close with what they have
+    const rollupBuilders = Array.from(this.rollupBuilders.values());
+    this.rollupBuilders.clear();
+
+    for (const builder of rollupBuilders) {
       await this.completeCandle(builder);
     }
-    this.candleBuilders.clear();
   }
 
+  /**
+   * The forming candle. Higher timeframes include the forming base candle.
+   */
   getCurrentCandle(
     symbol: string,
     exchange: 'hyperliquid' | 'aster' | 'lighter' | 'avantis',
     timeframe: Timeframe
   ): Candle | null {
-    const key = `${exchange}:${symbol}:${timeframe}`;
-    const builder = this.candleBuilders.get(key);
-    
-    if (!builder) {
+    const base = this.candleBuilders.get(this.getKey(exchange, symbol, this.baseTimeframe));
+
+    if (timeframe === this.baseTimeframe) {
+      return base ? this.createCandleFromBuilder(base) : null;
+    }
+    if (!this.rollupTimeframes.includes(timeframe)) {
       return null;
     }
 
-    return this.createCandleFromBuilder(builder);
+    const rollup = this.rollupBuilders.get(this.getKey(exchange, symbol, timeframe));
+    let preview: CandleBuilder | null = rollup ? { ...rollup } : null;
+
+    if (base) {
+      const windowMs = TIMEFRAME_MS[timeframe];
+      const candleStart = Math.floor(base.timestamp / windowMs) * windowMs;
+
+      if (preview && preview.timestamp === candleStart) {
+        this.mergeInto(preview, base);
+      } else if (!preview || preview.timestamp < candleStart) {
+        preview = { ...base, timeframe, timestamp: candleStart };
+      }
+    }
+
+    return preview ? this.createCandleFromBuilder(preview) : null;
+  }
+
+  /**
+   * Timeframes built live: the base timeframe and its rollups, shortest first
+   */
+  getTimeframes(): Timeframe[] {
+    return [this.baseTimeframe, ...this.rollupTimeframes];
   }
 
   getAllCurrentCandles(): Candle[] {
-    return Array.from(this.candleBuilders.values()).map(builder => 
-      this.createCandleFromBuilder(builder)
-    );
+    const candles: Candle[] = [];
+
+    for (const builder of this.candleBuilders.values()) {
+      for (const timeframe of this.getTimeframes()) {
+        const candle = this.getCurrentCandle(builder.symbol, builder.exchange, timeframe);
+        if (candle) {
+          candles.push(candle);
+        }
+      }
+    }
+
+    return candles;
   }
 
   async cleanupOldData(): Promise<void> {
@@ -379,17 +640,21 @@ export class ChartProcessor extends EventEmitter {
   }
 
   getStats(): {
+    baseTimeframe: Timeframe;
+    rollupTimeframes: Timeframe[];
     activeCandleBuilders: number;
     buildersByTimeframe: Record<string, number>;
     bufferSize: number;
   } {
     const stats = {
-      activeCandleBuilders: this.candleBuilders.size,
+      baseTimeframe: this.baseTimeframe,
+      rollupTimeframes: this.rollupTimeframes,
+      activeCandleBuilders: this.candleBuilders.size + this.rollupBuilders.size,
       buildersByTimeframe: {} as Record<string, number>,
       bufferSize: this.batchInsertBuffer.length,
     };
 
-    for (const builder of this.candleBuilders.values()) {
+    for (const builder of [...this.candleBuilders.values(), ...this.rollupBuilders.values()]) {
       stats.buildersByTimeframe[builder.timeframe] = 
         (stats.buildersByTimeframe[builder.timeframe] || 0) + 1;
     }
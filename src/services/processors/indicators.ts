@@ -0,0 +1,345 @@
+import { Candle, ChartMetrics, ChartUpdate, Timeframe } from '@/types';
+import { chartProcessor } from './charts';
+import { chartCache } from '@/services/cache/charts';
+import { indicatorConfig } from '@/config/exchanges';
+import { logger } from '@/utils/logger';
+import { TIMEFRAME_MS } from '@/utils/timeframes';
+
+type Exchange = Candle['exchange'];
+
+/**
+ * Running indicator state over completed candles. Advancing by one close is O(window),
+ * and a state is never mutated, so the forming candle can be previewed without committing it.
+ */
+interface IndicatorState {
+  lastTimestamp: number;
+  count: number;
+  // Most recent closes, enough for the longest SMA / Bollinger / EMA seed window
+  closes: number[];
+  ema: Record<number, number | undefined>;
+  macdFast?: number;
+  macdSlow?: number;
+  macdValues: number[];
+  macdCount: number;
+  macdSignal?: number;
+  prevClose?: number;
+  rsiChanges: number;
+  rsiGainSum: number;
+  rsiLossSum: number;
+  rsiAvgGain?: number;
+  rsiAvgLoss?: number;
+}
+
+const WINDOW_SIZE = Math.max(
+  ...indicatorConfig.smaPeriods,
+  ...indicatorConfig.emaPeriods,
+  indicatorConfig.macd.slow,
+  indicatorConfig.bollinger.period
+);
+
+/**
+ * Technical indicator engine (SMA, EMA, RSI, MACD, Bollinger bands)
+ *
+ * Keeps incremental state per exchange/symbol/timeframe, advanced on every completed
+ * candle from ChartProcessor. Series are seeded from cached candle history the first
+ * time they're seen and caught up from it when completions were missed (e.g. in the
+ * API-only server, which doesn't build candles). Results are cached next to the
+ * candles in ChartCache. At most indicatorConfig.maxSeries states are held, evicting
+ * the least recently used.
+ */
+export class IndicatorProcessor {
+  // Insertion order doubles as recency order for eviction
+  private states: Map<string, IndicatorState> = new Map();
+  private isRunning = false;
+
+  private readonly onCandleCompleted = (update: ChartUpdate) => {
+    this.commitCandle(update.candle).catch((error) => {
+      logger.error(`Failed to update indicators for ${this.getKey(update.exchange, update.symbol, update.timeframe)}:`, error);
+    });
+  };
+
+  /**
+   * Follow completed candles from the chart processor
+   */
+  start(): void {
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+    chartProcessor.on('candleCompleted', this.onCandleCompleted);
+  }
+
+  stop(): void {
+    chartProcessor.off('candleCompleted', this.onCandleCompleted);
+    this.states.clear();
+    this.isRunning = false;
+  }
+
+  /**
+   * Current metrics for a series, including the forming candle. Null when there is no candle data.
+   */
+  async getMetrics(symbol: string, exchange: Exchange, timeframe: Timeframe): Promise<ChartMetrics | null> {
+    const key = this.getKey(exchange, symbol, timeframe);
+    const formingStart = Math.floor(Date.now() / TIMEFRAME_MS[timeframe]) * TIMEFRAME_MS[timeframe];
+
+    const state = await this.catchUp(key, symbol, exchange, timeframe, formingStart);
+
+    // Without trades in the current window yet, this is the last completed candle
+    const latest = chartProcessor.getCurrentCandle(symbol, exchange, timeframe)
+      || await chartProcessor.getLatestCandle(symbol, exchange, timeframe);
+    if (!latest) {
+      // Another process may still have computed metrics for this series
+      return await chartCache.getMetrics(symbol, exchange, timeframe);
+    }
+
+    const preview = latest.timestamp > state.lastTimestamp
+      ? this.advance(state, parseFloat(latest.close), latest.timestamp)
+      : state;
+    const metrics = this.toMetrics(preview, latest);
+
+    await chartCache.setMetrics(metrics);
+    return metrics;
+  }
+
+  /**
+   * Advance a series by a completed candle and cache the resulting metrics
+   */
+  private async commitCandle(candle: Candle): Promise<void> {
+    const key = this.getKey(candle.exchange, candle.symbol, candle.timeframe);
+
+    // Seeding reads history that already includes this candle
+    const state = this.states.get(key)
+      || await this.catchUp(key, candle.symbol, candle.exchange, candle.timeframe, candle.timestamp + TIMEFRAME_MS[candle.timeframe]);
+    if (candle.timestamp <= state.lastTimestamp) {
+      return;
+    }
+
+    const next = this.advance(state, parseFloat(candle.close), candle.timestamp);
+    this.setState(key, next);
+    await chartCache.setMetrics(this.toMetrics(next, candle));
+  }
+
+  /**
+   * Bring a series up to date with every candle completed before `until`
+   */
+  private async catchUp(
+    key: string,
+    symbol: string,
+    exchange: Exchange,
+    timeframe: Timeframe,
+    until: number
+  ): Promise<IndicatorState> {
+    let state = this.states.get(key) || this.emptyState();
+    const windowMs = TIMEFRAME_MS[timeframe];
+
+    if (state.lastTimestamp >= until - windowMs) {
+      this.setState(key, state);
+      return state;
+    }
+
+    const from = state.count > 0
+      ? state.lastTimestamp + 1
+      : until - indicatorConfig.warmupCandles * windowMs;
+    const candles = await chartProcessor.getCandles(symbol, exchange, timeframe, from, until - 1, indicatorConfig.warmupCandles);
+
+    // A completed candle may have been committed while history was loading
+    const current = this.states.get(key);
+    if (current && current.lastTimestamp > state.lastTimestamp) {
+      state = current;
+    }
+
+    for (const candle of candles) {
+      const timestamp = Number(candle.timestamp);
+      if (timestamp > state.lastTimestamp && timestamp < until) {
+        state = this.advance(state, parseFloat(candle.close), timestamp);
+      }
+    }
+
+    this.setState(key, state);
+    return state;
+  }
+
+  /**
+   * Store a series as the most recently used, evicting the least recently used beyond the cap
+   */
+  private setState(key: string, state: IndicatorState): void {
+    this.states.delete(key);
+    this.states.set(key, state);
+
+    while (this.states.size > indicatorConfig.maxSeries) {
+      const oldest = this.states.keys().next().value as string;
+      this.states.delete(oldest);
+    }
+  }
+
+  private emptyState(): IndicatorState {
+    return {
+      lastTimestamp: 0,
+      count: 0,
+      closes: [],
+      ema: {},
+      macdValues: [],
+      macdCount: 0,
+      rsiChanges: 0,
+      rsiGainSum: 0,
+      rsiLossSum: 0,
+    };
+  }
+
+  /**
+   * Return the state after one more close
+   */
+  private advance(state: IndicatorState, close: number, timestamp: number): IndicatorState {
+    const count = state.count + 1;
+    const closes = [...state.closes, close].slice(-WINDOW_SIZE);
+
+    const ema: Record<number, number | undefined> = {};
+    for (const period of indicatorConfig.emaPeriods) {
+      ema[period] = this.nextEma(state.ema[period], close, period, count, closes);
+    }
+
+    // MACD: fast EMA - slow EMA, with an EMA signal line seeded like the others
+    const { fast, slow, signal } = indicatorConfig.macd;
+    const macdFast = this.nextEma(state.macdFast, close, fast, count, closes);
+    const macdSlow = this.nextEma(state.macdSlow, close, slow, count, closes);
+    let { macdValues, macdCount, macdSignal } = state;
+    if (macdFast !== undefined && macdSlow !== undefined) {
+      macdCount += 1;
+      macdValues = [...macdValues, macdFast - macdSlow].slice(-signal);
+      macdSignal = this.nextEma(macdSignal, macdFast - macdSlow, signal, macdCount, macdValues);
+    }
+
+    // RSI with Wilder smoothing, seeded with the simple average of the first period
+    const period = indicatorConfig.rsiPeriod;
+    let { rsiChanges, rsiGainSum, rsiLossSum, rsiAvgGain, rsiAvgLoss } = state;
+    if (state.prevClose !== undefined) {
+      const change = close - state.prevClose;
+      const gain = Math.max(change, 0);
+      const loss = Math.max(-change, 0);
+      rsiChanges += 1;
+
+      if (rsiChanges <= period) {
+        rsiGainSum += gain;
+        rsiLossSum += loss;
+        if (rsiChanges === period) {
+          rsiAvgGain = rsiGainSum / period;
+          rsiAvgLoss = rsiLossSum / period;
+        }
+      } else {
+        rsiAvgGain = (rsiAvgGain! * (period - 1) + gain) / period;
+        rsiAvgLoss = (rsiAvgLoss! * (period - 1) + loss) / period;
+      }
+    }
+
+    return {
+      lastTimestamp: timestamp,
+      count,
+      closes,
+      ema,
+      macdFast,
+      macdSlow,
+      macdValues,
+      macdCount,
+      macdSignal,
+      prevClose: close,
+      rsiChanges,
+      rsiGainSum,
+      rsiLossSum,
+      rsiAvgGain,
+      rsiAvgLoss,
+    };
+  }
+
+  /**
+   * EMA after `count` values: undefined until `period` values exist, then seeded with
+   * their simple average
+   */
+  private nextEma(prev: number | undefined, value: number, period: number, count: number, recent: number[]): number | undefined {
+    if (count < period) {
+      return undefined;
+    }
+    if (prev === undefined) {
+      return this.mean(recent.slice(-period));
+    }
+    const k = 2 / (period + 1);
+    return prev + k * (value - prev);
+  }
+
+  private toMetrics(state: IndicatorState, candle: Candle): ChartMetrics {
+    const sma: Record<string, string> = {};
+    for (const period of indicatorConfig.smaPeriods) {
+      if (state.count >= period) {
+        sma[period] = this.mean(state.closes.slice(-period)).toString();
+      }
+    }
+
+    const ema: Record<string, string> = {};
+    for (const period of indicatorConfig.emaPeriods) {
+      const value = state.ema[period];
+      if (value !== undefined) {
+        ema[period] = value.toString();
+      }
+    }
+
+    const indicators: ChartMetrics['indicators'] = {};
+
+    if (state.rsiAvgGain !== undefined && state.rsiAvgLoss !== undefined) {
+      const rsi = state.rsiAvgLoss === 0
+        ? 100
+        : 100 - 100 / (1 + state.rsiAvgGain / state.rsiAvgLoss);
+      indicators.rsi = rsi.toString();
+    }
+
+    if (state.macdFast !== undefined && state.macdSlow !== undefined && state.macdSignal !== undefined) {
+      const macd = state.macdFast - state.macdSlow;
+      indicators.macd = {
+        macd: macd.toString(),
+        signal: state.macdSignal.toString(),
+        histogram: (macd - state.macdSignal).toString(),
+      };
+    }
+
+    const { period, stdDev } = indicatorConfig.bollinger;
+    if (state.count >= period) {
+      const window = state.closes.slice(-period);
+      const middle = this.mean(window);
+      const deviation = Math.sqrt(this.mean(window.map((close) => (close - middle) ** 2)));
+      indicators.bollinger = {
+        upper: (middle + stdDev * deviation).toString(),
+        middle: middle.toString(),
+        lower: (middle - stdDev * deviation).toString(),
+      };
+    }
+
+    const open = parseFloat(candle.open);
+    const close = parseFloat(candle.close);
+
+    return {
+      symbol: candle.symbol,
+      exchange: candle.exchange,
+      timeframe: candle.timeframe,
+      currentPrice: candle.close,
+      priceChange: candle.priceChange ?? (close - open).toString(),
+      priceChangePercent: candle.priceChangePercent ?? (open > 0 ? ((close - open) / open) * 100 : 0).toString(),
+      high: candle.high,
+      low: candle.low,
+      volume: candle.volume,
+      quoteVolume: candle.quoteVolume,
+      vwap: candle.vwap ?? candle.close,
+      movingAverages: { sma, ema },
+      indicators,
+      candleTimestamp: Number(candle.timestamp),
+      candleCount: state.count,
+    };
+  }
+
+  private mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  private getKey(exchange: Exchange, symbol: string, timeframe: Timeframe): string {
+    return `${exchange}:${symbol}:${timeframe}`;
+  }
+}
+
+export const indicatorProcessor = new IndicatorProcessor();
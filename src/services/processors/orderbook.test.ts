@@ -0,0 +1,145 @@
+jest.mock('@/services/cache/orderbook', () => ({
+  orderbookCache: {
+    setOrderbook: jest.fn().mockResolvedValue(undefined),
+    setSnapshot: jest.fn().mockResolvedValue(undefined),
+    updateOrderbook: jest.fn().mockResolvedValue(undefined),
+    getOrderbook: jest.fn().mockResolvedValue(null),
+  },
+}));
+
+import { OrderbookSnapshot, OrderbookUpdate } from '@/types';
+import { OrderbookProcessor, orderbookProcessor } from './orderbook';
+
+function snapshot(exchange: OrderbookSnapshot['exchange'], sequence: number, ask = '101'): OrderbookSnapshot {
+  return {
+    symbol: 'BTC',
+    exchange,
+    bids: [['99', '1']],
+    asks: [[ask, '1']],
+    timestamp: Date.now(),
+    sequence,
+  };
+}
+
+function diff(
+  exchange: OrderbookUpdate['exchange'],
+  sequence: number,
+  extra: Partial<OrderbookUpdate> = {}
+): OrderbookUpdate {
+  return {
+    symbol: 'BTC',
+    exchange,
+    asks: [{ price: '100', size: String(sequence), timestamp: Date.now() }],
+    timestamp: Date.now(),
+    sequence,
+    type: 'diff',
+    ...extra,
+  };
+}
+
+// Aster-style diff: U..u covered, following pu
+function asterDiff(first: number, last: number, prev: number): OrderbookUpdate {
+  return diff('aster', last, { firstSequence: first, prevSequence: prev });
+}
+
+describe('OrderbookProcessor sequence handling', () => {
+  let processor: OrderbookProcessor;
+  let requestSnapshot: jest.Mock<Promise<void>, [string]>;
+
+  const stats = (exchange: OrderbookUpdate['exchange']) => processor.getSequenceReport('BTC', exchange)[0];
+  const bestAsk = async (exchange: OrderbookUpdate['exchange']) =>
+    (await processor.getTopLevels('BTC', exchange))?.asks[0];
+
+  beforeEach(() => {
+    processor = new OrderbookProcessor();
+    requestSnapshot = jest.fn().mockResolvedValue(undefined);
+    processor.setSnapshotRequester('aster', requestSnapshot);
+    processor.setSnapshotRequester('lighter', requestSnapshot);
+  });
+
+  afterEach(() => {
+    processor.stop();
+  });
+
+  afterAll(() => {
+    orderbookProcessor.stop();
+  });
+
+  it('applies a first diff that straddles the snapshot and the diffs that follow it', async () => {
+    await processor.processSnapshot(snapshot('aster', 100));
+
+    await processor.processUpdate(asterDiff(95, 105, 90));
+    await processor.processUpdate(asterDiff(106, 110, 105));
+
+    expect(await bestAsk('aster')).toMatchObject({ price: '100', size: '110' });
+    expect(stats('aster')).toMatchObject({ gaps: 0, valid: true, lastSequence: 110 });
+    expect(requestSnapshot).not.toHaveBeenCalled();
+  });
+
+  it('invalidates the book on a gap and rebuilds it from a resnapshot', async () => {
+    const invalidated = jest.fn();
+    processor.on('orderbookInvalidated', invalidated);
+    await processor.processSnapshot(snapshot('aster', 100));
+    await processor.processUpdate(asterDiff(95, 105, 90));
+
+    // pu says this diff follows 120, so 106..120 were missed
+    requestSnapshot.mockImplementationOnce(async () => {
+      expect(stats('aster')).toMatchObject({ gaps: 1, valid: false });
+      await processor.processSnapshot(snapshot('aster', 125, '102'));
+    });
+    await processor.processUpdate(asterDiff(121, 130, 120));
+
+    expect(invalidated).toHaveBeenCalledWith({ symbol: 'BTC', exchange: 'aster' });
+    expect(requestSnapshot).toHaveBeenCalledWith('BTC');
+    // The buffered diff straddles the new snapshot and is replayed on top of it
+    expect(stats('aster')).toMatchObject({ gaps: 1, resnapshots: 1, valid: true, lastSequence: 130 });
+    expect(await bestAsk('aster')).toMatchObject({ price: '100', size: '130' });
+  });
+
+  it('treats a first diff that starts after the snapshot as a gap', async () => {
+    await processor.processSnapshot(snapshot('aster', 100));
+
+    await processor.processUpdate(asterDiff(110, 115, 109));
+
+    expect(stats('aster')).toMatchObject({ gaps: 1, valid: false });
+    expect(requestSnapshot).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores stale diffs without invalidating the book', async () => {
+    await processor.processSnapshot(snapshot('aster', 100));
+
+    await processor.processUpdate(asterDiff(90, 98, 89));
+
+    expect(stats('aster')).toMatchObject({ gaps: 0, outOfOrder: 1, valid: true, lastSequence: 100 });
+    expect((await bestAsk('aster'))?.price).toBe('101');
+  });
+
+  it('buffers diffs for an unknown book until a snapshot arrives', async () => {
+    await processor.processUpdate(asterDiff(95, 105, 90));
+
+    expect(requestSnapshot).toHaveBeenCalledWith('BTC');
+
+    await processor.processSnapshot(snapshot('aster', 100));
+
+    expect(await bestAsk('aster')).toMatchObject({ price: '100', size: '105' });
+  });
+
+  it('allows skipped sequences on monotonic venues unless the diff names its predecessor', async () => {
+    await processor.processSnapshot(snapshot('lighter', 10));
+
+    await processor.processUpdate(diff('lighter', 14));
+    expect(stats('lighter')).toMatchObject({ gaps: 0, lastSequence: 14 });
+
+    await processor.processUpdate(diff('lighter', 20, { prevSequence: 17 }));
+    expect(stats('lighter')).toMatchObject({ gaps: 1, valid: false });
+  });
+
+  it('applies diffs without a sequence and keeps the book sequence', async () => {
+    await processor.processSnapshot(snapshot('lighter', 10));
+
+    await processor.processUpdate(diff('lighter', 0, { asks: [{ price: '100', size: '2', timestamp: Date.now() }] }));
+
+    expect(stats('lighter')).toMatchObject({ gaps: 0, outOfOrder: 0, lastSequence: 10 });
+    expect((await bestAsk('lighter'))?.price).toBe('100');
+  });
+});
@@ -1,29 +1,77 @@
 import { EventEmitter } from 'events';
 import { Orderbook, OrderbookSnapshot, OrderbookUpdate, PriceLevel } from '@/types';
 import { orderbookCache } from '@/services/cache/orderbook';
+import { sequenceConfig } from '@/config/exchanges';
 import { logger } from '@/utils/logger';
 
+type Exchange = 'hyperliquid' | 'aster' | 'lighter' | 'avantis';
+
 interface OrderbookState {
   symbol: string;
-  exchange: 'hyperliquid' | 'aster' | 'lighter' | 'avantis';
+  exchange: Exchange;
   bids: Map<string, PriceLevel>;
   asks: Map<string, PriceLevel>;
   lastUpdate: number;
   sequence: number;
+  valid: boolean;
+  // No diff applied since the last snapshot, so the next one may straddle its sequence
+  awaitingFirstDiff: boolean;
 }
 
+export interface SequenceStats {
+  symbol: string;
+  exchange: Exchange;
+  gaps: number;
+  outOfOrder: number;
+  resnapshots: number;
+  valid: boolean;
+  lastSequence: number;
+  lastGapAt: number | null;
+}
+
+export type SnapshotRequester = (symbol: string) => Promise<void>;
+
 export class OrderbookProcessor extends EventEmitter {
   private orderbooks: Map<string, OrderbookState> = new Map();
+  private sequenceStats: Map<string, SequenceStats> = new Map();
+  private snapshotRequesters: Map<Exchange, SnapshotRequester> = new Map();
+  private pendingResnapshots: Map<string, number> = new Map();
+  private bufferedUpdates: Map<string, OrderbookUpdate[]> = new Map();
   private snapshotInterval: NodeJS.Timeout | null = null;
   private readonly SNAPSHOT_INTERVAL = 30000; // 30 seconds
+  private readonly RESNAPSHOT_RETRY_MS = 5000;
+  private readonly MAX_BUFFERED_UPDATES = 1000;
 
   constructor() {
     super();
     this.startSnapshotInterval();
   }
 
+  /**
+   * Register how to fetch a fresh snapshot for an exchange after a sequence gap
+   */
+  setSnapshotRequester(exchange: Exchange, requester: SnapshotRequester): void {
+    this.snapshotRequesters.set(exchange, requester);
+  }
+
   async processSnapshot(snapshot: OrderbookSnapshot): Promise<void> {
     const key = this.getKey(snapshot.symbol, snapshot.exchange);
+    const previous = this.orderbooks.get(key);
+
+    // A snapshot older than the book we already hold arrived late; applying it would rewind the book.
+    // Requiring an older timestamp too keeps a venue-side sequence reset from locking the book out.
+    if (
+      previous?.valid &&
+      sequenceConfig[snapshot.exchange] !== 'none' &&
+      snapshot.sequence < previous.sequence &&
+      snapshot.timestamp <= previous.lastUpdate
+    ) {
+      this.getSequenceStats(snapshot.symbol, snapshot.exchange).outOfOrder++;
+      logger.warn(
+        `Dropping out-of-order snapshot for ${key}: sequence ${snapshot.sequence} < ${previous.sequence}`
+      );
+      return;
+    }
     
     // Convert snapshot data to PriceLevel format
     const bids = new Map<string, PriceLevel>();
@@ -53,7 +101,11 @@ export class OrderbookProcessor extends EventEmitter {
       asks,
       lastUpdate: snapshot.timestamp,
       sequence: snapshot.sequence,
+      valid: true,
+      awaitingFirstDiff: true,
     });
+    this.pendingResnapshots.delete(key);
+    this.getSequenceStats(snapshot.symbol, snapshot.exchange).valid = true;
 
     // Create orderbook object
     const orderbook = this.createOrderbook(snapshot.symbol, snapshot.exchange, bids, asks);
@@ -68,17 +120,39 @@ export class OrderbookProcessor extends EventEmitter {
     this.emit('orderbookUpdated', orderbook);
     
     logger.debug(`Processed orderbook snapshot: ${snapshot.exchange}:${snapshot.symbol}`);
+
+    await this.replayBufferedUpdates(key);
   }
 
   async processUpdate(update: OrderbookUpdate): Promise<void> {
     const key = this.getKey(update.symbol, update.exchange);
     const currentState = this.orderbooks.get(key);
 
-    if (!currentState) {
-      logger.warn(`Received update for unknown orderbook: ${key}`);
+    // Hold diffs until a snapshot gives them something to apply to
+    if (!currentState || !currentState.valid) {
+      this.bufferUpdate(key, update);
+      if (!currentState) {
+        logger.warn(`Received update for unknown orderbook: ${key}`);
+      }
+      await this.requestResnapshot(update.symbol, update.exchange);
+      return;
+    }
+
+    const check = this.checkSequence(currentState, update);
+    if (check === 'stale') {
+      this.getSequenceStats(update.symbol, update.exchange).outOfOrder++;
+      logger.debug(`Ignoring stale diff for ${key}: sequence ${update.sequence} <= ${currentState.sequence}`);
+      return;
+    }
+    if (check === 'gap') {
+      await this.handleSequenceGap(currentState, update);
       return;
     }
 
+    await this.applyUpdate(currentState, update);
+  }
+
+  private async applyUpdate(currentState: OrderbookState, update: OrderbookUpdate): Promise<void> {
     // Apply updates to current state
     if (update.bids) {
       this.applyPriceLevelUpdates(currentState.bids, update.bids, update.timestamp);
@@ -90,7 +164,10 @@ export class OrderbookProcessor extends EventEmitter {
 
     // Update metadata
     currentState.lastUpdate = update.timestamp;
-    currentState.sequence = update.sequence;
+    if (update.sequence) {
+      currentState.sequence = update.sequence;
+    }
+    currentState.awaitingFirstDiff = false;
 
     // Create orderbook object
     const orderbook = this.createOrderbook(
@@ -109,6 +186,150 @@ export class OrderbookProcessor extends EventEmitter {
     logger.debug(`Processed orderbook update: ${update.exchange}:${update.symbol}`);
   }
 
+  /**
+   * Classify a diff against the book's last applied sequence
+   */
+  private checkSequence(state: OrderbookState, update: OrderbookUpdate): 'ok' | 'stale' | 'gap' {
+    const policy = sequenceConfig[update.exchange];
+    // Without a venue sequence there is nothing to check the diff against
+    if (policy === 'none' || !update.sequence) {
+      return 'ok';
+    }
+
+    if (update.sequence <= state.sequence) {
+      return 'stale';
+    }
+
+    // The first diff after a snapshot only has to cover the snapshot's sequence
+    if (state.awaitingFirstDiff && update.firstSequence !== undefined) {
+      return update.firstSequence <= state.sequence + 1 ? 'ok' : 'gap';
+    }
+
+    if (update.prevSequence !== undefined) {
+      return update.prevSequence === state.sequence ? 'ok' : 'gap';
+    }
+
+    if (policy === 'contiguous' && update.sequence - 1 !== state.sequence) {
+      return 'gap';
+    }
+
+    return 'ok';
+  }
+
+  /**
+   * Invalidate a book that missed diffs and rebuild it from a fresh snapshot
+   */
+  private async handleSequenceGap(state: OrderbookState, update: OrderbookUpdate): Promise<void> {
+    const key = this.getKey(state.symbol, state.exchange);
+    const stats = this.getSequenceStats(state.symbol, state.exchange);
+    stats.gaps++;
+    stats.valid = false;
+    stats.lastGapAt = Date.now();
+
+    state.valid = false;
+
+    logger.warn(
+      `Sequence gap on ${key}: book at ${state.sequence}, received ${update.sequence}` +
+      (update.prevSequence !== undefined ? ` (follows ${update.prevSequence})` : '')
+    );
+
+    this.emit('sequenceGap', {
+      symbol: state.symbol,
+      exchange: state.exchange,
+      expected: state.sequence,
+      received: update.sequence,
+      timestamp: stats.lastGapAt,
+    });
+    this.emit('orderbookInvalidated', { symbol: state.symbol, exchange: state.exchange });
+
+    this.bufferUpdate(key, update);
+    await this.requestResnapshot(state.symbol, state.exchange);
+  }
+
+  private async requestResnapshot(symbol: string, exchange: Exchange): Promise<void> {
+    const key = this.getKey(symbol, exchange);
+    const requestedAt = this.pendingResnapshots.get(key);
+    if (requestedAt && Date.now() - requestedAt < this.RESNAPSHOT_RETRY_MS) {
+      return;
+    }
+
+    const requester = this.snapshotRequesters.get(exchange);
+    if (!requester) {
+      logger.warn(`No snapshot requester registered for ${exchange}, ${key} stays invalid`);
+      return;
+    }
+
+    this.pendingResnapshots.set(key, Date.now());
+    this.getSequenceStats(symbol, exchange).resnapshots++;
+
+    try {
+      await requester(symbol);
+      logger.info(`Requested orderbook resnapshot for ${key}`);
+    } catch (error) {
+      logger.error(`Failed to request orderbook snapshot for ${key}:`, error);
+    }
+  }
+
+  private bufferUpdate(key: string, update: OrderbookUpdate): void {
+    const buffer = this.bufferedUpdates.get(key) || [];
+    buffer.push(update);
+    if (buffer.length > this.MAX_BUFFERED_UPDATES) {
+      buffer.shift();
+    }
+    this.bufferedUpdates.set(key, buffer);
+  }
+
+  /**
+   * Apply diffs that arrived while waiting for a snapshot, skipping any it already covers
+   */
+  private async replayBufferedUpdates(key: string): Promise<void> {
+    const buffer = this.bufferedUpdates.get(key);
+    if (!buffer) {
+      return;
+    }
+    this.bufferedUpdates.delete(key);
+
+    const state = this.orderbooks.get(key)!;
+    const pending = buffer
+      .filter(update => update.sequence > state.sequence)
+      .sort((a, b) => a.sequence - b.sequence);
+
+    for (const update of pending) {
+      await this.processUpdate(update);
+    }
+  }
+
+  private getSequenceStats(symbol: string, exchange: Exchange): SequenceStats {
+    const key = this.getKey(symbol, exchange);
+    let stats = this.sequenceStats.get(key);
+    if (!stats) {
+      stats = {
+        symbol,
+        exchange,
+        gaps: 0,
+        outOfOrder: 0,
+        resnapshots: 0,
+        valid: true,
+        lastSequence: 0,
+        lastGapAt: null,
+      };
+      this.sequenceStats.set(key, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Gap counters per exchange:symbol, optionally filtered
+   */
+  getSequenceReport(symbol?: string, exchange?: Exchange): SequenceStats[] {
+    return Array.from(this.sequenceStats.values())
+      .filter(stats => (!symbol || stats.symbol === symbol) && (!exchange || stats.exchange === exchange))
+      .map(stats => ({
+        ...stats,
+        lastSequence: this.orderbooks.get(this.getKey(stats.symbol, stats.exchange))?.sequence ?? stats.lastSequence,
+      }));
+  }
+
   private applyPriceLevelUpdates(
     currentLevels: Map<string, PriceLevel>,
     updates: { price: string; size: string; timestamp: number }[],
@@ -307,6 +528,9 @@ export class OrderbookProcessor extends EventEmitter {
   private startSnapshotInterval(): void {
     this.snapshotInterval = setInterval(async () => {
       for (const [key, state] of this.orderbooks) {
+        // Don't refresh the cache TTL of a book that is waiting on a resnapshot
+        if (!state.valid) continue;
+
         const orderbook = this.createOrderbook(
           state.symbol,
           state.exchange,
@@ -324,6 +548,8 @@ export class OrderbookProcessor extends EventEmitter {
       clearInterval(this.snapshotInterval);
       this.snapshotInterval = null;
     }
+    this.bufferedUpdates.clear();
+    this.pendingResnapshots.clear();
     this.removeAllListeners();
   }
 
@@ -331,17 +557,24 @@ export class OrderbookProcessor extends EventEmitter {
     totalOrderbooks: number;
     orderbooksByExchange: Record<string, number>;
     lastUpdates: Record<string, number>;
+    invalidOrderbooks: string[];
+    sequenceGaps: number;
   } {
     const stats = {
       totalOrderbooks: this.orderbooks.size,
       orderbooksByExchange: {} as Record<string, number>,
       lastUpdates: {} as Record<string, number>,
+      invalidOrderbooks: [] as string[],
+      sequenceGaps: Array.from(this.sequenceStats.values()).reduce((sum, s) => sum + s.gaps, 0),
     };
 
     for (const [key, state] of this.orderbooks) {
       const exchange = state.exchange;
       stats.orderbooksByExchange[exchange] = (stats.orderbooksByExchange[exchange] || 0) + 1;
       stats.lastUpdates[key] = state.lastUpdate;
+      if (!state.valid) {
+        stats.invalidOrderbooks.push(key);
+      }
     }
 
     return stats;
@@ -0,0 +1,213 @@
+import { EventEmitter } from 'events';
+import { orderbookProcessor } from './orderbook';
+import { PositionService, Position, PositionUpdate } from '@/services/database/positionService';
+import { stalenessConfig, valuationConfig } from '@/config/exchanges';
+import { Orderbook } from '@/types';
+import { logger } from '@/utils/logger';
+
+type Platform = Position['platform'];
+
+export interface PositionValuation {
+  // The position with markPrice, unrealizedPnl and liquidation distance revalued
+  position: Position;
+  markPrice: number;
+  unrealizedPnl: number;
+  // Signed: negative once the mark is past the liquidation price; null without a liquidation price
+  liquidationDistance: number | null;
+  liquidationDistancePercent: number | null;
+}
+
+interface LiveMid {
+  price: number;
+  receivedAt: number;
+}
+
+/**
+ * Mark-to-market engine
+ *
+ * Tracks the live mid of every venue book from OrderbookProcessor and, on an interval,
+ * revalues all open positions against it: mark price, unrealized PnL and distance to
+ * liquidation. Changed rows are written back in batches. Positions whose book is stale
+ * or missing keep their last synced values.
+ *
+ * Emits: 'revalued' (PositionValuation[]) after each run, for consumers such as alerts
+ */
+export class ValuationEngine extends EventEmitter {
+  private mids: Map<string, LiveMid> = new Map();
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isRevaluing = false;
+  private lastRunAt: number | null = null;
+  private lastRunUpdated = 0;
+
+  private readonly onOrderbookUpdated = (orderbook: Orderbook) => {
+    const mid = parseFloat(orderbook.midPrice);
+    if (mid > 0) {
+      this.mids.set(this.getKey(orderbook.exchange, orderbook.symbol), { price: mid, receivedAt: Date.now() });
+    }
+  };
+
+  private readonly onOrderbookInvalidated = ({ symbol, exchange }: { symbol: string; exchange: Platform }) => {
+    this.mids.delete(this.getKey(exchange, symbol));
+  };
+
+  /**
+   * Start following books and revaluing positions
+   */
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('Valuation engine already running');
+      return;
+    }
+
+    this.isRunning = true;
+    orderbookProcessor.on('orderbookUpdated', this.onOrderbookUpdated);
+    orderbookProcessor.on('orderbookInvalidated', this.onOrderbookInvalidated);
+
+    logger.info(`Starting valuation engine with interval ${valuationConfig.intervalMs}ms`);
+    this.intervalId = setInterval(() => {
+      this.revalueAll();
+    }, valuationConfig.intervalMs);
+  }
+
+  /**
+   * Stop revaluing and forget live mids
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    orderbookProcessor.off('orderbookUpdated', this.onOrderbookUpdated);
+    orderbookProcessor.off('orderbookInvalidated', this.onOrderbookInvalidated);
+    this.mids.clear();
+    this.isRunning = false;
+    logger.info('Valuation engine stopped');
+  }
+
+  /**
+   * Live mid for a venue market, or null when unknown or stale
+   */
+  getMid(platform: Platform, symbol: string): number | null {
+    const mid = this.mids.get(this.getKey(platform, symbol));
+    if (!mid || Date.now() - mid.receivedAt > stalenessConfig[platform]) {
+      return null;
+    }
+    return mid.price;
+  }
+
+  /**
+   * Value a position at a given mark price
+   */
+  valuePosition(position: Position, markPrice: number): PositionValuation {
+    const size = parseFloat(position.size);
+    const entryPrice = parseFloat(position.entryPrice);
+    const direction = position.side === 'long' ? 1 : -1;
+    const unrealizedPnl = (markPrice - entryPrice) * size * direction;
+
+    const liquidationPrice = parseFloat(position.liquidationPrice || '');
+    const liquidationDistance = liquidationPrice > 0
+      ? (markPrice - liquidationPrice) * direction
+      : null;
+    const liquidationDistancePercent = liquidationDistance !== null && markPrice > 0
+      ? (liquidationDistance / markPrice) * 100
+      : null;
+
+    return {
+      position: {
+        ...position,
+        markPrice: markPrice.toString(),
+        unrealizedPnl: unrealizedPnl.toString(),
+        liquidationDistance: liquidationDistance?.toString(),
+        liquidationDistancePercent: liquidationDistancePercent?.toString(),
+      },
+      markPrice,
+      unrealizedPnl,
+      liquidationDistance,
+      liquidationDistancePercent,
+    };
+  }
+
+  /**
+   * Revalue every open position that has a fresh mid, writing changed rows in batches
+   */
+  async revalueAll(): Promise<PositionValuation[]> {
+    // A slow run must not overlap the next one
+    if (this.isRevaluing) {
+      return [];
+    }
+    this.isRevaluing = true;
+
+    try {
+      const positions = await PositionService.getAllOpenPositions();
+      const valuations: PositionValuation[] = [];
+      const updates: Array<PositionUpdate & { id: number }> = [];
+
+      for (const position of positions) {
+        const mid = this.getMid(position.platform, PositionService.getMarketSymbol(position));
+        if (mid === null || position.id === undefined) {
+          continue;
+        }
+
+        const valuation = this.valuePosition(position, mid);
+        valuations.push(valuation);
+
+        // Only rows whose mark moved need writing
+        if (position.markPrice !== undefined && parseFloat(position.markPrice) === mid && position.markedAt) {
+          continue;
+        }
+
+        updates.push({
+          id: position.id,
+          markPrice: valuation.position.markPrice,
+          unrealizedPnl: valuation.position.unrealizedPnl,
+          liquidationDistance: valuation.position.liquidationDistance,
+          liquidationDistancePercent: valuation.position.liquidationDistancePercent,
+        });
+      }
+
+      const markedAt = Date.now();
+      let updated = 0;
+      for (let i = 0; i < updates.length; i += valuationConfig.batchSize) {
+        updated += await PositionService.updateMarks(updates.slice(i, i + valuationConfig.batchSize), markedAt);
+      }
+
+      this.lastRunAt = markedAt;
+      this.lastRunUpdated = updated;
+      logger.debug(`Revalued ${valuations.length}/${positions.length} open positions, ${updated} updated`);
+
+      this.emit('revalued', valuations);
+      return valuations;
+    } catch (error) {
+      logger.error('Position revaluation failed:', error);
+      return [];
+    } finally {
+      this.isRevaluing = false;
+    }
+  }
+
+  /**
+   * Get engine status
+   */
+  getStatus(): {
+    isRunning: boolean;
+    intervalMs: number;
+    trackedMarkets: number;
+    lastRunAt: number | null;
+    lastRunUpdated: number;
+  } {
+    return {
+      isRunning: this.isRunning,
+      intervalMs: valuationConfig.intervalMs,
+      trackedMarkets: this.mids.size,
+      lastRunAt: this.lastRunAt,
+      lastRunUpdated: this.lastRunUpdated,
+    };
+  }
+
+  private getKey(platform: Platform, symbol: string): string {
+    return `${platform}:${symbol}`;
+  }
+}
+
+export const valuationEngine = new ValuationEngine();
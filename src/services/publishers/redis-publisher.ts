@@ -1,5 +1,6 @@
 import { redisClient } from '@/config/redis';
 import { logger } from '@/utils/logger';
+import type { Position } from '@/services/database/positionService';
 
 export class RedisPublisher {
   /**
@@ -99,6 +100,35 @@ export class RedisPublisher {
       logger.error('Failed to publish trade to Redis:', error);
     }
   }
+
+  /**
+   * Publish a wallet's current open positions after they change
+   * Channel naming: positions:update:{wallet} (lowercased)
+   */
+  async publishPositionUpdate(data: {
+    walletAddress: string;
+    platform: string;
+    positions: Position[];
+    timestamp: number;
+  }): Promise<void> {
+    try {
+      const channel = `positions:update:${data.walletAddress.toLowerCase()}`;
+      const message = {
+        channel,
+        data: {
+          walletAddress: data.walletAddress,
+          platform: data.platform,
+          positions: data.positions,
+          timestamp: data.timestamp,
+        },
+      };
+
+      await redisClient.publish(channel, JSON.stringify(message));
+      logger.debug(`Published ${data.positions.length} positions to ${channel}`);
+    } catch (error) {
+      logger.error('Failed to publish position update to Redis:', error);
+    }
+  }
 }
 
 export const redisPublisher = new RedisPublisher();
@@ -0,0 +1,221 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { database } from '@/config/database';
+import { logger } from '@/utils/logger';
+
+/**
+ * API keys for operational endpoints.
+ *
+ * Keys look like `hdx_<keyId>_<secret>`. The key id is stored in clear for lookup;
+ * the secret is only stored as a SHA-256 hash (it is 256 bits of randomness, so a
+ * slow KDF adds nothing). Scopes are hierarchical: admin > trade > read.
+ *
+ * A key may be bound to one wallet. Wallet-scoped routes only accept a key for its
+ * own wallet, unless it has the admin scope.
+ */
+
+export type ApiKeyScope = 'read' | 'trade' | 'admin';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'trade', 'admin'];
+
+const KEY_PREFIX = 'hdx';
+
+const SCOPE_RANK: Record<ApiKeyScope, number> = {
+  read: 0,
+  trade: 1,
+  admin: 2,
+};
+
+export interface ApiKeyRecord {
+  id: number;
+  keyId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  walletAddress: string | null;
+  createdAt: number;
+  expiresAt: number | null;
+  lastUsedAt: number | null;
+  revokedAt: number | null;
+}
+
+export interface AuditEntry {
+  apiKeyId: number | null;
+  keyId: string | null;
+  method: string;
+  path: string;
+  statusCode: number;
+  ip?: string;
+  userAgent?: string;
+  params?: Record<string, unknown>;
+}
+
+interface ApiKeyRow {
+  id: number;
+  keyId: string;
+  keyHash: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  walletAddress: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+const SELECT_COLUMNS = `
+  id,
+  key_id AS "keyId",
+  key_hash AS "keyHash",
+  name,
+  scopes,
+  wallet_address AS "walletAddress",
+  created_at AS "createdAt",
+  expires_at AS "expiresAt",
+  last_used_at AS "lastUsedAt",
+  revoked_at AS "revokedAt"`;
+
+export class ApiKeyService {
+  /**
+   * Mint a key, optionally bound to a wallet. The plaintext key is only ever returned here.
+   */
+  async createKey(
+    name: string,
+    scopes: ApiKeyScope[],
+    expiresAt?: number,
+    walletAddress?: string
+  ): Promise<{ key: string; record: ApiKeyRecord }> {
+    if (scopes.length === 0 || !scopes.every(scope => API_KEY_SCOPES.includes(scope))) {
+      throw new Error(`Scopes must be a non-empty subset of: ${API_KEY_SCOPES.join(', ')}`);
+    }
+    if (walletAddress !== undefined && !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      throw new Error('Wallet address must be a 0x-prefixed 20-byte hex address');
+    }
+
+    const keyId = randomBytes(6).toString('hex');
+    const secret = randomBytes(32).toString('base64url');
+
+    const result = await database.query<ApiKeyRow>(
+      `INSERT INTO api_keys (key_id, key_hash, name, scopes, expires_at, wallet_address)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${SELECT_COLUMNS}`,
+      [keyId, this.hashSecret(secret), name, scopes, expiresAt ?? null, walletAddress?.toLowerCase() ?? null]
+    );
+
+    logger.info(
+      `API key ${keyId} created (${name}) with scopes ${scopes.join(',')}` +
+      (walletAddress ? ` for wallet ${walletAddress.toLowerCase()}` : '')
+    );
+
+    return {
+      key: `${KEY_PREFIX}_${keyId}_${secret}`,
+      record: this.toRecord(result.rows[0]),
+    };
+  }
+
+  async revokeKey(keyId: string): Promise<boolean> {
+    const result = await database.query(
+      `UPDATE api_keys SET revoked_at = EXTRACT(EPOCH FROM NOW()) * 1000
+       WHERE key_id = $1 AND revoked_at IS NULL`,
+      [keyId]
+    );
+
+    const revoked = (result.rowCount ?? 0) > 0;
+    if (revoked) {
+      logger.info(`API key ${keyId} revoked`);
+    }
+    return revoked;
+  }
+
+  async listKeys(): Promise<ApiKeyRecord[]> {
+    const result = await database.query<ApiKeyRow>(
+      `SELECT ${SELECT_COLUMNS} FROM api_keys ORDER BY created_at DESC`
+    );
+    return result.rows.map(row => this.toRecord(row));
+  }
+
+  /**
+   * Resolve a presented key to its active record, or null if unknown, revoked or expired
+   */
+  async authenticate(presentedKey: string): Promise<ApiKeyRecord | null> {
+    const match = presentedKey.match(/^hdx_([a-f0-9]{12})_([A-Za-z0-9_-]{43})$/);
+    if (!match) {
+      return null;
+    }
+    const [, keyId, secret] = match;
+
+    const result = await database.query<ApiKeyRow>(
+      `SELECT ${SELECT_COLUMNS} FROM api_keys WHERE key_id = $1`,
+      [keyId]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const expected = Buffer.from(row.keyHash, 'hex');
+    const actual = Buffer.from(this.hashSecret(secret), 'hex');
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const record = this.toRecord(row);
+    if (record.revokedAt !== null || (record.expiresAt !== null && record.expiresAt <= Date.now())) {
+      return null;
+    }
+
+    // Usage tracking shouldn't hold up the request
+    database.query(
+      'UPDATE api_keys SET last_used_at = EXTRACT(EPOCH FROM NOW()) * 1000 WHERE id = $1',
+      [record.id]
+    ).catch(error => logger.warn(`Failed to update last_used_at for API key ${keyId}:`, error));
+
+    return record;
+  }
+
+  hasScope(record: ApiKeyRecord, required: ApiKeyScope): boolean {
+    return record.scopes.some(scope => SCOPE_RANK[scope] >= SCOPE_RANK[required]);
+  }
+
+  /**
+   * Whether the key may act on a wallet's data: its own wallet, or any with admin scope
+   */
+  canAccessWallet(record: ApiKeyRecord, walletAddress: string): boolean {
+    return this.hasScope(record, 'admin') || record.walletAddress === walletAddress.toLowerCase();
+  }
+
+  async recordAudit(entry: AuditEntry): Promise<void> {
+    await database.query(
+      `INSERT INTO admin_audit_log (api_key_id, key_id, method, path, status_code, ip, user_agent, params)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        entry.apiKeyId,
+        entry.keyId,
+        entry.method,
+        entry.path,
+        entry.statusCode,
+        entry.ip ?? null,
+        entry.userAgent?.slice(0, 500) ?? null,
+        entry.params ? JSON.stringify(entry.params) : null,
+      ]
+    );
+  }
+
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private toRecord(row: ApiKeyRow): ApiKeyRecord {
+    return {
+      id: row.id,
+      keyId: row.keyId,
+      name: row.name,
+      scopes: row.scopes,
+      walletAddress: row.walletAddress,
+      createdAt: parseInt(row.createdAt),
+      expiresAt: row.expiresAt !== null ? parseInt(row.expiresAt) : null,
+      lastUsedAt: row.lastUsedAt !== null ? parseInt(row.lastUsedAt) : null,
+      revokedAt: row.revokedAt !== null ? parseInt(row.revokedAt) : null,
+    };
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,99 @@
+import { createCipheriv, randomBytes } from 'crypto';
+import { CredentialContext, CredentialEncryption, CredentialEncryptionError } from './credential-encryption';
+
+const KEY_V1 = randomBytes(32).toString('base64');
+const KEY_V2 = randomBytes(32).toString('base64');
+
+const context: CredentialContext = {
+  walletAddress: '0xAbC0000000000000000000000000000000000001',
+  scope: 'lighter',
+  field: 'api_key_private',
+};
+
+function useKeys(currentVersion: number, previous: string = ''): CredentialEncryption {
+  process.env['CREDENTIAL_MASTER_KEY'] = currentVersion === 1 ? KEY_V1 : KEY_V2;
+  process.env['CREDENTIAL_KEY_VERSION'] = String(currentVersion);
+  process.env['CREDENTIAL_PREVIOUS_KEYS'] = previous;
+  return new CredentialEncryption();
+}
+
+// v1 payload as written before row binding: no additional authenticated data
+function sealV1(plaintext: string): string {
+  const seal = (key: Buffer, data: Buffer) => {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64'));
+  };
+  const dataKey = randomBytes(32);
+  const wrapped = seal(Buffer.from(KEY_V1, 'base64'), dataKey);
+  const data = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+  return ['enc', 'v1', 1, ...wrapped, ...data].join(':');
+}
+
+describe('CredentialEncryption', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env['CREDENTIAL_KEYFILE'];
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('round-trips a secret for the row it was encrypted for', () => {
+    const encryption = useKeys(1);
+    const payload = encryption.encrypt('secret-key', context);
+
+    expect(payload).toMatch(/^enc:v2:1:/);
+    expect(encryption.decrypt(payload, context)).toBe('secret-key');
+    // Wallet addresses are bound case-insensitively
+    expect(encryption.decrypt(payload, { ...context, walletAddress: context.walletAddress.toLowerCase() })).toBe('secret-key');
+  });
+
+  it('rejects a payload moved to another wallet, scope or field', () => {
+    const encryption = useKeys(1);
+    const payload = encryption.encrypt('secret-key', context);
+
+    for (const other of [
+      { ...context, walletAddress: '0x0000000000000000000000000000000000000002' },
+      { ...context, scope: 'aster' },
+      { ...context, field: 'api_secret' },
+    ]) {
+      expect(() => encryption.decrypt(payload, other)).toThrow(CredentialEncryptionError);
+    }
+  });
+
+  it('rejects a payload relabelled with another key version', () => {
+    const encryption = useKeys(2, `1:${KEY_V1}`);
+    const payload = encryption.encrypt('secret-key', context);
+    const relabelled = payload.replace(/^enc:v2:2:/, 'enc:v2:1:');
+
+    expect(() => encryption.decrypt(relabelled, context)).toThrow(CredentialEncryptionError);
+  });
+
+  it('refuses plaintext and v1 values until they are migrated', () => {
+    const encryption = useKeys(1);
+    const legacy = sealV1('secret-key');
+
+    expect(() => encryption.decrypt('secret-key', context)).toThrow(/not encrypted/);
+    expect(() => encryption.decrypt(legacy, context)).toThrow(/v1/);
+
+    const migratedPlaintext = encryption.migrate('secret-key', context);
+    const migratedLegacy = encryption.migrate(legacy, context);
+    expect(encryption.decrypt(migratedPlaintext, context)).toBe('secret-key');
+    expect(encryption.decrypt(migratedLegacy, context)).toBe('secret-key');
+  });
+
+  it('re-wraps under a new key version without touching the data layer', () => {
+    const payload = useKeys(1).encrypt('secret-key', context);
+    const rotated = useKeys(2, `1:${KEY_V1}`);
+
+    const rewrapped = rotated.rewrap(payload, context);
+
+    expect(rotated.getKeyVersion(rewrapped)).toBe(2);
+    expect(rewrapped.split(':').slice(6)).toEqual(payload.split(':').slice(6));
+    expect(useKeys(2).decrypt(rewrapped, context)).toBe('secret-key');
+  });
+});
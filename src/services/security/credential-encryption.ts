@@ -0,0 +1,335 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { logger } from '@/utils/logger';
+
+/**
+ * Envelope encryption for stored exchange credentials.
+ *
+ * Each record gets its own random data key; the record is encrypted with the data
+ * key (AES-256-GCM) and the data key is wrapped with a versioned master key
+ * (AES-256-GCM). Rotating the master key only re-wraps data keys.
+ *
+ * Both layers authenticate the owning row (wallet, scope, field) as additional data,
+ * and the wrapping layer also binds the master key version, so a ciphertext copied
+ * onto another wallet's row or relabelled with another key version fails to decrypt.
+ *
+ * Master keys come from either:
+ *   - CREDENTIAL_KEYFILE: JSON `{ "currentVersion": 2, "keys": { "1": "<base64>", "2": "<base64>" } }`
+ *   - CREDENTIAL_MASTER_KEY (+ CREDENTIAL_KEY_VERSION, default 1) and optional
+ *     CREDENTIAL_PREVIOUS_KEYS as `version:base64,...` for decrypting older rows
+ */
+
+const PAYLOAD_PREFIX = 'enc';
+const PAYLOAD_FORMAT = 'v2';
+// Format written before payloads were bound to their row; readable only by migrate()
+const LEGACY_PAYLOAD_FORMAT = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+export class CredentialEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialEncryptionError';
+    Object.setPrototypeOf(this, CredentialEncryptionError.prototype);
+  }
+}
+
+/**
+ * Row a secret belongs to, authenticated alongside the ciphertext
+ */
+export interface CredentialContext {
+  walletAddress: string;
+  // Exchange or subsystem owning the secret, e.g. 'lighter', 'aster', 'alerts'
+  scope: string;
+  // Which secret of the row, e.g. 'api_secret'
+  field: string;
+}
+
+interface SealedBox {
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+interface Keyring {
+  currentVersion: number;
+  keys: Map<number, Buffer>;
+}
+
+interface KeyfileContents {
+  currentVersion: number;
+  keys: Record<string, string>;
+}
+
+export class CredentialEncryption {
+  private keyring: Keyring | null = null;
+
+  /**
+   * Encrypt a secret under the current master key, bound to its row
+   */
+  encrypt(plaintext: string, context: CredentialContext): string {
+    const { version, key } = this.getCurrentKey();
+    const dataKey = randomBytes(KEY_LENGTH);
+
+    const data = this.seal(dataKey, Buffer.from(plaintext, 'utf8'), this.getDataAad(context));
+    const wrapped = this.seal(key, dataKey, this.getWrapAad(context, version));
+
+    return this.format(version, wrapped, data);
+  }
+
+  /**
+   * Decrypt a stored secret. Plaintext and pre-binding (v1) values are rejected;
+   * run `npm run rotate-credentials` to migrate them.
+   */
+  decrypt(payload: string, context: CredentialContext): string {
+    const parsed = this.parse(payload);
+    const dataKey = this.open(
+      this.getKey(parsed.version),
+      parsed.wrapped,
+      this.getWrapAad(context, parsed.version)
+    );
+
+    return this.open(dataKey, parsed.data, this.getDataAad(context)).toString('utf8');
+  }
+
+  /**
+   * Re-wrap a payload's data key under the current master key
+   */
+  rewrap(payload: string, context: CredentialContext): string {
+    const parsed = this.parse(payload);
+    const { version, key } = this.getCurrentKey();
+    if (parsed.version === version) {
+      return payload;
+    }
+
+    const dataKey = this.open(
+      this.getKey(parsed.version),
+      parsed.wrapped,
+      this.getWrapAad(context, parsed.version)
+    );
+    const wrapped = this.seal(key, dataKey, this.getWrapAad(context, version));
+
+    return this.format(version, wrapped, parsed.data);
+  }
+
+  /**
+   * Explicit migration path for values that decrypt() refuses: plaintext rows from
+   * before encryption and v1 payloads without row binding are re-encrypted under the
+   * current key; current payloads are re-wrapped.
+   */
+  migrate(payload: string, context: CredentialContext): string {
+    if (!this.isEncrypted(payload)) {
+      return this.encrypt(payload, context);
+    }
+
+    const parts = payload.split(':');
+    if (parts[1] === LEGACY_PAYLOAD_FORMAT) {
+      if (parts.length !== 9) {
+        throw new CredentialEncryptionError('Malformed encrypted credential payload');
+      }
+      const version = parseInt(parts[2]);
+      const dataKey = this.open(this.getKey(version), { iv: parts[3], tag: parts[4], ciphertext: parts[5] });
+      const plaintext = this.open(dataKey, { iv: parts[6], tag: parts[7], ciphertext: parts[8] });
+      return this.encrypt(plaintext.toString('utf8'), context);
+    }
+
+    return this.rewrap(payload, context);
+  }
+
+  isEncrypted(payload: string): boolean {
+    return payload.startsWith(`${PAYLOAD_PREFIX}:`);
+  }
+
+  /**
+   * Whether a payload is in the current row-bound format (rotation may still be due)
+   */
+  isCurrentFormat(payload: string): boolean {
+    return payload.startsWith(`${PAYLOAD_PREFIX}:${PAYLOAD_FORMAT}:`);
+  }
+
+  /**
+   * Master key version a payload was wrapped with (null for legacy plaintext)
+   */
+  getKeyVersion(payload: string): number | null {
+    return this.isEncrypted(payload) ? parseInt(payload.split(':')[2]) : null;
+  }
+
+  getCurrentKeyVersion(): number {
+    return this.getCurrentKey().version;
+  }
+
+  /**
+   * Add a freshly generated master key to the keyfile and make it current
+   */
+  generateKeyfileVersion(): number {
+    const keyfilePath = process.env['CREDENTIAL_KEYFILE'];
+    if (!keyfilePath) {
+      throw new CredentialEncryptionError('CREDENTIAL_KEYFILE must be set to generate a new master key');
+    }
+
+    const contents: KeyfileContents = existsSync(keyfilePath)
+      ? JSON.parse(readFileSync(keyfilePath, 'utf8'))
+      : { currentVersion: 0, keys: {} };
+
+    const versions = Object.keys(contents.keys).map(v => parseInt(v));
+    const nextVersion = Math.max(0, contents.currentVersion, ...versions) + 1;
+    contents.keys[String(nextVersion)] = randomBytes(KEY_LENGTH).toString('base64');
+    contents.currentVersion = nextVersion;
+
+    writeFileSync(keyfilePath, JSON.stringify(contents, null, 2), { mode: 0o600 });
+    this.keyring = null;
+
+    logger.info(`Generated credential master key version ${nextVersion}`);
+    return nextVersion;
+  }
+
+  private seal(key: Buffer, plaintext: Buffer, aad?: Buffer): SealedBox {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    if (aad) {
+      cipher.setAAD(aad);
+    }
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    };
+  }
+
+  private open(key: Buffer, sealed: SealedBox, aad?: Buffer): Buffer {
+    try {
+      const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(sealed.iv, 'base64'));
+      if (aad) {
+        decipher.setAAD(aad);
+      }
+      decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(sealed.ciphertext, 'base64')), decipher.final()]);
+    } catch {
+      throw new CredentialEncryptionError('Failed to decrypt credential: wrong key, wrong row or tampered payload');
+    }
+  }
+
+  private getDataAad(context: CredentialContext): Buffer {
+    return Buffer.from(JSON.stringify([
+      PAYLOAD_FORMAT,
+      context.walletAddress.toLowerCase(),
+      context.scope,
+      context.field,
+    ]), 'utf8');
+  }
+
+  private getWrapAad(context: CredentialContext, version: number): Buffer {
+    return Buffer.from(JSON.stringify([
+      PAYLOAD_FORMAT,
+      context.walletAddress.toLowerCase(),
+      context.scope,
+      context.field,
+      version,
+    ]), 'utf8');
+  }
+
+  private format(version: number, wrapped: SealedBox, data: SealedBox): string {
+    return [
+      PAYLOAD_PREFIX,
+      PAYLOAD_FORMAT,
+      version,
+      wrapped.iv,
+      wrapped.tag,
+      wrapped.ciphertext,
+      data.iv,
+      data.tag,
+      data.ciphertext,
+    ].join(':');
+  }
+
+  private parse(payload: string): { version: number; wrapped: SealedBox; data: SealedBox } {
+    if (!this.isEncrypted(payload)) {
+      throw new CredentialEncryptionError('Credential is not encrypted; run `npm run rotate-credentials` to migrate it');
+    }
+
+    const parts = payload.split(':');
+    if (parts[1] === LEGACY_PAYLOAD_FORMAT) {
+      throw new CredentialEncryptionError('Credential uses the unbound v1 format; run `npm run rotate-credentials` to migrate it');
+    }
+    if (parts.length !== 9 || parts[1] !== PAYLOAD_FORMAT) {
+      throw new CredentialEncryptionError('Malformed encrypted credential payload');
+    }
+
+    return {
+      version: parseInt(parts[2]),
+      wrapped: { iv: parts[3], tag: parts[4], ciphertext: parts[5] },
+      data: { iv: parts[6], tag: parts[7], ciphertext: parts[8] },
+    };
+  }
+
+  private getCurrentKey(): { version: number; key: Buffer } {
+    const keyring = this.loadKeyring();
+    return { version: keyring.currentVersion, key: this.getKey(keyring.currentVersion) };
+  }
+
+  private getKey(version: number): Buffer {
+    const key = this.loadKeyring().keys.get(version);
+    if (!key) {
+      throw new CredentialEncryptionError(`Credential master key version ${version} is not available`);
+    }
+    return key;
+  }
+
+  private loadKeyring(): Keyring {
+    if (this.keyring) {
+      return this.keyring;
+    }
+
+    const keys = new Map<number, Buffer>();
+    let currentVersion: number;
+
+    const keyfilePath = process.env['CREDENTIAL_KEYFILE'];
+    if (keyfilePath) {
+      if (!existsSync(keyfilePath)) {
+        throw new CredentialEncryptionError(`Credential keyfile not found: ${keyfilePath}`);
+      }
+
+      const contents: KeyfileContents = JSON.parse(readFileSync(keyfilePath, 'utf8'));
+      for (const [version, key] of Object.entries(contents.keys)) {
+        keys.set(parseInt(version), this.decodeKey(key, `keyfile version ${version}`));
+      }
+      currentVersion = contents.currentVersion;
+    } else {
+      const masterKey = process.env['CREDENTIAL_MASTER_KEY'];
+      if (!masterKey) {
+        throw new CredentialEncryptionError('No credential master key configured (set CREDENTIAL_MASTER_KEY or CREDENTIAL_KEYFILE)');
+      }
+
+      currentVersion = parseInt(process.env['CREDENTIAL_KEY_VERSION'] || '1');
+      keys.set(currentVersion, this.decodeKey(masterKey, 'CREDENTIAL_MASTER_KEY'));
+
+      for (const entry of (process.env['CREDENTIAL_PREVIOUS_KEYS'] || '').split(',').filter(Boolean)) {
+        const [version, key] = entry.split(':');
+        keys.set(parseInt(version), this.decodeKey(key, `previous key version ${version}`));
+      }
+    }
+
+    if (!keys.has(currentVersion)) {
+      throw new CredentialEncryptionError(`Current credential key version ${currentVersion} has no key`);
+    }
+
+    this.keyring = { currentVersion, keys };
+    return this.keyring;
+  }
+
+  private decodeKey(encoded: string, label: string): Buffer {
+    const key = /^[0-9a-fA-F]{64}$/.test(encoded)
+      ? Buffer.from(encoded, 'hex')
+      : Buffer.from(encoded, 'base64');
+
+    if (key.length !== KEY_LENGTH) {
+      throw new CredentialEncryptionError(`${label} must be 32 bytes (hex or base64)`);
+    }
+    return key;
+  }
+}
+
+export const credentialEncryption = new CredentialEncryption();
@@ -0,0 +1,84 @@
+import { randomBytes } from 'crypto';
+import { redisClient } from '@/config/redis';
+import { rateLimitBudgets, RateLimitBudgetName } from '@/config/exchanges';
+import { logger } from '@/utils/logger';
+
+/**
+ * Redis-backed sliding-window rate limiter.
+ *
+ * Each client/budget pair is a sorted set of request timestamps. Entries older
+ * than the window are trimmed and the request is admitted only if the set is
+ * still under budget, all in one Lua script so concurrent instances share the count.
+ */
+
+const KEY_PREFIX = 'ratelimit:';
+
+// KEYS[1] = window key; ARGV = now, windowMs, max, member
+// Returns { allowed, count, oldestTimestamp }
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local max = tonumber(ARGV[3])
+
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+local count = redis.call('ZCARD', key)
+local allowed = 0
+if count < max then
+  redis.call('ZADD', key, now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', key, window)
+
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+return { allowed, count, oldest[2] or now }
+`;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Epoch ms at which the oldest request leaves the window
+  resetAt: number;
+}
+
+export class SlidingWindowRateLimiter {
+  /**
+   * Record a request for a client against a budget. Fails open when Redis is
+   * unavailable so an outage doesn't take the API down with it.
+   */
+  async consume(budgetName: RateLimitBudgetName, clientKey: string): Promise<RateLimitResult> {
+    const budget = rateLimitBudgets[budgetName];
+    const now = Date.now();
+
+    try {
+      const [allowed, count, oldest] = await redisClient.getClient().eval(
+        SLIDING_WINDOW_SCRIPT,
+        1,
+        `${KEY_PREFIX}${budgetName}:${clientKey}`,
+        now,
+        budget.windowMs,
+        budget.max,
+        `${now}-${randomBytes(4).toString('hex')}`
+      ) as [number, number, string | number];
+
+      return {
+        allowed: allowed === 1,
+        limit: budget.max,
+        remaining: Math.max(budget.max - count, 0),
+        resetAt: Number(oldest) + budget.windowMs,
+      };
+    } catch (error) {
+      logger.warn(`Rate limiter unavailable for ${budgetName}, allowing request:`, error);
+      return {
+        allowed: true,
+        limit: budget.max,
+        remaining: budget.max,
+        resetAt: now + budget.windowMs,
+      };
+    }
+  }
+}
+
+export const rateLimiter = new SlidingWindowRateLimiter();
@@ -0,0 +1,67 @@
+jest.mock('dns', () => ({ promises: { lookup: jest.fn() } }));
+
+import { promises as dns } from 'dns';
+import { alertConfig } from '@/config/exchanges';
+import { checkWebhookTarget } from './webhook-target';
+
+const lookup = dns.lookup as unknown as jest.Mock;
+
+function resolvesTo(...addresses: string[]): void {
+  lookup.mockResolvedValue(addresses.map((address) => ({ address, family: address.includes(':') ? 6 : 4 })));
+}
+
+describe('checkWebhookTarget', () => {
+  beforeEach(() => {
+    lookup.mockReset();
+    alertConfig.allowPrivateWebhookTargets = false;
+  });
+
+  it.each([
+    'http://127.0.0.1/hook',
+    'http://localhost.:8080/hook',
+    'http://10.1.2.3/hook',
+    'http://172.16.0.5/hook',
+    'http://192.168.1.10/hook',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://100.64.0.1/hook',
+    'http://0.0.0.0/hook',
+    'http://[::1]/hook',
+    'http://[::ffff:127.0.0.1]/hook',
+    'http://[fd00::1]/hook',
+    'http://[fe80::1]/hook',
+  ])('refuses %s', async (url) => {
+    resolvesTo('127.0.0.1');
+
+    await expect(checkWebhookTarget(url)).resolves.toMatch(/private or reserved/);
+  });
+
+  it('accepts a public address literal without resolving it', async () => {
+    await expect(checkWebhookTarget('https://93.184.216.34/hook')).resolves.toBeNull();
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it('accepts a hostname that only resolves to public addresses', async () => {
+    resolvesTo('93.184.216.34', '2606:2800:220:1:248:1893:25c8:1946');
+
+    await expect(checkWebhookTarget('https://hooks.example.com/alerts')).resolves.toBeNull();
+    expect(lookup).toHaveBeenCalledWith('hooks.example.com', { all: true, verbatim: true });
+  });
+
+  it('refuses a hostname when any resolved address is private', async () => {
+    resolvesTo('93.184.216.34', '10.0.0.7');
+
+    await expect(checkWebhookTarget('https://hooks.example.com/alerts')).resolves.toContain('10.0.0.7');
+  });
+
+  it('passes resolver failures to the caller', async () => {
+    lookup.mockRejectedValue(Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' }));
+
+    await expect(checkWebhookTarget('https://missing.example.com/')).rejects.toThrow('ENOTFOUND');
+  });
+
+  it('allows private targets when configured for local development', async () => {
+    alertConfig.allowPrivateWebhookTargets = true;
+
+    await expect(checkWebhookTarget('http://127.0.0.1:4000/hook')).resolves.toBeNull();
+  });
+});
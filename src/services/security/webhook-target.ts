@@ -0,0 +1,79 @@
+import { BlockList, isIP } from 'net';
+import { promises as dns } from 'dns';
+import { alertConfig } from '@/config/exchanges';
+
+/**
+ * Guards outbound webhooks against server-side request forgery: a user-supplied URL
+ * must not reach loopback, private networks, link-local addresses (including the
+ * 169.254.169.254 cloud metadata endpoint) or other reserved ranges.
+ *
+ * Hostnames are resolved and every returned address is checked, both when a rule is
+ * saved and again before each delivery, since DNS can change in between.
+ */
+
+// Separate lists: a BlockList also matches IPv4 addresses against IPv6 rules through their
+// IPv4-mapped form, so the ::ffff:0:0/96 rule below would otherwise cover every IPv4 address
+const reservedIpv4 = new BlockList();
+const reservedIpv6 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // RFC 1918
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata
+  ['172.16.0.0', 12], // RFC 1918
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.88.99.0', 24], // 6to4 relay
+  ['192.168.0.0', 16], // RFC 1918
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+] as const) {
+  reservedIpv4.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96], // unspecified, loopback and IPv4-compatible
+  ['::ffff:0:0', 96], // IPv4-mapped
+  ['64:ff9b::', 96], // NAT64
+  ['100::', 64], // discard
+  ['2001::', 23], // IETF protocol assignments
+  ['2001:db8::', 32], // documentation
+  ['2002::', 16], // 6to4
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  reservedIpv6.addSubnet(network, prefix, 'ipv6');
+}
+
+function isReservedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return family === 4 ? reservedIpv4.check(address, 'ipv4') : reservedIpv6.check(address, 'ipv6');
+}
+
+/**
+ * Check that a webhook URL only resolves to public addresses. Returns the reason it is
+ * refused, or null when it may be called. DNS lookup failures are thrown, so callers can
+ * tell a temporary resolver problem from a refused target.
+ */
+export async function checkWebhookTarget(webhookUrl: string): Promise<string | null> {
+  if (alertConfig.allowPrivateWebhookTargets) {
+    return null;
+  }
+
+  const { hostname } = new URL(webhookUrl);
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+
+  const addresses = isIP(host)
+    ? [host]
+    : (await dns.lookup(host, { all: true, verbatim: true })).map((entry) => entry.address);
+
+  const blocked = addresses.find(isReservedAddress);
+  return blocked ? `webhookUrl resolves to a private or reserved address (${blocked})` : null;
+}
@@ -0,0 +1,230 @@
+import { EventEmitter } from 'events';
+import type Redis from 'ioredis';
+import { PositionService, Position } from '@/services/database/positionService';
+import { redisClient } from '@/config/redis';
+import { logger } from '@/utils/logger';
+
+export interface LivePosition extends Position {
+  // 'orderbook' when markPrice/unrealizedPnl come from the live mid, 'sync' when from the last sync
+  markSource: 'orderbook' | 'sync';
+}
+
+export interface LivePositionsSnapshot {
+  walletAddress: string;
+  positions: LivePosition[];
+  totalUnrealizedPnl: string;
+  timestamp: number;
+}
+
+// Coalesce bursts of book updates into at most one push per interval
+const PUSH_THROTTLE_MS = 500;
+
+/**
+ * Streams a wallet's open positions, revalued from the live orderbook mid
+ *
+ * Positions are reloaded whenever positions:update:<wallet> fires (exchange user streams,
+ * syncs) and the orderbook channels of the markets they're in are followed so mark price
+ * and unrealized PnL move with the book. Each stream holds its own Redis subscriber, like
+ * the aggregated SSE endpoints.
+ *
+ * Emits: 'positions' (LivePositionsSnapshot), 'error' (Error)
+ */
+export class LivePositionStream extends EventEmitter {
+  private walletAddress: string;
+  private subscriber: Redis | null = null;
+  private positions: Position[] = [];
+  private mids: Map<string, number> = new Map();
+  private bookChannels: Set<string> = new Set();
+  private pushTimer: NodeJS.Timeout | null = null;
+  private lastPushAt = 0;
+  private stopped = false;
+
+  constructor(walletAddress: string) {
+    super();
+    this.walletAddress = walletAddress;
+  }
+
+  /**
+   * Subscribe to position and price updates, then push the current positions
+   */
+  async start(): Promise<void> {
+    const subscriber = redisClient.getSubscriber().duplicate();
+    this.subscriber = subscriber;
+    subscriber.on('error', (error: Error) => {
+      logger.error(`Live position subscriber error for ${this.walletAddress}:`, error);
+    });
+    subscriber.on('message', (channel: string, message: string) => {
+      this.handleMessage(channel, message);
+    });
+
+    if (subscriber.status === 'wait') {
+      await subscriber.connect();
+    }
+    // The consumer may have gone away while we were connecting
+    if (this.stopped) {
+      return;
+    }
+
+    await subscriber.subscribe(this.getPositionsChannel());
+    await this.reload();
+  }
+
+  /**
+   * Release the Redis subscriber and any pending push
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.pushTimer) {
+      clearTimeout(this.pushTimer);
+      this.pushTimer = null;
+    }
+
+    if (this.subscriber) {
+      const subscriber = this.subscriber;
+      this.subscriber = null;
+      subscriber.disconnect();
+    }
+    this.removeAllListeners();
+  }
+
+  /**
+   * Current positions, marked to the latest mid where one is known
+   */
+  getSnapshot(): LivePositionsSnapshot {
+    const positions = this.positions.map((position) => this.markPosition(position));
+    const totalUnrealizedPnl = positions.reduce(
+      (sum, position) => sum + (parseFloat(position.unrealizedPnl || '0') || 0),
+      0
+    );
+
+    return {
+      walletAddress: this.walletAddress,
+      positions,
+      totalUnrealizedPnl: totalUnrealizedPnl.toString(),
+      timestamp: Date.now(),
+    };
+  }
+
+  private async reload(): Promise<void> {
+    try {
+      this.positions = await PositionService.getUserPositions(this.walletAddress);
+      await this.syncBookChannels();
+      this.push(true);
+    } catch (error) {
+      logger.error(`Failed to load live positions for ${this.walletAddress}:`, error);
+      if (!this.stopped) {
+        this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+
+  /**
+   * Follow exactly the orderbooks of the markets the wallet has positions in
+   */
+  private async syncBookChannels(): Promise<void> {
+    if (!this.subscriber) {
+      return;
+    }
+
+    const wanted = new Set(this.positions.map((position) => this.getBookChannel(position)));
+    const added = Array.from(wanted).filter((channel) => !this.bookChannels.has(channel));
+    const removed = Array.from(this.bookChannels).filter((channel) => !wanted.has(channel));
+
+    if (added.length > 0) {
+      await this.subscriber.subscribe(...added);
+    }
+    if (removed.length > 0) {
+      await this.subscriber.unsubscribe(...removed);
+      removed.forEach((channel) => this.mids.delete(channel));
+    }
+    this.bookChannels = wanted;
+  }
+
+  private handleMessage(channel: string, message: string): void {
+    if (this.stopped) {
+      return;
+    }
+
+    if (channel === this.getPositionsChannel()) {
+      this.reload();
+      return;
+    }
+
+    if (!this.bookChannels.has(channel)) {
+      return;
+    }
+
+    try {
+      const { data } = JSON.parse(message) as { data?: { bids?: [string, string][]; asks?: [string, string][] } };
+      const bestBid = parseFloat(data?.bids?.[0]?.[0] ?? '');
+      const bestAsk = parseFloat(data?.asks?.[0]?.[0] ?? '');
+      if (!(bestBid > 0) || !(bestAsk > 0)) {
+        return;
+      }
+
+      const mid = (bestBid + bestAsk) / 2;
+      if (this.mids.get(channel) === mid) {
+        return;
+      }
+
+      this.mids.set(channel, mid);
+      this.push();
+    } catch (error) {
+      logger.debug(`Ignoring unparseable orderbook message on ${channel}`, error);
+    }
+  }
+
+  /**
+   * Emit a snapshot now if allowed, otherwise once the throttle window has passed
+   */
+  private push(immediate: boolean = false): void {
+    if (this.stopped) {
+      return;
+    }
+
+    const wait = immediate ? 0 : this.lastPushAt + PUSH_THROTTLE_MS - Date.now();
+    if (wait <= 0) {
+      if (this.pushTimer) {
+        clearTimeout(this.pushTimer);
+        this.pushTimer = null;
+      }
+      this.lastPushAt = Date.now();
+      this.emit('positions', this.getSnapshot());
+      return;
+    }
+
+    if (!this.pushTimer) {
+      this.pushTimer = setTimeout(() => {
+        this.pushTimer = null;
+        this.push(true);
+      }, wait);
+    }
+  }
+
+  private markPosition(position: Position): LivePosition {
+    const mid = this.mids.get(this.getBookChannel(position));
+    if (mid === undefined) {
+      return { ...position, markSource: 'sync' };
+    }
+
+    const size = parseFloat(position.size);
+    const entryPrice = parseFloat(position.entryPrice);
+    const direction = position.side === 'long' ? 1 : -1;
+    const unrealizedPnl = (mid - entryPrice) * size * direction;
+
+    return {
+      ...position,
+      markPrice: mid.toString(),
+      unrealizedPnl: unrealizedPnl.toString(),
+      markSource: 'orderbook',
+    };
+  }
+
+  private getPositionsChannel(): string {
+    return `positions:update:${this.walletAddress.toLowerCase()}`;
+  }
+
+  private getBookChannel(position: Position): string {
+    return `orderbook:${position.platform}:${PositionService.getMarketSymbol(position)}`;
+  }
+}
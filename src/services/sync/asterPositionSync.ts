@@ -75,7 +75,7 @@ export class AsterPositionSync {
           }
 
           const position = this.mapAsterPosition(walletAddress, asterPosition);
-          await PositionService.upsertPosition(position);
+          await PositionService.upsertPosition(position, 'sync');
           synced++;
 
           logger.debug(`Synced Aster position: ${position.symbol} ${position.side} ${position.size}`);
@@ -251,7 +251,8 @@ export class AsterPositionSync {
             walletAddress,
             'aster',
             dbPosition.symbol,
-            dbPosition.unrealizedPnl // Use last known unrealized PnL as realized
+            dbPosition.unrealizedPnl, // Use last known unrealized PnL as realized
+            { source: 'sync', status: PositionService.isPastLiquidation(dbPosition) ? 'liquidated' : 'closed' }
           );
           logger.info(`Closed removed Aster position: ${dbPosition.symbol}`);
         }
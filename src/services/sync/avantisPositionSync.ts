@@ -82,7 +82,7 @@ export class AvantisPositionSync {
           }
 
           const position = this.mapAvantisPosition(walletAddress, avantisPosition);
-          await PositionService.upsertPosition(position);
+          await PositionService.upsertPosition(position, 'sync');
           synced++;
 
           logger.debug(`Synced Avantis position: ${position.symbol} ${position.side} ${position.size}`);
@@ -224,7 +224,8 @@ export class AvantisPositionSync {
             walletAddress,
             'avantis',
             dbPosition.symbol,
-            dbPosition.unrealizedPnl
+            dbPosition.unrealizedPnl,
+            { source: 'sync', status: PositionService.isPastLiquidation(dbPosition) ? 'liquidated' : 'closed' }
           );
           logger.info(`Closed removed Avantis position: ${dbPosition.symbol}`);
         }
@@ -25,7 +25,7 @@ interface HyperliquidPosition {
   maxLeverage?: number;
 }
 
-interface HyperliquidUserState {
+export interface HyperliquidUserState {
   assetPositions: Array<{
     position: HyperliquidPosition;
     type: 'oneWay' | 'hedge';
@@ -63,7 +63,6 @@ export class HyperliquidPositionSync {
     errors: string[];
   }> {
     const errors: string[] = [];
-    let synced = 0;
 
     try {
       logger.info(`Syncing Hyperliquid positions for ${walletAddress}`);
@@ -77,40 +76,66 @@ export class HyperliquidPositionSync {
         return { synced: 0, errors };
       }
 
-      // Process each position
-      for (const assetPosition of userState.assetPositions) {
-        try {
-          const hlPosition = assetPosition.position;
-
-          // Skip zero-size positions
-          const size = parseFloat(hlPosition.szi);
-          if (size === 0) {
-            continue;
-          }
-
-          const position = this.mapHyperliquidPosition(walletAddress, hlPosition);
-          await PositionService.upsertPosition(position);
-          synced++;
-
-          logger.debug(`Synced Hyperliquid position: ${position.symbol} ${position.side} ${position.size}`);
-        } catch (error) {
-          const errorMsg = `Failed to sync position ${assetPosition.position.coin}: ${error instanceof Error ? error.message : String(error)}`;
-          errors.push(errorMsg);
-          logger.error(errorMsg, error);
-        }
-      }
-
-      // Close positions that are no longer on the exchange
-      await this.closeRemovedPositions(walletAddress, userState.assetPositions);
-
-      logger.info(`Synced ${synced} Hyperliquid positions for ${walletAddress}`);
-      return { synced, errors };
+      return await this.applyPositions(walletAddress, userState.assetPositions);
     } catch (error) {
       const errorMsg = `Failed to sync Hyperliquid positions for ${walletAddress}: ${error instanceof Error ? error.message : String(error)}`;
       errors.push(errorMsg);
       logger.error(errorMsg, error);
-      return { synced, errors };
+      return { synced: 0, errors };
+    }
+  }
+
+  /**
+   * Store a complete set of asset positions for a wallet, from REST or the user stream
+   */
+  async applyPositions(
+    walletAddress: string,
+    assetPositions: HyperliquidUserState['assetPositions']
+  ): Promise<{
+    synced: number;
+    errors: string[];
+  }> {
+    const errors: string[] = [];
+    let synced = 0;
+
+    // Process each position
+    for (const assetPosition of assetPositions) {
+      try {
+        const hlPosition = assetPosition.position;
+
+        // Skip zero-size positions
+        const size = parseFloat(hlPosition.szi);
+        if (size === 0) {
+          continue;
+        }
+
+        const position = this.mapHyperliquidPosition(walletAddress, hlPosition);
+        await PositionService.upsertPosition(position, 'sync');
+        synced++;
+
+        logger.debug(`Synced Hyperliquid position: ${position.symbol} ${position.side} ${position.size}`);
+      } catch (error) {
+        const errorMsg = `Failed to sync position ${assetPosition.position.coin}: ${error instanceof Error ? error.message : String(error)}`;
+        errors.push(errorMsg);
+        logger.error(errorMsg, error);
+      }
     }
+
+    // Close positions that are no longer on the exchange
+    await this.closeRemovedPositions(walletAddress, assetPositions);
+
+    logger.info(`Synced ${synced} Hyperliquid positions for ${walletAddress}`);
+    return { synced, errors };
+  }
+
+  /**
+   * Fetch the account-level margin summary. Account value includes unrealized PnL.
+   */
+  async getAccountSummary(walletAddress: string): Promise<HyperliquidUserState['marginSummary']> {
+    const userState = await this.circuitBreaker.execute(() =>
+      this.fetchUserState(walletAddress)
+    );
+    return userState.marginSummary;
   }
 
   /**
@@ -212,7 +237,8 @@ export class HyperliquidPositionSync {
             walletAddress,
             'hyperliquid',
             dbPosition.symbol,
-            dbPosition.unrealizedPnl // Use last known unrealized PnL as realized
+            dbPosition.unrealizedPnl, // Use last known unrealized PnL as realized
+            { source: 'sync', status: PositionService.isPastLiquidation(dbPosition) ? 'liquidated' : 'closed' }
           );
           logger.info(`Closed removed Hyperliquid position: ${dbPosition.symbol}`);
         }
@@ -0,0 +1,265 @@
+import { PositionService, Position } from '../database/positionService';
+import { logger } from '@/utils/logger';
+import { retry, CircuitBreaker } from '@/utils/retry';
+import { INDEX_TO_SYMBOL_MAP } from '@/services/exchanges/lighter';
+import {
+  LighterAdapter,
+  LighterRestClient,
+  LighterPosition,
+} from '@/services/adapters/lighter';
+
+// Lighter reports margin mode as 0 (cross) / 1 (isolated)
+const LIGHTER_ISOLATED_MARGIN_MODE = 1;
+
+/**
+ * Service for syncing positions from Lighter exchange
+ *
+ * Account data is public, so no API keys are needed: the wallet's L1 address is resolved
+ * to a Lighter account index once, then positions are read by index.
+ */
+export class LighterPositionSync {
+  private circuitBreaker: CircuitBreaker;
+  private adapter = new LighterAdapter();
+  private accountIndexes: Map<string, number> = new Map();
+
+  constructor() {
+    this.circuitBreaker = new CircuitBreaker('lighter-position-sync', {
+      failureThreshold: 3,
+      successThreshold: 2,
+      resetTimeoutMs: 60000,
+      timeout: 10000,
+    });
+  }
+
+  /**
+   * Sync positions for a specific wallet address
+   */
+  async syncPositions(walletAddress: string): Promise<{
+    synced: number;
+    errors: string[];
+  }> {
+    const errors: string[] = [];
+
+    try {
+      logger.info(`Syncing Lighter positions for ${walletAddress}`);
+
+      const accountIndex = await this.resolveAccountIndex(walletAddress);
+      if (accountIndex === null) {
+        // Without an account we can't tell closed positions from a failed lookup, so leave them
+        logger.debug(`No Lighter account found for ${walletAddress}`);
+        return { synced: 0, errors };
+      }
+
+      const positions = await this.circuitBreaker.execute(() =>
+        this.fetchPositions(accountIndex)
+      );
+
+      return await this.applyPositions(walletAddress, positions);
+    } catch (error) {
+      const errorMsg = `Failed to sync Lighter positions for ${walletAddress}: ${error instanceof Error ? error.message : String(error)}`;
+      errors.push(errorMsg);
+      logger.error(errorMsg, error);
+      return { synced: 0, errors };
+    }
+  }
+
+  /**
+   * Store a complete set of account positions for a wallet, from REST or the account stream
+   */
+  async applyPositions(
+    walletAddress: string,
+    positions: LighterPosition[]
+  ): Promise<{
+    synced: number;
+    errors: string[];
+  }> {
+    const errors: string[] = [];
+    let synced = 0;
+
+    // Process each position
+    for (const lighterPosition of positions) {
+      try {
+        const position = this.mapLighterPosition(walletAddress, lighterPosition);
+        if (!position) {
+          continue;
+        }
+
+        await PositionService.upsertPosition(position, 'sync');
+        synced++;
+
+        logger.debug(`Synced Lighter position: ${position.symbol} ${position.side} ${position.size}`);
+      } catch (error) {
+        const errorMsg = `Failed to sync Lighter position for market ${lighterPosition.market_id}: ${error instanceof Error ? error.message : String(error)}`;
+        errors.push(errorMsg);
+        logger.error(errorMsg, error);
+      }
+    }
+
+    // Close positions that are no longer on the exchange
+    await this.closeRemovedPositions(walletAddress, positions);
+
+    logger.info(`Synced ${synced} Lighter positions for ${walletAddress}`);
+    return { synced, errors };
+  }
+
+  /**
+   * Find the wallet's Lighter account index from its L1 address
+   */
+  async resolveAccountIndex(walletAddress: string): Promise<number | null> {
+    const key = walletAddress.toLowerCase();
+    const cached = this.accountIndexes.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const account = await this.adapter.getAccountByAddress(walletAddress);
+    const accountIndex = account?.account_index;
+    if (accountIndex === undefined || accountIndex === null) {
+      return null;
+    }
+
+    this.accountIndexes.set(key, accountIndex);
+    return accountIndex;
+  }
+
+  /**
+   * Fetch open positions for an account from Lighter API
+   */
+  private async fetchPositions(accountIndex: number): Promise<LighterPosition[]> {
+    return retry(
+      async () => {
+        // The adapter returns null on failure; surface it so the retry and breaker see it
+        const account = await this.adapter.getAccountByIndex(accountIndex);
+        if (!account) {
+          throw new Error(`Lighter account ${accountIndex} could not be fetched`);
+        }
+        return LighterRestClient.parsePositions(account.sub_accounts);
+      },
+      {
+        maxRetries: 3,
+        initialDelayMs: 1000,
+        backoffMultiplier: 2,
+      }
+    );
+  }
+
+  /**
+   * Map Lighter position format to our Position interface
+   */
+  private mapLighterPosition(
+    walletAddress: string,
+    lighterPosition: LighterPosition
+  ): Omit<Position, 'id' | 'createdAt' | 'lastUpdatedAt'> | null {
+    const symbol = INDEX_TO_SYMBOL_MAP[lighterPosition.market_id];
+    if (!symbol) {
+      logger.debug(`Skipping Lighter position on unmapped market ${lighterPosition.market_id}`);
+      return null;
+    }
+
+    const size = Math.abs(parseFloat(lighterPosition.size));
+    const positionValue = Math.abs(parseFloat(lighterPosition.position_value || '0'));
+    const markPrice = size > 0 && positionValue > 0 ? positionValue / size : parseFloat(lighterPosition.entry_price);
+
+    // Initial margin fraction is a percentage, e.g. "10.00" for 10x
+    const initialMarginFraction = parseFloat(lighterPosition.leverage);
+    const leverage = initialMarginFraction > 0 ? Math.max(Math.round(100 / initialMarginFraction), 1) : 1;
+
+    const marginMode: 'cross' | 'isolated' =
+      lighterPosition.margin_mode === LIGHTER_ISOLATED_MARGIN_MODE ? 'isolated' : 'cross';
+
+    // Cross positions have no allocated margin, so use their initial margin requirement
+    const allocatedMargin = parseFloat(lighterPosition.margin || '0');
+    const marginUsed = allocatedMargin > 0
+      ? allocatedMargin
+      : positionValue * (initialMarginFraction > 0 ? initialMarginFraction / 100 : 1);
+
+    return {
+      walletAddress,
+      platform: 'lighter',
+      symbol,
+      side: lighterPosition.side,
+      size: size.toString(),
+      entryPrice: lighterPosition.entry_price,
+      markPrice: markPrice.toString(),
+      leverage,
+      marginMode,
+      marginUsed: marginUsed.toString(),
+      unrealizedPnl: lighterPosition.unrealized_pnl,
+      realizedPnl: '0', // Lighter doesn't provide this in position data
+      liquidationPrice: lighterPosition.liquidation_price && parseFloat(lighterPosition.liquidation_price) > 0
+        ? lighterPosition.liquidation_price
+        : undefined,
+      stopLossPrice: undefined,
+      takeProfitPrice: undefined,
+      platformPositionId: `${walletAddress}-${symbol}`,
+      platformData: {
+        marketId: lighterPosition.market_id,
+        initialMarginFraction: lighterPosition.leverage,
+        positionValue: lighterPosition.position_value,
+      },
+      status: 'open',
+      openedAt: Date.now(), // Lighter doesn't provide this, use current time for existing positions
+    };
+  }
+
+  /**
+   * Close positions that no longer exist on the exchange
+   */
+  private async closeRemovedPositions(
+    walletAddress: string,
+    currentPositions: LighterPosition[]
+  ): Promise<void> {
+    try {
+      // Get all open positions from our database for this wallet on Lighter
+      const dbPositions = await PositionService.getUserPositions(walletAddress, 'lighter');
+
+      // Get symbols that still exist on the exchange
+      const exchangeSymbols = new Set(
+        currentPositions
+          .map((pos) => INDEX_TO_SYMBOL_MAP[pos.market_id])
+          .filter(Boolean)
+      );
+
+      // Close positions that are no longer on the exchange
+      for (const dbPosition of dbPositions) {
+        if (!exchangeSymbols.has(dbPosition.symbol) && dbPosition.status === 'open') {
+          await PositionService.closePosition(
+            walletAddress,
+            'lighter',
+            dbPosition.symbol,
+            dbPosition.unrealizedPnl, // Use last known unrealized PnL as realized
+            { source: 'sync', status: PositionService.isPastLiquidation(dbPosition) ? 'liquidated' : 'closed' }
+          );
+          logger.info(`Closed removed Lighter position: ${dbPosition.symbol}`);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to close removed Lighter positions:', error);
+    }
+  }
+
+  /**
+   * Get circuit breaker status
+   */
+  getStatus(): {
+    state: string;
+    healthy: boolean;
+  } {
+    const state = this.circuitBreaker.getState();
+    return {
+      state,
+      healthy: state === 'CLOSED',
+    };
+  }
+
+  /**
+   * Reset circuit breaker
+   */
+  reset(): void {
+    this.circuitBreaker.reset();
+    logger.info('Lighter position sync circuit breaker reset');
+  }
+}
+
+// Export singleton instance
+export const lighterPositionSync = new LighterPositionSync();
@@ -1,10 +1,13 @@
 import { hyperliquidPositionSync } from './hyperliquidPositionSync';
 import { asterPositionSync } from './asterPositionSync';
 import { avantisPositionSync } from './avantisPositionSync';
+import { lighterPositionSync } from './lighterPositionSync';
+import { PositionService } from '../database/positionService';
+import { redisPublisher } from '../publishers/redis-publisher';
 import { logger } from '@/utils/logger';
-import { database } from '@/config/database';
+import { getAsterCredentials } from '@/services/adapters/aster';
 
-export type Platform = 'hyperliquid' | 'aster' | 'avantis' | 'all';
+export type Platform = 'hyperliquid' | 'aster' | 'avantis' | 'lighter' | 'all';
 
 export interface SyncResult {
   platform: string;
@@ -39,9 +42,9 @@ export class PositionSyncOrchestrator {
     logger.info(`Starting position sync for ${walletAddress} on ${platforms}`);
 
     // Determine which platforms to sync
-    const platformsToSync: Array<'hyperliquid' | 'aster' | 'avantis'> = platforms === 'all'
-      ? ['hyperliquid', 'aster', 'avantis']
-      : [platforms as 'hyperliquid' | 'aster' | 'avantis'];
+    const platformsToSync: Array<'hyperliquid' | 'aster' | 'avantis' | 'lighter'> = platforms === 'all'
+      ? ['hyperliquid', 'aster', 'avantis', 'lighter']
+      : [platforms as 'hyperliquid' | 'aster' | 'avantis' | 'lighter'];
 
     // Sync all platforms in parallel
     const syncPromises = platformsToSync.map((platform) =>
@@ -76,6 +79,8 @@ export class PositionSyncOrchestrator {
       `Position sync complete for ${walletAddress}: ${totalSynced} positions synced, ${totalErrors} errors in ${duration}ms`
     );
 
+    await this.publishPositions(walletAddress, platforms);
+
     return {
       walletAddress,
       results,
@@ -90,7 +95,7 @@ export class PositionSyncOrchestrator {
    */
   private async syncSinglePlatform(
     walletAddress: string,
-    platform: 'hyperliquid' | 'aster' | 'avantis'
+    platform: 'hyperliquid' | 'aster' | 'avantis' | 'lighter'
   ): Promise<SyncResult> {
     const startTime = Date.now();
 
@@ -101,7 +106,7 @@ export class PositionSyncOrchestrator {
         syncResult = await hyperliquidPositionSync.syncPositions(walletAddress);
       } else if (platform === 'aster') {
         // Try to get API credentials for Aster
-        const credentials = await this.getAsterCredentials(walletAddress);
+        const credentials = await getAsterCredentials(walletAddress);
 
         if (credentials) {
           syncResult = await asterPositionSync.syncPositionsWithApiKeys(
@@ -117,6 +122,9 @@ export class PositionSyncOrchestrator {
       } else if (platform === 'avantis') {
         // Avantis uses direct contract queries (no API keys needed)
         syncResult = await avantisPositionSync.syncPositions(walletAddress);
+      } else if (platform === 'lighter') {
+        // Lighter account data is public; the account is resolved from the wallet address
+        syncResult = await lighterPositionSync.syncPositions(walletAddress);
       } else {
         throw new Error(`Unknown platform: ${platform}`);
       }
@@ -140,36 +148,19 @@ export class PositionSyncOrchestrator {
   }
 
   /**
-   * Get Aster API credentials for a wallet from user_accounts table
+   * Publish a wallet's open positions on positions:update:<wallet> after they were synced
    */
-  private async getAsterCredentials(
-    walletAddress: string
-  ): Promise<{ apiKey: string; apiSecret: string } | null> {
+  async publishPositions(walletAddress: string, platform: string): Promise<void> {
     try {
-      const query = `
-        SELECT aster_api_key_encrypted, aster_api_secret_encrypted
-        FROM user_accounts
-        WHERE wallet_address = $1 AND is_active = true
-      `;
-
-      const result = await database.query<{
-        aster_api_key_encrypted: string | null;
-        aster_api_secret_encrypted: string | null;
-      }>(query, [walletAddress]);
-
-      if (result.rows.length === 0 || !result.rows[0].aster_api_key_encrypted) {
-        return null;
-      }
-
-      // TODO: Decrypt credentials (currently stored as encrypted)
-      // For now, assume they're stored in plain text (in production, use proper encryption)
-      return {
-        apiKey: result.rows[0].aster_api_key_encrypted,
-        apiSecret: result.rows[0].aster_api_secret_encrypted || '',
-      };
+      const positions = await PositionService.getUserPositions(walletAddress);
+      await redisPublisher.publishPositionUpdate({
+        walletAddress,
+        platform,
+        positions,
+        timestamp: Date.now(),
+      });
     } catch (error) {
-      logger.error(`Failed to fetch Aster credentials for ${walletAddress}:`, error);
-      return null;
+      logger.error(`Failed to publish positions for ${walletAddress}:`, error);
     }
   }
 
@@ -181,6 +172,7 @@ export class PositionSyncOrchestrator {
       hyperliquid: hyperliquidPositionSync.getStatus(),
       aster: asterPositionSync.getStatus(),
       avantis: avantisPositionSync.getStatus(),
+      lighter: lighterPositionSync.getStatus(),
     };
   }
 
@@ -191,6 +183,7 @@ export class PositionSyncOrchestrator {
     hyperliquidPositionSync.reset();
     asterPositionSync.reset();
     avantisPositionSync.reset();
+    lighterPositionSync.reset();
     logger.info('All position sync circuit breakers reset');
   }
 
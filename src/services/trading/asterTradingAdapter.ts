@@ -0,0 +1,228 @@
+import { createHmac } from 'crypto';
+import axios, { AxiosError } from 'axios';
+import { exchangeConfig } from '@/config/exchanges';
+import { logger } from '@/utils/logger';
+import { getAsterCredentials, AsterCredentials } from '@/services/adapters/aster';
+import { TradingError } from './errors';
+import {
+  TradingAdapter,
+  PlaceOrderRequest,
+  CancelOrderRequest,
+  OrderResult,
+  NormalizedOrder,
+  OrderStatus,
+  TimeInForce,
+} from './types';
+
+interface AsterOrderResponse {
+  orderId: number;
+  clientOrderId: string;
+  symbol: string;
+  status: string;
+  side: 'BUY' | 'SELL';
+  type: string;
+  price: string;
+  origQty: string;
+  executedQty: string;
+  avgPrice?: string;
+  timeInForce: string;
+  reduceOnly: boolean;
+  updateTime?: number;
+  time?: number;
+}
+
+const TIF_TO_ASTER: Record<TimeInForce, string> = {
+  GTC: 'GTC',
+  IOC: 'IOC',
+  POST_ONLY: 'GTX',
+};
+
+const STATUS_FROM_ASTER: Record<string, OrderStatus> = {
+  NEW: 'open',
+  PARTIALLY_FILLED: 'partially_filled',
+  FILLED: 'filled',
+  CANCELED: 'cancelled',
+  EXPIRED: 'cancelled',
+  REJECTED: 'rejected',
+};
+
+/**
+ * Aster futures trading via its Binance-compatible signed REST API
+ */
+export class AsterTradingAdapter implements TradingAdapter {
+  readonly platform = 'aster' as const;
+
+  async placeOrder(request: PlaceOrderRequest): Promise<OrderResult> {
+    const credentials = await this.requireCredentials(request.walletAddress);
+
+    const params: Record<string, string> = {
+      symbol: this.toAsterSymbol(request.symbol),
+      side: request.side === 'buy' ? 'BUY' : 'SELL',
+      type: request.type === 'market' ? 'MARKET' : 'LIMIT',
+      quantity: request.size,
+    };
+
+    if (request.type === 'limit') {
+      params.price = request.price!;
+      params.timeInForce = TIF_TO_ASTER[request.timeInForce || 'GTC'];
+    }
+    if (request.reduceOnly) {
+      params.reduceOnly = 'true';
+    }
+    if (request.clientOrderId) {
+      params.newClientOrderId = request.clientOrderId;
+    }
+
+    const order = await this.signedRequest<AsterOrderResponse>('POST', '/fapi/v1/order', params, credentials);
+    logger.info(`Aster: Placed order ${order.orderId} for ${request.walletAddress}`);
+
+    return {
+      orderId: String(order.orderId),
+      clientOrderId: order.clientOrderId,
+      platform: this.platform,
+      symbol: request.symbol,
+      status: STATUS_FROM_ASTER[order.status] || 'pending',
+      filledSize: order.executedQty,
+      averagePrice: order.avgPrice,
+      timestamp: order.updateTime || Date.now(),
+    };
+  }
+
+  async cancelOrder(request: CancelOrderRequest): Promise<OrderResult> {
+    const credentials = await this.requireCredentials(request.walletAddress);
+
+    const order = await this.signedRequest<AsterOrderResponse>('DELETE', '/fapi/v1/order', {
+      symbol: this.toAsterSymbol(request.symbol),
+      orderId: request.orderId,
+    }, credentials);
+
+    return {
+      orderId: String(order.orderId),
+      clientOrderId: order.clientOrderId,
+      platform: this.platform,
+      symbol: request.symbol,
+      status: STATUS_FROM_ASTER[order.status] || 'cancelled',
+      filledSize: order.executedQty,
+      timestamp: order.updateTime || Date.now(),
+    };
+  }
+
+  async getOpenOrders(walletAddress: string): Promise<NormalizedOrder[]> {
+    const credentials = await this.requireCredentials(walletAddress);
+    const orders = await this.signedRequest<AsterOrderResponse[]>('GET', '/fapi/v1/openOrders', {}, credentials);
+    return orders.map((order) => this.toNormalizedOrder(order));
+  }
+
+  async getOrder(walletAddress: string, symbol: string, orderId: string): Promise<NormalizedOrder | null> {
+    const credentials = await this.requireCredentials(walletAddress);
+
+    try {
+      const order = await this.signedRequest<AsterOrderResponse>('GET', '/fapi/v1/order', {
+        symbol: this.toAsterSymbol(symbol),
+        orderId,
+      }, credentials);
+      return this.toNormalizedOrder(order);
+    } catch (error) {
+      if (error instanceof TradingError && error.code === 'ORDER_NOT_FOUND') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private toNormalizedOrder(order: AsterOrderResponse): NormalizedOrder {
+    return {
+      orderId: String(order.orderId),
+      clientOrderId: order.clientOrderId,
+      platform: this.platform,
+      symbol: order.symbol.replace('USDT', ''),
+      side: order.side === 'BUY' ? 'buy' : 'sell',
+      type: order.type === 'MARKET' ? 'market' : 'limit',
+      price: order.type === 'MARKET' ? null : order.price,
+      size: order.origQty,
+      filledSize: order.executedQty,
+      averagePrice: parseFloat(order.avgPrice || '0') > 0 ? order.avgPrice : undefined,
+      status: STATUS_FROM_ASTER[order.status] || 'open',
+      timeInForce: order.timeInForce === 'GTX' ? 'POST_ONLY' : (order.timeInForce as TimeInForce) || null,
+      reduceOnly: order.reduceOnly,
+      timestamp: order.time || order.updateTime || 0,
+    };
+  }
+
+  private async requireCredentials(walletAddress: string): Promise<AsterCredentials> {
+    const credentials = await getAsterCredentials(walletAddress);
+    if (!credentials) {
+      throw new TradingError('CREDENTIALS_MISSING', `No Aster API credentials stored for ${walletAddress}`);
+    }
+    return credentials;
+  }
+
+  /**
+   * Send an HMAC-SHA256 signed request and map Aster error codes
+   */
+  private async signedRequest<T>(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    params: Record<string, string>,
+    credentials: AsterCredentials
+  ): Promise<T> {
+    const query = new URLSearchParams({ ...params, timestamp: Date.now().toString() });
+    const signature = createHmac('sha256', credentials.apiSecret).update(query.toString()).digest('hex');
+    query.append('signature', signature);
+
+    try {
+      const response = await axios.request<T>({
+        method,
+        url: `${exchangeConfig.aster.restUrl}${path}?${query.toString()}`,
+        headers: { 'X-MBX-APIKEY': credentials.apiKey },
+        timeout: 10000,
+      });
+      return response.data;
+    } catch (error) {
+      throw this.mapError(error as AxiosError<{ code?: number; msg?: string }>);
+    }
+  }
+
+  private mapError(error: AxiosError<{ code?: number; msg?: string }>): TradingError {
+    const code = error.response?.data?.code;
+    const msg = error.response?.data?.msg || error.message;
+
+    if (!error.response) {
+      return new TradingError('VENUE_UNAVAILABLE', 'Aster API is unreachable', msg);
+    }
+
+    switch (code) {
+      case -2019:
+        return new TradingError('INSUFFICIENT_MARGIN', 'Insufficient margin on Aster', msg);
+      case -2011:
+      case -2013:
+        return new TradingError('ORDER_NOT_FOUND', 'Order not found on Aster', msg);
+      case -1003:
+      case -1015:
+        return new TradingError('RATE_LIMITED', 'Aster rate limit exceeded', msg);
+      case -2014:
+      case -2015:
+      case -1022:
+        return new TradingError('CREDENTIALS_MISSING', 'Aster rejected the stored API credentials', msg);
+      case -1121:
+      case -1111:
+      case -1013:
+      case -4164:
+        return new TradingError('INVALID_REQUEST', msg, msg);
+    }
+
+    if (error.response.status === 429 || error.response.status === 418) {
+      return new TradingError('RATE_LIMITED', 'Aster rate limit exceeded', msg);
+    }
+    if (error.response.status >= 500) {
+      return new TradingError('VENUE_UNAVAILABLE', 'Aster API error', msg);
+    }
+    return new TradingError('ORDER_REJECTED', `Aster rejected the order: ${msg}`, msg);
+  }
+
+  private toAsterSymbol(symbol: string): string {
+    return `${symbol.toUpperCase()}USDT`;
+  }
+}
+
+export const asterTradingAdapter = new AsterTradingAdapter();
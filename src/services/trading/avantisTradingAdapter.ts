@@ -0,0 +1,34 @@
+import { TradingError } from './errors';
+import {
+  TradingAdapter,
+  PlaceOrderRequest,
+  CancelOrderRequest,
+  OrderResult,
+  NormalizedOrder,
+} from './types';
+
+/**
+ * Avantis trades are on-chain contract calls sent from the user's own wallet,
+ * so there is nothing for the backend to sign or relay.
+ */
+export class AvantisTradingAdapter implements TradingAdapter {
+  readonly platform = 'avantis' as const;
+
+  async placeOrder(request: PlaceOrderRequest): Promise<OrderResult> {
+    throw new TradingError('NOT_SUPPORTED', 'Avantis orders must be submitted on-chain from the user wallet');
+  }
+
+  async cancelOrder(request: CancelOrderRequest): Promise<OrderResult> {
+    throw new TradingError('NOT_SUPPORTED', 'Avantis orders must be cancelled on-chain from the user wallet');
+  }
+
+  async getOpenOrders(walletAddress: string): Promise<NormalizedOrder[]> {
+    throw new TradingError('NOT_SUPPORTED', 'Avantis open orders are not available through the API');
+  }
+
+  async getOrder(walletAddress: string, symbol: string, orderId: string): Promise<NormalizedOrder | null> {
+    throw new TradingError('NOT_SUPPORTED', 'Avantis orders are not available through the API');
+  }
+}
+
+export const avantisTradingAdapter = new AvantisTradingAdapter();
@@ -0,0 +1,41 @@
+/**
+ * Normalized trading errors returned by every TradingAdapter
+ */
+
+export type TradingErrorCode =
+  | 'INVALID_REQUEST'
+  | 'CREDENTIALS_MISSING'
+  | 'SIGNATURE_REQUIRED'
+  | 'INSUFFICIENT_MARGIN'
+  | 'ORDER_NOT_FOUND'
+  | 'ORDER_REJECTED'
+  | 'RATE_LIMITED'
+  | 'NOT_SUPPORTED'
+  | 'VENUE_UNAVAILABLE';
+
+const STATUS_BY_CODE: Record<TradingErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  CREDENTIALS_MISSING: 403,
+  SIGNATURE_REQUIRED: 401,
+  INSUFFICIENT_MARGIN: 422,
+  ORDER_NOT_FOUND: 404,
+  ORDER_REJECTED: 422,
+  RATE_LIMITED: 429,
+  NOT_SUPPORTED: 501,
+  VENUE_UNAVAILABLE: 502,
+};
+
+export class TradingError extends Error {
+  public code: TradingErrorCode;
+  public statusCode: number;
+  public venueMessage?: string;
+
+  constructor(code: TradingErrorCode, message: string, venueMessage?: string) {
+    super(message);
+    this.name = 'TradingError';
+    this.code = code;
+    this.statusCode = STATUS_BY_CODE[code];
+    this.venueMessage = venueMessage;
+    Object.setPrototypeOf(this, TradingError.prototype);
+  }
+}
@@ -0,0 +1,90 @@
+jest.mock('axios');
+
+import axios from 'axios';
+import { HyperliquidTradingAdapter } from './hyperliquidTradingAdapter';
+import { PlaceOrderRequest, SignedAction } from './types';
+
+const post = axios.post as jest.Mock;
+
+function signedOrder(overrides: Record<string, unknown> = {}, extraOrders: unknown[] = []): SignedAction {
+  return {
+    action: {
+      type: 'order',
+      orders: [{ a: 1, b: true, p: '2500.5', s: '0.4', r: false, t: { limit: { tif: 'Ioc' } }, ...overrides }, ...extraOrders],
+      grouping: 'na',
+    },
+    nonce: 1700000000000,
+    signature: { r: '0x1', s: '0x2', v: 27 },
+  };
+}
+
+function request(signedAction: SignedAction, overrides: Partial<PlaceOrderRequest> = {}): PlaceOrderRequest {
+  return {
+    walletAddress: '0x0000000000000000000000000000000000000001',
+    platform: 'hyperliquid',
+    symbol: 'ETH',
+    side: 'buy',
+    type: 'limit',
+    size: '0.40',
+    price: '2500.5',
+    timeInForce: 'IOC',
+    signedAction,
+    ...overrides,
+  };
+}
+
+describe('HyperliquidTradingAdapter signed orders', () => {
+  let adapter: HyperliquidTradingAdapter;
+
+  beforeEach(() => {
+    post.mockReset();
+    post.mockImplementation(async (url: string, body: any) => {
+      if (body.type === 'meta') {
+        return { data: { universe: [{ name: 'BTC', szDecimals: 5 }, { name: 'ETH', szDecimals: 4 }] } };
+      }
+      return { data: { status: 'ok', response: { data: { statuses: [{ resting: { oid: 42 } }] } } } };
+    });
+    adapter = new HyperliquidTradingAdapter();
+  });
+
+  const relayed = () => post.mock.calls.filter(([url]) => String(url).endsWith('/exchange'));
+
+  it('relays an action that matches the request', async () => {
+    const result = await adapter.placeOrder(request(signedOrder()));
+
+    expect(result.orderId).toBe('42');
+    expect(relayed()).toHaveLength(1);
+  });
+
+  it.each([
+    ['coin', signedOrder({ a: 0 }), {}],
+    ['side', signedOrder({ b: false }), {}],
+    ['size', signedOrder({ s: '4' }), {}],
+    ['price', signedOrder({ p: '2600' }), {}],
+    ['reduce-only flag', signedOrder({ r: true }), {}],
+    ['time in force', signedOrder({ t: { limit: { tif: 'Gtc' } } }), {}],
+    ['price (omitted from the request)', signedOrder(), { price: undefined }],
+  ])('rejects a signed order that disagrees on %s', async (_field, signed, overrides) => {
+    await expect(adapter.placeOrder(request(signed, overrides))).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    expect(relayed()).toHaveLength(0);
+  });
+
+  it('rejects actions that carry extra orders', async () => {
+    const signed = signedOrder({}, [{ a: 0, b: false, p: '1', s: '100', r: false, t: { limit: { tif: 'Gtc' } } }]);
+
+    await expect(adapter.placeOrder(request(signed))).rejects.toThrow('exactly one order');
+    expect(relayed()).toHaveLength(0);
+  });
+
+  it('returns the signed order terms for a symbol', async () => {
+    await expect(adapter.getSignedOrderTerms(signedOrder(), 'eth')).resolves.toEqual({
+      side: 'buy',
+      size: '0.4',
+      price: '2500.5',
+      timeInForce: 'IOC',
+      reduceOnly: false,
+      clientOrderId: undefined,
+    });
+    await expect(adapter.getSignedOrderTerms(signedOrder(), 'SOL')).rejects.toThrow('not listed');
+  });
+});
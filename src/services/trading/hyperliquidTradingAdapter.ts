@@ -0,0 +1,366 @@
+import axios, { AxiosError } from 'axios';
+import { exchangeConfig } from '@/config/exchanges';
+import { logger } from '@/utils/logger';
+import { TradingError } from './errors';
+import {
+  TradingAdapter,
+  PlaceOrderRequest,
+  CancelOrderRequest,
+  OrderResult,
+  NormalizedOrder,
+  SignedAction,
+  OrderSide,
+  OrderStatus,
+  TimeInForce,
+} from './types';
+
+/**
+ * Order as it appears in a signed `order` action (Hyperliquid wire format)
+ */
+interface HyperliquidOrderWire {
+  a: number;
+  b: boolean;
+  p: string;
+  s: string;
+  r: boolean;
+  t: { limit?: { tif: string }; trigger?: Record<string, unknown> };
+  c?: string;
+}
+
+/**
+ * The single order carried by a signed action, in venue-agnostic terms
+ */
+export interface SignedOrderTerms {
+  side: OrderSide;
+  size: string;
+  price: string;
+  timeInForce: TimeInForce | null;
+  reduceOnly: boolean;
+  clientOrderId?: string;
+}
+
+interface HyperliquidMeta {
+  universe: Array<{ name: string; szDecimals: number }>;
+}
+
+interface HyperliquidOpenOrder {
+  coin: string;
+  side: 'B' | 'A';
+  limitPx: string;
+  sz: string;
+  origSz: string;
+  oid: number;
+  timestamp: number;
+  cloid?: string;
+  reduceOnly?: boolean;
+  orderType?: string;
+  tif?: string;
+}
+
+type HyperliquidOrderStatus =
+  | { resting: { oid: number; cloid?: string } }
+  | { filled: { oid: number; totalSz: string; avgPx: string; cloid?: string } }
+  | { error: string }
+  | 'success';
+
+interface HyperliquidOrderStatusResponse {
+  status: 'order' | 'unknownOid';
+  order?: {
+    order: HyperliquidOpenOrder;
+    status: string;
+    statusTimestamp: number;
+  };
+}
+
+const STATUS_FROM_HYPERLIQUID: Record<string, OrderStatus> = {
+  open: 'open',
+  filled: 'filled',
+  triggered: 'open',
+  canceled: 'cancelled',
+  marginCanceled: 'cancelled',
+  reduceOnlyCanceled: 'cancelled',
+  rejected: 'rejected',
+};
+
+const TIF_FROM_HYPERLIQUID: Record<string, TimeInForce> = {
+  Gtc: 'GTC',
+  Ioc: 'IOC',
+  Alo: 'POST_ONLY',
+};
+
+// Asset indexes only change when Hyperliquid lists a market
+const META_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Hyperliquid trading.
+ *
+ * Hyperliquid L1 actions are signed by the user's wallet (or its agent), so the
+ * backend validates and relays an already-signed action to the exchange endpoint.
+ */
+export class HyperliquidTradingAdapter implements TradingAdapter {
+  readonly platform = 'hyperliquid' as const;
+  private readonly baseUrl = exchangeConfig.hyperliquid.restUrl.replace(/\/info$/, '');
+  private assetIndexes: Map<string, number> = new Map();
+  private assetIndexesLoadedAt = 0;
+
+  async placeOrder(request: PlaceOrderRequest): Promise<OrderResult> {
+    const signed = this.requireSignedAction(request.signedAction, 'order');
+    const terms = await this.getSignedOrderTerms(signed, request.symbol);
+    this.checkSignedOrderMatches(terms, request);
+
+    const statuses = await this.relay(signed);
+    const status = statuses[0];
+
+    if (!status || status === 'success') {
+      throw new TradingError('ORDER_REJECTED', 'Hyperliquid returned no order status');
+    }
+    if ('error' in status) {
+      throw this.mapError(status.error);
+    }
+
+    if ('filled' in status) {
+      logger.info(`Hyperliquid: Order ${status.filled.oid} filled for ${request.walletAddress}`);
+      return {
+        orderId: String(status.filled.oid),
+        clientOrderId: status.filled.cloid,
+        platform: this.platform,
+        symbol: request.symbol,
+        status: 'filled',
+        filledSize: status.filled.totalSz,
+        averagePrice: status.filled.avgPx,
+        timestamp: Date.now(),
+      };
+    }
+
+    logger.info(`Hyperliquid: Order ${status.resting.oid} resting for ${request.walletAddress}`);
+    return {
+      orderId: String(status.resting.oid),
+      clientOrderId: status.resting.cloid,
+      platform: this.platform,
+      symbol: request.symbol,
+      status: 'open',
+      timestamp: Date.now(),
+    };
+  }
+
+  async cancelOrder(request: CancelOrderRequest): Promise<OrderResult> {
+    const signed = this.requireSignedAction(request.signedAction, 'cancel');
+
+    const cancels: Array<{ o: number }> = signed.action.cancels || [];
+    if (!cancels.some((c) => String(c.o) === request.orderId)) {
+      throw new TradingError('INVALID_REQUEST', 'Signed cancel action does not reference this order id');
+    }
+
+    const statuses = await this.relay(signed);
+    const status = statuses[0];
+    if (status && status !== 'success' && 'error' in status) {
+      throw this.mapError(status.error);
+    }
+
+    return {
+      orderId: request.orderId,
+      platform: this.platform,
+      symbol: request.symbol,
+      status: 'cancelled',
+      timestamp: Date.now(),
+    };
+  }
+
+  async getOpenOrders(walletAddress: string): Promise<NormalizedOrder[]> {
+    try {
+      const response = await axios.post<HyperliquidOpenOrder[]>(`${this.baseUrl}/info`, {
+        type: 'frontendOpenOrders',
+        user: walletAddress,
+      }, { timeout: 10000 });
+
+      return response.data.map((order) => this.toNormalizedOrder(order));
+    } catch (error) {
+      throw new TradingError('VENUE_UNAVAILABLE', 'Failed to fetch Hyperliquid open orders', (error as Error).message);
+    }
+  }
+
+  async getOrder(walletAddress: string, symbol: string, orderId: string): Promise<NormalizedOrder | null> {
+    let response;
+    try {
+      response = await axios.post<HyperliquidOrderStatusResponse>(`${this.baseUrl}/info`, {
+        type: 'orderStatus',
+        user: walletAddress,
+        oid: parseInt(orderId),
+      }, { timeout: 10000 });
+    } catch (error) {
+      throw new TradingError('VENUE_UNAVAILABLE', 'Failed to fetch Hyperliquid order status', (error as Error).message);
+    }
+
+    if (response.data.status !== 'order' || !response.data.order) {
+      return null;
+    }
+    return this.toNormalizedOrder(response.data.order.order, response.data.order.status);
+  }
+
+  private toNormalizedOrder(order: HyperliquidOpenOrder, venueStatus: string = 'open'): NormalizedOrder {
+    const size = parseFloat(order.sz);
+    const originalSize = parseFloat(order.origSz || order.sz);
+    const filledSize = originalSize - size;
+
+    let status = STATUS_FROM_HYPERLIQUID[venueStatus] || 'cancelled';
+    if (status === 'open' && filledSize > 0) {
+      status = 'partially_filled';
+    }
+
+    return {
+      orderId: String(order.oid),
+      clientOrderId: order.cloid,
+      platform: this.platform,
+      symbol: order.coin,
+      side: order.side === 'B' ? 'buy' : 'sell',
+      type: order.orderType === 'Market' ? 'market' : 'limit',
+      price: order.limitPx,
+      size: order.origSz || order.sz,
+      filledSize: String(filledSize),
+      status,
+      timeInForce: (order.tif && TIF_FROM_HYPERLIQUID[order.tif]) || null,
+      reduceOnly: order.reduceOnly || false,
+      timestamp: order.timestamp,
+    };
+  }
+
+  /**
+   * Validate a signed order action for a symbol and return the order it carries.
+   * Only single-order actions are accepted, so nothing beyond the reviewed order is relayed.
+   */
+  async getSignedOrderTerms(signedAction: SignedAction | undefined, symbol: string): Promise<SignedOrderTerms> {
+    const signed = this.requireSignedAction(signedAction, 'order');
+    const orders: HyperliquidOrderWire[] = Array.isArray(signed.action.orders) ? signed.action.orders : [];
+    if (orders.length !== 1) {
+      throw new TradingError('INVALID_REQUEST', `Signed Hyperliquid action must contain exactly one order, got ${orders.length}`);
+    }
+
+    const order = orders[0];
+    if (order.a !== await this.getAssetIndex(symbol)) {
+      throw new TradingError('INVALID_REQUEST', `Signed Hyperliquid order is not for ${symbol}`);
+    }
+    if (typeof order.b !== 'boolean' || !(parseFloat(order.s) > 0) || !(parseFloat(order.p) > 0)) {
+      throw new TradingError('INVALID_REQUEST', 'Signed Hyperliquid order is malformed');
+    }
+    if (!order.t?.limit) {
+      throw new TradingError('INVALID_REQUEST', 'Signed Hyperliquid trigger orders are not supported');
+    }
+
+    return {
+      side: order.b ? 'buy' : 'sell',
+      size: order.s,
+      price: order.p,
+      timeInForce: TIF_FROM_HYPERLIQUID[order.t.limit.tif] || null,
+      reduceOnly: order.r === true,
+      clientOrderId: order.c,
+    };
+  }
+
+  /**
+   * The relayed action is what executes, so it must be the order that was requested
+   */
+  private checkSignedOrderMatches(terms: SignedOrderTerms, request: PlaceOrderRequest): void {
+    const mismatches: string[] = [];
+    if (terms.side !== request.side) {
+      mismatches.push('side');
+    }
+    if (parseFloat(terms.size) !== parseFloat(request.size)) {
+      mismatches.push('size');
+    }
+    if (request.price === undefined || parseFloat(terms.price) !== parseFloat(request.price)) {
+      mismatches.push('price');
+    }
+    if (terms.reduceOnly !== (request.reduceOnly || false)) {
+      mismatches.push('reduceOnly');
+    }
+    const timeInForce = request.type === 'market' ? 'IOC' : request.timeInForce || 'GTC';
+    if (terms.timeInForce !== timeInForce) {
+      mismatches.push('timeInForce');
+    }
+    if (request.clientOrderId !== undefined && terms.clientOrderId !== request.clientOrderId) {
+      mismatches.push('clientOrderId');
+    }
+
+    if (mismatches.length > 0) {
+      throw new TradingError('INVALID_REQUEST', `Signed Hyperliquid order does not match the request: ${mismatches.join(', ')}`);
+    }
+  }
+
+  /**
+   * Perp asset index of a coin (its position in the `meta` universe)
+   */
+  private async getAssetIndex(symbol: string): Promise<number> {
+    if (Date.now() - this.assetIndexesLoadedAt > META_CACHE_TTL_MS) {
+      let response;
+      try {
+        response = await axios.post<HyperliquidMeta>(`${this.baseUrl}/info`, { type: 'meta' }, { timeout: 10000 });
+      } catch (error) {
+        throw new TradingError('VENUE_UNAVAILABLE', 'Failed to load Hyperliquid markets', (error as Error).message);
+      }
+      this.assetIndexes = new Map(response.data.universe.map((asset, index) => [asset.name.toUpperCase(), index]));
+      this.assetIndexesLoadedAt = Date.now();
+    }
+
+    const index = this.assetIndexes.get(symbol.toUpperCase());
+    if (index === undefined) {
+      throw new TradingError('INVALID_REQUEST', `Symbol ${symbol} is not listed on Hyperliquid`);
+    }
+    return index;
+  }
+
+  private requireSignedAction(signedAction: SignedAction | undefined, type: 'order' | 'cancel'): SignedAction {
+    if (!signedAction) {
+      throw new TradingError('SIGNATURE_REQUIRED', 'Hyperliquid orders must include a wallet-signed action');
+    }
+    if (signedAction.action?.type !== type) {
+      throw new TradingError('INVALID_REQUEST', `Signed action must be of type "${type}"`);
+    }
+    return signedAction;
+  }
+
+  /**
+   * Forward a signed action to the exchange endpoint and return per-order statuses
+   */
+  private async relay(signed: SignedAction): Promise<HyperliquidOrderStatus[]> {
+    try {
+      const response = await axios.post(`${this.baseUrl}/exchange`, {
+        action: signed.action,
+        nonce: signed.nonce,
+        signature: signed.signature,
+        vaultAddress: signed.vaultAddress ?? null,
+      }, { timeout: 10000 });
+
+      if (response.data?.status !== 'ok') {
+        throw this.mapError(String(response.data?.response || 'Unknown error'));
+      }
+      return response.data.response?.data?.statuses || [];
+    } catch (error) {
+      if (error instanceof TradingError) {
+        throw error;
+      }
+      const axiosError = error as AxiosError;
+      if (axiosError.response?.status === 429) {
+        throw new TradingError('RATE_LIMITED', 'Hyperliquid rate limit exceeded', axiosError.message);
+      }
+      throw new TradingError('VENUE_UNAVAILABLE', 'Hyperliquid exchange endpoint failed', axiosError.message);
+    }
+  }
+
+  private mapError(message: string): TradingError {
+    if (/margin/i.test(message)) {
+      return new TradingError('INSUFFICIENT_MARGIN', 'Insufficient margin on Hyperliquid', message);
+    }
+    if (/never placed|already canceled|filled|not found/i.test(message)) {
+      return new TradingError('ORDER_NOT_FOUND', 'Order not found on Hyperliquid', message);
+    }
+    if (/signature|does not exist|must deposit/i.test(message)) {
+      return new TradingError('SIGNATURE_REQUIRED', 'Hyperliquid rejected the signature', message);
+    }
+    if (/rate limit|too many/i.test(message)) {
+      return new TradingError('RATE_LIMITED', 'Hyperliquid rate limit exceeded', message);
+    }
+    return new TradingError('ORDER_REJECTED', `Hyperliquid rejected the order: ${message}`, message);
+  }
+}
+
+export const hyperliquidTradingAdapter = new HyperliquidTradingAdapter();
@@ -0,0 +1,4 @@
+export * from './types';
+export * from './errors';
+export * from './registry';
+export * from './routedOrderExecutor';
@@ -0,0 +1,314 @@
+import { logger } from '@/utils/logger';
+import { MARKET_INDEX_MAP, INDEX_TO_SYMBOL_MAP } from '@/services/exchanges/lighter';
+import {
+  LighterAdapter,
+  LighterOrder,
+  getLighterCredentials,
+  decryptLighterPrivateKey,
+  ORDER_TYPE_LIMIT,
+  ORDER_TYPE_MARKET,
+  TIF_GOOD_TILL_TIME,
+  TIF_IMMEDIATE_OR_CANCEL,
+  TIF_POST_ONLY,
+} from '@/services/adapters/lighter';
+import { TradingError } from './errors';
+import {
+  TradingAdapter,
+  PlaceOrderRequest,
+  CancelOrderRequest,
+  OrderResult,
+  NormalizedOrder,
+  OrderStatus,
+  TimeInForce,
+} from './types';
+
+interface MarketDecimals {
+  sizeDecimals: number;
+  priceDecimals: number;
+}
+
+interface LighterMarketDetails {
+  market_id: number;
+  symbol?: string;
+  size_decimals: number;
+  price_decimals: number;
+}
+
+// /orderBookDetails returns the market either wrapped in a list or bare
+type LighterOrderBookDetailsResponse = { order_book_details?: LighterMarketDetails[] } & Partial<LighterMarketDetails>;
+
+interface CachedAccount {
+  accountIndex: number;
+  expiresAt: number;
+}
+
+// Stored API keys can be rotated or removed, so loaded signers are re-read periodically
+const ACCOUNT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Client order indexes share the cancel `Index` field with venue order indexes,
+// which start at 2^48
+const MAX_CLIENT_ORDER_INDEX = 2 ** 48 - 1;
+
+const TIF_TO_LIGHTER: Record<TimeInForce, number> = {
+  GTC: TIF_GOOD_TILL_TIME,
+  IOC: TIF_IMMEDIATE_OR_CANCEL,
+  POST_ONLY: TIF_POST_ONLY,
+};
+
+const TIF_FROM_LIGHTER: Record<number, TimeInForce> = {
+  [TIF_GOOD_TILL_TIME]: 'GTC',
+  [TIF_IMMEDIATE_OR_CANCEL]: 'IOC',
+  [TIF_POST_ONLY]: 'POST_ONLY',
+};
+
+/**
+ * Lighter trading using stored API keys and the TypeScript signer
+ */
+export class LighterTradingAdapter implements TradingAdapter {
+  readonly platform = 'lighter' as const;
+  private adapter = new LighterAdapter();
+  private accounts: Map<string, CachedAccount> = new Map();
+  private marketDecimals: Map<number, MarketDecimals> = new Map();
+
+  async placeOrder(request: PlaceOrderRequest): Promise<OrderResult> {
+    const accountIndex = await this.ensureSigner(request.walletAddress);
+    const marketIndex = this.getMarketIndex(request.symbol);
+    const decimals = await this.getMarketDecimals(marketIndex);
+
+    // Lighter market orders still carry a worst acceptable price
+    if (!request.price) {
+      throw new TradingError('INVALID_REQUEST', 'Lighter orders require a price (limit price or market slippage bound)');
+    }
+
+    const clientOrderIndex = request.clientOrderId ? parseInt(request.clientOrderId) : Date.now();
+    if (!Number.isSafeInteger(clientOrderIndex) || clientOrderIndex < 0 || clientOrderIndex > MAX_CLIENT_ORDER_INDEX) {
+      throw new TradingError('INVALID_REQUEST', `Lighter clientOrderId must be an integer between 0 and ${MAX_CLIENT_ORDER_INDEX}`);
+    }
+
+    const timeInForce = request.type === 'market'
+      ? TIF_IMMEDIATE_OR_CANCEL
+      : TIF_TO_LIGHTER[request.timeInForce || 'GTC'];
+
+    const result = await this.adapter.placeOrder(request.walletAddress, accountIndex, {
+      market_index: marketIndex,
+      client_order_index: clientOrderIndex,
+      base_amount: this.toScaledInteger(request.size, decimals.sizeDecimals),
+      price: this.toScaledInteger(request.price, decimals.priceDecimals),
+      is_ask: request.side === 'sell',
+      order_type: request.type === 'market' ? ORDER_TYPE_MARKET : ORDER_TYPE_LIMIT,
+      time_in_force: timeInForce,
+      reduce_only: request.reduceOnly || false,
+      trigger_price: '0',
+    });
+
+    if (result.error) {
+      throw this.mapError(result.error);
+    }
+
+    // The venue assigns its order index once the order reaches the book, so the client
+    // order index is the handle returned here; cancel and lookup resolve it to the venue order
+    logger.info(`Lighter: Placed order ${clientOrderIndex} for ${request.walletAddress}`);
+    return {
+      orderId: String(clientOrderIndex),
+      clientOrderId: String(clientOrderIndex),
+      platform: this.platform,
+      symbol: request.symbol,
+      status: 'pending',
+      txHash: result.txHash,
+      timestamp: Date.now(),
+    };
+  }
+
+  async cancelOrder(request: CancelOrderRequest): Promise<OrderResult> {
+    const accountIndex = await this.ensureSigner(request.walletAddress);
+    const marketIndex = this.getMarketIndex(request.symbol);
+
+    const order = await this.findOrder(accountIndex, marketIndex, request.orderId);
+    if (!order) {
+      throw new TradingError('ORDER_NOT_FOUND', `Lighter order ${request.orderId} not found`);
+    }
+
+    const result = await this.adapter.cancelOrder(request.walletAddress, accountIndex, {
+      market_index: marketIndex,
+      order_index: Number(order.order_id),
+    });
+
+    if (result.error) {
+      throw this.mapError(result.error);
+    }
+
+    return {
+      orderId: request.orderId,
+      platform: this.platform,
+      symbol: request.symbol,
+      status: 'cancelled',
+      txHash: result.txHash,
+      timestamp: Date.now(),
+    };
+  }
+
+  async getOpenOrders(walletAddress: string): Promise<NormalizedOrder[]> {
+    const accountIndex = await this.getAccountIndex(walletAddress);
+    const orders = await this.adapter.getOpenOrders(accountIndex);
+    return orders.map((order) => this.toNormalizedOrder(order));
+  }
+
+  async getOrder(walletAddress: string, symbol: string, orderId: string): Promise<NormalizedOrder | null> {
+    const accountIndex = await this.getAccountIndex(walletAddress);
+    const order = await this.findOrder(accountIndex, this.getMarketIndex(symbol), orderId);
+    return order ? this.toNormalizedOrder(order) : null;
+  }
+
+  /**
+   * Find an order by id. Ids up to MAX_CLIENT_ORDER_INDEX are client order indexes
+   * (as returned by placeOrder); larger ids are venue order indexes.
+   */
+  private async findOrder(accountIndex: number, marketIndex: number, orderId: string): Promise<LighterOrder | null> {
+    const id = Number(orderId);
+    if (!/^\d+$/.test(orderId) || !Number.isSafeInteger(id)) {
+      throw new TradingError('INVALID_REQUEST', 'Lighter order ids are non-negative integers');
+    }
+
+    const orders = await this.adapter.getOrderHistory(accountIndex, marketIndex, 100);
+    const order = id <= MAX_CLIENT_ORDER_INDEX
+      ? orders.find((o) => o.client_order_id !== undefined && String(o.client_order_id) === orderId)
+      : orders.find((o) => String(o.order_id) === orderId);
+    return order ?? null;
+  }
+
+  private toNormalizedOrder(order: LighterOrder): NormalizedOrder {
+    const filled = parseFloat(order.filled_size) > 0;
+    let status = this.toOrderStatus(order.status);
+    if (status === 'open' && filled) {
+      status = 'partially_filled';
+    }
+
+    return {
+      orderId: String(order.order_id),
+      clientOrderId: order.client_order_id,
+      platform: this.platform,
+      symbol: INDEX_TO_SYMBOL_MAP[order.market_id] || String(order.market_id),
+      side: order.side,
+      type: order.order_type === ORDER_TYPE_MARKET ? 'market' : 'limit',
+      price: order.price,
+      size: order.size,
+      filledSize: order.filled_size,
+      status,
+      timeInForce: TIF_FROM_LIGHTER[order.time_in_force] || null,
+      reduceOnly: false,
+      timestamp: order.timestamp,
+    };
+  }
+
+  private toOrderStatus(status: string | undefined): OrderStatus {
+    if (!status) return 'open';
+    if (/filled/i.test(status)) return 'filled';
+    if (/cancel/i.test(status)) return 'cancelled';
+    if (/reject|fail/i.test(status)) return 'rejected';
+    if (/pending/i.test(status)) return 'pending';
+    return 'open';
+  }
+
+  /**
+   * Load the wallet's stored API key into the adapter on first use
+   */
+  private async ensureSigner(walletAddress: string): Promise<number> {
+    const key = walletAddress.toLowerCase();
+    const cached = this.accounts.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.accountIndex;
+    }
+    this.accounts.delete(key);
+
+    const credentials = await getLighterCredentials(walletAddress);
+    if (!credentials) {
+      throw new TradingError('CREDENTIALS_MISSING', `No Lighter API key stored for ${walletAddress}`);
+    }
+
+    this.adapter.initializeSigner(
+      walletAddress,
+      decryptLighterPrivateKey(credentials.apiKeyPrivateEncrypted, walletAddress),
+      credentials.accountIndex,
+      credentials.apiKeyIndex
+    );
+    this.accounts.set(key, { accountIndex: credentials.accountIndex, expiresAt: Date.now() + ACCOUNT_CACHE_TTL_MS });
+    return credentials.accountIndex;
+  }
+
+  private async getAccountIndex(walletAddress: string): Promise<number> {
+    const cached = this.accounts.get(walletAddress.toLowerCase());
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.accountIndex;
+    }
+
+    const credentials = await getLighterCredentials(walletAddress);
+    if (credentials) {
+      return credentials.accountIndex;
+    }
+
+    const account = await this.adapter.getAccountByAddress(walletAddress);
+    if (!account) {
+      throw new TradingError('CREDENTIALS_MISSING', `No Lighter account found for ${walletAddress}`);
+    }
+    return account.account_index;
+  }
+
+  private getMarketIndex(symbol: string): number {
+    const marketIndex = MARKET_INDEX_MAP[symbol.toUpperCase()];
+    if (marketIndex === undefined) {
+      throw new TradingError('INVALID_REQUEST', `Symbol ${symbol} is not listed on Lighter`);
+    }
+    return marketIndex;
+  }
+
+  /**
+   * Lighter amounts are integers scaled by per-market size/price decimals
+   */
+  private async getMarketDecimals(marketIndex: number): Promise<MarketDecimals> {
+    const cached = this.marketDecimals.get(marketIndex);
+    if (cached) {
+      return cached;
+    }
+
+    const details = await this.adapter.getMarketInfo(marketIndex) as unknown as LighterOrderBookDetailsResponse;
+    const market: Partial<LighterMarketDetails> | undefined = Array.isArray(details?.order_book_details)
+      ? details.order_book_details[0]
+      : details;
+    if (market?.size_decimals === undefined || market?.price_decimals === undefined) {
+      throw new TradingError('VENUE_UNAVAILABLE', `Could not load Lighter market details for market ${marketIndex}`);
+    }
+
+    const decimals = {
+      sizeDecimals: Number(market.size_decimals),
+      priceDecimals: Number(market.price_decimals),
+    };
+    this.marketDecimals.set(marketIndex, decimals);
+    return decimals;
+  }
+
+  private toScaledInteger(value: string, decimals: number): string {
+    const [whole, fraction = ''] = value.split('.');
+    if (fraction.length > decimals && /[1-9]/.test(fraction.slice(decimals))) {
+      throw new TradingError('INVALID_REQUEST', `${value} has more than ${decimals} decimals`);
+    }
+    return BigInt(whole + fraction.slice(0, decimals).padEnd(decimals, '0')).toString();
+  }
+
+  private mapError(message: string): TradingError {
+    if (/margin|collateral|balance/i.test(message)) {
+      return new TradingError('INSUFFICIENT_MARGIN', 'Insufficient margin on Lighter', message);
+    }
+    if (/not found|does not exist/i.test(message)) {
+      return new TradingError('ORDER_NOT_FOUND', 'Order not found on Lighter', message);
+    }
+    if (/rate limit|too many/i.test(message)) {
+      return new TradingError('RATE_LIMITED', 'Lighter rate limit exceeded', message);
+    }
+    if (/ECONNREFUSED|ETIMEDOUT|ENOTFOUND|socket hang up|timeout/i.test(message)) {
+      return new TradingError('VENUE_UNAVAILABLE', 'Lighter API is unreachable', message);
+    }
+    return new TradingError('ORDER_REJECTED', `Lighter rejected the transaction: ${message}`, message);
+  }
+}
+
+export const lighterTradingAdapter = new LighterTradingAdapter();
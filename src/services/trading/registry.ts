@@ -0,0 +1,22 @@
+import { TradingAdapter, TradingPlatform } from './types';
+import { hyperliquidTradingAdapter } from './hyperliquidTradingAdapter';
+import { asterTradingAdapter } from './asterTradingAdapter';
+import { lighterTradingAdapter } from './lighterTradingAdapter';
+import { avantisTradingAdapter } from './avantisTradingAdapter';
+
+export const tradingAdapters: Record<TradingPlatform, TradingAdapter> = {
+  hyperliquid: hyperliquidTradingAdapter,
+  aster: asterTradingAdapter,
+  lighter: lighterTradingAdapter,
+  avantis: avantisTradingAdapter,
+};
+
+export const TRADING_PLATFORMS = Object.keys(tradingAdapters) as TradingPlatform[];
+
+export function isTradingPlatform(value: unknown): value is TradingPlatform {
+  return typeof value === 'string' && value in tradingAdapters;
+}
+
+export function getTradingAdapter(platform: TradingPlatform): TradingAdapter {
+  return tradingAdapters[platform];
+}
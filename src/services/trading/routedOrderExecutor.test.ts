@@ -0,0 +1,188 @@
+jest.mock('@/config/redis', () => ({
+  redisClient: {
+    publish: jest.fn().mockResolvedValue(1),
+    set: jest.fn().mockResolvedValue('OK'),
+    get: jest.fn().mockResolvedValue(null),
+  },
+}));
+jest.mock('@/config/database', () => ({ database: { query: jest.fn() } }));
+
+import { Orderbook } from '@/types';
+import { aggregationProcessor, AggregatedOrderbook } from '@/services/processors/aggregation';
+import { RoutedOrderExecutor } from './routedOrderExecutor';
+import { tradingAdapters } from './registry';
+import { hyperliquidTradingAdapter, SignedOrderTerms } from './hyperliquidTradingAdapter';
+import { OrderResult, PlaceOrderRequest, SignedAction, TradingPlatform } from './types';
+import { TradingError } from './errors';
+
+const WALLET = '0x0000000000000000000000000000000000000001';
+const SIGNED_ACTION: SignedAction = {
+  action: { type: 'order', orders: [] },
+  nonce: 1,
+  signature: { r: '0x1', s: '0x2', v: 27 },
+};
+
+function book(exchange: Orderbook['exchange'], asks: Array<[number, number]>): Orderbook {
+  return {
+    symbol: 'BTC',
+    exchange,
+    bids: { levels: [], totalSize: '0' },
+    asks: {
+      levels: asks.map(([price, size]) => ({ price: price.toString(), size: size.toString(), timestamp: Date.now() })),
+      totalSize: '0',
+    },
+    timestamp: Date.now(),
+    sequence: 0,
+    spread: '0',
+    midPrice: '0',
+  };
+}
+
+async function aggregate(books: Orderbook[]): Promise<AggregatedOrderbook> {
+  let latest: AggregatedOrderbook | null = null;
+  const listener = (data: AggregatedOrderbook) => {
+    latest = data;
+  };
+  aggregationProcessor.on('aggregated', listener);
+  for (const orderbook of books) {
+    (aggregationProcessor as any).lastPublishTime.clear();
+    await aggregationProcessor.processOrderbookUpdate(orderbook);
+  }
+  aggregationProcessor.off('aggregated', listener);
+  return latest!;
+}
+
+function filled(request: PlaceOrderRequest, size = request.size): OrderResult {
+  return {
+    orderId: `${request.platform}-${request.size}`,
+    platform: request.platform,
+    symbol: request.symbol,
+    status: 'filled',
+    filledSize: size,
+    averagePrice: request.price,
+    timestamp: Date.now(),
+  };
+}
+
+describe('RoutedOrderExecutor', () => {
+  let executor: RoutedOrderExecutor;
+  let placed: Partial<Record<TradingPlatform, jest.SpyInstance>>;
+
+  beforeAll(() => {
+    for (const platform of ['hyperliquid', 'aster', 'lighter', 'avantis'] as const) {
+      aggregationProcessor.updateVenueCosts('BTC', platform, { takerFee: 0 });
+    }
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    executor = new RoutedOrderExecutor();
+    placed = {};
+    for (const platform of ['hyperliquid', 'aster', 'lighter'] as const) {
+      placed[platform] = jest.spyOn(tradingAdapters[platform], 'placeOrder')
+        .mockImplementation(async (request) => filled(request));
+    }
+  });
+
+  async function useBooks(books: Orderbook[]): Promise<void> {
+    const aggregated = await aggregate(books);
+    jest.spyOn(aggregationProcessor, 'getCachedBook')
+      .mockImplementation(async () => ({ ...aggregated, timestamp: Date.now() }));
+  }
+
+  function signWith(terms: Partial<SignedOrderTerms>): void {
+    jest.spyOn(hyperliquidTradingAdapter, 'getSignedOrderTerms').mockResolvedValue({
+      side: 'buy',
+      size: '0.4',
+      price: '100.2',
+      timeInForce: 'IOC',
+      reduceOnly: false,
+      ...terms,
+    });
+  }
+
+  it('routes size a failed venue left unfilled to the remaining venues', async () => {
+    await useBooks([book('aster', [[100, 2]]), book('lighter', [[100.5, 1]])]);
+    placed.aster!.mockImplementationOnce(async (request) => filled(request));
+    placed.lighter!.mockRejectedValue(new TradingError('VENUE_UNAVAILABLE', 'Lighter API is unreachable'));
+
+    const report = await executor.execute({ walletAddress: WALLET, symbol: 'BTC', side: 'buy', size: 2.5 });
+
+    expect(report.children.map(c => [c.round, c.platform, c.status, c.filledSize])).toEqual([
+      [1, 'aster', 'filled', 2],
+      [1, 'lighter', 'failed', 0],
+      [2, 'aster', 'filled', 0.5],
+    ]);
+    expect(report.status).toBe('filled');
+    expect(report.unfilledSize).toBe(0);
+    expect(placed.lighter).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops redistributing after the round limit', async () => {
+    await useBooks([book('aster', [[100, 5]])]);
+    placed.aster!.mockImplementation(async (request) => ({ ...filled(request, '0.1'), status: 'cancelled' }));
+
+    const report = await executor.execute({ walletAddress: WALLET, symbol: 'BTC', side: 'buy', size: 1 });
+
+    expect(report.children.map(c => c.round)).toEqual([1, 2, 3]);
+    expect(report.filledSize).toBeCloseTo(0.3);
+    expect(report.status).toBe('partially_filled');
+  });
+
+  it('places a signed Hyperliquid order as signed and splits the rest', async () => {
+    await useBooks([book('hyperliquid', [[100, 1]]), book('aster', [[100, 2]])]);
+    signWith({});
+
+    const report = await executor.execute({
+      walletAddress: WALLET,
+      symbol: 'BTC',
+      side: 'buy',
+      size: 1,
+      signedActions: { hyperliquid: SIGNED_ACTION },
+    });
+
+    expect(placed.hyperliquid).toHaveBeenCalledWith(expect.objectContaining({
+      size: '0.4',
+      price: '100.2',
+      timeInForce: 'IOC',
+      signedAction: SIGNED_ACTION,
+    }));
+    expect(placed.aster).toHaveBeenCalledWith(expect.objectContaining({ size: '0.6' }));
+    expect(report.status).toBe('filled');
+  });
+
+  it('routes the signed size elsewhere when its price breaks the slippage bound', async () => {
+    await useBooks([book('hyperliquid', [[100, 1]]), book('aster', [[100, 2]])]);
+    signWith({ price: '120' });
+
+    const report = await executor.execute({
+      walletAddress: WALLET,
+      symbol: 'BTC',
+      side: 'buy',
+      size: 1,
+      signedActions: { hyperliquid: SIGNED_ACTION },
+    });
+
+    expect(placed.hyperliquid).not.toHaveBeenCalled();
+    expect(report.children.map(c => [c.round, c.platform, c.status, c.plannedSize])).toEqual([
+      [1, 'hyperliquid', 'failed', 0.4],
+      [1, 'aster', 'filled', 0.6],
+      [2, 'aster', 'filled', 0.4],
+    ]);
+    expect(report.children[0].error?.code).toBe('INVALID_REQUEST');
+  });
+
+  it('rejects a signed Hyperliquid order larger than the parent', async () => {
+    await useBooks([book('hyperliquid', [[100, 1]]), book('aster', [[100, 2]])]);
+    signWith({ size: '2' });
+
+    await expect(executor.execute({
+      walletAddress: WALLET,
+      symbol: 'BTC',
+      side: 'buy',
+      size: 1,
+      signedActions: { hyperliquid: SIGNED_ACTION },
+    })).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    expect(placed.hyperliquid).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,447 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { logger } from '@/utils/logger';
+import {
+  aggregationProcessor,
+  AggregatedOrderbook,
+  RoutingAllocation,
+  SizedRoutingDecision,
+} from '@/services/processors/aggregation';
+import { getTradingAdapter } from './registry';
+import { hyperliquidTradingAdapter, SignedOrderTerms } from './hyperliquidTradingAdapter';
+import { TradingError } from './errors';
+import {
+  OrderSide,
+  OrderStatus,
+  PlaceOrderRequest,
+  SignedAction,
+  TradingPlatform,
+} from './types';
+
+export interface RoutedOrderRequest {
+  walletAddress: string;
+  symbol: string;
+  side: OrderSide;
+  size: number;
+  holdingHours?: number;
+  maxSlippageBps?: number;
+  platforms?: TradingPlatform[];
+  signedActions?: Partial<Record<TradingPlatform, SignedAction>>;
+}
+
+export interface ChildExecution {
+  platform: TradingPlatform;
+  // 1 for the initial split; later rounds route size earlier children left unfilled
+  round: number;
+  plannedSize: number;
+  estimatedPrice: number;
+  limitPrice: string;
+  orderId: string | null;
+  status: OrderStatus | 'failed';
+  filledSize: number;
+  averagePrice: number | null;
+  priceEstimated: boolean;
+  txHash?: string;
+  error?: { code: string; message: string };
+}
+
+export interface ExecutionReport {
+  executionId: string;
+  walletAddress: string;
+  symbol: string;
+  side: OrderSide;
+  status: 'filled' | 'partially_filled' | 'failed';
+  requestedSize: number;
+  filledSize: number;
+  unfilledSize: number;
+  averagePrice: number | null;
+  estimatedAveragePrice: number;
+  estimatedEffectivePrice: number;
+  slippageVsEstimate: number | null;
+  slippageVsEstimateBps: number | null;
+  children: ChildExecution[];
+  routing: SizedRoutingDecision;
+  startedAt: number;
+  completedAt: number;
+}
+
+// Venues the backend can place orders on without a per-order wallet signature
+const SERVER_SIGNED_PLATFORMS: TradingPlatform[] = ['aster', 'lighter'];
+
+const TERMINAL_STATUSES: Array<ChildExecution['status']> = ['filled', 'cancelled', 'rejected', 'failed'];
+
+const SIZE_EPSILON = 1e-9;
+
+/**
+ * Executes a parent order by splitting it across venues according to the
+ * live aggregated book, placing IOC child orders through the trading adapters
+ * and consolidating their fills into a single execution report.
+ *
+ * A client-signed Hyperliquid order can't be resized by the backend, so it is
+ * placed as signed and only the rest of the parent is split across the
+ * server-signed venues. Size left unfilled by any child is routed again over
+ * the server-signed venues that didn't fail, on a fresh book.
+ */
+export class RoutedOrderExecutor extends EventEmitter {
+  private readonly MAX_BOOK_AGE_MS = 2000;
+  private readonly DEFAULT_MAX_SLIPPAGE_BPS = 50;
+  private readonly FILL_POLL_INTERVAL_MS = 500;
+  private readonly FILL_POLL_ATTEMPTS = 10;
+  private readonly MAX_ROUNDS = 3;
+
+  async execute(request: RoutedOrderRequest): Promise<ExecutionReport> {
+    const startedAt = Date.now();
+    const symbol = request.symbol.toUpperCase();
+    const maxSlippageBps = request.maxSlippageBps ?? this.DEFAULT_MAX_SLIPPAGE_BPS;
+    const holdingHours = request.holdingHours ?? 0;
+
+    const book = await this.getFreshBook(symbol);
+    if (!book) {
+      throw new TradingError('VENUE_UNAVAILABLE', `No aggregated orderbook available for ${symbol} within ${this.MAX_BOOK_AGE_MS}ms`);
+    }
+
+    const platforms = this.getExecutablePlatforms(request);
+    if (platforms.length === 0) {
+      throw new TradingError('INVALID_REQUEST', 'No executable venues for this order');
+    }
+
+    // Reference split of the whole parent across every executable venue
+    const routing = aggregationProcessor.calculateSizedRouting(book, request.side, request.size, holdingHours, platforms);
+    if (routing.allocations.length === 0) {
+      throw new TradingError('ORDER_REJECTED', `No liquidity for ${symbol} on ${platforms.join(', ')}`);
+    }
+
+    const signedTerms = platforms.includes('hyperliquid')
+      ? await this.getSignedTerms(request, symbol)
+      : null;
+    const serverPlatforms = platforms.filter(platform => SERVER_SIGNED_PLATFORMS.includes(platform));
+
+    logger.info(
+      `RoutedOrderExecutor: ${request.side} ${request.size} ${symbol} for ${request.walletAddress} ` +
+      `across ${routing.allocations.map(a => `${a.platform}:${a.size}`).join(', ')}` +
+      (signedTerms ? ` (signed hyperliquid:${signedTerms.size})` : '')
+    );
+
+    const children: ChildExecution[] = [];
+    const failedVenues = new Set<TradingPlatform>();
+    let roundBook: AggregatedOrderbook | null = book;
+
+    for (let round = 1; round <= this.MAX_ROUNDS && roundBook; round++) {
+      let remaining = request.size - this.getCommittedSize(children);
+      if (remaining <= SIZE_EPSILON) {
+        break;
+      }
+
+      const placements: Array<Promise<ChildExecution>> = [];
+      if (round === 1 && signedTerms) {
+        placements.push(this.placeSignedChild(request, symbol, roundBook, signedTerms, maxSlippageBps));
+        remaining -= parseFloat(signedTerms.size);
+      }
+
+      const venues = serverPlatforms.filter(platform => !failedVenues.has(platform));
+      if (remaining > SIZE_EPSILON && venues.length > 0) {
+        const split = aggregationProcessor.calculateSizedRouting(roundBook, request.side, remaining, holdingHours, venues);
+        for (const allocation of split.allocations) {
+          placements.push(this.placeChild(request, symbol, allocation, maxSlippageBps, round));
+        }
+      }
+
+      if (placements.length === 0) {
+        break;
+      }
+
+      // Child orders are independent, so send them concurrently
+      const roundChildren = await Promise.all(placements);
+      await this.trackFills(request.walletAddress, symbol, roundChildren);
+      children.push(...roundChildren);
+      roundChildren
+        .filter(c => c.status === 'failed' || c.status === 'rejected')
+        .forEach(c => failedVenues.add(c.platform));
+
+      if (round < this.MAX_ROUNDS) {
+        roundBook = await this.getFreshBook(symbol);
+      }
+    }
+
+    const report = this.buildReport(request, symbol, routing, children, startedAt);
+    this.emit('executionCompleted', report);
+
+    logger.info(
+      `RoutedOrderExecutor: ${report.executionId} ${report.status}, filled ${report.filledSize}/${report.requestedSize} ` +
+      `at ${report.averagePrice ?? 'n/a'} (estimate ${report.estimatedAveragePrice})`
+    );
+
+    return report;
+  }
+
+  /**
+   * Size that can't be routed again: fills of finished children, and the whole
+   * planned size of children whose final state is still unknown
+   */
+  private getCommittedSize(children: ChildExecution[]): number {
+    return children.reduce((sum, c) => sum + (
+      TERMINAL_STATUSES.includes(c.status) ? c.filledSize : Math.max(c.plannedSize, c.filledSize)
+    ), 0);
+  }
+
+  private async getFreshBook(symbol: string): Promise<AggregatedOrderbook | null> {
+    const book = await aggregationProcessor.getCachedBook(symbol);
+    return book && Date.now() - book.timestamp <= this.MAX_BOOK_AGE_MS ? book : null;
+  }
+
+  /**
+   * Venues that can be traded for this request: server-signed venues, plus
+   * Hyperliquid when the client supplied a signed order action
+   */
+  private getExecutablePlatforms(request: RoutedOrderRequest): TradingPlatform[] {
+    const executable = [...SERVER_SIGNED_PLATFORMS];
+    if (request.signedActions?.hyperliquid) {
+      executable.push('hyperliquid');
+    }
+    return request.platforms
+      ? executable.filter(platform => request.platforms!.includes(platform))
+      : executable;
+  }
+
+  /**
+   * The signed Hyperliquid order must be a plain IOC child of this parent: one
+   * order, same coin and side, no larger than the parent
+   */
+  private async getSignedTerms(request: RoutedOrderRequest, symbol: string): Promise<SignedOrderTerms> {
+    const terms = await hyperliquidTradingAdapter.getSignedOrderTerms(request.signedActions?.hyperliquid, symbol);
+
+    if (terms.side !== request.side) {
+      throw new TradingError('INVALID_REQUEST', 'Signed Hyperliquid order side does not match the routed order');
+    }
+    if (terms.timeInForce !== 'IOC' || terms.reduceOnly) {
+      throw new TradingError('INVALID_REQUEST', 'Signed Hyperliquid order must be an IOC limit order without reduce-only');
+    }
+    if (parseFloat(terms.size) > request.size + SIZE_EPSILON) {
+      throw new TradingError(
+        'INVALID_REQUEST',
+        `Signed Hyperliquid order size ${terms.size} exceeds the routed order size ${this.formatDecimal(request.size)}`
+      );
+    }
+    return terms;
+  }
+
+  /**
+   * Place the client-signed Hyperliquid order as signed. Its price must respect the
+   * parent's slippage bound against the Hyperliquid book; otherwise the child fails
+   * and its size is routed to the other venues in the next round.
+   */
+  private async placeSignedChild(
+    request: RoutedOrderRequest,
+    symbol: string,
+    book: AggregatedOrderbook,
+    terms: SignedOrderTerms,
+    maxSlippageBps: number
+  ): Promise<ChildExecution> {
+    const size = parseFloat(terms.size);
+    const estimate = aggregationProcessor.calculateSizedRouting(
+      book, request.side, size, request.holdingHours ?? 0, ['hyperliquid']
+    );
+    const child = this.newChild('hyperliquid', 1, size, estimate.averagePrice, terms.price);
+
+    if (estimate.allocations.length === 0) {
+      return this.failChild(child, new TradingError('ORDER_REJECTED', `No Hyperliquid liquidity for ${symbol}`));
+    }
+    const bound = parseFloat(this.getLimitPrice(estimate.worstPrice, request.side, maxSlippageBps));
+    const price = parseFloat(terms.price);
+    if (request.side === 'buy' ? price > bound : price < bound) {
+      return this.failChild(child, new TradingError(
+        'INVALID_REQUEST',
+        `Signed Hyperliquid price ${terms.price} is outside the ${maxSlippageBps}bps slippage bound ${this.formatDecimal(bound)}`
+      ));
+    }
+
+    return this.sendChild(child, {
+      walletAddress: request.walletAddress,
+      platform: 'hyperliquid',
+      symbol,
+      side: request.side,
+      type: 'limit',
+      size: terms.size,
+      price: terms.price,
+      timeInForce: 'IOC',
+      reduceOnly: false,
+      clientOrderId: terms.clientOrderId,
+      signedAction: request.signedActions?.hyperliquid,
+    });
+  }
+
+  private async placeChild(
+    request: RoutedOrderRequest,
+    symbol: string,
+    allocation: RoutingAllocation,
+    maxSlippageBps: number,
+    round: number
+  ): Promise<ChildExecution> {
+    const platform = allocation.platform as TradingPlatform;
+    const limitPrice = this.getLimitPrice(allocation.worstPrice, request.side, maxSlippageBps);
+    const child = this.newChild(platform, round, allocation.size, allocation.averagePrice, limitPrice);
+
+    return this.sendChild(child, {
+      walletAddress: request.walletAddress,
+      platform,
+      symbol,
+      side: request.side,
+      type: 'limit',
+      size: this.formatDecimal(allocation.size),
+      price: limitPrice,
+      timeInForce: 'IOC',
+    });
+  }
+
+  private newChild(
+    platform: TradingPlatform,
+    round: number,
+    plannedSize: number,
+    estimatedPrice: number,
+    limitPrice: string
+  ): ChildExecution {
+    return {
+      platform,
+      round,
+      plannedSize,
+      estimatedPrice,
+      limitPrice,
+      orderId: null,
+      status: 'pending',
+      filledSize: 0,
+      averagePrice: null,
+      priceEstimated: false,
+    };
+  }
+
+  private async sendChild(child: ChildExecution, order: PlaceOrderRequest): Promise<ChildExecution> {
+    try {
+      const result = await getTradingAdapter(child.platform).placeOrder(order);
+
+      child.orderId = result.orderId;
+      child.status = result.status;
+      child.txHash = result.txHash;
+      if (result.filledSize !== undefined) {
+        child.filledSize = parseFloat(result.filledSize);
+      }
+      if (result.averagePrice !== undefined && parseFloat(result.averagePrice) > 0) {
+        child.averagePrice = parseFloat(result.averagePrice);
+      }
+    } catch (error) {
+      this.failChild(child, error);
+    }
+
+    return child;
+  }
+
+  private failChild(child: ChildExecution, error: unknown): ChildExecution {
+    child.status = 'failed';
+    child.error = error instanceof TradingError
+      ? { code: error.code, message: error.message }
+      : { code: 'VENUE_UNAVAILABLE', message: (error as Error).message };
+    logger.warn(`RoutedOrderExecutor: ${child.platform} child order failed: ${child.error.message}`);
+    return child;
+  }
+
+  /**
+   * Poll venues that acknowledged an order without reporting a final state
+   */
+  private async trackFills(walletAddress: string, symbol: string, children: ChildExecution[]): Promise<void> {
+    for (let attempt = 0; attempt < this.FILL_POLL_ATTEMPTS; attempt++) {
+      const pending = children.filter(c => c.orderId && !TERMINAL_STATUSES.includes(c.status));
+      if (pending.length === 0) {
+        break;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.FILL_POLL_INTERVAL_MS));
+
+      await Promise.all(pending.map(async (child) => {
+        try {
+          const order = await getTradingAdapter(child.platform).getOrder(walletAddress, symbol, child.orderId!);
+          if (!order) return;
+
+          child.status = order.status;
+          child.filledSize = parseFloat(order.filledSize) || 0;
+          if (order.averagePrice !== undefined) {
+            child.averagePrice = parseFloat(order.averagePrice);
+          }
+        } catch (error) {
+          logger.debug(`RoutedOrderExecutor: Failed to poll ${child.platform} order ${child.orderId}:`, error);
+        }
+      }));
+    }
+
+    // Venues that don't report an average price are valued at the routed estimate
+    for (const child of children) {
+      if (child.filledSize > 0 && child.averagePrice === null) {
+        child.averagePrice = child.estimatedPrice;
+        child.priceEstimated = true;
+      }
+    }
+  }
+
+  private buildReport(
+    request: RoutedOrderRequest,
+    symbol: string,
+    routing: SizedRoutingDecision,
+    children: ChildExecution[],
+    startedAt: number
+  ): ExecutionReport {
+    const filledSize = children.reduce((sum, c) => sum + c.filledSize, 0);
+    const notional = children.reduce((sum, c) => sum + c.filledSize * (c.averagePrice ?? 0), 0);
+    const averagePrice = filledSize > 0 ? notional / filledSize : null;
+
+    // Positive slippage means the fill was worse than the routing estimate
+    const slippageVsEstimate = averagePrice !== null
+      ? (request.side === 'buy' ? averagePrice - routing.averagePrice : routing.averagePrice - averagePrice)
+      : null;
+    const slippageVsEstimateBps = slippageVsEstimate !== null && routing.averagePrice > 0
+      ? (slippageVsEstimate / routing.averagePrice) * 10000
+      : null;
+
+    const status = filledSize <= 0
+      ? 'failed'
+      : filledSize >= request.size - SIZE_EPSILON ? 'filled' : 'partially_filled';
+
+    return {
+      executionId: randomUUID(),
+      walletAddress: request.walletAddress,
+      symbol,
+      side: request.side,
+      status,
+      requestedSize: request.size,
+      filledSize,
+      unfilledSize: Math.max(request.size - filledSize, 0),
+      averagePrice,
+      estimatedAveragePrice: routing.averagePrice,
+      estimatedEffectivePrice: routing.effectivePrice,
+      slippageVsEstimate,
+      slippageVsEstimateBps,
+      children,
+      routing,
+      startedAt,
+      completedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Marketable limit price: the deepest routed level plus the slippage allowance,
+   * rounded away from the book to 5 significant figures
+   */
+  private getLimitPrice(worstPrice: number, side: OrderSide, maxSlippageBps: number): string {
+    const bound = side === 'buy'
+      ? worstPrice * (1 + maxSlippageBps / 10000)
+      : worstPrice * (1 - maxSlippageBps / 10000);
+
+    const magnitude = Math.floor(Math.log10(bound));
+    const factor = Math.pow(10, 4 - magnitude);
+    const rounded = side === 'buy' ? Math.ceil(bound * factor) / factor : Math.floor(bound * factor) / factor;
+    return this.formatDecimal(rounded);
+  }
+
+  private formatDecimal(value: number): string {
+    return value.toFixed(8).replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, '');
+  }
+}
+
+export const routedOrderExecutor = new RoutedOrderExecutor();
@@ -0,0 +1,91 @@
+/**
+ * Venue-agnostic trading types shared by all TradingAdapter implementations
+ */
+
+export type TradingPlatform = 'hyperliquid' | 'aster' | 'lighter' | 'avantis';
+
+export type OrderSide = 'buy' | 'sell';
+
+export type OrderType = 'market' | 'limit';
+
+export type TimeInForce = 'GTC' | 'IOC' | 'POST_ONLY';
+
+export type OrderStatus = 'pending' | 'open' | 'partially_filled' | 'filled' | 'cancelled' | 'rejected';
+
+/**
+ * Action already signed by the user's wallet, for venues where the backend
+ * cannot hold a signing key (e.g. Hyperliquid L1 actions)
+ */
+export interface SignedAction {
+  action: Record<string, any>;
+  nonce: number;
+  signature: { r: string; s: string; v: number };
+  vaultAddress?: string;
+}
+
+export interface PlaceOrderRequest {
+  walletAddress: string;
+  platform: TradingPlatform;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  size: string;
+  price?: string;
+  timeInForce?: TimeInForce;
+  reduceOnly?: boolean;
+  clientOrderId?: string;
+  signedAction?: SignedAction;
+}
+
+export interface CancelOrderRequest {
+  walletAddress: string;
+  platform: TradingPlatform;
+  symbol: string;
+  orderId: string;
+  signedAction?: SignedAction;
+}
+
+export interface OrderResult {
+  orderId: string;
+  clientOrderId?: string;
+  platform: TradingPlatform;
+  symbol: string;
+  status: OrderStatus;
+  filledSize?: string;
+  averagePrice?: string;
+  txHash?: string;
+  timestamp: number;
+}
+
+export interface NormalizedOrder {
+  orderId: string;
+  clientOrderId?: string;
+  platform: TradingPlatform;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  price: string | null;
+  size: string;
+  filledSize: string;
+  averagePrice?: string;
+  status: OrderStatus;
+  timeInForce: TimeInForce | null;
+  reduceOnly: boolean;
+  timestamp: number;
+}
+
+export interface TradingAdapter {
+  readonly platform: TradingPlatform;
+
+  placeOrder(request: PlaceOrderRequest): Promise<OrderResult>;
+
+  cancelOrder(request: CancelOrderRequest): Promise<OrderResult>;
+
+  getOpenOrders(walletAddress: string): Promise<NormalizedOrder[]>;
+
+  /**
+   * Look up a single order, including recently filled or cancelled ones.
+   * Resolves to null when the venue does not know the order.
+   */
+  getOrder(walletAddress: string, symbol: string, orderId: string): Promise<NormalizedOrder | null>;
+}
@@ -0,0 +1,66 @@
+import { AsterUserStream } from './asterUserStream';
+import { userStreamConfig } from '@/config/exchanges';
+
+function listenKeyResponse(listenKey: string): Response {
+  return { ok: true, json: async () => ({ listenKey }) } as Response;
+}
+
+describe('AsterUserStream', () => {
+  let fetchMock: jest.Mock;
+  let stream: AsterUserStream;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    fetchMock = jest.fn().mockResolvedValue(listenKeyResponse('key-1'));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    stream = new AsterUserStream('api-key');
+  });
+
+  afterEach(async () => {
+    await stream.disconnect();
+    jest.useRealTimers();
+  });
+
+  const methods = () => fetchMock.mock.calls.map(([, init]) => init.method);
+
+  it('cancels a scheduled reconnect on disconnect', async () => {
+    const connect = jest.spyOn(stream, 'connect');
+
+    (stream as any).scheduleReconnect();
+    await stream.disconnect();
+    jest.advanceTimersByTime(userStreamConfig.reconnectMaxDelayMs);
+
+    expect(connect).not.toHaveBeenCalled();
+  });
+
+  it('stays closed when connect is called after a disconnect', async () => {
+    await stream.disconnect();
+    await stream.connect();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(stream.getStatus().connecting).toBe(false);
+  });
+
+  it('closes a listenKey created after the stream was disconnected', async () => {
+    let resolvePost!: (response: Response) => void;
+    fetchMock.mockImplementationOnce(() => new Promise<Response>((resolve) => { resolvePost = resolve; }));
+
+    const connecting = stream.connect();
+    await stream.disconnect();
+    resolvePost(listenKeyResponse('key-1'));
+    await connecting;
+
+    expect(methods()).toEqual(['POST', 'DELETE']);
+    expect(stream.getStatus().connecting).toBe(false);
+  });
+
+  it('keeps retrying past the base attempt limit with capped backoff', async () => {
+    const connect = jest.spyOn(stream, 'connect').mockResolvedValue();
+    (stream as any).reconnectAttempts = 50;
+
+    (stream as any).scheduleReconnect();
+    jest.advanceTimersByTime(userStreamConfig.reconnectMaxDelayMs);
+
+    expect(connect).toHaveBeenCalledTimes(1);
+  });
+});
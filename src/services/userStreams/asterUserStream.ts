@@ -0,0 +1,154 @@
+import { BaseExchangeClient } from '@/services/exchanges/base';
+import { exchangeConfig, userStreamConfig } from '@/config/exchanges';
+import { logger } from '@/utils/logger';
+
+interface AsterUserMessage {
+  e?: string;
+  E?: number;
+  a?: {
+    m?: string; // Reason, e.g. ORDER, FUNDING_FEE, MARGIN_TRANSFER
+    P?: unknown[];
+  };
+}
+
+/**
+ * Aster user-data stream for a single wallet
+ *
+ * Aster user streams are keyed by a listenKey created with the wallet's API key, so each
+ * tracked wallet gets its own connection. The key is kept alive on an interval and a fresh
+ * one is requested whenever the connection is re-established.
+ *
+ * ACCOUNT_UPDATE events only carry the positions that changed and omit mark price and
+ * leverage, so they're surfaced as a signal to re-read positions rather than applied directly.
+ *
+ * Emits: 'accountUpdate' (reason)
+ */
+export class AsterUserStream extends BaseExchangeClient {
+  private apiKey: string;
+  private listenKey: string | null = null;
+  private keepaliveInterval: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(apiKey: string) {
+    super('Aster user stream', exchangeConfig.aster.wsUrl);
+    this.apiKey = apiKey;
+    this.maxReconnectAttempts = Infinity;
+    this.maxReconnectDelay = userStreamConfig.reconnectMaxDelayMs;
+  }
+
+  /**
+   * Open the connection with a fresh listenKey; a stream that has been disconnected stays closed
+   */
+  async connect(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+
+    const listenKey = await this.requestListenKey('POST');
+    if (this.stopped) {
+      // Disconnected while the key was being created, so disconnect() couldn't close it
+      await this.requestListenKey('DELETE').catch(() => undefined);
+      return;
+    }
+    if (!listenKey) {
+      throw new Error('Aster did not return a listenKey');
+    }
+    this.listenKey = listenKey;
+    this.url = `${exchangeConfig.aster.wsUrl}/ws/${this.listenKey}`;
+
+    await this.createWebSocket();
+    if (!this.stopped) {
+      this.startKeepalive();
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopped = true;
+    this.cancelReconnect();
+    this.stopHeartbeat();
+    this.stopKeepalive();
+
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+
+    if (this.listenKey) {
+      await this.requestListenKey('DELETE').catch((error) => {
+        logger.debug('Aster user stream: failed to delete listenKey', error);
+      });
+      this.listenKey = null;
+    }
+
+    this.isConnected = false;
+    this.isConnecting = false;
+  }
+
+  async subscribe(_symbols: string[]): Promise<void> {
+    // A user stream covers the whole account; there is nothing to subscribe to
+  }
+
+  async unsubscribe(_symbols: string[]): Promise<void> {
+    // See subscribe()
+  }
+
+  sendHeartbeat(): void {
+    // The server pings and the base class answers; the listenKey keepalive is separate
+  }
+
+  protected override scheduleReconnect(): void {
+    this.stopKeepalive();
+    if (this.stopped) {
+      return;
+    }
+    super.scheduleReconnect();
+  }
+
+  protected handleMessage(message: AsterUserMessage): void {
+    if (message.e === 'ACCOUNT_UPDATE') {
+      this.emit('accountUpdate', message.a?.m || 'UNKNOWN');
+      return;
+    }
+
+    if (message.e === 'listenKeyExpired') {
+      // Closing triggers a reconnect, which requests a new listenKey
+      logger.warn('Aster user stream listenKey expired, reconnecting');
+      this.ws?.close();
+    }
+  }
+
+  private startKeepalive(): void {
+    this.stopKeepalive();
+    this.keepaliveInterval = setInterval(() => {
+      this.requestListenKey('PUT').catch((error) => {
+        logger.warn('Aster user stream: listenKey keepalive failed', error);
+      });
+    }, userStreamConfig.asterListenKeyKeepaliveMs);
+  }
+
+  private stopKeepalive(): void {
+    if (this.keepaliveInterval) {
+      clearInterval(this.keepaliveInterval);
+      this.keepaliveInterval = null;
+    }
+  }
+
+  /**
+   * Create (POST), extend (PUT) or close (DELETE) the listenKey
+   */
+  private async requestListenKey(method: 'POST' | 'PUT' | 'DELETE'): Promise<string> {
+    const response = await fetch(`${exchangeConfig.aster.restUrl}/fapi/v1/listenKey`, {
+      method,
+      headers: {
+        'X-MBX-APIKEY': this.apiKey,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Aster listenKey ${method} failed: ${response.status} ${response.statusText}`);
+    }
+
+    const body = (await response.json()) as { listenKey?: string };
+    return body.listenKey || this.listenKey || '';
+  }
+}
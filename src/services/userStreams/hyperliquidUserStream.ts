@@ -0,0 +1,138 @@
+import { BaseExchangeClient } from '@/services/exchanges/base';
+import type { HyperliquidUserState } from '@/services/sync/hyperliquidPositionSync';
+import { exchangeConfig, userStreamConfig } from '@/config/exchanges';
+import { logger } from '@/utils/logger';
+
+interface HyperliquidUserMessage {
+  channel?: string;
+  data?: {
+    user?: string;
+    clearinghouseState?: HyperliquidUserState;
+  };
+}
+
+/**
+ * Hyperliquid user-data stream
+ *
+ * One connection carries a `webData2` subscription per tracked wallet. Each push holds
+ * the wallet's full clearinghouse state, so it can be applied like a REST sync. (`userEvents`
+ * pushes don't name the user, so they can't be told apart on a shared connection.)
+ *
+ * Emits: 'positions' (lowercased walletAddress, assetPositions)
+ */
+export class HyperliquidUserStream extends BaseExchangeClient {
+  private wallets: Set<string> = new Set();
+  private stopped = false;
+
+  constructor() {
+    super('Hyperliquid user stream', exchangeConfig.hyperliquid.wsUrl);
+    this.maxReconnectAttempts = Infinity;
+    this.maxReconnectDelay = userStreamConfig.reconnectMaxDelayMs;
+  }
+
+  /**
+   * Open the connection; a stream that has been disconnected stays closed
+   */
+  async connect(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+    await this.createWebSocket();
+
+    // Re-subscribe after reconnection
+    for (const wallet of this.wallets) {
+      this.sendSubscription('subscribe', wallet);
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopped = true;
+    this.cancelReconnect();
+    this.stopHeartbeat();
+
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+
+    this.isConnected = false;
+    this.isConnecting = false;
+    this.subscriptions.clear();
+  }
+
+  async subscribe(wallets: string[]): Promise<void> {
+    for (const wallet of wallets) {
+      const key = wallet.toLowerCase();
+      if (this.wallets.has(key)) {
+        continue;
+      }
+
+      this.wallets.add(key);
+      this.subscriptions.add(key);
+
+      // Subscriptions made while disconnected are sent on (re)connect
+      if (this.isConnected) {
+        this.sendSubscription('subscribe', key);
+      }
+    }
+  }
+
+  async unsubscribe(wallets: string[]): Promise<void> {
+    for (const wallet of wallets) {
+      const key = wallet.toLowerCase();
+      if (!this.wallets.delete(key)) {
+        continue;
+      }
+
+      this.subscriptions.delete(key);
+      if (this.isConnected) {
+        this.sendSubscription('unsubscribe', key);
+      }
+    }
+  }
+
+  sendHeartbeat(): void {
+    this.sendMessage({ method: 'ping' });
+  }
+
+  protected override scheduleReconnect(): void {
+    if (this.stopped) {
+      return;
+    }
+    super.scheduleReconnect();
+  }
+
+  protected handleMessage(message: HyperliquidUserMessage): void {
+    if (message.channel !== 'webData2') {
+      // pong, subscriptionResponse and error channels need no handling
+      if (message.channel === 'error') {
+        logger.warn('Hyperliquid user stream error:', message.data);
+      }
+      return;
+    }
+
+    const user = message.data?.user;
+    const state = message.data?.clearinghouseState;
+    if (!user || !state || !state.assetPositions) {
+      return;
+    }
+
+    // Ignore late pushes for wallets we've stopped tracking
+    const key = user.toLowerCase();
+    if (!this.wallets.has(key)) {
+      return;
+    }
+
+    this.emit('positions', key, state.assetPositions);
+  }
+
+  private sendSubscription(method: 'subscribe' | 'unsubscribe', wallet: string): void {
+    this.sendMessage({
+      method,
+      subscription: {
+        type: 'webData2',
+        user: wallet,
+      },
+    });
+  }
+}
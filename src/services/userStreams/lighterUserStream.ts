@@ -0,0 +1,131 @@
+import { BaseExchangeClient } from '@/services/exchanges/base';
+import { LighterRestClient } from '@/services/adapters/lighter';
+import { exchangeConfig, userStreamConfig } from '@/config/exchanges';
+import { logger } from '@/utils/logger';
+
+interface LighterAccountMessage {
+  channel?: string;
+  type?: string;
+  account?: number;
+  // Keyed by market index
+  positions?: Record<string, unknown>;
+}
+
+/**
+ * Lighter account stream
+ *
+ * One connection carries an `account_all/<index>` subscription per tracked account.
+ * Every message includes the account's full positions map, so it can be applied like
+ * a REST sync.
+ *
+ * Emits: 'positions' (accountIndex, LighterPosition[])
+ */
+export class LighterUserStream extends BaseExchangeClient {
+  private accounts: Set<number> = new Set();
+  private stopped = false;
+
+  constructor() {
+    super('Lighter user stream', exchangeConfig.lighter.wsUrl);
+    this.maxReconnectAttempts = Infinity;
+    this.maxReconnectDelay = userStreamConfig.reconnectMaxDelayMs;
+  }
+
+  /**
+   * Open the connection; a stream that has been disconnected stays closed
+   */
+  async connect(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+    await this.createWebSocket();
+
+    // Re-subscribe after reconnection
+    for (const accountIndex of this.accounts) {
+      this.sendSubscription('subscribe', accountIndex);
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.stopped = true;
+    this.cancelReconnect();
+    this.stopHeartbeat();
+
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+
+    this.isConnected = false;
+    this.isConnecting = false;
+    this.subscriptions.clear();
+  }
+
+  async subscribe(accountIndexes: string[]): Promise<void> {
+    for (const value of accountIndexes) {
+      const accountIndex = parseInt(value);
+      if (isNaN(accountIndex) || this.accounts.has(accountIndex)) {
+        continue;
+      }
+
+      this.accounts.add(accountIndex);
+      this.subscriptions.add(value);
+
+      // Subscriptions made while disconnected are sent on (re)connect
+      if (this.isConnected) {
+        this.sendSubscription('subscribe', accountIndex);
+      }
+    }
+  }
+
+  async unsubscribe(accountIndexes: string[]): Promise<void> {
+    for (const value of accountIndexes) {
+      const accountIndex = parseInt(value);
+      if (!this.accounts.delete(accountIndex)) {
+        continue;
+      }
+
+      this.subscriptions.delete(value);
+      if (this.isConnected) {
+        this.sendSubscription('unsubscribe', accountIndex);
+      }
+    }
+  }
+
+  sendHeartbeat(): void {
+    // Lighter has no ping message; a protocol-level ping keeps idle connections open
+    this.ws?.ping();
+  }
+
+  protected override scheduleReconnect(): void {
+    if (this.stopped) {
+      return;
+    }
+    super.scheduleReconnect();
+  }
+
+  protected handleMessage(message: LighterAccountMessage): void {
+    // Channel format: "account_all:<index>"
+    const [channelType, indexPart] = (message.channel || '').split(':');
+    if (channelType !== 'account_all' || !message.positions) {
+      if (message.type === 'error') {
+        logger.warn('Lighter user stream error:', message);
+      }
+      return;
+    }
+
+    const accountIndex = message.account ?? parseInt(indexPart);
+    if (!this.accounts.has(accountIndex)) {
+      return;
+    }
+
+    const positions = LighterRestClient.parsePositions(Object.values(message.positions));
+    this.emit('positions', accountIndex, positions);
+  }
+
+  private sendSubscription(type: 'subscribe' | 'unsubscribe', accountIndex: number): void {
+    this.sendMessage({
+      type,
+      channel: `account_all/${accountIndex}`,
+    });
+  }
+}
@@ -0,0 +1,359 @@
+import { PositionService } from '../database/positionService';
+import { hyperliquidPositionSync, HyperliquidUserState } from '../sync/hyperliquidPositionSync';
+import { asterPositionSync } from '../sync/asterPositionSync';
+import { lighterPositionSync } from '../sync/lighterPositionSync';
+import { positionSyncOrchestrator } from '../sync/positionSyncOrchestrator';
+import { HyperliquidUserStream } from './hyperliquidUserStream';
+import { AsterUserStream } from './asterUserStream';
+import { LighterUserStream } from './lighterUserStream';
+import { getAsterCredentials } from '@/services/adapters/aster';
+import type { LighterPosition } from '@/services/adapters/lighter';
+import { userStreamConfig } from '@/config/exchanges';
+import { logger } from '@/utils/logger';
+
+type StreamPlatform = 'hyperliquid' | 'aster' | 'lighter';
+
+/**
+ * Keeps exchange user-data streams open for every tracked wallet and applies what they
+ * push to PositionService, publishing positions:update:<wallet> after each change.
+ *
+ * Bursts of pushes for the same wallet and platform are coalesced so only the latest
+ * state is written, and writes for one wallet/platform never overlap.
+ */
+export class UserStreamManager {
+  private hyperliquidStream: HyperliquidUserStream;
+  private lighterStream: LighterUserStream;
+  private asterStreams: Map<string, AsterUserStream> = new Map();
+  // Wallets whose Aster stream failed to open; retried on every wallet refresh
+  private asterRetries: Set<string> = new Set();
+
+  // Lowercased wallet -> address as stored on positions
+  private wallets: Map<string, string> = new Map();
+  private hyperliquidWallets: Set<string> = new Set();
+  private lighterAccounts: Map<number, string> = new Map();
+
+  private pendingApplies: Map<string, () => Promise<unknown>> = new Map();
+  private applyTimers: Map<string, NodeJS.Timeout> = new Map();
+  private applying: Set<string> = new Set();
+
+  private refreshIntervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isRefreshing = false;
+
+  private readonly CONCURRENCY = 5;
+
+  constructor() {
+    this.hyperliquidStream = this.createHyperliquidStream();
+    this.lighterStream = this.createLighterStream();
+  }
+
+  /**
+   * Streams stay closed once disconnected, so each start() needs fresh shared streams
+   */
+  private createHyperliquidStream(): HyperliquidUserStream {
+    const stream = new HyperliquidUserStream();
+    // Socket errors are logged by the base client; without a listener EventEmitter would throw them
+    stream.on('error', () => undefined);
+    stream.on('positions', (key: string, assetPositions: HyperliquidUserState['assetPositions']) => {
+      const wallet = this.wallets.get(key);
+      if (wallet) {
+        this.scheduleApply(key, 'hyperliquid', () => hyperliquidPositionSync.applyPositions(wallet, assetPositions));
+      }
+    });
+    return stream;
+  }
+
+  private createLighterStream(): LighterUserStream {
+    const stream = new LighterUserStream();
+    stream.on('error', () => undefined);
+    stream.on('positions', (accountIndex: number, positions: LighterPosition[]) => {
+      const key = this.lighterAccounts.get(accountIndex);
+      const wallet = key && this.wallets.get(key);
+      if (key && wallet) {
+        this.scheduleApply(key, 'lighter', () => lighterPositionSync.applyPositions(wallet, positions));
+      }
+    });
+    return stream;
+  }
+
+  /**
+   * Connect the shared streams and start tracking active wallets
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn('User stream manager already running');
+      return;
+    }
+
+    this.isRunning = true;
+    logger.info('Starting user stream manager');
+
+    // A failed first connect is retried by the stream's own reconnect logic
+    await Promise.all([
+      this.hyperliquidStream.connect().catch((error) => {
+        logger.error('Hyperliquid user stream failed to connect:', error);
+      }),
+      this.lighterStream.connect().catch((error) => {
+        logger.error('Lighter user stream failed to connect:', error);
+      }),
+    ]);
+
+    await this.refreshWallets();
+    this.refreshIntervalId = setInterval(() => {
+      this.refreshWallets();
+    }, userStreamConfig.walletRefreshIntervalMs);
+  }
+
+  /**
+   * Close every stream and drop pending writes
+   */
+  async stop(): Promise<void> {
+    if (this.refreshIntervalId) {
+      clearInterval(this.refreshIntervalId);
+      this.refreshIntervalId = null;
+    }
+
+    for (const timer of this.applyTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.applyTimers.clear();
+    this.pendingApplies.clear();
+
+    this.isRunning = false;
+
+    await this.hyperliquidStream.disconnect();
+    await this.lighterStream.disconnect();
+    await Promise.all(Array.from(this.asterStreams.values()).map((stream) => stream.disconnect()));
+    this.asterStreams.clear();
+    this.asterRetries.clear();
+    this.hyperliquidStream = this.createHyperliquidStream();
+    this.lighterStream = this.createLighterStream();
+
+    this.wallets.clear();
+    this.hyperliquidWallets.clear();
+    this.lighterAccounts.clear();
+    logger.info('User stream manager stopped');
+  }
+
+  /**
+   * Track wallets that became active and release ones that no longer are
+   */
+  private async refreshWallets(): Promise<void> {
+    if (this.isRefreshing) {
+      return;
+    }
+    this.isRefreshing = true;
+
+    try {
+      const active = await PositionService.getActiveWalletAddresses(1000);
+      const activeKeys = new Set(active.map((wallet) => wallet.toLowerCase()));
+
+      for (const key of Array.from(this.wallets.keys())) {
+        if (!activeKeys.has(key)) {
+          await this.untrackWallet(key);
+        }
+      }
+
+      const added = active.filter((wallet) => !this.wallets.has(wallet.toLowerCase()));
+      for (let i = 0; i < added.length; i += this.CONCURRENCY) {
+        const batch = added.slice(i, i + this.CONCURRENCY);
+        await Promise.allSettled(batch.map((wallet) => this.trackWallet(wallet)));
+      }
+
+      const retries = Array.from(this.asterRetries);
+      for (let i = 0; i < retries.length; i += this.CONCURRENCY) {
+        const batch = retries.slice(i, i + this.CONCURRENCY);
+        await Promise.allSettled(batch.map((key) => this.connectAsterStream(key)));
+      }
+
+      // Hyperliquid slots are scarce, so give free ones to the most recently active wallets
+      const hyperliquidCandidates = active
+        .map((wallet) => wallet.toLowerCase())
+        .filter((key) => !this.hyperliquidWallets.has(key))
+        .slice(0, Math.max(userStreamConfig.hyperliquidMaxWallets - this.hyperliquidWallets.size, 0));
+      if (hyperliquidCandidates.length > 0) {
+        hyperliquidCandidates.forEach((key) => this.hyperliquidWallets.add(key));
+        await this.hyperliquidStream.subscribe(hyperliquidCandidates);
+      }
+
+      if (added.length > 0) {
+        logger.info(`User streams tracking ${this.wallets.size} wallets (${added.length} new)`);
+      }
+    } catch (error) {
+      logger.error('Failed to refresh user stream wallets:', error);
+    } finally {
+      this.isRefreshing = false;
+    }
+  }
+
+  /**
+   * Open the per-wallet Aster stream and subscribe the Lighter account, where available
+   */
+  private async trackWallet(walletAddress: string): Promise<void> {
+    const key = walletAddress.toLowerCase();
+    this.wallets.set(key, walletAddress);
+
+    const accountIndex = await lighterPositionSync.resolveAccountIndex(walletAddress);
+    if (accountIndex !== null && this.wallets.has(key)) {
+      this.lighterAccounts.set(accountIndex, key);
+      await this.lighterStream.subscribe([accountIndex.toString()]);
+    }
+
+    await this.connectAsterStream(key);
+  }
+
+  /**
+   * Open the wallet's Aster stream if it has credentials. A failed connect is retried on
+   * the next wallet refresh; until then the reconciliation poller covers the wallet.
+   */
+  private async connectAsterStream(key: string): Promise<void> {
+    this.asterRetries.delete(key);
+    const walletAddress = this.wallets.get(key);
+    if (!walletAddress || this.asterStreams.has(key)) {
+      return;
+    }
+
+    const credentials = await getAsterCredentials(walletAddress);
+    if (!credentials) {
+      return;
+    }
+
+    const stream = new AsterUserStream(credentials.apiKey);
+    stream.on('error', () => undefined);
+    stream.on('accountUpdate', (reason: string) => {
+      logger.debug(`Aster account update for ${walletAddress}: ${reason}`);
+      this.scheduleApply(key, 'aster', () =>
+        asterPositionSync.syncPositionsWithApiKeys(walletAddress, credentials.apiKey, credentials.apiSecret)
+      );
+    });
+
+    try {
+      await stream.connect();
+    } catch (error) {
+      logger.warn(`Aster user stream unavailable for ${walletAddress}:`, error);
+      await stream.disconnect();
+      if (this.isRunning && this.wallets.has(key)) {
+        this.asterRetries.add(key);
+      }
+      return;
+    }
+
+    // The wallet was released or the manager stopped while connecting
+    if (!this.isRunning || !this.wallets.has(key) || this.asterStreams.has(key)) {
+      await stream.disconnect();
+      return;
+    }
+    this.asterStreams.set(key, stream);
+  }
+
+  /**
+   * Close and unsubscribe everything held for a wallet
+   */
+  private async untrackWallet(key: string): Promise<void> {
+    if (this.hyperliquidWallets.delete(key)) {
+      await this.hyperliquidStream.unsubscribe([key]);
+    }
+
+    for (const [accountIndex, owner] of this.lighterAccounts) {
+      if (owner === key) {
+        this.lighterAccounts.delete(accountIndex);
+        await this.lighterStream.unsubscribe([accountIndex.toString()]);
+      }
+    }
+
+    this.asterRetries.delete(key);
+    const asterStream = this.asterStreams.get(key);
+    if (asterStream) {
+      this.asterStreams.delete(key);
+      await asterStream.disconnect();
+    }
+
+    for (const platform of ['hyperliquid', 'aster', 'lighter'] as StreamPlatform[]) {
+      const id = `${platform}:${key}`;
+      const timer = this.applyTimers.get(id);
+      if (timer) {
+        clearTimeout(timer);
+        this.applyTimers.delete(id);
+      }
+      this.pendingApplies.delete(id);
+    }
+
+    this.wallets.delete(key);
+  }
+
+  /**
+   * Queue a write for a wallet/platform, replacing any write that hasn't run yet
+   */
+  private scheduleApply(key: string, platform: StreamPlatform, apply: () => Promise<unknown>): void {
+    const id = `${platform}:${key}`;
+    this.pendingApplies.set(id, apply);
+
+    if (!this.applyTimers.has(id)) {
+      this.applyTimers.set(id, setTimeout(() => {
+        this.runApply(id, key, platform);
+      }, userStreamConfig.applyDebounceMs));
+    }
+  }
+
+  private async runApply(id: string, key: string, platform: StreamPlatform): Promise<void> {
+    this.applyTimers.delete(id);
+
+    // The previous write is still running; try again once it has had time to finish
+    if (this.applying.has(id)) {
+      this.applyTimers.set(id, setTimeout(() => {
+        this.runApply(id, key, platform);
+      }, userStreamConfig.applyDebounceMs));
+      return;
+    }
+
+    const apply = this.pendingApplies.get(id);
+    const wallet = this.wallets.get(key);
+    this.pendingApplies.delete(id);
+    if (!apply || !wallet) {
+      return;
+    }
+
+    this.applying.add(id);
+    try {
+      await apply();
+      await positionSyncOrchestrator.publishPositions(wallet, platform);
+    } catch (error) {
+      logger.error(`Failed to apply ${platform} user stream update for ${wallet}:`, error);
+    } finally {
+      this.applying.delete(id);
+    }
+  }
+
+  /**
+   * Get connection and tracking status
+   */
+  getStatus(): {
+    isRunning: boolean;
+    trackedWallets: number;
+    hyperliquid: { connected: boolean; wallets: number; maxWallets: number };
+    lighter: { connected: boolean; accounts: number };
+    aster: { streams: number; connected: number };
+  } {
+    const asterStreams = Array.from(this.asterStreams.values());
+    return {
+      isRunning: this.isRunning,
+      trackedWallets: this.wallets.size,
+      hyperliquid: {
+        connected: this.hyperliquidStream.getStatus().connected,
+        wallets: this.hyperliquidWallets.size,
+        maxWallets: userStreamConfig.hyperliquidMaxWallets,
+      },
+      lighter: {
+        connected: this.lighterStream.getStatus().connected,
+        accounts: this.lighterAccounts.size,
+      },
+      aster: {
+        streams: asterStreams.length,
+        connected: asterStreams.filter((stream) => stream.getStatus().connected).length,
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const userStreamManager = new UserStreamManager();
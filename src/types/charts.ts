@@ -16,10 +16,35 @@ export interface Candle extends OHLCV {
   vwap?: string;
   priceChange?: string;
   priceChangePercent?: string;
+  // Set on flat zero-volume candles filled in for intervals without trades
+  synthetic?: boolean;
 }
 
 export type Timeframe = '1s' | '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
 
+// Any `<count><unit>` interval a client may request (3m, 2h, 1w, ...); only Timeframe values are stored
+export type ChartInterval = Timeframe | `${number}${'s' | 'm' | 'h' | 'd' | 'w'}`;
+
+// A candle resampled from stored candles into a requested interval
+export interface ResampledCandle extends Omit<Candle, 'timeframe'> {
+  timeframe: ChartInterval;
+}
+
+// How intervals without trades are returned: carried forward from the previous close, or left out
+export type CandleFillMode = 'previous' | 'none';
+
+export interface CandleCompleteness {
+  fill: CandleFillMode;
+  // Interval slots covered by the returned series
+  expected: number;
+  // Slots with a real candle
+  actual: number;
+  // Slots filled with synthetic candles
+  filled: number;
+  // Slots left empty (fill=none, or with no earlier candle to carry forward)
+  missing: number;
+}
+
 export interface ChartDataRequest {
   symbol: string;
   exchange?: 'hyperliquid' | 'aster' | 'lighter' | 'avantis';
@@ -46,6 +71,8 @@ export interface ChartUpdate {
   type: 'update' | 'new';
 }
 
+export type ChartIndicator = 'sma' | 'ema' | 'rsi' | 'macd' | 'bb';
+
 export interface ChartMetrics {
   symbol: string;
   exchange: 'hyperliquid' | 'aster' | 'lighter' | 'avantis';
@@ -75,6 +102,10 @@ export interface ChartMetrics {
       lower: string;
     };
   };
+  // Open time of the latest candle the metrics include
+  candleTimestamp: number;
+  // Number of candles the indicators were computed from, including the forming one
+  candleCount: number;
 }
 
 export interface TickData {
@@ -84,6 +84,7 @@ export interface ServerConfig {
     lighter: {
       wsUrl: string;
       restUrl: string;
+      chainId: number;
     };
     avantis: {
       wsUrl: string;
@@ -27,6 +27,10 @@ export interface OrderbookUpdate {
   asks?: PriceLevel[];
   timestamp: number;
   sequence: number;
+  // Sequence the venue says this diff follows, when it provides one
+  prevSequence?: number;
+  // First sequence this diff covers, when it can span several venue updates
+  firstSequence?: number;
   type: 'snapshot' | 'diff';
 }
 
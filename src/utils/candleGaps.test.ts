@@ -0,0 +1,95 @@
+import { CandleFillOptions, fillCandleGaps } from './candleGaps';
+
+interface Bar {
+  timestamp: number;
+  close: number;
+  synthetic?: boolean;
+}
+
+const MINUTE = 60 * 1000;
+const spec = { ms: MINUTE, offsetMs: 0 };
+
+function bar(minute: number, close = minute): Bar {
+  return { timestamp: minute * MINUTE, close };
+}
+
+function fill(candles: Bar[], options: Partial<CandleFillOptions<Bar>> = {}) {
+  return fillCandleGaps(candles, {
+    fill: 'previous',
+    spec,
+    from: 0,
+    to: 9 * MINUTE,
+    maxCandles: 100,
+    createFill: (previous, timestamp) => ({ timestamp, close: previous.close, synthetic: true }),
+    ...options,
+  });
+}
+
+const minutes = (candles: Bar[]) => candles.map((candle) => candle.timestamp / MINUTE);
+
+describe('fillCandleGaps', () => {
+  it('carries the previous close into empty slots after the first candle', () => {
+    const result = fill([bar(2), bar(5)], { to: 6 * MINUTE });
+
+    expect(minutes(result.candles)).toEqual([2, 3, 4, 5, 6]);
+    expect(result.candles.filter((candle) => candle.synthetic).map((candle) => candle.close)).toEqual([2, 2, 5]);
+    expect(result.completeness).toEqual({ fill: 'previous', expected: 7, actual: 2, filled: 3, missing: 2 });
+    expect(result.truncated).toBe(false);
+  });
+
+  it('leaves empty slots missing with fill=none', () => {
+    const result = fill([bar(2), bar(5)], { fill: 'none', to: 6 * MINUTE });
+
+    expect(minutes(result.candles)).toEqual([2, 5]);
+    expect(result.completeness).toEqual({ fill: 'none', expected: 7, actual: 2, filled: 0, missing: 5 });
+    expect(result.truncated).toBe(false);
+  });
+
+  it('fills leading slots from the candle before the range', () => {
+    const result = fill([bar(3, 30)], { from: 1 * MINUTE, to: 4 * MINUTE, previous: bar(-5, 7) });
+
+    expect(minutes(result.candles)).toEqual([1, 2, 3, 4]);
+    expect(result.candles.map((candle) => candle.close)).toEqual([7, 7, 30, 30]);
+    expect(result.completeness).toMatchObject({ actual: 1, filled: 3, missing: 0 });
+  });
+
+  it('fills the whole range from the previous candle when none fall inside it', () => {
+    const result = fill([], { from: 1 * MINUTE, to: 3 * MINUTE, previous: bar(0) });
+
+    expect(minutes(result.candles)).toEqual([1, 2, 3]);
+    expect(result.completeness).toMatchObject({ actual: 0, filled: 3, missing: 0 });
+  });
+
+  it('reports truncation when synthetic bars use up the limit before the last candle', () => {
+    const result = fill([bar(0), bar(8)], { maxCandles: 4 });
+
+    expect(minutes(result.candles)).toEqual([0, 1, 2, 3]);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('is not truncated when the limit is hit exactly at the end of the range', () => {
+    const result = fill([bar(0), bar(3)], { to: 3 * MINUTE, maxCandles: 4 });
+
+    expect(minutes(result.candles)).toEqual([0, 1, 2, 3]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('is not truncated by trailing empty slots that would not be returned', () => {
+    const result = fill([bar(0), bar(1)], { fill: 'none', maxCandles: 2 });
+
+    expect(result.truncated).toBe(false);
+  });
+
+  it('skips a long run of empty slots in one step', () => {
+    const result = fill([bar(0), bar(1_000_000)], { fill: 'none', to: 1_000_000 * MINUTE });
+
+    expect(minutes(result.candles)).toEqual([0, 1_000_000]);
+    expect(result.completeness.missing).toBe(999_999);
+  });
+
+  it('includes a candle opening in the bucket that contains `from`', () => {
+    const result = fill([bar(1), bar(2)], { from: 1 * MINUTE + 30_000, to: 2 * MINUTE });
+
+    expect(minutes(result.candles)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,91 @@
+import { CandleCompleteness, CandleFillMode } from '@/types';
+import { IntervalSpec, getBucketStart } from './timeframes';
+
+export const CANDLE_FILL_MODES: CandleFillMode[] = ['previous', 'none'];
+
+export interface CandleFillOptions<T> {
+  fill: CandleFillMode;
+  spec: Pick<IntervalSpec, 'ms' | 'offsetMs'>;
+  // Slots whose open time falls in [from, to]
+  from: number;
+  to: number;
+  // Stop after this many returned candles, keeping the earliest
+  maxCandles: number;
+  // Last candle before `from`, carried into empty slots ahead of the first candle in range
+  previous?: T | null;
+  // Flat candle carrying `previous`'s close into an empty slot
+  createFill: (previous: T, timestamp: number) => T;
+}
+
+/**
+ * Walk the interval slots of an ascending, interval-aligned candle series and, with
+ * fill=previous, synthesize a candle for every empty slot after the first real one
+ * (or after `options.previous`). Runs of empty slots that can't be filled are skipped
+ * in one step, so the cost is bounded by the candles returned rather than the length
+ * of the range. `truncated` is set when maxCandles cut off candles later in the range.
+ */
+export function fillCandleGaps<T extends { timestamp: number }>(
+  candles: T[],
+  options: CandleFillOptions<T>
+): { candles: T[]; completeness: CandleCompleteness; truncated: boolean } {
+  const { fill, spec } = options;
+
+  // First slot at or after `from`, or the bucket containing it when a candle starts there
+  let first = getBucketStart(options.from, spec);
+  if (first < options.from && !(candles.length > 0 && candles[0].timestamp <= first)) {
+    first += spec.ms;
+  }
+  const end = getBucketStart(options.to, spec) + spec.ms;
+
+  const result: T[] = [];
+  let previous: T | null = options.previous ?? null;
+  let index = 0;
+  let actual = 0;
+  let filled = 0;
+  let missing = 0;
+  let slot = first;
+
+  while (slot < end && result.length < options.maxCandles) {
+    // Drop anything before the current slot (duplicates or misaligned candles)
+    while (index < candles.length && candles[index].timestamp < slot) {
+      index += 1;
+    }
+    const candle = candles[index];
+
+    if (candle && candle.timestamp === slot) {
+      result.push(candle);
+      previous = candle;
+      actual += 1;
+      index += 1;
+      slot += spec.ms;
+    } else if (fill === 'previous' && previous) {
+      result.push(options.createFill(previous, slot));
+      filled += 1;
+      slot += spec.ms;
+    } else {
+      const next = candle ? Math.min(getBucketStart(candle.timestamp, spec), end) : end;
+      const skipped = Math.max(1, Math.round((next - slot) / spec.ms));
+      missing += skipped;
+      slot += skipped * spec.ms;
+    }
+  }
+
+  // Stopped early with a real candle, or a slot that would be filled, still ahead
+  while (index < candles.length && candles[index].timestamp < slot) {
+    index += 1;
+  }
+  const truncated = slot < end
+    && ((index < candles.length && candles[index].timestamp < end) || (fill === 'previous' && previous !== null));
+
+  return {
+    candles: result,
+    truncated,
+    completeness: {
+      fill,
+      expected: actual + filled + missing,
+      actual,
+      filled,
+      missing,
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { ChartInterval, Timeframe } from '@/types';
+
+export const TIMEFRAME_MS: Record<Timeframe, number> = {
+  '1s': 1000,
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+// Timeframes materialized in the cache and candles table
+export const STORED_TIMEFRAMES = Object.keys(TIMEFRAME_MS) as Timeframe[];
+
+const UNIT_MS = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Unix time 0 was a Thursday; weekly buckets start on Monday 00:00 UTC like exchange klines
+const WEEK_OFFSET_MS = 4 * UNIT_MS.d;
+
+// Longest interval a client can request
+const MAX_INTERVAL_MS = 4 * UNIT_MS.w;
+
+export interface IntervalSpec {
+  interval: ChartInterval;
+  ms: number;
+  // Bucket boundaries are at offsetMs + k * ms
+  offsetMs: number;
+}
+
+export function isStoredTimeframe(interval: string): interval is Timeframe {
+  return interval in TIMEFRAME_MS;
+}
+
+/**
+ * Parse a `<count><unit>` interval such as 3m, 2h or 1w. Returns null for anything
+ * malformed or longer than four weeks.
+ */
+export function parseInterval(interval: string): IntervalSpec | null {
+  const match = /^(\d+)([smhdw])$/.exec(interval);
+  if (!match) {
+    return null;
+  }
+
+  const count = parseInt(match[1], 10);
+  const unit = match[2] as keyof typeof UNIT_MS;
+  const ms = count * UNIT_MS[unit];
+  if (count < 1 || ms > MAX_INTERVAL_MS) {
+    return null;
+  }
+
+  return {
+    interval: interval as ChartInterval,
+    ms,
+    offsetMs: unit === 'w' ? WEEK_OFFSET_MS : 0,
+  };
+}
+
+/**
+ * Open time of the bucket containing a timestamp
+ */
+export function getBucketStart(timestamp: number, spec: Pick<IntervalSpec, 'ms' | 'offsetMs'>): number {
+  return Math.floor((timestamp - spec.offsetMs) / spec.ms) * spec.ms + spec.offsetMs;
+}
+
+/**
+ * Longest of the given timeframes whose candles tile the interval exactly
+ */
+export function getSourceTimeframe(spec: IntervalSpec, available: Timeframe[] = STORED_TIMEFRAMES): Timeframe | null {
+  const candidates = available
+    .filter((timeframe) => {
+      const ms = TIMEFRAME_MS[timeframe];
+      return spec.ms % ms === 0 && spec.offsetMs % ms === 0;
+    })
+    .sort((a, b) => TIMEFRAME_MS[b] - TIMEFRAME_MS[a]);
+
+  return candidates[0] ?? null;
+}